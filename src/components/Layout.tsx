@@ -3,6 +3,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { User, LogOut } from 'lucide-react';
+import NotificationBell from '@/components/NotificationBell';
 import propertyPayLogo from '@/assets/property-pay-logo.png';
 
 interface LayoutProps {
@@ -48,6 +49,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
             
             {profile && (
               <div className="flex items-center space-x-4">
+                <NotificationBell />
                 <div className="flex items-center space-x-2 text-sm">
                   <User className="h-4 w-4" />
                   <span>{profile.full_name || profile.email}</span>
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Bell, CheckCheck, Settings } from 'lucide-react';
+import NotificationPreferencesDialog from '@/components/NotificationPreferencesDialog';
+import {
+  NOTIFICATION_LIST_LIMIT,
+  markNotificationsRead,
+  type AppNotification,
+} from '@/lib/notificationCenter';
+
+const NotificationBell: React.FC = () => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
+  // Bumped to reload, and whenever a notification arrives
+  const [reloadKey, setReloadKey] = useState(0);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const userId = profile?.user_id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const fetchNotifications = async () => {
+      try {
+        const [listResult, unreadResult] = await Promise.all([
+          supabase
+            .from('notifications')
+            .select('id, kind, title, body, entity_id, read_at, created_at')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false })
+            .limit(NOTIFICATION_LIST_LIMIT),
+          supabase
+            .from('notifications')
+            .select('id', { count: 'exact', head: true })
+            .eq('user_id', userId)
+            .is('read_at', null),
+        ]);
+
+        if (listResult.error) throw listResult.error;
+        if (unreadResult.error) throw unreadResult.error;
+
+        setNotifications(listResult.data || []);
+        setUnreadCount(unreadResult.count ?? 0);
+      } catch (error) {
+        toast({
+          title: 'Error loading notifications',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      }
+    };
+
+    fetchNotifications();
+  }, [userId, reloadKey, toast]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        () => setReloadKey((key) => key + 1)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      await markNotificationsRead(ids);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error updating notifications',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (!profile) return null;
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="relative"
+            aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+          >
+            <Bell className="h-5 w-5" />
+            {unreadCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] rounded-full bg-destructive px-1 text-[10px] font-semibold leading-[1.125rem] text-destructive-foreground">
+                {unreadCount > 99 ? '99+' : unreadCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-0">
+          <div className="flex items-center justify-between border-b px-4 py-3">
+            <span className="font-medium">Notifications</span>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => markRead()}
+                disabled={unreadCount === 0}
+                title="Mark all as read"
+              >
+                <CheckCheck className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => {
+                  setOpen(false);
+                  setShowPreferences(true);
+                }}
+                title="Notification settings"
+              >
+                <Settings className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {notifications.length === 0 ? (
+            <div className="px-4 py-8 text-center text-sm text-muted-foreground">
+              <Bell className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              You're all caught up
+            </div>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              {notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  className={`flex w-full gap-3 border-b px-4 py-3 text-left last:border-0 hover:bg-muted/50 ${
+                    notification.read_at ? '' : 'bg-primary/5'
+                  }`}
+                  onClick={() => !notification.read_at && markRead([notification.id])}
+                >
+                  <span
+                    className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${notification.read_at ? 'bg-transparent' : 'bg-primary'}`}
+                  />
+                  <span className="min-w-0 space-y-0.5">
+                    <span className="block text-sm font-medium">{notification.title}</span>
+                    {notification.body && (
+                      <span className="block text-sm text-muted-foreground">{notification.body}</span>
+                    )}
+                    <span className="block text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      <NotificationPreferencesDialog open={showPreferences} onOpenChange={setShowPreferences} />
+    </>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { notificationKindLabels, notificationKindsForRole, type NotificationKind } from '@/lib/notificationCenter';
+
+interface NotificationPreferencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NotificationPreferencesDialog: React.FC<NotificationPreferencesDialogProps> = ({ open, onOpenChange }) => {
+  // Kinds the user has turned off; everything else is on
+  const [muted, setMuted] = useState<NotificationKind[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const userId = profile?.user_id;
+  const kinds = profile ? notificationKindsForRole[profile.role] : [];
+
+  useEffect(() => {
+    if (!open || !userId) return;
+
+    const fetchPreferences = async () => {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('kind, in_app')
+        .eq('user_id', userId);
+
+      if (error) {
+        toast({
+          title: 'Error loading notification settings',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setMuted((data || []).filter((p) => !p.in_app).map((p) => p.kind));
+    };
+
+    fetchPreferences();
+  }, [open, userId, toast]);
+
+  const handleSave = async () => {
+    if (!userId) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('notification_preferences').upsert(
+        kinds.map((kind) => ({
+          user_id: userId,
+          kind,
+          in_app: !muted.includes(kind),
+          updated_at: new Date().toISOString(),
+        }))
+      );
+
+      if (error) throw error;
+
+      toast({ title: 'Notification settings saved' });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error saving notification settings',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Notification Settings</DialogTitle>
+          <DialogDescription>Choose what shows up under the bell</DialogDescription>
+        </DialogHeader>
+
+        {kinds.length === 0 ? (
+          <p className="text-sm text-muted-foreground">There are no notifications for your account type.</p>
+        ) : (
+          <div className="space-y-4">
+            {kinds.map((kind) => (
+              <div key={kind} className="flex items-center justify-between">
+                <Label htmlFor={`notification-${kind}`}>{notificationKindLabels[kind]}</Label>
+                <Switch
+                  id={`notification-${kind}`}
+                  checked={!muted.includes(kind)}
+                  onCheckedChange={(checked) =>
+                    setMuted((prev) => (checked ? prev.filter((k) => k !== kind) : [...prev, kind]))
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || kinds.length === 0}>
+            {saving ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NotificationPreferencesDialog;
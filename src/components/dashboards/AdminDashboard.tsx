@@ -4,6 +4,7 @@ import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Building2, Users, DollarSign, AlertCircle, Wrench, UserCheck } from 'lucide-react';
+import { isOpenMaintenanceRequest } from '@/lib/maintenance';
 
 interface Stats {
   totalProperties: number;
@@ -11,6 +12,11 @@ interface Stats {
   totalTenants: number;
   totalLandlords: number;
   totalPayments: number;
+  totalPaidOut: number;
+  feeRevenue: number;
+  owedToLandlords: number;
+  cashBalance: number;
+  unpostedPayments: number;
   pendingMaintenance: number;
   occupiedUnits: number;
 }
@@ -22,6 +28,11 @@ const AdminDashboard = () => {
     totalTenants: 0,
     totalLandlords: 0,
     totalPayments: 0,
+    totalPaidOut: 0,
+    feeRevenue: 0,
+    owedToLandlords: 0,
+    cashBalance: 0,
+    unpostedPayments: 0,
     pendingMaintenance: 0,
     occupiedUnits: 0,
   });
@@ -35,16 +46,18 @@ const AdminDashboard = () => {
         propertiesResponse,
         unitsResponse,
         profilesResponse,
-        paymentsResponse,
+        ledgerResponse,
         maintenanceResponse,
-        tenanciesResponse
+        tenanciesResponse,
+        unpostedResponse
       ] = await Promise.all([
         supabase.from('properties').select('id', { count: 'exact' }),
         supabase.from('units').select('id, status', { count: 'exact' }),
         supabase.from('profiles').select('role', { count: 'exact' }),
-        supabase.from('payments').select('amount'),
+        supabase.rpc('get_platform_ledger_summary'),
         supabase.from('maintenance_requests').select('status'),
-        supabase.from('tenancies').select('status')
+        supabase.from('tenancies').select('status'),
+        supabase.from('unposted_payments').select('payment_id', { count: 'exact', head: true })
       ]);
 
       const totalProperties = propertiesResponse.count || 0;
@@ -55,11 +68,12 @@ const AdminDashboard = () => {
       const totalTenants = profiles.filter(p => p.role === 'tenant').length;
       const totalLandlords = profiles.filter(p => p.role === 'landlord').length;
       
-      const totalPayments = paymentsResponse.data?.reduce((sum, payment) => 
-        sum + Number(payment.amount || 0), 0) || 0;
+      // Money figures come from the ledger so they match landlord balances and payouts
+      if (ledgerResponse.error) throw ledgerResponse.error;
+      const ledger = ledgerResponse.data?.[0];
+      const totalPayments = Number(ledger?.total_collected || 0) - Number(ledger?.total_refunded || 0);
       
-      const pendingMaintenance = maintenanceResponse.data?.filter(req => 
-        req.status === 'pending').length || 0;
+      const pendingMaintenance = maintenanceResponse.data?.filter(isOpenMaintenanceRequest).length || 0;
 
       setStats({
         totalProperties,
@@ -67,6 +81,11 @@ const AdminDashboard = () => {
         totalTenants,
         totalLandlords,
         totalPayments,
+        totalPaidOut: Number(ledger?.total_paid_out || 0),
+        feeRevenue: Number(ledger?.fee_revenue || 0),
+        owedToLandlords: Number(ledger?.owed_to_landlords || 0),
+        cashBalance: Number(ledger?.cash_balance || 0),
+        unpostedPayments: unpostedResponse.count || 0,
         pendingMaintenance,
         occupiedUnits,
       });
@@ -160,7 +179,7 @@ const AdminDashboard = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">${stats.totalPayments.toLocaleString()}</div>
-            <p className="text-xs text-muted-foreground">All-time payments</p>
+            <p className="text-xs text-muted-foreground">All-time completed payments, net of refunds</p>
           </CardContent>
         </Card>
 
@@ -220,7 +239,7 @@ const AdminDashboard = () => {
       </div>
 
       {/* Summary Cards */}
-      <div className="grid gap-4 md:grid-cols-2">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
         <Card>
           <CardHeader>
             <CardTitle>Quick Summary</CardTitle>
@@ -251,6 +270,37 @@ const AdminDashboard = () => {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle>Ledger Balances</CardTitle>
+            <CardDescription>Where collected rent currently sits</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex justify-between">
+              <span>Held in MoMo account:</span>
+              <span className="font-medium">${stats.cashBalance.toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Owed to landlords:</span>
+              <span className="font-medium">${stats.owedToLandlords.toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Paid out to landlords:</span>
+              <span className="font-medium">${stats.totalPaidOut.toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Platform fees earned:</span>
+              <span className="font-medium">${stats.feeRevenue.toLocaleString()}</span>
+            </div>
+            {stats.unpostedPayments > 0 && (
+              <div className="flex justify-between text-destructive">
+                <span>Payments not in the ledger:</span>
+                <span className="font-medium">{stats.unpostedPayments}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>System Status</CardTitle>
@@ -5,14 +5,26 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Building2, Users, DollarSign, Plus, Home, Wallet, Receipt, RefreshCw, TrendingUp, MapPin } from 'lucide-react';
+import { Building2, Users, DollarSign, Plus, Home, Wallet, Receipt, RefreshCw, TrendingUp, MapPin, Clock, CalendarClock } from 'lucide-react';
 import PropertyForm from '@/components/forms/PropertyForm';
 import UnitForm from '@/components/forms/UnitForm';
 import TenantManagement from '@/components/landlord/TenantManagement';
+import LeaseTemplates from '@/components/landlord/LeaseTemplates';
 import RentCollection from '@/components/landlord/RentCollection';
+import RentReminders from '@/components/landlord/RentReminders';
+import NotificationLog from '@/components/landlord/NotificationLog';
 import PayoutRequests from '@/components/landlord/PayoutRequests';
+import MaintenanceBoard from '@/components/landlord/MaintenanceBoard';
+import Vendors from '@/components/landlord/Vendors';
+import Expenses from '@/components/landlord/Expenses';
+import Messages from '@/components/messaging/Messages';
+import Announcements from '@/components/landlord/Announcements';
+import ActivityFeed from '@/components/mobile/ActivityFeed';
 import PendingRequests from '@/components/landlord/PendingRequests';
 import PropertyVisibility from '@/components/landlord/PropertyVisibility';
+import LateFeePolicyDialog from '@/components/landlord/LateFeePolicyDialog';
+import RentIncreaseNoticeDialog from '@/components/landlord/RentIncreaseNoticeDialog';
+import { describeLateFeePolicy, type LateFeePolicy } from '@/lib/lateFees';
 
 interface Property {
   id: string;
@@ -20,6 +32,7 @@ interface Property {
   address: string;
   city: string;
   country: string;
+  rent_increase_notice_days: number;
   created_at: string;
 }
 
@@ -34,6 +47,10 @@ interface Unit {
   properties?: Property;
 }
 
+interface PropertyLateFeePolicy extends LateFeePolicy {
+  property_id: string;
+}
+
 const LandlordDashboard = () => {
   const [properties, setProperties] = useState<Property[]>([]);
   const [units, setUnits] = useState<Unit[]>([]);
@@ -41,6 +58,9 @@ const LandlordDashboard = () => {
   const [error, setError] = useState<string | null>(null);
   const [showPropertyForm, setShowPropertyForm] = useState(false);
   const [showUnitForm, setShowUnitForm] = useState(false);
+  const [lateFeePolicies, setLateFeePolicies] = useState<PropertyLateFeePolicy[]>([]);
+  const [lateFeeProperty, setLateFeeProperty] = useState<Property | null>(null);
+  const [noticeProperty, setNoticeProperty] = useState<Property | null>(null);
   const { toast } = useToast();
 
   const fetchData = async () => {
@@ -84,8 +104,16 @@ const LandlordDashboard = () => {
         });
       }
 
+      const { data: policiesData, error: policiesError } = await supabase
+        .from('late_fee_policies')
+        .select('*')
+        .in('property_id', propertiesData?.map(p => p.id) || []);
+
+      if (policiesError) throw policiesError;
+
       setProperties(propertiesData || []);
       setUnits(unitsWithProperties);
+      setLateFeePolicies(policiesData || []);
       
       console.log('Data fetched successfully:', {
         properties: propertiesData?.length || 0,
@@ -127,6 +155,15 @@ const LandlordDashboard = () => {
     });
   };
 
+  const lateFeePolicyFor = (propertyId: string) =>
+    lateFeePolicies.find(policy => policy.property_id === propertyId) || null;
+
+  const averageUnitRent = (propertyId: string) => {
+    const propertyUnits = units.filter(unit => unit.property_id === propertyId);
+    if (propertyUnits.length === 0) return 0;
+    return Math.round(propertyUnits.reduce((sum, unit) => sum + Number(unit.rent_amount || 0), 0) / propertyUnits.length);
+  };
+
   const totalUnits = units.length;
   const occupiedUnits = units.filter(unit => unit.status === 'occupied').length;
   const totalRent = units.reduce((sum, unit) => sum + Number(unit.rent_amount || 0), 0);
@@ -204,7 +241,7 @@ const LandlordDashboard = () => {
 
       {/* Enhanced Main Content Tabs */}
       <Tabs defaultValue="overview" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-7 bg-slate-100/50 p-1 rounded-2xl border">
+        <TabsList className="grid w-full grid-cols-11 bg-slate-100/50 p-1 rounded-2xl border">
           <TabsTrigger value="overview" className="rounded-xl data-[state=active]:bg-white data-[state=active]:shadow-sm">
             Overview
           </TabsTrigger>
@@ -217,12 +254,24 @@ const LandlordDashboard = () => {
           <TabsTrigger value="tenants" className="rounded-xl data-[state=active]:bg-white data-[state=active]:shadow-sm">
             Tenants
           </TabsTrigger>
+          <TabsTrigger value="leases" className="rounded-xl data-[state=active]:bg-white data-[state=active]:shadow-sm">
+            Leases
+          </TabsTrigger>
           <TabsTrigger value="collection" className="rounded-xl data-[state=active]:bg-white data-[state=active]:shadow-sm">
             Collection
           </TabsTrigger>
           <TabsTrigger value="payouts" className="rounded-xl data-[state=active]:bg-white data-[state=active]:shadow-sm">
             Payouts
           </TabsTrigger>
+          <TabsTrigger value="maintenance" className="rounded-xl data-[state=active]:bg-white data-[state=active]:shadow-sm">
+            Maintenance
+          </TabsTrigger>
+          <TabsTrigger value="messages" className="rounded-xl data-[state=active]:bg-white data-[state=active]:shadow-sm">
+            Messages
+          </TabsTrigger>
+          <TabsTrigger value="expenses" className="rounded-xl data-[state=active]:bg-white data-[state=active]:shadow-sm">
+            Expenses
+          </TabsTrigger>
           <TabsTrigger value="properties" className="rounded-xl data-[state=active]:bg-white data-[state=active]:shadow-sm">
             Properties
           </TabsTrigger>
@@ -349,6 +398,11 @@ const LandlordDashboard = () => {
               })}
             </div>
           )}
+
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-slate-800">Recent Activity</h3>
+            <ActivityFeed />
+          </div>
         </TabsContent>
 
         {/* Other tabs remain functionally the same but will inherit the new styling */}
@@ -364,14 +418,34 @@ const LandlordDashboard = () => {
           <TenantManagement />
         </TabsContent>
 
-        <TabsContent value="collection" className="animate-fade-in-up">
+        <TabsContent value="leases" className="animate-fade-in-up">
+          <LeaseTemplates />
+        </TabsContent>
+
+        <TabsContent value="collection" className="space-y-6 animate-fade-in-up">
           <RentCollection />
+          <RentReminders />
+          <NotificationLog />
         </TabsContent>
 
         <TabsContent value="payouts" className="animate-fade-in-up">
           <PayoutRequests />
         </TabsContent>
 
+        <TabsContent value="maintenance" className="space-y-6 animate-fade-in-up">
+          <MaintenanceBoard />
+          <Vendors />
+        </TabsContent>
+
+        <TabsContent value="messages" className="space-y-6 animate-fade-in-up">
+          <Messages />
+          <Announcements />
+        </TabsContent>
+
+        <TabsContent value="expenses" className="animate-fade-in-up">
+          <Expenses />
+        </TabsContent>
+
         <TabsContent value="properties" className="space-y-6 animate-fade-in-up">
           {/* Same enhanced property management content */}
           <div className="flex gap-4 flex-wrap">
@@ -399,6 +473,7 @@ const LandlordDashboard = () => {
                 const propertyUnits = units.filter(unit => unit.property_id === property.id);
                 const occupiedCount = propertyUnits.filter(unit => unit.status === 'occupied').length;
                 const propertyRent = propertyUnits.reduce((sum, unit) => sum + Number(unit.rent_amount || 0), 0);
+                const lateFeePolicy = lateFeePolicyFor(property.id);
                 
                 return (
                   <Card 
@@ -439,6 +514,36 @@ const LandlordDashboard = () => {
                           ${propertyRent.toLocaleString()}
                         </span>
                       </div>
+                      <div className="flex justify-between items-start gap-2 text-sm">
+                        <span className="text-slate-600 shrink-0">Late Fees:</span>
+                        <span className="text-right text-slate-800">
+                          {lateFeePolicy ? describeLateFeePolicy(lateFeePolicy) : 'Not set'}
+                        </span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-slate-600">Rent Increase Notice:</span>
+                        <span className="text-slate-800">{property.rent_increase_notice_days} days</span>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="flex items-center gap-2"
+                          onClick={() => setLateFeeProperty(property)}
+                        >
+                          <Clock className="h-4 w-4" />
+                          Late Fee Policy
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="flex items-center gap-2"
+                          onClick={() => setNoticeProperty(property)}
+                        >
+                          <CalendarClock className="h-4 w-4" />
+                          Notice Period
+                        </Button>
+                      </div>
                     </CardContent>
                   </Card>
                 );
@@ -463,6 +568,20 @@ const LandlordDashboard = () => {
           onCancel={() => setShowUnitForm(false)}
         />
       )}
+
+      <LateFeePolicyDialog
+        property={lateFeeProperty}
+        policy={lateFeeProperty ? lateFeePolicyFor(lateFeeProperty.id) : null}
+        sampleRent={lateFeeProperty ? averageUnitRent(lateFeeProperty.id) : 0}
+        onOpenChange={(open) => !open && setLateFeeProperty(null)}
+        onSaved={fetchData}
+      />
+
+      <RentIncreaseNoticeDialog
+        property={noticeProperty}
+        onOpenChange={(open) => !open && setNoticeProperty(null)}
+        onSaved={fetchData}
+      />
     </div>
   );
 };
@@ -6,6 +6,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useSearchParams } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import { 
   DollarSign, 
@@ -28,26 +29,50 @@ import {
   Calendar,
   Shield,
   Zap,
-  Building
+  Building,
+  Download
 } from 'lucide-react';
 import MaintenanceRequestForm from '@/components/forms/MaintenanceRequestForm';
+import MaintenanceRequests from '@/components/tenant/MaintenanceRequests';
 import PaymentInterface from '@/components/tenant/PaymentInterface';
 import BottomNavigation from '@/components/mobile/BottomNavigation';
 import ActivityFeed from '@/components/mobile/ActivityFeed';
 import PaymentMethods from '@/components/mobile/PaymentMethods';
 import JoinPropertySearch from '@/components/tenant/JoinPropertySearch';
+import RentStatement from '@/components/tenant/RentStatement';
+import LeaseAgreementCard from '@/components/tenant/LeaseAgreementCard';
+import DepositCard from '@/components/tenant/DepositCard';
+import InvitationsCard from '@/components/tenant/InvitationsCard';
+import PinnedAnnouncements from '@/components/tenant/PinnedAnnouncements';
+import Messages from '@/components/messaging/Messages';
+import { summarizeRentCharges, daysBetween, parseDate, type BillingCycle, type RentChargeBalance } from '@/lib/rentCharges';
+import { unpaidLateFees, upcomingLateFee, type LateFeePolicy } from '@/lib/lateFees';
+import { buildStatement, tenancyCredit } from '@/lib/paymentAllocation';
+import { downloadReceipt } from '@/lib/tenantDocuments';
+import { INVITE_PARAM, type MyInvitation } from '@/lib/invitations';
+import { currentRenewal, type LeaseRenewal } from '@/lib/renewals';
+import { scheduledIncrease, type RentScheduleEntry } from '@/lib/rentSchedule';
+import { depositOutstanding, depositPaid, isRentPayment, type DepositSettlement, type PaymentType } from '@/lib/deposits';
+import { LEASE_DOCUMENT_COLUMNS, leaseSigningStatus, type LeaseDocument } from '@/lib/leaseDocuments';
+import type { ConversationSummary } from '@/lib/messaging';
 
 interface Tenancy {
   id: string;
   start_date: string;
   end_date?: string;
   rent_amount: number;
+  billing_cycle: BillingCycle;
+  billing_start_date?: string | null;
+  deposit_amount?: number;
+  current_lease_document_id?: string | null;
+  previous_tenancy_id?: string | null;
   status: string;
   units: {
     id: string;
     unit_number: string;
     bedrooms: number;
     bathrooms: number;
+    property_id: string;
     properties: {
       name: string;
       address: string;
@@ -59,10 +84,16 @@ interface Tenancy {
 
 interface Payment {
   id: string;
+  tenancy_id: string;
   amount: number;
   payment_date: string;
   status: string;
   method: string;
+  payment_type: PaymentType;
+}
+
+interface PropertyLateFeePolicy extends LateFeePolicy {
+  property_id: string;
 }
 
 interface JoinRequest {
@@ -85,14 +116,29 @@ interface JoinRequest {
 const TenantDashboard = () => {
   const [tenancies, setTenancies] = useState<Tenancy[]>([]);
   const [payments, setPayments] = useState<Payment[]>([]);
+  const [charges, setCharges] = useState<RentChargeBalance[]>([]);
+  const [lateFeePolicies, setLateFeePolicies] = useState<PropertyLateFeePolicy[]>([]);
+  const [leaseDocuments, setLeaseDocuments] = useState<LeaseDocument[]>([]);
+  const [depositSettlements, setDepositSettlements] = useState<DepositSettlement[]>([]);
   const [requests, setRequests] = useState<JoinRequest[]>([]);
+  const [invitations, setInvitations] = useState<MyInvitation[]>([]);
+  const [renewals, setRenewals] = useState<LeaseRenewal[]>([]);
+  const [rentSchedule, setRentSchedule] = useState<RentScheduleEntry[]>([]);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  // Bumped whenever one of the tenant's conversations changes
+  const [conversationsVersion, setConversationsVersion] = useState(0);
   const [loading, setLoading] = useState(true);
   const [showMaintenanceForm, setShowMaintenanceForm] = useState(false);
+  // Bumped after a new request so the list reloads
+  const [maintenanceVersion, setMaintenanceVersion] = useState(0);
   const [showPaymentInterface, setShowPaymentInterface] = useState(false);
   const [showPaymentMethods, setShowPaymentMethods] = useState(false);
   const [selectedTenancy, setSelectedTenancy] = useState<Tenancy | null>(null);
+  const [payingDeposit, setPayingDeposit] = useState(false);
   const [activeTab, setActiveTab] = useState('home');
+  const [downloadingReceipt, setDownloadingReceipt] = useState<string | null>(null);
   const { profile } = useAuth();
+  const [searchParams] = useSearchParams();
   const { toast } = useToast();
 
   const fetchTenantData = async () => {
@@ -109,6 +155,7 @@ const TenantDashboard = () => {
             unit_number,
             bedrooms,
             bathrooms,
+            property_id,
             properties!units_property_id_fkey (
               name,
               address,
@@ -131,8 +178,62 @@ const TenantDashboard = () => {
 
       if (paymentsError) throw paymentsError;
 
+      const { data: chargesData, error: chargesError } = await supabase
+        .from('rent_charge_balances')
+        .select('*')
+        .in('tenancy_id', tenanciesData?.map(t => t.id) || [])
+        .order('due_date', { ascending: true });
+
+      if (chargesError) throw chargesError;
+
+      const { data: policiesData, error: policiesError } = await supabase
+        .from('late_fee_policies')
+        .select('*')
+        .in('property_id', tenanciesData?.map(t => t.units?.property_id).filter(Boolean) || []);
+
+      if (policiesError) throw policiesError;
+
+      const { data: leaseDocumentsData, error: leaseDocumentsError } = await supabase
+        .from('lease_documents')
+        .select(LEASE_DOCUMENT_COLUMNS)
+        .in('id', tenanciesData?.map(t => t.current_lease_document_id).filter(Boolean) || []);
+
+      if (leaseDocumentsError) throw leaseDocumentsError;
+
+      const { data: settlementsData, error: settlementsError } = await supabase
+        .from('deposit_settlements')
+        .select('*, deposit_deductions (deduction_type, description, amount), payouts (id, status, phone_number, failure_reason)')
+        .in('tenancy_id', tenanciesData?.map(t => t.id) || []);
+
+      if (settlementsError) throw settlementsError;
+
+      const { data: renewalsData, error: renewalsError } = await supabase
+        .from('lease_renewals')
+        .select('*')
+        .in('tenancy_id', tenanciesData?.map(t => t.id) || []);
+
+      if (renewalsError) throw renewalsError;
+
+      const { data: scheduleData, error: scheduleError } = await supabase
+        .from('rent_schedule_entries')
+        .select('*')
+        .in('tenancy_id', tenanciesData?.map(t => t.id) || []);
+
+      if (scheduleError) throw scheduleError;
+
+      const { data: invitationsData, error: invitationsError } = await supabase.rpc('get_my_invitations');
+
+      if (invitationsError) throw invitationsError;
+
       setTenancies(tenanciesData || []);
       setPayments(paymentsData || []);
+      setCharges(chargesData || []);
+      setLateFeePolicies(policiesData || []);
+      setLeaseDocuments(leaseDocumentsData || []);
+      setDepositSettlements(settlementsData || []);
+      setInvitations(invitationsData || []);
+      setRenewals(renewalsData || []);
+      setRentSchedule(scheduleData || []);
     } catch (error: any) {
       console.error('Error fetching tenant data:', error);
       toast({
@@ -193,19 +294,44 @@ const TenantDashboard = () => {
     setShowPaymentInterface(false);
     setShowPaymentMethods(false);
     setSelectedTenancy(null);
+    setPayingDeposit(false);
     fetchTenantData();
   };
 
+  const handleDownloadReceipt = async (payment: Payment) => {
+    setDownloadingReceipt(payment.id);
+    try {
+      await downloadReceipt(payment);
+    } catch (error) {
+      toast({
+        title: "Error downloading receipt",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingReceipt(null);
+    }
+  };
+
   const handleMaintenanceSuccess = () => {
     setShowMaintenanceForm(false);
     setSelectedTenancy(null);
+    setMaintenanceVersion(version => version + 1);
   };
 
   const handlePayRent = (tenancy: Tenancy) => {
     setSelectedTenancy(tenancy);
+    setPayingDeposit(false);
     setShowPaymentMethods(true);
   };
 
+  // Deposits are paid in one amount, so there is no method sheet to go through
+  const handlePayDeposit = (tenancy: Tenancy) => {
+    setSelectedTenancy(tenancy);
+    setPayingDeposit(true);
+    setShowPaymentInterface(true);
+  };
+
   const handlePaymentSelect = (method: string) => {
     setShowPaymentMethods(false);
     setShowPaymentInterface(true);
@@ -282,52 +408,94 @@ const TenantDashboard = () => {
     };
   }, [profile?.user_id]);
 
-  const activeTenancies = tenancies.filter(t => t.status === 'active');
-  const currentTenancy = activeTenancies[0];
+  // For the unread badge and the activity feed; the Messages tab loads its own
+  useEffect(() => {
+    if (!profile?.user_id) return;
+
+    const fetchConversations = async () => {
+      const { data, error } = await supabase.rpc('get_my_conversations');
+      if (error) {
+        toast({
+          title: "Error loading messages",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+      setConversations(data || []);
+    };
+
+    fetchConversations();
+  }, [profile?.user_id, conversationsVersion, toast]);
+
+  useEffect(() => {
+    if (!profile?.user_id) return;
+
+    const channel = supabase
+      .channel('tenant-conversations')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversations',
+          filter: `tenant_id=eq.${profile.user_id}`
+        },
+        () => setConversationsVersion(v => v + 1)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profile?.user_id]);
+
+  const currentTenancy = tenancies.find(t => t.status === 'active');
+  // A tenancy waiting on its lease signatures, shown until it becomes active
+  const leaseTenancy = currentTenancy || tenancies.find(t => t.status === 'pending_signature');
+  const leaseDocument = leaseDocuments.find(d => d.id === leaseTenancy?.current_lease_document_id) || null;
+  // The tenancy that follows the current one once renewed
+  const renewalTenancy = currentTenancy
+    ? tenancies.find(t => t.previous_tenancy_id === currentTenancy.id && t.id !== currentTenancy.id)
+    : undefined;
+  const renewalLeaseDocument = leaseDocuments.find(d => d.id === renewalTenancy?.current_lease_document_id) || null;
+  const leaseAwaitingSignature = [leaseDocument, renewalLeaseDocument].some(
+    d => !!d && leaseSigningStatus(d) === 'awaiting_tenant'
+  );
+
+  // The deposit of the current lease, or the settlement of the last one after moving out
+  const lastSettlement = leaseTenancy
+    ? null
+    : depositSettlements.find(s => s.tenancy_id === tenancies.find(t => t.status === 'terminated')?.id) || null;
+  // A renewal takes over the deposit of the tenancy it renews
+  const depositTenancy = renewalTenancy || leaseTenancy || tenancies.find(t => t.id === lastSettlement?.tenancy_id);
+  const depositPayments = payments.filter(p => p.tenancy_id === depositTenancy?.id);
   
-  // Calculate rent status
+  // Rent status is derived from what was actually billed to the current tenancy
   const today = new Date();
-  const currentMonth = today.getMonth();
-  const currentYear = today.getFullYear();
-  
-  const paidThisMonth = payments
-    .filter(p => {
-      const paymentDate = new Date(p.payment_date);
-      return paymentDate.getMonth() === currentMonth && 
-             paymentDate.getFullYear() === currentYear &&
-             p.status === 'completed';
-    })
-    .reduce((sum, p) => sum + Number(p.amount || 0), 0);
-
-  const totalMonthlyRent = activeTenancies.reduce((sum, t) => sum + Number(t.rent_amount || 0), 0);
-  const outstandingBalance = totalMonthlyRent - paidThisMonth;
-  
-  // Calculate days until rent due (assuming rent is due on the 1st of each month)
-  const nextDueDate = new Date(currentYear, currentMonth + 1, 1);
-  const daysUntilDue = Math.ceil((nextDueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-  
-  // Determine rent status
-  let rentStatus: 'paid' | 'due_soon' | 'overdue' = 'paid';
-  if (outstandingBalance > 0) {
-    if (daysUntilDue <= 0) {
-      rentStatus = 'overdue';
-    } else if (daysUntilDue <= 5) {
-      rentStatus = 'due_soon';
-    }
-  }
+  const currentCharges = charges.filter(c => c.tenancy_id === currentTenancy?.id);
+  const currentSchedule = rentSchedule.filter(e => e.tenancy_id === currentTenancy?.id);
+  const rentSummary = summarizeRentCharges(
+    currentCharges,
+    currentTenancy ? { ...currentTenancy, rent_schedule: currentSchedule } : null,
+    today
+  );
+  const rentIncrease = currentTenancy ? scheduledIncrease(currentSchedule, currentTenancy.id, today) : null;
+  const outstandingBalance = rentSummary.arrears;
+  const lateFeesOwed = unpaidLateFees(currentCharges);
+  const lateFeePolicy = lateFeePolicies.find(p => p.property_id === currentTenancy?.units.property_id) || null;
+  const nextLateFee = upcomingLateFee(currentCharges, lateFeePolicy, today);
 
-  // Activity feed data
-  const activities = [
-    ...payments.slice(0, 3).map(p => ({
-      id: p.id,
-      type: 'payment' as const,
-      title: 'Rent Payment',
-      description: `$${Number(p.amount).toLocaleString()} via ${p.method}`,
-      date: p.payment_date,
-      status: p.status as 'completed' | 'pending' | 'overdue',
-      amount: Number(p.amount)
-    }))
-  ];
+  // Running statement and carried-forward credit, under the same allocation rules as the database.
+  // Deposits are held apart from rent and never allocated to charges
+  const currentPayments = payments.filter(p => p.tenancy_id === currentTenancy?.id && isRentPayment(p));
+  const statement = buildStatement(currentCharges, currentPayments, currentTenancy?.billing_start_date);
+  const credit = tenancyCredit(currentCharges, currentPayments, currentTenancy?.billing_start_date);
+  const nextDueDate = rentSummary.nextDueDate;
+  const daysUntilDue = nextDueDate ? Math.max(0, daysBetween(today, nextDueDate)) : 0;
+  const rentStatus = currentTenancy ? rentSummary.status : 'paid';
+
+  const unreadMessages = conversations.reduce((sum, c) => sum + c.unread_count, 0);
 
   if (loading) {
     return (
@@ -365,6 +533,8 @@ const TenantDashboard = () => {
                 Payment History
               </h2>
             </div>
+
+            {currentTenancy && <RentStatement tenancyId={currentTenancy.id} lines={statement} credit={credit} />}
             
             {payments.length > 0 ? (
               <div className="space-y-4">
@@ -388,18 +558,32 @@ const TenantDashboard = () => {
                             <div className="font-semibold text-lg">${Number(payment.amount).toLocaleString()}</div>
                             <div className="text-sm text-muted-foreground">
                               {new Date(payment.payment_date).toLocaleDateString()} • {payment.method}
+                              {!isRentPayment(payment) && ' • Security deposit'}
                             </div>
                           </div>
                         </div>
-                        <Badge 
-                          className={`font-medium ${
-                            payment.status === 'completed' ? 'bg-green-100 text-green-700 border-green-200' : 
-                            payment.status === 'pending' ? 'bg-yellow-100 text-yellow-700 border-yellow-200' : 
-                            'bg-red-100 text-red-700 border-red-200'
-                          }`}
-                        >
-                          {payment.status}
-                        </Badge>
+                        <div className="flex items-center gap-2">
+                          {payment.status === 'completed' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDownloadReceipt(payment)}
+                              disabled={downloadingReceipt === payment.id}
+                            >
+                              <Download className="h-4 w-4 mr-1" />
+                              {downloadingReceipt === payment.id ? 'Preparing...' : 'Receipt'}
+                            </Button>
+                          )}
+                          <Badge 
+                            className={`font-medium ${
+                              payment.status === 'completed' ? 'bg-green-100 text-green-700 border-green-200' : 
+                              payment.status === 'pending' ? 'bg-yellow-100 text-yellow-700 border-yellow-200' : 
+                              'bg-red-100 text-red-700 border-red-200'
+                            }`}
+                          >
+                            {payment.status}
+                          </Badge>
+                        </div>
                       </div>
                     </CardContent>
                   </Card>
@@ -420,26 +604,72 @@ const TenantDashboard = () => {
       case 'maintenance':
         return (
           <div className="space-y-6 animate-fade-in-up">
-            <div className="flex items-center justify-between">
-              <h2 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-cyan-600 bg-clip-text text-transparent">
-                Maintenance
-              </h2>
-              <Button 
-                onClick={() => currentTenancy && handleMaintenanceRequest(currentTenancy)}
-                className="bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 shadow-lg hover:shadow-xl transition-all duration-300"
-              >
-                <Wrench className="h-4 w-4 mr-2" />
-                New Request
-              </Button>
-            </div>
-            
-            <Card className="border-0 shadow-lg bg-gradient-to-br from-slate-50 to-blue-50/30 text-center py-12">
-              <CardContent>
-                <Wrench className="h-16 w-16 text-muted-foreground mx-auto mb-4 opacity-50" />
-                <h3 className="text-lg font-semibold text-slate-600 mb-2">No maintenance requests</h3>
-                <p className="text-muted-foreground">Submit your first maintenance request when needed</p>
-              </CardContent>
-            </Card>
+            <h2 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-cyan-600 bg-clip-text text-transparent">
+              Maintenance
+            </h2>
+
+            <MaintenanceRequests
+              key={maintenanceVersion}
+              onCreateRequest={() => currentTenancy && handleMaintenanceRequest(currentTenancy)}
+            />
+          </div>
+        );
+
+      case 'messages':
+        return (
+          <div className="space-y-6 animate-fade-in-up">
+            <h2 className="text-2xl font-bold bg-gradient-to-r from-green-600 to-emerald-600 bg-clip-text text-transparent">
+              Messages
+            </h2>
+
+            <Messages />
+          </div>
+        );
+
+      case 'lease':
+        return (
+          <div className="space-y-6 animate-fade-in-up">
+            <h2 className="text-2xl font-bold bg-gradient-to-r from-green-600 to-emerald-600 bg-clip-text text-transparent">
+              My Lease
+            </h2>
+
+            {leaseTenancy ? (
+              <LeaseAgreementCard
+                tenancy={leaseTenancy}
+                leaseDocument={leaseDocument}
+                onSigned={fetchTenantData}
+                renewal={currentRenewal(renewals, leaseTenancy.id)}
+                onRenewalResponded={fetchTenantData}
+              />
+            ) : !depositTenancy && (
+              <Card className="border-0 shadow-lg">
+                <CardContent className="p-6 text-center text-muted-foreground">
+                  You don't have an active lease yet.
+                </CardContent>
+              </Card>
+            )}
+
+            {renewalTenancy && (
+              <>
+                <h3 className="text-lg font-semibold text-slate-700">Renewed Lease</h3>
+                <LeaseAgreementCard
+                  tenancy={renewalTenancy}
+                  leaseDocument={renewalLeaseDocument}
+                  onSigned={fetchTenantData}
+                />
+              </>
+            )}
+
+            {depositTenancy && (Number(depositTenancy.deposit_amount) > 0 || lastSettlement) && (
+              <DepositCard
+                tenancyId={depositTenancy.id}
+                depositAmount={Number(depositTenancy.deposit_amount || 0)}
+                paid={depositPaid(depositPayments)}
+                settlement={lastSettlement}
+                onRefundRetried={fetchTenantData}
+                onPay={leaseTenancy ? () => handlePayDeposit(depositTenancy) : undefined}
+              />
+            )}
           </div>
         );
 
@@ -569,12 +799,65 @@ const TenantDashboard = () => {
       default: // home
         return (
           <div className="space-y-6 animate-fade-in-up">
+            <PinnedAnnouncements />
+
             {/* Property Search Section */}
             <div className="space-y-4">
               <h2 className="text-xl font-semibold text-slate-800">Find New Properties</h2>
               <JoinPropertySearch />
             </div>
 
+            <InvitationsCard
+              invitations={invitations}
+              inviteToken={searchParams.get(INVITE_PARAM)}
+              onAccepted={fetchTenantData}
+            />
+
+            {leaseAwaitingSignature && (
+              <Card className="border-blue-200 bg-gradient-to-r from-blue-50 to-blue-100/30 shadow-lg">
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3">
+                      <div className="p-2 bg-blue-100 rounded-full">
+                        <FileText className="h-5 w-5 text-blue-600" />
+                      </div>
+                      <div>
+                        <p className="font-semibold text-blue-700">Lease Ready to Sign</p>
+                        <p className="text-sm text-blue-600/80">
+                          Your landlord has sent your lease. Review and sign it to start your tenancy
+                        </p>
+                      </div>
+                    </div>
+                    <Button size="sm" onClick={() => setActiveTab('lease')}>
+                      Review Lease
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {rentIncrease && (
+              <Card className="border-amber-200 bg-gradient-to-r from-amber-50 to-amber-100/30 shadow-lg">
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-amber-100 rounded-full">
+                      <TrendingUp className="h-5 w-5 text-amber-600" />
+                    </div>
+                    <div>
+                      <p className="font-semibold text-amber-700">Rent Increase Notice</p>
+                      <p className="text-sm text-amber-600/80">
+                        Your rent changes from ${Number(currentTenancy?.rent_amount).toLocaleString()} to $
+                        {Number(rentIncrease.amount).toLocaleString()} from{' '}
+                        {parseDate(rentIncrease.effective_date).toLocaleDateString()}
+                        {rentIncrease.notice_issued_on &&
+                          ` (notice given ${parseDate(rentIncrease.notice_issued_on).toLocaleDateString()})`}
+                      </p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Enhanced Urgent Alert */}
             {rentStatus === 'overdue' && (
               <Card className="border-red-200 bg-gradient-to-r from-red-50 to-red-100/30 shadow-lg animate-pulse">
@@ -585,7 +868,14 @@ const TenantDashboard = () => {
                     </div>
                     <div>
                       <p className="font-semibold text-red-700">Rent Overdue</p>
-                      <p className="text-sm text-red-600/80">Please pay your rent immediately to avoid penalties</p>
+                      <p className="text-sm text-red-600/80">
+                        {rentSummary.daysOverdue} days overdue. Please pay your rent immediately to avoid penalties
+                      </p>
+                      {nextLateFee && (
+                        <p className="text-sm text-red-600/80">
+                          A late fee of ${nextLateFee.amount.toLocaleString()} will be added on {nextLateFee.startsOn.toLocaleDateString()}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -601,7 +891,14 @@ const TenantDashboard = () => {
                     </div>
                     <div>
                       <p className="font-semibold text-amber-700">Rent Due Soon</p>
-                      <p className="text-sm text-amber-600/80">Rent due in {daysUntilDue} days</p>
+                      <p className="text-sm text-amber-600/80">
+                        {daysUntilDue === 0 ? 'Rent is due today' : `Rent due in ${daysUntilDue} days`}
+                      </p>
+                      {nextLateFee && (
+                        <p className="text-sm text-amber-600/80">
+                          A late fee of ${nextLateFee.amount.toLocaleString()} will be added on {nextLateFee.startsOn.toLocaleDateString()} if rent is still unpaid
+                        </p>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -631,7 +928,9 @@ const TenantDashboard = () => {
                           {outstandingBalance > 0 ? `$${outstandingBalance.toLocaleString()}` : 'All Paid'}
                         </h3>
                         <p className="text-sm text-muted-foreground">
-                          {outstandingBalance > 0 ? 'Outstanding Balance' : 'Rent Status'}
+                          {outstandingBalance > 0
+                            ? 'Outstanding Balance'
+                            : credit > 0 ? `$${credit.toLocaleString()} credit carried forward` : 'Rent Status'}
                         </p>
                       </div>
                     </div>
@@ -646,13 +945,24 @@ const TenantDashboard = () => {
 
                   {outstandingBalance > 0 && (
                     <div className="space-y-3">
-                      <div className="flex justify-between text-sm items-center">
-                        <span className="text-muted-foreground flex items-center gap-1">
-                          <Calendar className="h-3 w-3" />
-                          Next Due:
-                        </span>
-                        <span className="font-medium">{nextDueDate.toLocaleDateString()}</span>
-                      </div>
+                      {nextDueDate && (
+                        <div className="flex justify-between text-sm items-center">
+                          <span className="text-muted-foreground flex items-center gap-1">
+                            <Calendar className="h-3 w-3" />
+                            {rentStatus === 'overdue' ? 'Due Since:' : 'Next Due:'}
+                          </span>
+                          <span className="font-medium">{nextDueDate.toLocaleDateString()}</span>
+                        </div>
+                      )}
+                      {lateFeesOwed > 0 && (
+                        <div className="flex justify-between text-sm items-center">
+                          <span className="text-muted-foreground flex items-center gap-1">
+                            <AlertCircle className="h-3 w-3" />
+                            Includes Late Fees:
+                          </span>
+                          <span className="font-medium text-red-600">${lateFeesOwed.toLocaleString()}</span>
+                        </div>
+                      )}
                       <Button 
                         className="w-full h-12 text-lg font-semibold shadow-lg hover:shadow-xl transition-all duration-300 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
                         onClick={() => currentTenancy && handlePayRent(currentTenancy)}
@@ -717,6 +1027,7 @@ const TenantDashboard = () => {
               <Button 
                 variant="outline" 
                 className="h-16 flex-col gap-2 border-2 hover:border-green-300 hover:bg-green-50 transition-all duration-300 rounded-xl"
+                onClick={() => setActiveTab('lease')}
               >
                 <div className="p-2 bg-green-100 rounded-lg">
                   <FileText className="h-5 w-5 text-green-600" />
@@ -726,15 +1037,13 @@ const TenantDashboard = () => {
             </div>
 
             {/* Enhanced Activity Feed */}
-            {activities.length > 0 && (
-              <div className="space-y-4">
-                <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
-                  <Zap className="h-5 w-5 text-yellow-500" />
-                  Recent Activity
-                </h3>
-                <ActivityFeed activities={activities} />
-              </div>
-            )}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                <Zap className="h-5 w-5 text-yellow-500" />
+                Recent Activity
+              </h3>
+              <ActivityFeed />
+            </div>
           </div>
         );
     }
@@ -802,7 +1111,7 @@ const TenantDashboard = () => {
       <BottomNavigation 
         activeTab={activeTab} 
         onTabChange={setActiveTab}
-        notificationCount={0}
+        notificationCount={unreadMessages}
       />
 
       {/* Enhanced Modals */}
@@ -826,7 +1135,7 @@ const TenantDashboard = () => {
               </Button>
             </div>
             <PaymentMethods
-              amount={Number(selectedTenancy.rent_amount)}
+              amount={outstandingBalance > 0 ? outstandingBalance : Number(selectedTenancy.rent_amount)}
               onPaymentSelect={handlePaymentSelect}
             />
           </div>
@@ -836,8 +1145,17 @@ const TenantDashboard = () => {
       {showPaymentInterface && selectedTenancy && (
         <PaymentInterface
           tenancy={selectedTenancy}
+          charges={charges.filter(c => c.tenancy_id === selectedTenancy.id)}
+          paymentType={payingDeposit ? 'deposit' : 'rent'}
+          depositDue={depositOutstanding(
+            Number(selectedTenancy.deposit_amount || 0),
+            payments.filter(p => p.tenancy_id === selectedTenancy.id)
+          )}
           onSuccess={handlePaymentSuccess}
-          onCancel={() => setShowPaymentInterface(false)}
+          onCancel={() => {
+            setShowPaymentInterface(false);
+            setPayingDeposit(false);
+          }}
         />
       )}
     </>
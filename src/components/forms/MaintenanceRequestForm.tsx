@@ -9,6 +9,14 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { X, AlertTriangle, Wrench, Zap, Droplets } from 'lucide-react';
+import {
+  maintenanceCategoryLabels,
+  maintenancePriorityLabels,
+  type MaintenanceCategory,
+  type MaintenancePriority,
+} from '@/lib/maintenance';
+import { uploadMaintenanceAttachments } from '@/lib/maintenanceAttachments';
+import AttachmentPicker from '@/components/tenant/AttachmentPicker';
 
 interface MaintenanceRequestFormProps {
   unitId: string;
@@ -18,11 +26,11 @@ interface MaintenanceRequestFormProps {
   onCancel: () => void;
 }
 
-const urgencyLevels = [
-  { value: 'low', label: 'Low', icon: Wrench, color: 'text-blue-500' },
-  { value: 'medium', label: 'Medium', icon: AlertTriangle, color: 'text-yellow-500' },
-  { value: 'high', label: 'High', icon: Zap, color: 'text-red-500' },
-  { value: 'emergency', label: 'Emergency', icon: Droplets, color: 'text-red-700' },
+const urgencyLevels: { value: MaintenancePriority; icon: typeof Wrench; color: string }[] = [
+  { value: 'low', icon: Wrench, color: 'text-blue-500' },
+  { value: 'medium', icon: AlertTriangle, color: 'text-yellow-500' },
+  { value: 'high', icon: Zap, color: 'text-red-500' },
+  { value: 'emergency', icon: Droplets, color: 'text-red-700' },
 ];
 
 const MaintenanceRequestForm: React.FC<MaintenanceRequestFormProps> = ({
@@ -34,48 +42,51 @@ const MaintenanceRequestForm: React.FC<MaintenanceRequestFormProps> = ({
 }) => {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const [urgency, setUrgency] = useState('');
-  const [category, setCategory] = useState('');
+  const [urgency, setUrgency] = useState<MaintenancePriority | ''>('');
+  const [category, setCategory] = useState<MaintenanceCategory | ''>('');
+  const [files, setFiles] = useState<File[]>([]);
   const [loading, setLoading] = useState(false);
   const { profile } = useAuth();
   const { toast } = useToast();
 
-  const categories = [
-    'Plumbing',
-    'Electrical',
-    'HVAC',
-    'Appliances',
-    'Structural',
-    'Pest Control',
-    'Locks/Security',
-    'Cleaning',
-    'Other',
-  ];
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!profile?.user_id) return;
+    if (!profile?.user_id || !category || !urgency) return;
 
     setLoading(true);
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('maintenance_requests')
         .insert([
           {
             unit_id: unitId,
             tenant_id: profile.user_id,
             title,
-            description: `Category: ${category}\nUrgency: ${urgency}\n\n${description}`,
-            status: 'pending',
+            description,
+            category,
+            priority: urgency,
           },
-        ]);
+        ])
+        .select('id')
+        .single();
 
       if (error) throw error;
 
-      toast({
-        title: 'Maintenance request submitted',
-        description: 'Your request has been sent to your landlord.',
-      });
+      // The request is already with the landlord; a failed upload should not
+      // look like a failed submission
+      try {
+        await uploadMaintenanceAttachments(data.id, profile.user_id, files);
+        toast({
+          title: 'Maintenance request submitted',
+          description: 'Your request has been sent to your landlord.',
+        });
+      } catch (uploadError) {
+        toast({
+          title: 'Request submitted without some attachments',
+          description: (uploadError as Error).message,
+          variant: 'destructive',
+        });
+      }
       onSuccess();
     } catch (error: any) {
       toast({
@@ -93,7 +104,7 @@ const MaintenanceRequestForm: React.FC<MaintenanceRequestFormProps> = ({
 
   return (
     <Card className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4">
-      <div className="w-full max-w-md">
+      <div className="w-full max-w-md max-h-full overflow-y-auto">
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-6">
           <div>
             <CardTitle>Maintenance Request</CardTitle>
@@ -121,14 +132,14 @@ const MaintenanceRequestForm: React.FC<MaintenanceRequestFormProps> = ({
 
             <div className="space-y-2">
               <Label htmlFor="category">Category</Label>
-              <Select value={category} onValueChange={setCategory} required>
+              <Select value={category} onValueChange={(value: MaintenanceCategory) => setCategory(value)} required>
                 <SelectTrigger>
                   <SelectValue placeholder="Select category" />
                 </SelectTrigger>
                 <SelectContent>
-                  {categories.map((cat) => (
+                  {(Object.keys(maintenanceCategoryLabels) as MaintenanceCategory[]).map((cat) => (
                     <SelectItem key={cat} value={cat}>
-                      {cat}
+                      {maintenanceCategoryLabels[cat]}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -137,7 +148,7 @@ const MaintenanceRequestForm: React.FC<MaintenanceRequestFormProps> = ({
 
             <div className="space-y-2">
               <Label htmlFor="urgency">Urgency Level</Label>
-              <Select value={urgency} onValueChange={setUrgency} required>
+              <Select value={urgency} onValueChange={(value: MaintenancePriority) => setUrgency(value)} required>
                 <SelectTrigger>
                   <SelectValue placeholder="Select urgency level" />
                 </SelectTrigger>
@@ -148,7 +159,7 @@ const MaintenanceRequestForm: React.FC<MaintenanceRequestFormProps> = ({
                       <SelectItem key={level.value} value={level.value}>
                         <div className="flex items-center gap-2">
                           <Icon className={`h-4 w-4 ${level.color}`} />
-                          <span>{level.label}</span>
+                          <span>{maintenancePriorityLabels[level.value]}</span>
                         </div>
                       </SelectItem>
                     );
@@ -184,6 +195,11 @@ const MaintenanceRequestForm: React.FC<MaintenanceRequestFormProps> = ({
               />
             </div>
 
+            <div className="space-y-2">
+              <Label>Photos or Videos (Optional)</Label>
+              <AttachmentPicker files={files} onChange={setFiles} disabled={loading} />
+            </div>
+
             <div className="flex gap-2 pt-4">
               <Button type="submit" disabled={loading} className="flex-1">
                 {loading ? 'Submitting...' : 'Submit Request'}
@@ -0,0 +1,321 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { notificationChannelLabels, type NotificationChannel } from '@/lib/notifications';
+import {
+  MAX_ANNOUNCEMENT_BODY,
+  MAX_ANNOUNCEMENT_TITLE,
+  sendAnnouncementNotifications,
+  type Announcement,
+} from '@/lib/announcements';
+
+interface AnnouncementDialogProps {
+  open: boolean;
+  // The scheduled announcement to edit, or null to write a new one
+  announcement: Announcement | null;
+  properties: { id: string; name: string }[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const CHANNELS: NotificationChannel[] = ['sms', 'email'];
+
+// datetime-local inputs take local time without a zone
+const toLocalInput = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const AnnouncementDialog: React.FC<AnnouncementDialogProps> = ({ open, announcement, properties, onOpenChange, onSaved }) => {
+  const [propertyId, setPropertyId] = useState('');
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  // Null for every unit of the property
+  const [unitIds, setUnitIds] = useState<string[] | null>(null);
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [publishNow, setPublishNow] = useState(true);
+  const [publishAt, setPublishAt] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [units, setUnits] = useState<{ id: string; unit_number: string }[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const singlePropertyId = properties.length === 1 ? properties[0].id : '';
+
+  // Starts from the announcement being edited, or a blank form, each time it opens
+  useEffect(() => {
+    if (!open) return;
+
+    setPropertyId(announcement?.property_id || singlePropertyId);
+    setTitle(announcement?.title || '');
+    setBody(announcement?.body || '');
+    setUnitIds(announcement?.unit_ids ?? null);
+    setChannels(announcement?.channels || []);
+    setPublishNow(!announcement);
+    setPublishAt(toLocalInput(announcement?.publish_at ?? null));
+    setExpiresAt(toLocalInput(announcement?.expires_at ?? null));
+  }, [open, announcement, singlePropertyId]);
+
+  useEffect(() => {
+    if (!propertyId) {
+      setUnits([]);
+      return;
+    }
+
+    const fetchUnits = async () => {
+      const { data, error } = await supabase
+        .from('units')
+        .select('id, unit_number')
+        .eq('property_id', propertyId)
+        .order('unit_number');
+
+      if (error) {
+        toast({
+          title: 'Error loading units',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return;
+      }
+      setUnits(data || []);
+    };
+
+    fetchUnits();
+  }, [propertyId, toast]);
+
+  const publishIso = publishNow ? new Date().toISOString() : publishAt ? new Date(publishAt).toISOString() : null;
+  const expiresIso = expiresAt ? new Date(expiresAt).toISOString() : null;
+
+  const validationError = !propertyId
+    ? 'Choose a property'
+    : !title.trim() || !body.trim()
+    ? 'Write a title and a message'
+    : unitIds && unitIds.length === 0
+    ? 'Choose at least one unit'
+    : !publishIso
+    ? 'Set when to publish'
+    : !publishNow && new Date(publishIso) <= new Date()
+    ? 'Scheduled announcements must be in the future'
+    : expiresIso && new Date(expiresIso) <= new Date(publishIso)
+    ? 'Announcements must expire after they are published'
+    : null;
+
+  const toggleUnit = (unitId: string, checked: boolean) => {
+    setUnitIds((prev) => {
+      const current = prev || [];
+      return checked ? [...current, unitId] : current.filter((id) => id !== unitId);
+    });
+  };
+
+  const handleSave = async () => {
+    if (validationError || !profile?.user_id) return;
+
+    setSaving(true);
+    try {
+      const fields = {
+        property_id: propertyId,
+        title: title.trim(),
+        body: body.trim(),
+        unit_ids: unitIds,
+        channels,
+        publish_at: publishIso,
+        expires_at: expiresIso,
+      };
+
+      const { data, error } = announcement
+        ? await supabase.from('announcements').update(fields).eq('id', announcement.id).select('id').single()
+        : await supabase
+            .from('announcements')
+            .insert({ ...fields, landlord_id: profile.user_id })
+            .select('id')
+            .single();
+
+      if (error) throw error;
+
+      // An announcement due now has already been published; send its copies
+      let description: string | undefined;
+      if (publishNow && channels.length > 0) {
+        const { sentNow } = await sendAnnouncementNotifications(data.id);
+        if (!sentNow) description = 'SMS and email copies are queued and will go out shortly.';
+      }
+
+      toast({
+        title: publishNow ? 'Announcement published' : announcement ? 'Announcement updated' : 'Announcement scheduled',
+        description,
+      });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error saving announcement',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{announcement ? 'Edit Announcement' : 'New Announcement'}</DialogTitle>
+          <DialogDescription>Pinned on your tenants' dashboards until it expires</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Property</Label>
+            <Select
+              value={propertyId}
+              onValueChange={(value) => {
+                setPropertyId(value);
+                setUnitIds(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select property" />
+              </SelectTrigger>
+              <SelectContent>
+                {properties.map((property) => (
+                  <SelectItem key={property.id} value={property.id}>
+                    {property.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="announcement-title">Title</Label>
+            <Input
+              id="announcement-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={MAX_ANNOUNCEMENT_TITLE}
+              placeholder="e.g. Water outage on Saturday"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="announcement-body">Message</Label>
+            <Textarea
+              id="announcement-body"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              maxLength={MAX_ANNOUNCEMENT_BODY}
+              rows={5}
+              placeholder="e.g. The water will be off from 9am to 1pm for repairs to the main supply."
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="announcement-all-units">Send to every tenant</Label>
+              <Switch
+                id="announcement-all-units"
+                checked={unitIds === null}
+                onCheckedChange={(checked) => setUnitIds(checked ? null : [])}
+              />
+            </div>
+            {unitIds !== null && (
+              <div className="grid grid-cols-3 gap-2 rounded-md border p-3">
+                {units.length === 0 ? (
+                  <p className="col-span-3 text-sm text-muted-foreground">This property has no units yet.</p>
+                ) : (
+                  units.map((unit) => (
+                    <div key={unit.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`announcement-unit-${unit.id}`}
+                        checked={unitIds.includes(unit.id)}
+                        onCheckedChange={(checked) => toggleUnit(unit.id, checked === true)}
+                      />
+                      <Label htmlFor={`announcement-unit-${unit.id}`} className="font-normal">
+                        Unit {unit.unit_number}
+                      </Label>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Also Send By</Label>
+            <div className="flex flex-wrap items-center gap-6">
+              {CHANNELS.map((channel) => (
+                <div key={channel} className="flex items-center gap-2">
+                  <Switch
+                    id={`announcement-channel-${channel}`}
+                    checked={channels.includes(channel)}
+                    onCheckedChange={(checked) =>
+                      setChannels((prev) =>
+                        checked ? CHANNELS.filter((c) => c === channel || prev.includes(c)) : prev.filter((c) => c !== channel)
+                      )
+                    }
+                  />
+                  <Label htmlFor={`announcement-channel-${channel}`}>{notificationChannelLabels[channel]}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="announcement-publish-at">Publish</Label>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="announcement-publish-now" className="text-xs font-normal">
+                    Now
+                  </Label>
+                  <Switch id="announcement-publish-now" checked={publishNow} onCheckedChange={setPublishNow} />
+                </div>
+              </div>
+              <Input
+                id="announcement-publish-at"
+                type="datetime-local"
+                value={publishAt}
+                onChange={(e) => setPublishAt(e.target.value)}
+                disabled={publishNow}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="announcement-expires-at">Expires (Optional)</Label>
+              <Input
+                id="announcement-expires-at"
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {validationError && (title || body) && <p className="text-sm text-destructive">{validationError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !!validationError}>
+            {saving ? 'Saving...' : publishNow ? 'Publish' : 'Schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AnnouncementDialog;
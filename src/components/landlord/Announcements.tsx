@@ -0,0 +1,306 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Megaphone, Plus, Pencil, Trash2, RefreshCw, ChevronDown, ChevronUp, MessageSquare, Mail } from 'lucide-react';
+import AnnouncementDialog from '@/components/landlord/AnnouncementDialog';
+import {
+  announcementStatus,
+  announcementStatusLabels,
+  describeAudience,
+  type Announcement,
+  type AnnouncementStatus,
+} from '@/lib/announcements';
+
+const statusVariant: Record<AnnouncementStatus, 'default' | 'secondary' | 'outline'> = {
+  scheduled: 'outline',
+  published: 'default',
+  expired: 'secondary',
+};
+
+const Announcements: React.FC = () => {
+  const [properties, setProperties] = useState<{ id: string; name: string }[]>([]);
+  const [units, setUnits] = useState<{ id: string; unit_number: string }[]>([]);
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [tenants, setTenants] = useState<{ user_id: string; full_name: string }[]>([]);
+  const [propertyFilter, setPropertyFilter] = useState('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Announcement | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [deleting, setDeleting] = useState<Announcement | null>(null);
+  // Bumped after every change to reload the list
+  const [reloadKey, setReloadKey] = useState(0);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const landlordId = profile?.user_id;
+
+  useEffect(() => {
+    if (!landlordId) return;
+
+    const fetchAnnouncements = async () => {
+      try {
+        const { data: propertiesData, error: propertiesError } = await supabase
+          .from('properties')
+          .select('id, name')
+          .eq('landlord_id', landlordId)
+          .order('name');
+
+        if (propertiesError) throw propertiesError;
+
+        const { data: unitsData, error: unitsError } = await supabase
+          .from('units')
+          .select('id, unit_number')
+          .in('property_id', (propertiesData || []).map((p) => p.id));
+
+        if (unitsError) throw unitsError;
+
+        const { data, error } = await supabase
+          .from('announcements')
+          .select(`
+            *,
+            announcement_recipients (
+              tenant_id,
+              unit_number,
+              acknowledged_at
+            )
+          `)
+          .eq('landlord_id', landlordId)
+          .order('publish_at', { ascending: false });
+
+        if (error) throw error;
+
+        // Names of everyone an announcement reached, for the recipient lists
+        const tenantIds = Array.from(
+          new Set((data || []).flatMap((a) => a.announcement_recipients.map((r) => r.tenant_id)))
+        );
+        if (tenantIds.length > 0) {
+          const { data: profiles } = await supabase
+            .from('profiles')
+            .select('user_id, full_name')
+            .in('user_id', tenantIds);
+          setTenants(profiles || []);
+        }
+
+        setProperties(propertiesData || []);
+        setUnits(unitsData || []);
+        setAnnouncements((data || []) as Announcement[]);
+      } catch (error) {
+        toast({
+          title: 'Error loading announcements',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAnnouncements();
+  }, [landlordId, reloadKey, toast]);
+
+  const visible = announcements.filter((a) => propertyFilter === 'all' || a.property_id === propertyFilter);
+
+  const propertyName = (id: string) => properties.find((p) => p.id === id)?.name || 'Unknown property';
+  const tenantName = (id: string) => tenants.find((t) => t.user_id === id)?.full_name || 'Former tenant';
+
+  const openEditor = (announcement: Announcement | null) => {
+    setEditing(announcement);
+    setShowEditor(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      const { error } = await supabase.from('announcements').delete().eq('id', deleting.id);
+      if (error) throw error;
+
+      toast({ title: deleting.published_at ? 'Announcement taken down' : 'Announcement cancelled' });
+      setDeleting(null);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error deleting announcement',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Megaphone className="h-5 w-5" />
+              Announcements
+            </CardTitle>
+            <CardDescription>Notices pinned on your tenants' dashboards</CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Property</Label>
+              <Select value={propertyFilter} onValueChange={setPropertyFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All properties</SelectItem>
+                  {properties.map((property) => (
+                    <SelectItem key={property.id} value={property.id}>
+                      {property.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" size="icon" onClick={() => setReloadKey((key) => key + 1)} aria-label="Refresh">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+            <Button onClick={() => openEditor(null)} disabled={properties.length === 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Announcement
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-muted rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Megaphone className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No announcements yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {visible.map((announcement) => {
+              const status = announcementStatus(announcement);
+              const expanded = expandedId === announcement.id;
+              const recipients = announcement.announcement_recipients;
+              const acknowledged = recipients.filter((r) => r.acknowledged_at).length;
+
+              return (
+                <div key={announcement.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">{announcement.title}</span>
+                        <Badge variant={statusVariant[status]}>{announcementStatusLabels[status]}</Badge>
+                        {announcement.channels.includes('sms') && <MessageSquare className="h-4 w-4 text-muted-foreground" />}
+                        {announcement.channels.includes('email') && <Mail className="h-4 w-4 text-muted-foreground" />}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {propertyName(announcement.property_id)} · {describeAudience(announcement, units)} ·{' '}
+                        {status === 'scheduled' ? 'Publishes' : 'Published'}{' '}
+                        {new Date(announcement.published_at || announcement.publish_at).toLocaleString()}
+                        {announcement.expires_at && ` · Expires ${new Date(announcement.expires_at).toLocaleString()}`}
+                      </p>
+                      {announcement.published_at && (
+                        <p className="text-sm">
+                          {acknowledged} of {recipients.length} tenant{recipients.length === 1 ? '' : 's'} acknowledged
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {status === 'scheduled' && (
+                        <Button variant="outline" size="sm" onClick={() => openEditor(announcement)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button variant="outline" size="sm" onClick={() => setDeleting(announcement)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExpandedId(expanded ? null : announcement.id)}
+                        aria-label={expanded ? 'Hide details' : 'Show details'}
+                      >
+                        {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {expanded && (
+                    <div className="space-y-3">
+                      <p className="rounded-md bg-muted/40 p-3 text-sm whitespace-pre-wrap">{announcement.body}</p>
+                      {recipients.length > 0 && (
+                        <div className="space-y-1">
+                          {recipients.map((recipient) => (
+                            <div key={recipient.tenant_id} className="flex items-center justify-between gap-3 text-sm">
+                              <span>
+                                {tenantName(recipient.tenant_id)}
+                                {recipient.unit_number && (
+                                  <span className="text-muted-foreground"> · Unit {recipient.unit_number}</span>
+                                )}
+                              </span>
+                              {recipient.acknowledged_at ? (
+                                <span className="text-muted-foreground">
+                                  Acknowledged {new Date(recipient.acknowledged_at).toLocaleDateString()}
+                                </span>
+                              ) : (
+                                <Badge variant="outline">Not yet</Badge>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {announcement.published_at && recipients.length === 0 && (
+                        <p className="text-sm text-muted-foreground">No tenants were renting the targeted units.</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <AnnouncementDialog
+        open={showEditor}
+        announcement={editing}
+        properties={properties}
+        onOpenChange={setShowEditor}
+        onSaved={() => setReloadKey((key) => key + 1)}
+      />
+
+      <Dialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{deleting?.published_at ? 'Take Down Announcement' : 'Cancel Announcement'}</DialogTitle>
+            <DialogDescription>
+              {deleting?.published_at
+                ? `Remove "${deleting?.title}" from your tenants' dashboards? Any SMS or email copies already sent cannot be recalled.`
+                : `Cancel "${deleting?.title}"? It will not be published.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)}>
+              Keep
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              {deleting?.published_at ? 'Take Down' : 'Cancel Announcement'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default Announcements;
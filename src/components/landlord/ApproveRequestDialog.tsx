@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface ApproveRequestDialogProps {
+  request: {
+    id: string;
+    property_id: string;
+    // Null when the tenant asked for any unit of the property
+    unit_id?: string | null;
+    tenantName: string;
+    propertyName: string;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+  onApproved: () => void;
+}
+
+interface UnitOption {
+  id: string;
+  unit_number: string;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  rent_amount: number;
+}
+
+const emptyForm = {
+  unitId: '',
+  rentAmount: '',
+  depositAmount: '',
+  startDate: '',
+  billingDay: '1',
+};
+
+// Mirrors the checks approve_join_request makes, for fast feedback
+const validateTerms = (form: typeof emptyForm) => {
+  if (!form.unitId) return 'Choose a unit for this tenant';
+  if (!(Number(form.rentAmount) > 0)) return 'Rent must be greater than zero';
+  if (!form.startDate) return 'A start date is required';
+  if (Number(form.depositAmount || 0) < 0) return 'The deposit cannot be negative';
+
+  const billingDay = Number(form.billingDay);
+  if (!Number.isInteger(billingDay) || billingDay < 1 || billingDay > 28) {
+    return 'Rent due day must be between 1 and 28';
+  }
+  return null;
+};
+
+const ApproveRequestDialog: React.FC<ApproveRequestDialogProps> = ({ request, onOpenChange, onApproved }) => {
+  const [units, setUnits] = useState<UnitOption[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const [approving, setApproving] = useState(false);
+  const { toast } = useToast();
+
+  const requestId = request?.id;
+  const propertyId = request?.property_id;
+  const requestedUnitId = request?.unit_id ?? null;
+
+  // A specific request can only be approved for the unit asked for; otherwise
+  // any vacant unit of the property can be assigned
+  useEffect(() => {
+    if (!requestId || !propertyId) return;
+
+    const fetchUnits = async () => {
+      setLoading(true);
+      try {
+        let query = supabase
+          .from('units')
+          .select('id, unit_number, bedrooms, bathrooms, rent_amount')
+          .eq('property_id', propertyId)
+          .order('unit_number', { ascending: true });
+
+        query = requestedUnitId ? query.eq('id', requestedUnitId) : query.eq('status', 'vacant');
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        const options = data || [];
+        const unit = options.find((u) => u.id === requestedUnitId) || (options.length === 1 ? options[0] : null);
+        setUnits(options);
+        setFormData({
+          ...emptyForm,
+          unitId: unit?.id ?? '',
+          rentAmount: unit ? String(unit.rent_amount) : '',
+          startDate: new Date().toISOString().split('T')[0],
+        });
+      } catch (error) {
+        toast({
+          title: 'Error loading units',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUnits();
+  }, [requestId, propertyId, requestedUnitId, toast]);
+
+  const validationError = validateTerms(formData);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData(prev => ({
+      ...prev,
+      [e.target.name]: e.target.value
+    }));
+  };
+
+  // The unit's listed rent is the starting point for the agreed rent
+  const handleUnitChange = (unitId: string) => {
+    const unit = units.find((u) => u.id === unitId);
+    setFormData(prev => ({
+      ...prev,
+      unitId,
+      rentAmount: unit ? String(unit.rent_amount) : prev.rentAmount,
+    }));
+  };
+
+  const handleApprove = async () => {
+    if (!request || validationError) return;
+
+    setApproving(true);
+    try {
+      // The terms are validated again server-side, where the tenancy, the
+      // request and the unit are updated together
+      const { error } = await supabase.rpc('approve_join_request', {
+        _request_id: request.id,
+        _unit_id: formData.unitId,
+        _rent_amount: Number(formData.rentAmount),
+        _start_date: formData.startDate,
+        _deposit_amount: Number(formData.depositAmount || 0),
+        _billing_day: Number(formData.billingDay),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Request approved',
+        description: `${request.tenantName} is now your tenant. Generate and send their lease from the Tenants tab; the tenancy becomes active once it's signed.`,
+      });
+      onApproved();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error approving request',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Approve Request</DialogTitle>
+          <DialogDescription>
+            Set the terms of {request?.tenantName}'s tenancy at {request?.propertyName}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-10 bg-muted rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : units.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {requestedUnitId
+              ? 'The requested unit no longer exists.'
+              : 'This property has no vacant units. Free up or add a unit before approving this request.'}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Unit</Label>
+              <Select value={formData.unitId} onValueChange={handleUnitChange} disabled={!!requestedUnitId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a vacant unit" />
+                </SelectTrigger>
+                <SelectContent>
+                  {units.map((unit) => (
+                    <SelectItem key={unit.id} value={unit.id}>
+                      Unit {unit.unit_number} - {unit.bedrooms ?? 0} bed, {unit.bathrooms ?? 0} bath - $
+                      {Number(unit.rent_amount).toLocaleString()}/month
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!requestedUnitId && (
+                <p className="text-xs text-muted-foreground">The tenant asked for any available unit.</p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="approve-rent">Rent per month</Label>
+                <Input
+                  id="approve-rent"
+                  name="rentAmount"
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  value={formData.rentAmount}
+                  onChange={handleChange}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="approve-deposit">Security Deposit (Optional)</Label>
+                <Input
+                  id="approve-deposit"
+                  name="depositAmount"
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  value={formData.depositAmount}
+                  onChange={handleChange}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="approve-start">Start Date</Label>
+                <Input
+                  id="approve-start"
+                  name="startDate"
+                  type="date"
+                  value={formData.startDate}
+                  onChange={handleChange}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="approve-billing-day">Rent Due Day</Label>
+                <Input
+                  id="approve-billing-day"
+                  name="billingDay"
+                  type="number"
+                  min={1}
+                  max={28}
+                  value={formData.billingDay}
+                  onChange={handleChange}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Rent falls due on this day each month (1-28). A partial first period is pro-rated.
+            </p>
+            {validationError && <p className="text-sm text-destructive">{validationError}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApprove} disabled={loading || approving || !!validationError}>
+            {approving ? 'Approving...' : 'Approve'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ApproveRequestDialog;
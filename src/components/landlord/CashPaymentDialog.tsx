@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { toDateString } from '@/lib/rentCharges';
+
+interface CashPaymentDialogProps {
+  tenancy: { id: string; tenantName: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+// Rent the tenant paid the landlord in person. It clears their charges but is
+// not added to the landlord's payout balance, since the platform never held it.
+const CashPaymentDialog: React.FC<CashPaymentDialogProps> = ({ tenancy, onOpenChange, onSaved }) => {
+  const [amount, setAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const tenancyId = tenancy?.id;
+  const today = toDateString(new Date());
+
+  useEffect(() => {
+    setAmount('');
+    setPaymentDate(toDateString(new Date()));
+  }, [tenancyId]);
+
+  const validationError =
+    !(Number(amount) > 0)
+      ? 'Enter the amount received'
+      : !paymentDate || paymentDate > today
+      ? 'The payment date cannot be in the future'
+      : null;
+
+  const handleSave = async () => {
+    if (!tenancy || validationError) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('record_cash_payment', {
+        _tenancy_id: tenancy.id,
+        _amount: Number(amount),
+        _payment_date: paymentDate,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Cash payment recorded',
+        description: `$${Number(amount).toLocaleString()} from ${tenancy.tenantName}`,
+      });
+
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error recording payment',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!tenancy} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record Cash Payment - {tenancy?.tenantName}</DialogTitle>
+          <DialogDescription>
+            Rent you received in person. It is applied to the tenant's oldest unpaid charges and is not added to your
+            payout balance.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="cash_payment_amount">Amount</Label>
+            <Input
+              id="cash_payment_amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cash_payment_date">Date Received</Label>
+            <Input
+              id="cash_payment_date"
+              type="date"
+              max={today}
+              value={paymentDate}
+              onChange={(e) => setPaymentDate(e.target.value)}
+            />
+          </div>
+        </div>
+        {validationError && amount !== '' && <p className="text-sm text-destructive">{validationError}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !!validationError}>
+            {saving ? 'Saving...' : 'Record Payment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CashPaymentDialog;
@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Paperclip, X } from 'lucide-react';
+import {
+  RECEIPT_TYPES,
+  expenseCategoryLabels,
+  removeReceipt,
+  uploadReceipt,
+  validateReceipt,
+  type Expense,
+  type ExpenseCategory,
+} from '@/lib/expenses';
+
+interface ExpenseDialogProps {
+  open: boolean;
+  // The expense to edit, or null to record a new one
+  expense: Expense | null;
+  properties: { id: string; name: string }[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const ExpenseDialog: React.FC<ExpenseDialogProps> = ({ open, expense, properties, onOpenChange, onSaved }) => {
+  const [propertyId, setPropertyId] = useState('');
+  const [category, setCategory] = useState<ExpenseCategory>('other');
+  const [amount, setAmount] = useState('');
+  const [expenseDate, setExpenseDate] = useState(today());
+  const [description, setDescription] = useState('');
+  const [receipt, setReceipt] = useState<File | null>(null);
+  const [removeExisting, setRemoveExisting] = useState(false);
+  const [receiptError, setReceiptError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const singlePropertyId = properties.length === 1 ? properties[0].id : '';
+
+  // Starts from the expense being edited, or a blank form, each time it opens
+  useEffect(() => {
+    if (!open) return;
+
+    setPropertyId(expense?.property_id || singlePropertyId);
+    setCategory(expense?.category || 'other');
+    setAmount(expense ? String(expense.amount) : '');
+    setExpenseDate(expense?.expense_date || today());
+    setDescription(expense?.description || '');
+    setReceipt(null);
+    setRemoveExisting(false);
+    setReceiptError(null);
+  }, [open, expense, singlePropertyId]);
+
+  // Invoice expenses follow their invoice; only the category and notes change
+  const fromInvoice = !!expense?.vendor_invoice_id;
+  const hasExistingReceipt = !!expense?.receipt_path && !removeExisting;
+
+  const handleReceipt = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] ?? null;
+    e.target.value = '';
+    if (!file) return;
+
+    const error = validateReceipt(file);
+    setReceiptError(error);
+    setReceipt(error ? null : file);
+  };
+
+  const handleSave = async () => {
+    if (!propertyId || !(Number(amount) > 0) || !expenseDate) return;
+
+    setSaving(true);
+    let uploadedPath: string | null = null;
+    try {
+      if (receipt) {
+        uploadedPath = await uploadReceipt(propertyId, receipt);
+      }
+
+      const receiptFields =
+        uploadedPath
+          ? { receipt_path: uploadedPath, receipt_name: receipt.name }
+          : removeExisting
+          ? { receipt_path: null, receipt_name: null }
+          : {};
+
+      const fields = fromInvoice
+        ? { category, description: description.trim() || null, ...receiptFields }
+        : {
+            property_id: propertyId,
+            category,
+            amount: Number(amount),
+            expense_date: expenseDate,
+            description: description.trim() || null,
+            ...receiptFields,
+          };
+
+      const { error } = expense
+        ? await supabase.from('expenses').update(fields).eq('id', expense.id)
+        : await supabase.from('expenses').insert({ ...fields, property_id: propertyId, amount: Number(amount) });
+
+      if (error) throw error;
+
+      // The old file is only dropped once the expense no longer points at it
+      if (expense?.receipt_path && (uploadedPath || removeExisting)) {
+        await removeReceipt(expense.receipt_path).catch(() => undefined);
+      }
+
+      toast({ title: expense ? 'Expense updated' : 'Expense recorded' });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      if (uploadedPath) {
+        await removeReceipt(uploadedPath).catch(() => undefined);
+      }
+      toast({
+        title: 'Error saving expense',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{expense ? 'Edit Expense' : 'Record Expense'}</DialogTitle>
+          <DialogDescription>
+            {fromInvoice
+              ? 'This expense was posted from a vendor invoice, so its amount and date follow the invoice.'
+              : 'Attach a receipt to keep it with the expense'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Property</Label>
+              <Select value={propertyId} onValueChange={setPropertyId} disabled={fromInvoice}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select property" />
+                </SelectTrigger>
+                <SelectContent>
+                  {properties.map((property) => (
+                    <SelectItem key={property.id} value={property.id}>
+                      {property.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={(value: ExpenseCategory) => setCategory(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(expenseCategoryLabels) as ExpenseCategory[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {expenseCategoryLabels[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="expense-amount">Amount ($)</Label>
+              <Input
+                id="expense-amount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                disabled={fromInvoice}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expense-date">Date</Label>
+              <Input
+                id="expense-date"
+                type="date"
+                value={expenseDate}
+                onChange={(e) => setExpenseDate(e.target.value)}
+                disabled={fromInvoice}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="expense-description">Description</Label>
+            <Textarea
+              id="expense-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. Water bill for common areas"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="expense-receipt">Receipt</Label>
+            {receipt || hasExistingReceipt ? (
+              <div className="flex items-center justify-between rounded-md border p-2 text-sm">
+                <span className="flex items-center gap-2 truncate">
+                  <Paperclip className="h-4 w-4 shrink-0" />
+                  {receipt ? receipt.name : expense?.receipt_name || 'Receipt'}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => (receipt ? setReceipt(null) : setRemoveExisting(true))}
+                  aria-label="Remove receipt"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ) : (
+              <Input id="expense-receipt" type="file" accept={RECEIPT_TYPES.join(',')} onChange={handleReceipt} />
+            )}
+            {receiptError && <p className="text-xs text-destructive">{receiptError}</p>}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !propertyId || !(Number(amount) > 0) || !expenseDate}>
+            {saving ? 'Saving...' : 'Save Expense'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExpenseDialog;
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Download } from 'lucide-react';
+import { parseDate } from '@/lib/rentCharges';
+import {
+  EXPENSE_CSV_TEMPLATE,
+  expenseCategoryLabels,
+  parseExpensesCsv,
+  type ExpenseImportResult,
+} from '@/lib/expenses';
+
+interface ExpenseImportDialogProps {
+  open: boolean;
+  properties: { id: string; name: string }[];
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+// Rows shown in the preview; all valid rows are imported
+const PREVIEW_ROWS = 10;
+
+const ExpenseImportDialog: React.FC<ExpenseImportDialogProps> = ({ open, properties, onOpenChange, onImported }) => {
+  const [fileName, setFileName] = useState('');
+  const [result, setResult] = useState<ExpenseImportResult | null>(null);
+  const [importing, setImporting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setFileName('');
+    setResult(null);
+  }, [open]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setResult(parseExpensesCsv(await file.text(), properties));
+  };
+
+  const downloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([EXPENSE_CSV_TEMPLATE], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'expenses-template.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async () => {
+    if (!result || result.rows.length === 0) return;
+
+    setImporting(true);
+    try {
+      const { error } = await supabase.from('expenses').insert(
+        result.rows.map((row) => ({
+          property_id: row.property_id,
+          expense_date: row.expense_date,
+          category: row.category,
+          description: row.description,
+          amount: row.amount,
+        }))
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: 'Expenses imported',
+        description: `${result.rows.length} expense${result.rows.length === 1 ? '' : 's'} added.`,
+      });
+      onImported();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error importing expenses',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Expenses</DialogTitle>
+          <DialogDescription>
+            Upload a CSV with date (YYYY-MM-DD), property, category, description and amount columns. Property names
+            must match the names of your properties.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Input type="file" accept=".csv,text/csv" onChange={handleFile} className="max-w-xs" />
+            <Button type="button" variant="link" size="sm" className="px-0" onClick={downloadTemplate}>
+              <Download className="h-4 w-4 mr-1" />
+              Download template
+            </Button>
+          </div>
+
+          {result && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                <span className="font-medium">{fileName}</span>: {result.rows.length} expense
+                {result.rows.length === 1 ? '' : 's'} ready to import
+                {result.errors.length > 0 && `, ${result.errors.length} row${result.errors.length === 1 ? '' : 's'} skipped`}
+              </p>
+
+              {result.errors.length > 0 && (
+                <div className="rounded-lg border border-destructive/50 bg-destructive/5 p-3 text-xs space-y-1 max-h-32 overflow-y-auto">
+                  {result.errors.map((error) => (
+                    <p key={error} className="text-destructive">{error}</p>
+                  ))}
+                </div>
+              )}
+
+              {result.rows.length > 0 && (
+                <div className="rounded-lg border text-sm">
+                  {result.rows.slice(0, PREVIEW_ROWS).map((row) => (
+                    <div key={row.row} className="grid grid-cols-5 gap-2 border-b last:border-0 p-2">
+                      <span>{parseDate(row.expense_date).toLocaleDateString()}</span>
+                      <span className="truncate">{row.propertyName}</span>
+                      <span className="truncate">{expenseCategoryLabels[row.category]}</span>
+                      <span className="truncate text-muted-foreground">{row.description}</span>
+                      <span className="text-right">${row.amount.toLocaleString()}</span>
+                    </div>
+                  ))}
+                  {result.rows.length > PREVIEW_ROWS && (
+                    <p className="p-2 text-xs text-muted-foreground">
+                      and {result.rows.length - PREVIEW_ROWS} more
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={importing || !result || result.rows.length === 0}>
+            {importing ? 'Importing...' : result?.rows.length ? `Import ${result.rows.length} Expenses` : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExpenseImportDialog;
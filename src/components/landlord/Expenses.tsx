@@ -0,0 +1,333 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Receipt, Plus, Upload, Pencil, Trash2, Paperclip, Repeat, Wrench } from 'lucide-react';
+import ExpenseDialog from '@/components/landlord/ExpenseDialog';
+import ExpenseImportDialog from '@/components/landlord/ExpenseImportDialog';
+import RecurringExpenses from '@/components/landlord/RecurringExpenses';
+import { parseDate } from '@/lib/rentCharges';
+import {
+  expenseCategoryLabels,
+  receiptUrl,
+  removeReceipt,
+  totalsByCategory,
+  type Expense,
+  type ExpenseCategory,
+} from '@/lib/expenses';
+
+const startOfYear = () => `${new Date().getFullYear()}-01-01`;
+const today = () => new Date().toISOString().slice(0, 10);
+
+const Expenses: React.FC = () => {
+  const [properties, setProperties] = useState<{ id: string; name: string }[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [propertyFilter, setPropertyFilter] = useState('all');
+  const [categoryFilter, setCategoryFilter] = useState<ExpenseCategory | 'all'>('all');
+  const [from, setFrom] = useState(startOfYear());
+  const [to, setTo] = useState(today());
+  const [editing, setEditing] = useState<Expense | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [deleting, setDeleting] = useState<Expense | null>(null);
+  // Bumped after every change to reload the list
+  const [reloadKey, setReloadKey] = useState(0);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const landlordId = profile?.user_id;
+
+  useEffect(() => {
+    if (!landlordId) return;
+
+    const fetchExpenses = async () => {
+      try {
+        const { data: propertiesData, error: propertiesError } = await supabase
+          .from('properties')
+          .select('id, name')
+          .eq('landlord_id', landlordId)
+          .order('name');
+
+        if (propertiesError) throw propertiesError;
+
+        let query = supabase
+          .from('expenses')
+          .select('*')
+          .in('property_id', (propertiesData || []).map((p) => p.id))
+          .order('expense_date', { ascending: false });
+
+        if (from) query = query.gte('expense_date', from);
+        if (to) query = query.lte('expense_date', to);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        setProperties(propertiesData || []);
+        setExpenses(data || []);
+      } catch (error) {
+        toast({
+          title: 'Error loading expenses',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchExpenses();
+  }, [landlordId, from, to, reloadKey, toast]);
+
+  const visible = expenses.filter(
+    (expense) =>
+      (propertyFilter === 'all' || expense.property_id === propertyFilter) &&
+      (categoryFilter === 'all' || expense.category === categoryFilter)
+  );
+  const total = visible.reduce((sum, expense) => sum + Number(expense.amount), 0);
+  const byCategory = Object.entries(totalsByCategory(visible)).sort(([, a], [, b]) => b - a) as [
+    ExpenseCategory,
+    number,
+  ][];
+
+  const propertyName = (id: string | null) => properties.find((p) => p.id === id)?.name || 'Unknown property';
+
+  const openEditor = (expense: Expense | null) => {
+    setEditing(expense);
+    setShowEditor(true);
+  };
+
+  const openReceipt = async (expense: Expense) => {
+    if (!expense.receipt_path) return;
+
+    try {
+      window.open(await receiptUrl(expense.receipt_path), '_blank', 'noopener');
+    } catch (error) {
+      toast({
+        title: 'Error opening receipt',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      const { error } = await supabase.from('expenses').delete().eq('id', deleting.id);
+      if (error) throw error;
+
+      if (deleting.receipt_path) {
+        await removeReceipt(deleting.receipt_path).catch(() => undefined);
+      }
+
+      toast({ title: 'Expense deleted' });
+      setDeleting(null);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error deleting expense',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Receipt className="h-5 w-5" />
+                Expenses
+              </CardTitle>
+              <CardDescription>What your properties cost to run</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setShowImport(true)} disabled={properties.length === 0}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV
+              </Button>
+              <Button onClick={() => openEditor(null)} disabled={properties.length === 0}>
+                <Plus className="h-4 w-4 mr-2" />
+                Record Expense
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-2">
+              <Label>Property</Label>
+              <Select value={propertyFilter} onValueChange={setPropertyFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All properties</SelectItem>
+                  {properties.map((property) => (
+                    <SelectItem key={property.id} value={property.id}>
+                      {property.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select
+                value={categoryFilter}
+                onValueChange={(value: ExpenseCategory | 'all') => setCategoryFilter(value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All categories</SelectItem>
+                  {(Object.keys(expenseCategoryLabels) as ExpenseCategory[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {expenseCategoryLabels[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expenses-from">From</Label>
+              <Input id="expenses-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expenses-to">To</Label>
+              <Input id="expenses-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 bg-muted rounded animate-pulse"></div>
+              ))}
+            </div>
+          ) : visible.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Receipt className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No expenses in this period</p>
+              <p className="text-sm">Record one, import a spreadsheet or set up a recurring expense</p>
+            </div>
+          ) : (
+            <>
+              <div className="rounded-lg bg-muted/40 p-4 space-y-3">
+                <div className="flex items-baseline justify-between">
+                  <span className="text-sm text-muted-foreground">
+                    {visible.length} expense{visible.length === 1 ? '' : 's'}
+                  </span>
+                  <span className="text-2xl font-bold">${total.toLocaleString()}</span>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {byCategory.map(([category, amount]) => (
+                    <Badge key={category} variant="secondary">
+                      {expenseCategoryLabels[category]}: ${amount.toLocaleString()}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {visible.map((expense) => (
+                  <div key={expense.id} className="flex flex-wrap items-center justify-between gap-3 p-3 border rounded-lg">
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">{expense.description || expenseCategoryLabels[expense.category]}</span>
+                        <Badge variant="outline">{expenseCategoryLabels[expense.category]}</Badge>
+                        {expense.recurring_expense_id && (
+                          <Badge variant="secondary" className="flex items-center gap-1">
+                            <Repeat className="h-3 w-3" />
+                            Recurring
+                          </Badge>
+                        )}
+                        {expense.vendor_invoice_id && (
+                          <Badge variant="secondary" className="flex items-center gap-1">
+                            <Wrench className="h-3 w-3" />
+                            Vendor invoice
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {parseDate(expense.expense_date).toLocaleDateString()} · {propertyName(expense.property_id)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold mr-2">${Number(expense.amount).toLocaleString()}</span>
+                      {expense.receipt_path && (
+                        <Button variant="ghost" size="sm" onClick={() => openReceipt(expense)} title="View receipt">
+                          <Paperclip className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button variant="outline" size="sm" onClick={() => openEditor(expense)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      {!expense.vendor_invoice_id && (
+                        <Button variant="outline" size="sm" onClick={() => setDeleting(expense)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <RecurringExpenses properties={properties} />
+
+      <ExpenseDialog
+        open={showEditor}
+        expense={editing}
+        properties={properties}
+        onOpenChange={setShowEditor}
+        onSaved={() => setReloadKey((key) => key + 1)}
+      />
+
+      <ExpenseImportDialog
+        open={showImport}
+        properties={properties}
+        onOpenChange={setShowImport}
+        onImported={() => setReloadKey((key) => key + 1)}
+      />
+
+      <Dialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Expense</DialogTitle>
+            <DialogDescription>
+              Delete this ${Number(deleting?.amount ?? 0).toLocaleString()} expense
+              {deleting?.receipt_path ? ' and its receipt' : ''}?
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete Expense
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Expenses;
@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  defaultLateFeePolicy,
+  describeLateFeePolicy,
+  lateFeeForCharge,
+  lateFeeTypeLabels,
+  validateLateFeePolicy,
+  type LateFeePolicy,
+  type LateFeeType,
+} from '@/lib/lateFees';
+
+interface LateFeePolicyDialogProps {
+  property: { id: string; name: string } | null;
+  policy: LateFeePolicy | null;
+  // Typical rent on the property, used to preview what a late tenant would pay
+  sampleRent: number;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+// Days late shown in the preview
+const PREVIEW_DAYS = [7, 14, 30];
+
+const toFormValues = (policy: LateFeePolicy) => ({
+  enabled: policy.enabled,
+  grace_days: String(policy.grace_days),
+  fee_type: policy.fee_type,
+  initial_fee: policy.initial_fee ? String(policy.initial_fee) : '',
+  daily_fee: policy.daily_fee ? String(policy.daily_fee) : '',
+  max_fee: policy.max_fee !== null ? String(policy.max_fee) : '',
+});
+
+const LateFeePolicyDialog: React.FC<LateFeePolicyDialogProps> = ({
+  property,
+  policy,
+  sampleRent,
+  onOpenChange,
+  onSaved,
+}) => {
+  const [formData, setFormData] = useState(toFormValues(policy || defaultLateFeePolicy));
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setFormData(toFormValues(policy || defaultLateFeePolicy));
+  }, [policy, property?.id]);
+
+  const draft: LateFeePolicy = {
+    enabled: formData.enabled,
+    grace_days: Number(formData.grace_days),
+    fee_type: formData.fee_type,
+    initial_fee: Number(formData.initial_fee || 0),
+    daily_fee: Number(formData.daily_fee || 0),
+    max_fee: formData.max_fee === '' ? null : Number(formData.max_fee),
+  };
+  const validationError = formData.enabled ? validateLateFeePolicy(draft) : null;
+  const isPercentage = formData.fee_type === 'percentage';
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData(prev => ({
+      ...prev,
+      [e.target.name]: e.target.value
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!property) return;
+
+    // A policy that was never set up can simply stay absent when switched off
+    if (!formData.enabled && !policy) {
+      onOpenChange(false);
+      return;
+    }
+
+    if (validationError) {
+      toast({
+        title: "Check the late fee policy",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Switching late fees off keeps the rest of the policy for next time
+      const { error } = formData.enabled
+        ? await supabase
+            .from('late_fee_policies')
+            .upsert({ property_id: property.id, ...draft }, { onConflict: 'property_id' })
+        : await supabase
+            .from('late_fee_policies')
+            .update({ enabled: false })
+            .eq('property_id', property.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Late fee policy saved",
+        description: `${property.name}: ${describeLateFeePolicy(draft)}`,
+      });
+
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving late fee policy:', error);
+      toast({
+        title: "Error saving late fee policy",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!property} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Late Fees - {property?.name}</DialogTitle>
+          <DialogDescription>
+            Fees are added to a tenant's balance automatically once rent is overdue by more than the grace period.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="late-fees-enabled">Charge late fees</Label>
+            <Switch
+              id="late-fees-enabled"
+              checked={formData.enabled}
+              onCheckedChange={(enabled) => setFormData(prev => ({ ...prev, enabled }))}
+            />
+          </div>
+
+          {formData.enabled && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="grace_days">Grace Period (days)</Label>
+                  <Input
+                    id="grace_days"
+                    name="grace_days"
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={formData.grace_days}
+                    onChange={handleChange}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Fee Type</Label>
+                  <Select
+                    value={formData.fee_type}
+                    onValueChange={(value: LateFeeType) => setFormData(prev => ({ ...prev, fee_type: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(lateFeeTypeLabels) as LateFeeType[]).map(type => (
+                        <SelectItem key={type} value={type}>
+                          {lateFeeTypeLabels[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="initial_fee">Initial Fee {isPercentage ? '(%)' : '($)'}</Label>
+                  <Input
+                    id="initial_fee"
+                    name="initial_fee"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="0"
+                    value={formData.initial_fee}
+                    onChange={handleChange}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="daily_fee">Per Day {isPercentage ? '(%)' : '($)'}</Label>
+                  <Input
+                    id="daily_fee"
+                    name="daily_fee"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="0"
+                    value={formData.daily_fee}
+                    onChange={handleChange}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max_fee">Cap {isPercentage ? '(%)' : '($)'}</Label>
+                  <Input
+                    id="max_fee"
+                    name="max_fee"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="No cap"
+                    value={formData.max_fee}
+                    onChange={handleChange}
+                  />
+                </div>
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                The initial fee is charged the day after the grace period ends, then the daily fee for every
+                further day the rent stays unpaid. The cap applies to each rent charge separately.
+              </p>
+
+              {validationError ? (
+                <p className="text-sm text-destructive">{validationError}</p>
+              ) : (
+                <div className="rounded-lg bg-slate-50 p-3 text-sm space-y-1">
+                  <p className="font-medium text-slate-800">{describeLateFeePolicy(draft)}</p>
+                  {sampleRent > 0 && PREVIEW_DAYS.map(days => (
+                    <div key={days} className="flex justify-between text-muted-foreground">
+                      <span>${sampleRent.toLocaleString()} rent, {days} days late</span>
+                      <span className="font-medium text-slate-700">
+                        ${lateFeeForCharge(draft, sampleRent, days).toLocaleString()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !!validationError}>
+            {saving ? 'Saving...' : 'Save Policy'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LateFeePolicyDialog;
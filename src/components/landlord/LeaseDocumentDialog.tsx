@@ -0,0 +1,276 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Download, Eye, FilePlus, PenLine, Send } from 'lucide-react';
+import LeaseSigningDialog from '@/components/tenant/LeaseSigningDialog';
+import LeaseSignatureAudit from '@/components/tenant/LeaseSignatureAudit';
+import {
+  LEASE_DOCUMENT_COLUMNS,
+  downloadLeaseDocument,
+  generateLeaseDocument,
+  leaseSigningStatus,
+  leaseSigningStatusLabels,
+  sendLeaseDocument,
+  viewLeaseDocument,
+  type LeaseDocument,
+} from '@/lib/leaseDocuments';
+
+interface LeaseDocumentDialogProps {
+  tenancy: { id: string; tenantName: string; unitLabel: string } | null;
+  onOpenChange: (open: boolean) => void;
+  // Called after the landlord countersigns, which may activate the tenancy
+  onSigned: () => void;
+}
+
+interface TemplateOption {
+  id: string;
+  name: string;
+  is_default: boolean;
+}
+
+const LeaseDocumentDialog: React.FC<LeaseDocumentDialogProps> = ({ tenancy, onOpenChange, onSigned }) => {
+  const [documents, setDocuments] = useState<LeaseDocument[]>([]);
+  const [currentDocumentId, setCurrentDocumentId] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<TemplateOption[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [signingDocument, setSigningDocument] = useState<LeaseDocument | null>(null);
+  // Bumped after generating, sending or signing a version to reload the list
+  const [reloadKey, setReloadKey] = useState(0);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const tenancyId = tenancy?.id;
+  const userId = profile?.user_id;
+
+  useEffect(() => {
+    if (!tenancyId || !userId) return;
+
+    const fetchLeaseData = async () => {
+      setLoading(true);
+      try {
+        const [documentsResult, tenancyResult, templatesResult] = await Promise.all([
+          supabase
+            .from('lease_documents')
+            .select(LEASE_DOCUMENT_COLUMNS)
+            .eq('tenancy_id', tenancyId)
+            .order('version', { ascending: false }),
+          supabase.from('tenancies').select('current_lease_document_id').eq('id', tenancyId).single(),
+          supabase
+            .from('lease_templates')
+            .select('id, name, is_default')
+            .eq('landlord_id', userId)
+            .order('created_at', { ascending: true }),
+        ]);
+
+        if (documentsResult.error) throw documentsResult.error;
+        if (tenancyResult.error) throw tenancyResult.error;
+        if (templatesResult.error) throw templatesResult.error;
+
+        const options = templatesResult.data || [];
+        setDocuments(documentsResult.data || []);
+        setCurrentDocumentId(tenancyResult.data.current_lease_document_id);
+        setTemplates(options);
+        setTemplateId((options.find((t) => t.is_default) || options[0])?.id ?? '');
+      } catch (error) {
+        toast({
+          title: 'Error loading lease',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLeaseData();
+  }, [tenancyId, userId, reloadKey, toast]);
+
+  const handleGenerate = async () => {
+    if (!tenancy || !templateId) return;
+
+    setGenerating(true);
+    try {
+      const document = await generateLeaseDocument(tenancy.id, templateId);
+      toast({
+        title: 'Lease generated',
+        description: `Version ${document.version} is now the lease for ${tenancy.tenantName}.`,
+      });
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error generating lease',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleSend = async (document: LeaseDocument) => {
+    if (!tenancy) return;
+
+    setSending(true);
+    try {
+      await sendLeaseDocument(document.id);
+      toast({
+        title: 'Lease sent',
+        description: `${tenancy.tenantName} can now review and sign version ${document.version}.`,
+      });
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error sending lease',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSigned = () => {
+    setReloadKey((key) => key + 1);
+    onSigned();
+  };
+
+  const handleOpen = async (document: LeaseDocument, action: 'view' | 'download') => {
+    try {
+      if (action === 'view') await viewLeaseDocument(document);
+      else await downloadLeaseDocument(document);
+    } catch (error) {
+      toast({
+        title: 'Error opening lease',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!tenancy} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Lease Agreement</DialogTitle>
+          <DialogDescription>
+            {tenancy?.tenantName} · {tenancy?.unitLabel}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <div key={i} className="h-12 bg-muted rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label>Generate from template</Label>
+              {templates.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Create a lease template in the Leases tab first.
+                </p>
+              ) : (
+                <div className="flex gap-2">
+                  <Select value={templateId} onValueChange={setTemplateId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a template" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {templates.map((template) => (
+                        <SelectItem key={template.id} value={template.id}>
+                          {template.name}
+                          {template.is_default ? ' (default)' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleGenerate} disabled={generating || !templateId}>
+                    <FilePlus className="h-4 w-4 mr-2" />
+                    {generating ? 'Generating...' : documents.length > 0 ? 'New Version' : 'Generate'}
+                  </Button>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Each lease is saved as a new version; earlier versions stay available to you and the tenant. Send the current version to the tenant to sign, then countersign it to activate the tenancy.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Versions</Label>
+              {documents.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No lease has been generated for this tenancy yet.</p>
+              ) : (
+                documents.map((document) => {
+                  const isCurrent = document.id === currentDocumentId;
+                  const signingStatus = leaseSigningStatus(document);
+
+                  return (
+                    <div key={document.id} className="p-3 border rounded-lg space-y-3">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">Version {document.version}</span>
+                            {isCurrent && <Badge>Current</Badge>}
+                            <Badge variant={signingStatus === 'signed' ? 'default' : 'outline'}>
+                              {leaseSigningStatusLabels[signingStatus]}
+                            </Badge>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Generated {new Date(document.created_at).toLocaleString()} · SHA-256{' '}
+                            <span className="font-mono">{document.content_hash.slice(0, 12)}</span>
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          {isCurrent && signingStatus === 'draft' && (
+                            <Button size="sm" onClick={() => handleSend(document)} disabled={sending}>
+                              <Send className="h-4 w-4 mr-2" />
+                              {sending ? 'Sending...' : 'Send to Tenant'}
+                            </Button>
+                          )}
+                          {isCurrent && signingStatus === 'awaiting_landlord' && (
+                            <Button size="sm" onClick={() => setSigningDocument(document)}>
+                              <PenLine className="h-4 w-4 mr-2" />
+                              Countersign
+                            </Button>
+                          )}
+                          <Button size="sm" variant="outline" onClick={() => handleOpen(document, 'view')}>
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => handleOpen(document, 'download')}>
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                      <LeaseSignatureAudit document={document} />
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+
+      <LeaseSigningDialog
+        document={signingDocument}
+        role="landlord"
+        signerName={profile?.full_name ?? ''}
+        onOpenChange={(open) => !open && setSigningDocument(null)}
+        onSigned={handleSigned}
+      />
+    </Dialog>
+  );
+};
+
+export default LeaseDocumentDialog;
@@ -0,0 +1,342 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { FileText, Plus, Pencil, Trash2, Star } from 'lucide-react';
+import {
+  findUnknownPlaceholders,
+  leasePlaceholderValues,
+  leasePlaceholders,
+  renderLeaseTemplate,
+  sampleLeaseDetails,
+  standardLeaseTemplate,
+  toLeaseBlocks,
+} from '@/lib/leaseTemplates';
+
+interface LeaseTemplate {
+  id: string;
+  name: string;
+  body: string;
+  is_default: boolean;
+  updated_at: string | null;
+}
+
+// Rendered the way the PDF lays it out, with sample tenancy details
+const LeasePreview: React.FC<{ body: string }> = ({ body }) => {
+  const today = new Date().toISOString().slice(0, 10);
+  const blocks = toLeaseBlocks(renderLeaseTemplate(body, leasePlaceholderValues(sampleLeaseDetails, today)));
+
+  return (
+    <div className="rounded-lg border bg-white p-4 text-sm space-y-2 max-h-[28rem] overflow-y-auto">
+      {blocks.length === 0 && <p className="text-muted-foreground">Nothing to preview yet</p>}
+      {blocks.map((block, index) =>
+        block.type === 'heading' ? (
+          <h4 key={index} className={index === 0 ? 'text-lg font-bold' : 'font-semibold pt-2'}>
+            {block.text}
+          </h4>
+        ) : (
+          <p key={index} className="whitespace-pre-line">{block.text}</p>
+        )
+      )}
+    </div>
+  );
+};
+
+const LeaseTemplates: React.FC = () => {
+  const [templates, setTemplates] = useState<LeaseTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<LeaseTemplate | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [formData, setFormData] = useState({ name: '', body: '' });
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState<LeaseTemplate | null>(null);
+  // Bumped after every change to reload the list
+  const [reloadKey, setReloadKey] = useState(0);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const unknownPlaceholders = findUnknownPlaceholders(formData.body);
+
+  useEffect(() => {
+    const userId = profile?.user_id;
+    if (!userId) return;
+
+    const fetchTemplates = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('lease_templates')
+          .select('id, name, body, is_default, updated_at')
+          .eq('landlord_id', userId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        setTemplates(data || []);
+      } catch (error) {
+        toast({
+          title: 'Error loading lease templates',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTemplates();
+  }, [profile?.user_id, reloadKey, toast]);
+
+  const openEditor = (template: LeaseTemplate | null) => {
+    setEditing(template);
+    setFormData(
+      template
+        ? { name: template.name, body: template.body }
+        : { name: templates.length === 0 ? 'Standard lease' : '', body: standardLeaseTemplate }
+    );
+    setShowEditor(true);
+  };
+
+  const handleSave = async () => {
+    if (!profile?.user_id) return;
+
+    setSaving(true);
+    try {
+      const { error } = editing
+        ? await supabase
+            .from('lease_templates')
+            .update({ name: formData.name.trim(), body: formData.body })
+            .eq('id', editing.id)
+        : await supabase.from('lease_templates').insert({
+            landlord_id: profile.user_id,
+            name: formData.name.trim(),
+            body: formData.body,
+            // The first template is used by default
+            is_default: templates.length === 0,
+          });
+
+      if (error) throw error;
+
+      toast({ title: editing ? 'Lease template updated' : 'Lease template created' });
+      setShowEditor(false);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error saving lease template',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetDefault = async (template: LeaseTemplate) => {
+    if (!profile?.user_id) return;
+
+    try {
+      // Only one default is allowed, so clear the old one first
+      const { error: clearError } = await supabase
+        .from('lease_templates')
+        .update({ is_default: false })
+        .eq('landlord_id', profile.user_id)
+        .eq('is_default', true);
+
+      if (clearError) throw clearError;
+
+      const { error } = await supabase
+        .from('lease_templates')
+        .update({ is_default: true })
+        .eq('id', template.id);
+
+      if (error) throw error;
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error updating lease template',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      const { error } = await supabase.from('lease_templates').delete().eq('id', deleting.id);
+      if (error) throw error;
+
+      toast({ title: 'Lease template deleted' });
+      setDeleting(null);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error deleting lease template',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Lease Templates
+            </CardTitle>
+            <CardDescription>
+              Write your lease once and generate a PDF for each tenancy from the Tenants tab
+            </CardDescription>
+          </div>
+          <Button onClick={() => openEditor(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <div key={i} className="h-12 bg-muted rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : templates.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No lease templates yet</p>
+            <p className="text-sm">Start from the standard lease and adjust it to your terms</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {templates.map((template) => (
+              <div key={template.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{template.name}</span>
+                    {template.is_default && <Badge variant="secondary">Default</Badge>}
+                  </div>
+                  {template.updated_at && (
+                    <p className="text-sm text-muted-foreground">
+                      Updated {new Date(template.updated_at).toLocaleDateString()}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {!template.is_default && (
+                    <Button variant="outline" size="sm" onClick={() => handleSetDefault(template)}>
+                      <Star className="h-4 w-4 mr-1" />
+                      Make Default
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => openEditor(template)}>
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setDeleting(template)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showEditor} onOpenChange={setShowEditor}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Lease Template' : 'New Lease Template'}</DialogTitle>
+            <DialogDescription>
+              Placeholders in double braces are filled in with each tenancy's details. Start a line with "# " for a
+              heading and leave a blank line between paragraphs.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. 12-month apartment lease"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-body">Lease Text</Label>
+                <Textarea
+                  id="template-body"
+                  rows={16}
+                  className="font-mono text-xs"
+                  value={formData.body}
+                  onChange={(e) => setFormData({ ...formData, body: e.target.value })}
+                />
+              </div>
+              {unknownPlaceholders.length > 0 && (
+                <p className="text-sm text-red-600">
+                  Unknown placeholder{unknownPlaceholders.length === 1 ? '' : 's'}:{' '}
+                  {unknownPlaceholders.map((key) => `{{${key}}}`).join(', ')}
+                </p>
+              )}
+              <div className="flex flex-wrap gap-1">
+                {leasePlaceholders.map(({ key, label }) => (
+                  <Badge key={key} variant="outline" className="font-mono text-xs" title={label}>
+                    {`{{${key}}}`}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Preview with sample details</Label>
+              <LeasePreview body={formData.body} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowEditor(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || !formData.name.trim() || !formData.body.trim() || unknownPlaceholders.length > 0}
+            >
+              {saving ? 'Saving...' : 'Save Template'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Lease Template</DialogTitle>
+            <DialogDescription>
+              Delete "{deleting?.name}"? Leases already generated from it are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete Template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default LeaseTemplates;
@@ -0,0 +1,274 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Wrench, CalendarClock, User, Paperclip } from 'lucide-react';
+import MaintenanceRequestDialog from '@/components/landlord/MaintenanceRequestDialog';
+import {
+  isOpenMaintenanceRequest,
+  maintenanceCategoryLabels,
+  maintenancePriorityColors,
+  maintenancePriorityLabels,
+  maintenanceStatusLabels,
+  sortByPriority,
+  type MaintenanceRequest,
+  type MaintenanceStatus,
+} from '@/lib/maintenance';
+
+interface BoardRequest extends MaintenanceRequest {
+  unitLabel: string;
+  tenantName: string;
+  propertyId: string;
+  attachmentCount: number;
+}
+
+// Columns of open work; resolved and closed requests are listed below the board
+const boardColumns: MaintenanceStatus[] = ['submitted', 'acknowledged', 'scheduled', 'in_progress'];
+
+// Resolved and closed requests shown under the board
+const RECENTLY_DONE_LIMIT = 10;
+
+const MaintenanceBoard: React.FC = () => {
+  const [requests, setRequests] = useState<BoardRequest[]>([]);
+  const [properties, setProperties] = useState<{ id: string; name: string }[]>([]);
+  const [propertyFilter, setPropertyFilter] = useState('all');
+  const [selectedRequest, setSelectedRequest] = useState<BoardRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Bumped after an update so the board reloads
+  const [version, setVersion] = useState(0);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const landlordId = profile?.user_id;
+
+  useEffect(() => {
+    if (!landlordId) return;
+
+    const fetchRequests = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('maintenance_requests')
+          .select(`
+            *,
+            units!maintenance_requests_unit_id_fkey (
+              unit_number,
+              properties!units_property_id_fkey (
+                id,
+                name,
+                landlord_id
+              )
+            ),
+            maintenance_attachments ( id )
+          `)
+          .eq('units.properties.landlord_id', landlordId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+
+        const ownRequests = (data || []).filter(r => r.units?.properties?.landlord_id === landlordId);
+        const tenantIds = ownRequests.map(r => r.tenant_id).filter(Boolean);
+        const { data: profilesData } = await supabase
+          .from('profiles')
+          .select('user_id, full_name')
+          .in('user_id', tenantIds);
+
+        const boardRequests = ownRequests.map(r => ({
+          ...r,
+          unitLabel: `${r.units.properties.name} - Unit ${r.units.unit_number}`,
+          tenantName: (profilesData || []).find(p => p.user_id === r.tenant_id)?.full_name || 'Unknown',
+          propertyId: r.units.properties.id,
+          attachmentCount: r.maintenance_attachments.length,
+        }));
+
+        setRequests(boardRequests);
+        setProperties(
+          Array.from(new Map(ownRequests.map(r => [r.units.properties.id, r.units.properties.name])).entries())
+            .map(([id, name]) => ({ id, name }))
+        );
+      } catch (error) {
+        toast({
+          title: 'Error loading maintenance requests',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRequests();
+  }, [landlordId, version, toast]);
+
+  const visible = sortByPriority(
+    requests.filter(r => propertyFilter === 'all' || r.propertyId === propertyFilter)
+  );
+  const done = visible.filter(r => !isOpenMaintenanceRequest(r)).slice(0, RECENTLY_DONE_LIMIT);
+
+  const renderRequest = (request: BoardRequest) => (
+    <button
+      key={request.id}
+      type="button"
+      onClick={() => setSelectedRequest(request)}
+      className="w-full text-left rounded-lg border bg-background p-3 space-y-2 hover:border-primary/50 hover:shadow-sm transition-all"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <span className="font-medium text-sm">{request.title}</span>
+        <Badge variant="outline" className={`shrink-0 ${maintenancePriorityColors[request.priority]}`}>
+          {maintenancePriorityLabels[request.priority]}
+        </Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {maintenanceCategoryLabels[request.category]} · {request.unitLabel}
+      </p>
+      <p className="text-xs text-muted-foreground">
+        {request.tenantName}
+        {request.created_at && ` · ${new Date(request.created_at).toLocaleDateString()}`}
+      </p>
+      {(request.assignee || request.scheduled_for || request.attachmentCount > 0) && (
+        <div className="flex flex-wrap gap-3 text-xs">
+          {request.assignee && (
+            <span className="flex items-center gap-1">
+              <User className="h-3 w-3" />
+              {request.assignee}
+            </span>
+          )}
+          {request.scheduled_for && (
+            <span className="flex items-center gap-1">
+              <CalendarClock className="h-3 w-3" />
+              {new Date(request.scheduled_for).toLocaleString()}
+            </span>
+          )}
+          {request.attachmentCount > 0 && (
+            <span className="flex items-center gap-1">
+              <Paperclip className="h-3 w-3" />
+              {request.attachmentCount}
+            </span>
+          )}
+        </div>
+      )}
+    </button>
+  );
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Maintenance</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="animate-pulse space-y-4">
+            <div className="h-4 bg-muted rounded w-3/4"></div>
+            <div className="h-4 bg-muted rounded w-1/2"></div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Wrench className="h-5 w-5" />
+                Maintenance
+              </CardTitle>
+              <CardDescription>Triage, assign and track your tenants' maintenance requests</CardDescription>
+            </div>
+            {properties.length > 1 && (
+              <Select value={propertyFilter} onValueChange={setPropertyFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All properties</SelectItem>
+                  {properties.map(property => (
+                    <SelectItem key={property.id} value={property.id}>
+                      {property.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {requests.length === 0 ? (
+            <div className="text-center py-8">
+              <Wrench className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="font-medium mb-2">No maintenance requests</h3>
+              <p className="text-sm text-muted-foreground">Requests your tenants submit will appear here.</p>
+            </div>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              {boardColumns.map(status => {
+                const column = visible.filter(r => r.status === status);
+
+                return (
+                  <div key={status} className="rounded-lg bg-muted/40 p-3 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <h4 className="text-sm font-semibold">{maintenanceStatusLabels[status]}</h4>
+                      <Badge variant="secondary">{column.length}</Badge>
+                    </div>
+                    {column.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">Nothing here</p>
+                    ) : (
+                      column.map(renderRequest)
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {done.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Recently Resolved</CardTitle>
+            <CardDescription>Resolved requests close once the tenant confirms the fix</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {done.map(request => (
+              <button
+                key={request.id}
+                type="button"
+                onClick={() => setSelectedRequest(request)}
+                className="w-full flex items-center justify-between gap-3 rounded-lg border p-3 text-left text-sm hover:bg-muted/50"
+              >
+                <span>
+                  <span className="font-medium">{request.title}</span>
+                  <span className="text-muted-foreground"> · {request.unitLabel}</span>
+                </span>
+                <span className="flex items-center gap-2 shrink-0">
+                  {request.resolved_at && (
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(request.resolved_at).toLocaleDateString()}
+                    </span>
+                  )}
+                  <Badge variant={request.status === 'closed' ? 'secondary' : 'default'}>
+                    {maintenanceStatusLabels[request.status]}
+                  </Badge>
+                </span>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <MaintenanceRequestDialog
+        request={selectedRequest}
+        onOpenChange={(open) => !open && setSelectedRequest(null)}
+        onUpdated={() => setVersion(v => v + 1)}
+      />
+    </div>
+  );
+};
+
+export default MaintenanceBoard;
@@ -0,0 +1,346 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import MaintenanceTimeline from '@/components/tenant/MaintenanceTimeline';
+import MaintenanceGallery from '@/components/tenant/MaintenanceGallery';
+import MaintenanceMessages from '@/components/messaging/MaintenanceMessages';
+import AttachmentPicker from '@/components/tenant/AttachmentPicker';
+import WorkOrderPanel from '@/components/landlord/WorkOrderPanel';
+import {
+  landlordNextStatuses,
+  maintenanceCategoryLabels,
+  maintenancePriorityColors,
+  maintenancePriorityLabels,
+  maintenanceStatusLabels,
+  type MaintenancePriority,
+  type MaintenanceRequest,
+  type MaintenanceRequestEvent,
+  type MaintenanceStatus,
+} from '@/lib/maintenance';
+import { uploadMaintenanceAttachments, type MaintenanceAttachment } from '@/lib/maintenanceAttachments';
+
+interface MaintenanceRequestDialogProps {
+  request: (MaintenanceRequest & { unitLabel: string; tenantName: string }) | null;
+  onOpenChange: (open: boolean) => void;
+  onUpdated: () => void;
+}
+
+// datetime-local inputs take local time without a zone
+const toLocalInput = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const MaintenanceRequestDialog: React.FC<MaintenanceRequestDialogProps> = ({ request, onOpenChange, onUpdated }) => {
+  const [events, setEvents] = useState<MaintenanceRequestEvent[]>([]);
+  const [status, setStatus] = useState<MaintenanceStatus>('submitted');
+  const [priority, setPriority] = useState<MaintenancePriority>('medium');
+  const [assignee, setAssignee] = useState('');
+  const [scheduledFor, setScheduledFor] = useState('');
+  const [note, setNote] = useState('');
+  const [attachments, setAttachments] = useState<MaintenanceAttachment[]>([]);
+  const [afterFiles, setAfterFiles] = useState<File[]>([]);
+  // Bumped when an attachment is removed so the gallery reloads
+  const [attachmentsVersion, setAttachmentsVersion] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const requestId = request?.id;
+  const updatedAt = request?.updated_at;
+  const currentStatus = request?.status;
+  const currentPriority = request?.priority;
+  const currentAssignee = request?.assignee;
+  const currentScheduledFor = request?.scheduled_for;
+
+  // Starts from the request as it is whenever one is opened or it changes
+  useEffect(() => {
+    if (!requestId || !currentStatus || !currentPriority) return;
+
+    setStatus(currentStatus);
+    setPriority(currentPriority);
+    setAssignee(currentAssignee || '');
+    setScheduledFor(toLocalInput(currentScheduledFor ?? null));
+    setNote('');
+    setAfterFiles([]);
+  }, [requestId, currentStatus, currentPriority, currentAssignee, currentScheduledFor]);
+
+  useEffect(() => {
+    if (!requestId) return;
+
+    const fetchEvents = async () => {
+      const { data, error } = await supabase
+        .from('maintenance_request_events')
+        .select('*')
+        .eq('request_id', requestId);
+
+      if (error) {
+        toast({
+          title: 'Error loading timeline',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return;
+      }
+      setEvents(data || []);
+    };
+
+    fetchEvents();
+  }, [requestId, updatedAt, toast]);
+
+  useEffect(() => {
+    if (!requestId) return;
+
+    const fetchAttachments = async () => {
+      const { data, error } = await supabase
+        .from('maintenance_attachments')
+        .select('*')
+        .eq('request_id', requestId)
+        .order('created_at');
+
+      if (error) {
+        toast({
+          title: 'Error loading attachments',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return;
+      }
+      setAttachments(data || []);
+    };
+
+    fetchAttachments();
+  }, [requestId, updatedAt, attachmentsVersion, toast]);
+
+  const nextStatuses = request ? landlordNextStatuses(request.status) : [];
+  const scheduledIso = scheduledFor ? new Date(scheduledFor).toISOString() : null;
+  const originalScheduled = request?.scheduled_for ? new Date(request.scheduled_for).toISOString() : null;
+
+  const fieldsChanged =
+    !!request &&
+    (status !== request.status ||
+      priority !== request.priority ||
+      assignee.trim() !== (request.assignee || '') ||
+      scheduledIso !== originalScheduled ||
+      note.trim() !== '');
+  // After photos go with resolving the request, or onto one already resolved
+  const showAfterPicker = status === 'resolved';
+  const changed = fieldsChanged || (showAfterPicker && afterFiles.length > 0);
+
+  const validationError = status === 'scheduled' && !scheduledFor ? 'Set a date to schedule the work for' : null;
+
+  const handleSave = async () => {
+    if (!request || !changed || validationError) return;
+
+    setSaving(true);
+    try {
+      if (fieldsChanged) {
+        const { error } = await supabase.rpc('update_maintenance_request', {
+          _request_id: request.id,
+          _status: status !== request.status ? status : undefined,
+          _priority: priority !== request.priority ? priority : undefined,
+          _assignee: assignee.trim() !== (request.assignee || '') ? assignee.trim() : undefined,
+          _scheduled_for: scheduledIso !== originalScheduled && scheduledIso ? scheduledIso : undefined,
+          _note: note.trim() || undefined,
+        });
+
+        if (error) throw error;
+      }
+
+      if (showAfterPicker && afterFiles.length > 0 && profile?.user_id) {
+        try {
+          await uploadMaintenanceAttachments(request.id, profile.user_id, afterFiles);
+        } catch (uploadError) {
+          toast({
+            title: 'Some after photos were not uploaded',
+            description: (uploadError as Error).message,
+            variant: 'destructive',
+          });
+        }
+      }
+
+      toast({
+        title: 'Request updated',
+        description: `${request.title}: ${maintenanceStatusLabels[status]}`,
+      });
+      onUpdated();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error updating request',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex flex-wrap items-center gap-2">
+            {request?.title}
+            {request && (
+              <Badge variant="outline" className={maintenancePriorityColors[request.priority]}>
+                {maintenancePriorityLabels[request.priority]}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {request && `${maintenanceCategoryLabels[request.category]} · ${request.unitLabel} · ${request.tenantName}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm whitespace-pre-line rounded-lg bg-muted/50 p-3">{request?.description}</p>
+
+          {request?.status === 'closed' ? (
+            <p className="text-sm text-muted-foreground">This request is closed.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Select value={status} onValueChange={(value: MaintenanceStatus) => setStatus(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {request && (
+                        <SelectItem value={request.status}>{maintenanceStatusLabels[request.status]}</SelectItem>
+                      )}
+                      {nextStatuses.map((next) => (
+                        <SelectItem key={next} value={next}>
+                          {maintenanceStatusLabels[next]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Priority</Label>
+                  <Select value={priority} onValueChange={(value: MaintenancePriority) => setPriority(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(maintenancePriorityLabels) as MaintenancePriority[]).map((level) => (
+                        <SelectItem key={level} value={level}>
+                          {maintenancePriorityLabels[level]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="maintenance-assignee">Assigned To</Label>
+                  <Input
+                    id="maintenance-assignee"
+                    value={assignee}
+                    onChange={(e) => setAssignee(e.target.value)}
+                    placeholder="e.g., Caretaker, plumber's name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="maintenance-scheduled">Scheduled For</Label>
+                  <Input
+                    id="maintenance-scheduled"
+                    type="datetime-local"
+                    value={scheduledFor}
+                    onChange={(e) => setScheduledFor(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="maintenance-note">Note for the Tenant (Optional)</Label>
+                <Textarea
+                  id="maintenance-note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="e.g., The plumber will call before coming"
+                />
+              </div>
+
+              {showAfterPicker && (
+                <div className="space-y-2">
+                  <Label>After Photos (Optional)</Label>
+                  <AttachmentPicker
+                    files={afterFiles}
+                    onChange={setAfterFiles}
+                    disabled={saving}
+                    label="Add After Photos"
+                  />
+                </div>
+              )}
+
+              {validationError && <p className="text-sm text-destructive">{validationError}</p>}
+            </>
+          )}
+
+          {request && (
+            <WorkOrderPanel
+              key={request.id}
+              request={request}
+              onRequestChanged={() => {
+                onUpdated();
+                onOpenChange(false);
+              }}
+            />
+          )}
+
+          {attachments.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Photos & Videos</h4>
+              <MaintenanceGallery
+                attachments={attachments}
+                currentUserId={profile?.user_id}
+                canRemove={request?.status !== 'closed'}
+                onRemoved={() => setAttachmentsVersion((v) => v + 1)}
+              />
+            </div>
+          )}
+
+          {request && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Messages</h4>
+              <MaintenanceMessages key={request.id} requestId={request.id} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Timeline</h4>
+            <MaintenanceTimeline events={events} tenantId={request?.tenant_id ?? null} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {request?.status !== 'closed' && (
+            <Button onClick={handleSave} disabled={saving || !changed || !!validationError}>
+              {saving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MaintenanceRequestDialog;
@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { MessageSquare, Mail, RefreshCw, ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  notificationEventLabels,
+  notificationStatusLabels,
+  type NotificationDelivery,
+  type NotificationStatus,
+} from '@/lib/notifications';
+
+// Most recent deliveries loaded per view
+const LOG_LIMIT = 100;
+
+const statusVariant: Record<NotificationStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  sending: 'secondary',
+  sent: 'default',
+  failed: 'destructive',
+};
+
+const NotificationLog: React.FC = () => {
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [tenants, setTenants] = useState<{ user_id: string; full_name: string }[]>([]);
+  const [tenantFilter, setTenantFilter] = useState('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Bumped to reload, and whenever a delivery changes
+  const [reloadKey, setReloadKey] = useState(0);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const landlordId = profile?.user_id;
+
+  useEffect(() => {
+    if (!landlordId) return;
+
+    const fetchDeliveries = async () => {
+      try {
+        let query = supabase
+          .from('notification_deliveries')
+          .select('*')
+          .eq('landlord_id', landlordId)
+          .order('created_at', { ascending: false })
+          .limit(LOG_LIMIT);
+
+        if (tenantFilter !== 'all') query = query.eq('recipient_id', tenantFilter);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        setDeliveries(data || []);
+      } catch (error) {
+        toast({
+          title: 'Error loading delivery log',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDeliveries();
+  }, [landlordId, tenantFilter, reloadKey, toast]);
+
+  // Everyone who currently rents from the landlord, for the filter
+  useEffect(() => {
+    if (!landlordId) return;
+
+    const fetchTenants = async () => {
+      const { data: tenancies } = await supabase
+        .from('tenancies')
+        .select(`
+          tenant_id,
+          units!tenancies_unit_id_fkey (
+            properties!units_property_id_fkey (
+              landlord_id
+            )
+          )
+        `)
+        .eq('units.properties.landlord_id', landlordId)
+        .eq('status', 'active');
+
+      const tenantIds = Array.from(new Set((tenancies || []).map((t) => t.tenant_id).filter(Boolean)));
+      if (tenantIds.length === 0) return;
+
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, full_name')
+        .in('user_id', tenantIds)
+        .order('full_name');
+
+      setTenants(profiles || []);
+    };
+
+    fetchTenants();
+  }, [landlordId]);
+
+  useEffect(() => {
+    if (!landlordId) return;
+
+    const channel = supabase
+      .channel(`notification-deliveries-${landlordId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notification_deliveries', filter: `landlord_id=eq.${landlordId}` },
+        () => setReloadKey((key) => key + 1)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [landlordId]);
+
+  const tenantName = (id: string) => tenants.find((t) => t.user_id === id)?.full_name || 'Former tenant';
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle>Delivery Log</CardTitle>
+            <CardDescription>Reminders and announcements sent to your tenants and whether they arrived</CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Tenant</Label>
+              <Select value={tenantFilter} onValueChange={setTenantFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All tenants</SelectItem>
+                  {tenants.map((tenant) => (
+                    <SelectItem key={tenant.user_id} value={tenant.user_id}>
+                      {tenant.full_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" size="icon" onClick={() => setReloadKey((key) => key + 1)} aria-label="Refresh">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-12 bg-muted rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : deliveries.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <MessageSquare className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No messages sent yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {deliveries.map((delivery) => {
+              const expanded = expandedId === delivery.id;
+              const ChannelIcon = delivery.channel === 'sms' ? MessageSquare : Mail;
+
+              return (
+                <div key={delivery.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <ChannelIcon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium">{tenantName(delivery.recipient_id)}</span>
+                          <Badge variant="outline">{notificationEventLabels[delivery.event]}</Badge>
+                        </div>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {delivery.recipient || 'No address'} ·{' '}
+                          {new Date(delivery.sent_at || delivery.created_at).toLocaleString()}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={statusVariant[delivery.status]}>{notificationStatusLabels[delivery.status]}</Badge>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExpandedId(expanded ? null : delivery.id)}
+                        aria-label={expanded ? 'Hide message' : 'Show message'}
+                      >
+                        {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {delivery.error && delivery.status !== 'sent' && (
+                    <p className="text-xs text-destructive">
+                      {delivery.error}
+                      {delivery.status === 'pending' && delivery.attempts > 0 && ` (attempt ${delivery.attempts}, retrying)`}
+                    </p>
+                  )}
+
+                  {expanded && (
+                    <div className="rounded-md bg-muted/40 p-3 text-sm space-y-1">
+                      {delivery.subject && <p className="font-medium">{delivery.subject}</p>}
+                      <p className="whitespace-pre-wrap">{delivery.body}</p>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationLog;
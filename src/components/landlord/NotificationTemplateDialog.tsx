@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  notificationChannelLabels,
+  notificationEventLabels,
+  renderTemplate,
+  samplePlaceholderValues,
+  templatePlaceholders,
+  type NotificationChannel,
+  type NotificationEvent,
+  type NotificationTemplate,
+} from '@/lib/notifications';
+
+interface NotificationTemplateDialogProps {
+  target: { event: NotificationEvent; channel: NotificationChannel } | null;
+  // The template in use: the landlord's own, or the platform default
+  template: NotificationTemplate | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+// A single SMS holds 160 characters; longer messages are split into parts of
+// 153 (the rest carries the joining header) and billed per part
+const SMS_SEGMENT_LENGTH = 160;
+const SMS_PART_LENGTH = 153;
+
+const NotificationTemplateDialog: React.FC<NotificationTemplateDialogProps> = ({
+  target,
+  template,
+  onOpenChange,
+  onSaved,
+}) => {
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setSubject(template?.subject || '');
+    setBody(template?.body || '');
+  }, [template, target?.event, target?.channel]);
+
+  const isEmail = target?.channel === 'email';
+  const isCustom = !!template?.landlord_id;
+  const canSave = body.trim() !== '' && (!isEmail || subject.trim() !== '');
+  const preview = renderTemplate(body, samplePlaceholderValues);
+
+  const handleSave = async () => {
+    if (!target || !profile?.user_id || !canSave) return;
+
+    setSaving(true);
+    try {
+      const fields = { subject: isEmail ? subject.trim() : null, body: body.trim() };
+      const { error } = isCustom
+        ? await supabase.from('notification_templates').update(fields).eq('id', template.id)
+        : await supabase.from('notification_templates').insert({
+            ...fields,
+            landlord_id: profile.user_id,
+            event: target.event,
+            channel: target.channel,
+          });
+
+      if (error) throw error;
+
+      toast({ title: 'Template saved' });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error saving template',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Dropping the landlord's own wording puts the platform default back in use
+  const handleReset = async () => {
+    if (!isCustom) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('notification_templates').delete().eq('id', template.id);
+      if (error) throw error;
+
+      toast({ title: 'Template reset to the default' });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error resetting template',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {target && `${notificationEventLabels[target.event]} (${notificationChannelLabels[target.channel]})`}
+          </DialogTitle>
+          <DialogDescription>
+            {isCustom ? 'Your own wording for this message' : 'Editing saves your own copy of the default message'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isEmail && (
+            <div className="space-y-2">
+              <Label htmlFor="template-subject">Subject</Label>
+              <Input id="template-subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="template-body">Message</Label>
+            <Textarea
+              id="template-body"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={isEmail ? 8 : 4}
+            />
+            {target && (
+              <p className="text-xs text-muted-foreground">
+                Placeholders: {templatePlaceholders[target.event].map((key) => `{{${key}}}`).join(' ')}
+              </p>
+            )}
+          </div>
+
+          <div className="rounded-lg bg-muted/40 p-3 space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">Preview</p>
+            {isEmail && <p className="text-sm font-medium">{renderTemplate(subject, samplePlaceholderValues)}</p>}
+            <p className="text-sm whitespace-pre-wrap">{preview}</p>
+            {!isEmail && (
+              <p className={`text-xs ${preview.length > SMS_SEGMENT_LENGTH ? 'text-amber-600' : 'text-muted-foreground'}`}>
+                {preview.length} characters
+                {preview.length > SMS_SEGMENT_LENGTH &&
+                  `, sent as ${Math.ceil(preview.length / SMS_PART_LENGTH)} SMS messages`}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          {isCustom && (
+            <Button variant="outline" onClick={handleReset} disabled={saving} className="sm:mr-auto">
+              Use Default
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !canSave}>
+            {saving ? 'Saving...' : 'Save Template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NotificationTemplateDialog;
@@ -18,12 +18,19 @@ interface PayoutRequest {
   requested_at: string;
   processed_at?: string;
   transaction_id?: string;
+  failure_reason?: string;
 }
 
+// Older versions kept payout requests in the browser under this key
+const legacyPayoutsKey = (userId: string) => `payouts_${userId}`;
+
 const PayoutRequests: React.FC = () => {
   const [payouts, setPayouts] = useState<PayoutRequest[]>([]);
   const [availableBalance, setAvailableBalance] = useState(0);
+  const [ledgerBalance, setLedgerBalance] = useState(0);
+  const [depositsHeld, setDepositsHeld] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
   const [showRequestPayout, setShowRequestPayout] = useState(false);
   const [payoutForm, setPayoutForm] = useState({
     amount: '',
@@ -32,44 +39,63 @@ const PayoutRequests: React.FC = () => {
   const { profile } = useAuth();
   const { toast } = useToast();
 
+  const importLegacyPayouts = async (userId: string) => {
+    const stored = localStorage.getItem(legacyPayoutsKey(userId));
+    if (!stored) return;
+
+    try {
+      const legacyPayouts = JSON.parse(stored);
+      if (Array.isArray(legacyPayouts) && legacyPayouts.length > 0) {
+        const { data: imported, error } = await supabase.rpc('import_legacy_payouts', {
+          _payouts: legacyPayouts,
+        });
+        if (error) throw error;
+
+        if (imported) {
+          toast({
+            title: 'Payout history moved',
+            description: `${imported} payout request${imported === 1 ? '' : 's'} saved in this browser moved to your history. ${
+              imported === 1 ? 'It was' : 'They were'
+            } never sent, so request a new payout to be paid.`,
+          });
+        }
+      }
+      localStorage.removeItem(legacyPayoutsKey(userId));
+    } catch (error) {
+      // Keep the stored entries so the import is retried on the next visit
+      console.error('Error importing stored payouts:', error);
+    }
+  };
+
   const fetchPayoutData = async () => {
     if (!profile?.user_id) return;
 
     try {
-      // Calculate available balance from completed payments
-      const { data: paymentsData, error: paymentsError } = await supabase
-        .from('payments')
-        .select(`
-          amount,
-          status,
-          tenancies!payments_tenancy_id_fkey (
-            units!tenancies_unit_id_fkey (
-              properties!units_property_id_fkey (
-                landlord_id
-              )
-            )
-          )
-        `)
-        .eq('tenancies.units.properties.landlord_id', profile.user_id)
-        .eq('status', 'completed');
+      await importLegacyPayouts(profile.user_id);
 
-      if (paymentsError) throw paymentsError;
+      const [balanceResult, ledgerResult, payoutsResult] = await Promise.all([
+        supabase.rpc('get_landlord_available_balance', { _landlord_id: profile.user_id }),
+        supabase.rpc('get_ledger_balances', { _owner_id: profile.user_id }),
+        supabase
+          .from('payouts')
+          .select('*')
+          .eq('landlord_id', profile.user_id)
+          .eq('kind', 'landlord_payout')
+          .order('requested_at', { ascending: false }),
+      ]);
 
-      const totalPayments = (paymentsData || []).reduce((sum, payment) => sum + Number(payment.amount), 0);
+      if (balanceResult.error) throw balanceResult.error;
+      if (ledgerResult.error) throw ledgerResult.error;
+      if (payoutsResult.error) throw payoutsResult.error;
 
-      // For demo purposes, we'll simulate payout requests in localStorage
-      // In real scenario, this would be stored in Supabase
-      const storedPayouts = localStorage.getItem(`payouts_${profile.user_id}`);
-      const payoutRequests = storedPayouts ? JSON.parse(storedPayouts) : [];
-      
-      const totalPayouts = payoutRequests
-        .filter((p: PayoutRequest) => p.status === 'completed')
-        .reduce((sum: number, p: PayoutRequest) => sum + p.amount, 0);
+      const payable = (ledgerResult.data || []).find((account) => account.account_kind === 'landlord_payable');
+      // Deposits belong to the tenants until move-out, so they are never paid out
+      const deposits = (ledgerResult.data || []).find((account) => account.account_kind === 'deposits_held');
 
-      const balance = totalPayments - totalPayouts;
-      
-      setAvailableBalance(balance);
-      setPayouts(payoutRequests);
+      setAvailableBalance(Number(balanceResult.data ?? 0));
+      setLedgerBalance(Number(payable?.balance ?? 0));
+      setDepositsHeld(Number(deposits?.balance ?? 0));
+      setPayouts(payoutsResult.data || []);
     } catch (error: any) {
       toast({
         title: 'Error loading payout data',
@@ -81,8 +107,31 @@ const PayoutRequests: React.FC = () => {
     }
   };
 
+  // Payouts are sent by a background worker, so follow their status live
   useEffect(() => {
+    if (!profile?.user_id) return;
+
     fetchPayoutData();
+
+    const channel = supabase
+      .channel('landlord_payouts_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'payouts',
+          filter: `landlord_id=eq.${profile.user_id}`
+        },
+        () => {
+          fetchPayoutData();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, [profile?.user_id]);
 
   const handleRequestPayout = async (e: React.FormEvent) => {
@@ -98,24 +147,16 @@ const PayoutRequests: React.FC = () => {
       return;
     }
 
+    setSubmitting(true);
     try {
-      const newPayout: PayoutRequest = {
-        id: Date.now().toString(),
-        amount,
-        status: 'pending',
-        phone_number: payoutForm.phoneNumber,
-        requested_at: new Date().toISOString(),
-      };
+      // The balance is checked again server-side; the check above is only for fast feedback
+      const { error } = await supabase.rpc('request_payout', {
+        _amount: amount,
+        _phone_number: payoutForm.phoneNumber,
+      });
 
-      // In real scenario, this would be stored in Supabase
-      const existingPayouts = localStorage.getItem(`payouts_${profile?.user_id}`);
-      const payouts = existingPayouts ? JSON.parse(existingPayouts) : [];
-      payouts.unshift(newPayout);
-      localStorage.setItem(`payouts_${profile?.user_id}`, JSON.stringify(payouts));
+      if (error) throw error;
 
-      // TODO: Integrate with MTN MoMo Disbursements API here
-      // For now, we'll simulate the process
-      
       toast({
         title: 'Payout requested',
         description: `Your payout request for $${amount.toLocaleString()} has been submitted.`,
@@ -130,6 +171,8 @@ const PayoutRequests: React.FC = () => {
         description: error.message,
         variant: 'destructive',
       });
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -266,8 +309,8 @@ const PayoutRequests: React.FC = () => {
                   </div>
 
                   <div className="flex gap-2 pt-4">
-                    <Button type="submit" className="flex-1">
-                      Request ${Number(payoutForm.amount || 0).toLocaleString()}
+                    <Button type="submit" className="flex-1" disabled={submitting}>
+                      {submitting ? 'Submitting...' : `Request $${Number(payoutForm.amount || 0).toLocaleString()}`}
                     </Button>
                     <Button type="button" variant="outline" onClick={() => setShowRequestPayout(false)}>
                       Cancel
@@ -286,6 +329,16 @@ const PayoutRequests: React.FC = () => {
           <p className="text-sm text-muted-foreground">
             Collected from rent payments
           </p>
+          {ledgerBalance > availableBalance && (
+            <p className="text-sm text-muted-foreground mt-1">
+              ${(ledgerBalance - availableBalance).toLocaleString()} of your ${ledgerBalance.toLocaleString()} balance is reserved for payouts in progress
+            </p>
+          )}
+          {depositsHeld > 0 && (
+            <p className="text-sm text-muted-foreground mt-1">
+              ${depositsHeld.toLocaleString()} in security deposits held for your tenants (not available for payout)
+            </p>
+          )}
           {availableBalance <= 0 && (
             <p className="text-sm text-orange-600 mt-2">
               No funds available for withdrawal. Start collecting rent to build your balance.
@@ -320,7 +373,7 @@ const PayoutRequests: React.FC = () => {
                   <div className="flex items-center justify-between">
                     <div className="flex-1">
                       <div className="flex items-center gap-3 mb-2">
-                        <h4 className="font-semibold">${payout.amount.toLocaleString()}</h4>
+                        <h4 className="font-semibold">${Number(payout.amount).toLocaleString()}</h4>
                         <Badge 
                           variant={getStatusColor(payout.status)} 
                           className="flex items-center gap-1"
@@ -351,6 +404,10 @@ const PayoutRequests: React.FC = () => {
                         )}
                       </div>
                       
+                      {payout.status === 'failed' && payout.failure_reason && (
+                        <p className="mt-2 text-sm text-destructive">{payout.failure_reason}</p>
+                      )}
+
                       {payout.transaction_id && (
                         <div className="mt-2 text-sm">
                           <span className="text-muted-foreground">Transaction ID:</span>
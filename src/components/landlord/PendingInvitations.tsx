@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, Mail, MessageSquare, Send, XCircle } from 'lucide-react';
+import { invitationShareUrl, invitationState, invitationStateLabels, inviteLink, type Invitation } from '@/lib/invitations';
+
+export interface InvitationWithUnit extends Invitation {
+  units: {
+    unit_number: string;
+    properties: {
+      name: string;
+    };
+  };
+}
+
+interface PendingInvitationsProps {
+  invitations: InvitationWithUnit[];
+  onRevoked: () => void;
+}
+
+const PendingInvitations: React.FC<PendingInvitationsProps> = ({ invitations, onRevoked }) => {
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const copyLink = async (invitation: InvitationWithUnit) => {
+    try {
+      await navigator.clipboard.writeText(inviteLink(invitation.token));
+      toast({
+        title: 'Invite link copied',
+        description: `Send it to ${invitation.full_name} to accept the invitation.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Could not copy the link',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const revoke = async (invitation: InvitationWithUnit) => {
+    setRevokingId(invitation.id);
+    try {
+      const { error } = await supabase.rpc('revoke_invitation', { _invitation_id: invitation.id });
+      if (error) throw error;
+
+      toast({
+        title: 'Invitation revoked',
+        description: `${invitation.full_name}'s invite link no longer works.`,
+      });
+      onRevoked();
+    } catch (error) {
+      toast({
+        title: 'Error revoking invitation',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Send className="h-5 w-5" />
+          Pending Invitations
+        </CardTitle>
+        <CardDescription>Tenants you've invited who haven't accepted yet</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {invitations.map((invitation) => {
+          const state = invitationState(invitation);
+
+          return (
+            <div key={invitation.id} className="border rounded-lg p-4 flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <h4 className="font-semibold">{invitation.full_name}</h4>
+                  <Badge variant={state === 'expired' ? 'destructive' : 'secondary'}>
+                    {invitationStateLabels[state]}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {invitation.units.properties.name} - Unit {invitation.units.unit_number} • $
+                  {Number(invitation.rent_amount).toLocaleString()} rent
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {[invitation.email, invitation.phone].filter(Boolean).join(' • ')}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {state === 'expired' ? 'Expired' : 'Expires'} {new Date(invitation.expires_at).toLocaleDateString()}
+                </p>
+              </div>
+              <div className="flex flex-wrap justify-end gap-2">
+                {state === 'pending' && (
+                  <>
+                    <Button size="sm" variant="outline" onClick={() => copyLink(invitation)}>
+                      <Copy className="h-4 w-4 mr-1" />
+                      Copy Link
+                    </Button>
+                    {invitation.email && (
+                      <Button size="sm" variant="outline" asChild>
+                        <a href={invitationShareUrl(invitation, invitation.units.properties.name, 'email')}>
+                          <Mail className="h-4 w-4 mr-1" />
+                          Email
+                        </a>
+                      </Button>
+                    )}
+                    {invitation.phone && (
+                      <Button size="sm" variant="outline" asChild>
+                        <a href={invitationShareUrl(invitation, invitation.units.properties.name, 'sms')}>
+                          <MessageSquare className="h-4 w-4 mr-1" />
+                          SMS
+                        </a>
+                      </Button>
+                    )}
+                  </>
+                )}
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => revoke(invitation)}
+                  disabled={revokingId === invitation.id}
+                >
+                  <XCircle className="h-4 w-4 mr-1" />
+                  {revokingId === invitation.id ? 'Revoking...' : 'Revoke'}
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PendingInvitations;
@@ -7,6 +7,7 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import ApproveRequestDialog from '@/components/landlord/ApproveRequestDialog';
 import { Users, Clock, CheckCircle, XCircle, MapPin, Home, User, Calendar, MessageSquare } from 'lucide-react';
 
 interface JoinRequest {
@@ -40,6 +41,7 @@ const PendingRequests = () => {
   const [requests, setRequests] = useState<JoinRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedRequest, setSelectedRequest] = useState<JoinRequest | null>(null);
+  const [approvingRequest, setApprovingRequest] = useState<JoinRequest | null>(null);
   const [showRejectDialog, setShowRejectDialog] = useState(false);
   const [rejectionReason, setRejectionReason] = useState('');
   const { profile } = useAuth();
@@ -106,72 +108,6 @@ const PendingRequests = () => {
     }
   };
 
-  const approveRequest = async (request: JoinRequest) => {
-    try {
-      // First, create the tenancy record (this is the critical part)
-      const tenancyData = {
-        tenant_id: request.tenant_id,
-        unit_id: request.unit_id,
-        rent_amount: Number(request.units?.rent_amount || 0),
-        start_date: new Date().toISOString().split('T')[0],
-        status: 'active'
-      };
-
-      console.log('Creating tenancy with data:', tenancyData);
-
-      const { data: tenancyResult, error: tenancyError } = await supabase
-        .from('tenancies')
-        .insert([tenancyData])
-        .select()
-        .single();
-
-      if (tenancyError) {
-        console.error('Tenancy creation error:', tenancyError);
-        throw new Error(`Failed to create tenancy: ${tenancyError.message}`);
-      }
-
-      console.log('Tenancy created successfully:', tenancyResult);
-
-      // Then update the join request status
-      const { error: updateError } = await supabase
-        .from('join_requests')
-        .update({ status: 'approved' })
-        .eq('id', request.id);
-
-      if (updateError) {
-        console.error('Join request update error:', updateError);
-        throw updateError;
-      }
-
-      // Finally, mark unit as occupied
-      if (request.unit_id) {
-        const { error: unitError } = await supabase
-          .from('units')
-          .update({ status: 'occupied' })
-          .eq('id', request.unit_id);
-
-        if (unitError) {
-          console.error('Unit status update error:', unitError);
-          // Don't throw here as the main operations succeeded
-        }
-      }
-
-      toast({
-        title: "Request approved",
-        description: `${request.profiles?.full_name || 'User'} is now your tenant! View them in the Tenants tab.`,
-      });
-
-      fetchRequests();
-    } catch (error: any) {
-      console.error('Error approving request:', error);
-      toast({
-        title: "Error approving request",
-        description: error.message || "Failed to create tenancy. Please try again.",
-        variant: "destructive",
-      });
-    }
-  };
-
   const rejectRequest = async () => {
     if (!selectedRequest) return;
 
@@ -260,7 +196,7 @@ const PendingRequests = () => {
             Pending Join Requests
           </CardTitle>
           <CardDescription>
-            Review and approve tenant requests to join your properties. Approved requests automatically become active tenancies.
+            Review and approve tenant requests to join your properties. When you approve a request you choose the unit and set the rent, deposit and start date.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -342,7 +278,7 @@ const PendingRequests = () => {
                       {/* Action buttons */}
                       <div className="flex gap-2 pt-2">
                         <Button 
-                          onClick={() => approveRequest(request)}
+                          onClick={() => setApprovingRequest(request)}
                           className="flex items-center gap-2"
                         >
                           <CheckCircle className="h-4 w-4" />
@@ -369,6 +305,20 @@ const PendingRequests = () => {
         </CardContent>
       </Card>
 
+      <ApproveRequestDialog
+        request={
+          approvingRequest && {
+            id: approvingRequest.id,
+            property_id: approvingRequest.property_id,
+            unit_id: approvingRequest.unit_id,
+            tenantName: approvingRequest.profiles?.full_name || 'User',
+            propertyName: approvingRequest.properties.name,
+          }
+        }
+        onOpenChange={(open) => !open && setApprovingRequest(null)}
+        onApproved={fetchRequests}
+      />
+
       {/* Reject Dialog */}
       <Dialog open={showRejectDialog} onOpenChange={setShowRejectDialog}>
         <DialogContent>
@@ -0,0 +1,384 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Repeat, Plus, Pencil, Trash2 } from 'lucide-react';
+import { billingCycleLabels, billingPeriodSuffix, parseDate, type BillingCycle } from '@/lib/rentCharges';
+import { expenseCategoryLabels, type ExpenseCategory, type RecurringExpense } from '@/lib/expenses';
+
+interface RecurringExpensesProps {
+  properties: { id: string; name: string }[];
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyForm = () => ({
+  property_id: '',
+  category: 'other' as ExpenseCategory,
+  description: '',
+  amount: '',
+  billing_cycle: 'monthly' as BillingCycle,
+  start_date: today(),
+  end_date: '',
+});
+
+const RecurringExpenses: React.FC<RecurringExpensesProps> = ({ properties }) => {
+  const [templates, setTemplates] = useState<RecurringExpense[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<RecurringExpense | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState<RecurringExpense | null>(null);
+  // Bumped after every change to reload the list
+  const [reloadKey, setReloadKey] = useState(0);
+  const { toast } = useToast();
+
+  const propertyIds = properties.map((p) => p.id).join(',');
+
+  useEffect(() => {
+    if (!propertyIds) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchTemplates = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('recurring_expenses')
+          .select('*')
+          .in('property_id', propertyIds.split(','))
+          .order('next_due_date');
+
+        if (error) throw error;
+        setTemplates(data || []);
+      } catch (error) {
+        toast({
+          title: 'Error loading recurring expenses',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTemplates();
+  }, [propertyIds, reloadKey, toast]);
+
+  const propertyName = (id: string) => properties.find((p) => p.id === id)?.name || 'Unknown property';
+
+  const openEditor = (template: RecurringExpense | null) => {
+    setEditing(template);
+    setFormData(
+      template
+        ? {
+            property_id: template.property_id,
+            category: template.category,
+            description: template.description,
+            amount: String(template.amount),
+            billing_cycle: template.billing_cycle,
+            start_date: template.start_date,
+            end_date: template.end_date || '',
+          }
+        : { ...emptyForm(), property_id: properties.length === 1 ? properties[0].id : '' }
+    );
+    setShowEditor(true);
+  };
+
+  const validationError =
+    formData.end_date && formData.end_date < formData.start_date ? 'The end date must be after the start date' : null;
+  const canSave =
+    !!formData.property_id && !!formData.description.trim() && Number(formData.amount) > 0 && !validationError;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    const fields = {
+      property_id: formData.property_id,
+      category: formData.category,
+      description: formData.description.trim(),
+      amount: Number(formData.amount),
+      billing_cycle: formData.billing_cycle,
+      start_date: formData.start_date,
+      end_date: formData.end_date || null,
+    };
+
+    setSaving(true);
+    try {
+      const { error } = editing
+        ? await supabase.from('recurring_expenses').update(fields).eq('id', editing.id)
+        : await supabase.from('recurring_expenses').insert(fields);
+
+      if (error) throw error;
+
+      toast({ title: editing ? 'Recurring expense updated' : 'Recurring expense added' });
+      setShowEditor(false);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error saving recurring expense',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setActive = async (template: RecurringExpense, active: boolean) => {
+    try {
+      const { error } = await supabase.from('recurring_expenses').update({ active }).eq('id', template.id);
+      if (error) throw error;
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error updating recurring expense',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      const { error } = await supabase.from('recurring_expenses').delete().eq('id', deleting.id);
+      if (error) throw error;
+
+      toast({ title: 'Recurring expense deleted' });
+      setDeleting(null);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error deleting recurring expense',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Repeat className="h-5 w-5" />
+              Recurring Expenses
+            </CardTitle>
+            <CardDescription>Posted to your expenses automatically on each due date</CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => openEditor(null)} disabled={properties.length === 0}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Recurring
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-12 bg-muted rounded animate-pulse"></div>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Set up bills that repeat, like security or utilities, so you don't have to record them each time.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {templates.map((template) => (
+              <div
+                key={template.id}
+                className={`flex flex-wrap items-center justify-between gap-4 p-4 border rounded-lg ${template.active ? '' : 'opacity-60'}`}
+              >
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{template.description}</span>
+                    <Badge variant="outline">{expenseCategoryLabels[template.category]}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {propertyName(template.property_id)} · ${Number(template.amount).toLocaleString()}/
+                    {billingPeriodSuffix[template.billing_cycle]}
+                    {template.active
+                      ? ` · next ${parseDate(template.next_due_date).toLocaleDateString()}`
+                      : ' · paused'}
+                    {template.end_date && ` · until ${parseDate(template.end_date).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={template.active}
+                    onCheckedChange={(checked) => setActive(template, checked)}
+                    aria-label={template.active ? 'Pause' : 'Resume'}
+                  />
+                  <Button variant="outline" size="sm" onClick={() => openEditor(template)}>
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setDeleting(template)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showEditor} onOpenChange={setShowEditor}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Recurring Expense' : 'Add Recurring Expense'}</DialogTitle>
+            <DialogDescription>
+              An expense is posted on the start date and then every {billingPeriodSuffix[formData.billing_cycle]}.
+              A start date in the past posts the missed ones too.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Property</Label>
+                <Select
+                  value={formData.property_id}
+                  onValueChange={(value) => setFormData({ ...formData, property_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select property" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {properties.map((property) => (
+                      <SelectItem key={property.id} value={property.id}>
+                        {property.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select
+                  value={formData.category}
+                  onValueChange={(value: ExpenseCategory) => setFormData({ ...formData, category: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(expenseCategoryLabels) as ExpenseCategory[]).map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {expenseCategoryLabels[key]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="recurring-description">Description</Label>
+              <Input
+                id="recurring-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="e.g. Night security guard"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="recurring-amount">Amount ($)</Label>
+                <Input
+                  id="recurring-amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Repeats</Label>
+                <Select
+                  value={formData.billing_cycle}
+                  onValueChange={(value: BillingCycle) => setFormData({ ...formData, billing_cycle: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(billingCycleLabels) as BillingCycle[]).map((cycle) => (
+                      <SelectItem key={cycle} value={cycle}>
+                        {billingCycleLabels[cycle]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="recurring-start">Starts</Label>
+                <Input
+                  id="recurring-start"
+                  type="date"
+                  value={formData.start_date}
+                  onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurring-end">Ends (Optional)</Label>
+                <Input
+                  id="recurring-end"
+                  type="date"
+                  value={formData.end_date}
+                  min={formData.start_date}
+                  onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {validationError && <p className="text-sm text-destructive">{validationError}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowEditor(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !canSave}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Recurring Expense</DialogTitle>
+            <DialogDescription>
+              Stop posting "{deleting?.description}"? Expenses already posted are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default RecurringExpenses;
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { addDays, parseDate, toDateString } from '@/lib/rentCharges';
+
+interface RenewalOfferDialogProps {
+  tenancy: {
+    id: string;
+    tenantName: string;
+    rentAmount: number;
+    endDate: string;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+  onOffered: () => void;
+}
+
+const RenewalOfferDialog: React.FC<RenewalOfferDialogProps> = ({ tenancy, onOpenChange, onOffered }) => {
+  const [rentAmount, setRentAmount] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [message, setMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const tenancyId = tenancy?.id;
+  const currentRent = tenancy?.rentAmount;
+  const currentEndDate = tenancy?.endDate;
+
+  // Defaults to the same rent for another year
+  useEffect(() => {
+    if (!tenancyId || !currentEndDate) return;
+
+    const end = parseDate(currentEndDate);
+    setRentAmount(String(currentRent ?? ''));
+    setEndDate(toDateString(new Date(end.getFullYear() + 1, end.getMonth(), end.getDate())));
+    setMessage('');
+  }, [tenancyId, currentRent, currentEndDate]);
+
+  const renewalStart = currentEndDate ? addDays(parseDate(currentEndDate), 1) : null;
+
+  const validationError = (() => {
+    if (!(Number(rentAmount) > 0)) return 'Rent must be greater than zero';
+    if (endDate && renewalStart && parseDate(endDate) <= renewalStart) {
+      return 'The new end date must be after the current lease ends';
+    }
+    return null;
+  })();
+
+  const handleOffer = async () => {
+    if (!tenancy || validationError) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('offer_renewal', {
+        _tenancy_id: tenancy.id,
+        _rent_amount: Number(rentAmount),
+        _end_date: endDate || null,
+        _message: message || null,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Renewal offered',
+        description: `${tenancy.tenantName} can accept or decline it from their lease.`,
+      });
+      onOffered();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error offering renewal',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const rentChange = tenancy ? Number(rentAmount) - Number(tenancy.rentAmount) : 0;
+
+  return (
+    <Dialog open={!!tenancy} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Offer Renewal</DialogTitle>
+          <DialogDescription>
+            {tenancy?.tenantName}'s lease ends on {currentEndDate && parseDate(currentEndDate).toLocaleDateString()}.
+            The renewed lease starts the day after.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="renewal-rent">New Rent</Label>
+              <Input
+                id="renewal-rent"
+                type="number"
+                step="0.01"
+                min={0}
+                value={rentAmount}
+                onChange={(e) => setRentAmount(e.target.value)}
+              />
+              {rentChange !== 0 && Number(rentAmount) > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {rentChange > 0 ? 'Up' : 'Down'} ${Math.abs(rentChange).toLocaleString()} from the current rent
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="renewal-end">New End Date</Label>
+              <Input
+                id="renewal-end"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Leave empty to renew without a fixed end.</p>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="renewal-message">Message (Optional)</Label>
+            <Textarea
+              id="renewal-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Anything the tenant should know about the new terms"
+            />
+          </div>
+          {validationError && <p className="text-sm text-destructive">{validationError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleOffer} disabled={submitting || !!validationError}>
+            {submitting ? 'Sending...' : 'Send Offer'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RenewalOfferDialog;
@@ -6,7 +6,11 @@ import { Progress } from '@/components/ui/progress';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { DollarSign, TrendingUp, AlertTriangle, Calendar, Receipt, Send } from 'lucide-react';
+import { DollarSign, TrendingUp, AlertTriangle, Calendar, Receipt, Send, Banknote } from 'lucide-react';
+import CashPaymentDialog from '@/components/landlord/CashPaymentDialog';
+import { summarizeRentCharges, type RentChargeBalance } from '@/lib/rentCharges';
+import { tenancyCredit } from '@/lib/paymentAllocation';
+import { sendRentReminder } from '@/lib/notifications';
 
 interface RentCollectionData {
   tenancy: {
@@ -31,8 +35,14 @@ interface RentCollectionData {
     status: string;
     method: string;
   }[];
+  charges: RentChargeBalance[];
+  expected: number;
   totalPaid: number;
   amountDue: number;
+  // Unpaid balance carried over from periods before the selected month
+  previousArrears: number;
+  // Payments not yet applied to any charge, carried forward
+  credit: number;
   daysOverdue: number;
 }
 
@@ -40,6 +50,7 @@ const RentCollection: React.FC = () => {
   const [collectionData, setCollectionData] = useState<RentCollectionData[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedMonth, setSelectedMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [cashPaymentFor, setCashPaymentFor] = useState<{ id: string; tenantName: string } | null>(null);
   const { profile } = useAuth();
   const { toast } = useToast();
 
@@ -47,8 +58,9 @@ const RentCollection: React.FC = () => {
     if (!profile?.user_id) return;
 
     try {
-      const startDate = new Date(selectedMonth + '-01');
-      const endDate = new Date(startDate.getFullYear(), startDate.getMonth() + 1, 0);
+      const monthStart = `${selectedMonth}-01`;
+      const [year, month] = selectedMonth.split('-').map(Number);
+      const monthEnd = `${selectedMonth}-${String(new Date(year, month, 0).getDate()).padStart(2, '0')}`;
 
       // Fetch tenancies with unit and property info  
       const { data: tenanciesData, error: tenanciesError } = await supabase
@@ -68,16 +80,26 @@ const RentCollection: React.FC = () => {
 
       if (tenanciesError) throw tenanciesError;
 
-      // Fetch payments for the selected month
+      const tenancyIds = tenanciesData?.map(t => t.id) || [];
+
+      // Every completed payment: tenant credit depends on all of them, not just this month's
       const { data: paymentsData, error: paymentsError } = await supabase
         .from('payments')
         .select('*')
-        .gte('payment_date', startDate.toISOString().split('T')[0])
-        .lte('payment_date', endDate.toISOString().split('T')[0])
-        .in('tenancy_id', tenanciesData?.map(t => t.id) || []);
+        .eq('status', 'completed')
+        .eq('payment_type', 'rent')
+        .in('tenancy_id', tenancyIds);
 
       if (paymentsError) throw paymentsError;
 
+      const { data: chargesData, error: chargesError } = await supabase
+        .from('rent_charge_balances')
+        .select('*')
+        .in('tenancy_id', tenancyIds)
+        .order('due_date', { ascending: true });
+
+      if (chargesError) throw chargesError;
+
       // Fetch tenant profiles separately
       const tenantIds = (tenanciesData || []).map(t => t.tenant_id).filter(Boolean);
       const { data: profilesData } = await supabase
@@ -88,19 +110,19 @@ const RentCollection: React.FC = () => {
       // Process data to calculate collection info
       const processedData: RentCollectionData[] = (tenanciesData || []).map(tenancy => {
         const tenancyPayments = (paymentsData || []).filter(p => p.tenancy_id === tenancy.id);
-        const totalPaid = tenancyPayments
-          .filter(p => p.status === 'completed')
-          .reduce((sum, p) => sum + Number(p.amount), 0);
-        
-        const rentAmount = Number(tenancy.rent_amount);
-        const amountDue = Math.max(0, rentAmount - totalPaid);
-        
-        // Calculate days overdue (assuming rent is due on the 1st of each month)
-        const dueDate = new Date(startDate);
-        const currentDate = new Date();
-        const daysOverdue = currentDate > dueDate && amountDue > 0 
-          ? Math.floor((currentDate.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24))
-          : 0;
+        const allCharges = (chargesData || []).filter(c => c.tenancy_id === tenancy.id);
+        // Charges billed up to the end of the month; earlier ones carry arrears forward
+        const tenancyCharges = allCharges.filter(c => c.due_date <= monthEnd);
+        const monthCharges = tenancyCharges.filter(c => c.due_date >= monthStart);
+
+        const expected = monthCharges.reduce((sum, c) => sum + Number(c.amount), 0);
+        const totalPaid = monthCharges.reduce((sum, c) => sum + Number(c.amount_paid), 0);
+        const amountDue = monthCharges.reduce((sum, c) => sum + Number(c.balance), 0);
+        const previousArrears = tenancyCharges
+          .filter(c => c.due_date < monthStart)
+          .reduce((sum, c) => sum + Number(c.balance), 0);
+
+        const { daysOverdue } = summarizeRentCharges(tenancyCharges, null);
 
         const profile = (profilesData || []).find(p => p.user_id === tenancy.tenant_id);
 
@@ -109,9 +131,13 @@ const RentCollection: React.FC = () => {
             ...tenancy,
             profiles: profile || { full_name: 'Unknown', email: 'Unknown' }
           },
-          payments: tenancyPayments,
+          payments: tenancyPayments.filter(p => p.payment_date >= monthStart && p.payment_date <= monthEnd),
+          charges: monthCharges,
+          expected,
           totalPaid,
           amountDue,
+          previousArrears,
+          credit: tenancyCredit(allCharges, tenancyPayments, tenancy.billing_start_date),
           daysOverdue,
         };
       });
@@ -132,23 +158,25 @@ const RentCollection: React.FC = () => {
     fetchRentCollectionData();
   }, [profile?.user_id, selectedMonth]);
 
-  const handleSendReminder = async (tenantEmail: string, tenantName: string, amountDue: number) => {
+  const handleSendReminder = async (tenancyId: string, tenantName: string) => {
     try {
-      // In a real app, this would send an email or notification
+      const { sentNow } = await sendRentReminder(tenancyId);
       toast({
-        title: "Reminder sent",
-        description: `Payment reminder sent to ${tenantName}`,
+        title: sentNow ? "Reminder sent" : "Reminder queued",
+        description: sentNow
+          ? `Payment reminder sent to ${tenantName}`
+          : `The reminder to ${tenantName} will go out shortly`,
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error sending reminder",
-        description: error.message,
+        description: (error as Error).message,
         variant: "destructive",
       });
     }
   };
 
-  const totalExpectedRent = collectionData.reduce((sum, data) => sum + Number(data.tenancy.rent_amount), 0);
+  const totalExpectedRent = collectionData.reduce((sum, data) => sum + data.expected, 0);
   const totalCollected = collectionData.reduce((sum, data) => sum + data.totalPaid, 0);
   const totalOutstanding = collectionData.reduce((sum, data) => sum + data.amountDue, 0);
   const collectionRate = totalExpectedRent > 0 ? (totalCollected / totalExpectedRent) * 100 : 0;
@@ -280,13 +308,18 @@ const RentCollection: React.FC = () => {
                   
                   <div className="flex items-center space-x-4">
                     <div className="text-right">
-                      <div className="font-medium">${Number(data.tenancy.rent_amount).toLocaleString()}</div>
-                      <div className="text-sm text-muted-foreground">Expected</div>
+                      <div className="font-medium">${data.expected.toLocaleString()}</div>
+                      <div className="text-sm text-muted-foreground">Billed</div>
                     </div>
                     
                     <div className="text-right">
                       <div className="font-medium text-green-600">${data.totalPaid.toLocaleString()}</div>
                       <div className="text-sm text-muted-foreground">Paid</div>
+                      {data.credit > 0 && (
+                        <div className="text-xs text-green-600">
+                          +${data.credit.toLocaleString()} credit
+                        </div>
+                      )}
                     </div>
                     
                     <div className="text-right">
@@ -294,26 +327,37 @@ const RentCollection: React.FC = () => {
                         ${data.amountDue.toLocaleString()}
                       </div>
                       <div className="text-sm text-muted-foreground">Due</div>
+                      {data.previousArrears > 0 && (
+                        <div className="text-xs text-red-600">
+                          +${data.previousArrears.toLocaleString()} arrears
+                        </div>
+                      )}
                     </div>
                     
                     <div className="flex items-center space-x-2">
                       <Badge variant={
-                        data.amountDue === 0 ? 'default' : 
+                        data.amountDue + data.previousArrears === 0 ? 'default' : 
                         data.daysOverdue > 0 ? 'destructive' : 'secondary'
                       }>
-                        {data.amountDue === 0 ? 'Paid' : 
+                        {data.amountDue + data.previousArrears === 0 ? (data.expected > 0 ? 'Paid' : 'Not billed') : 
                          data.daysOverdue > 0 ? `${data.daysOverdue}d overdue` : 'Pending'}
                       </Badge>
                       
-                      {data.amountDue > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCashPaymentFor({ id: data.tenancy.id, tenantName: data.tenancy.profiles.full_name })}
+                        title="Record cash payment"
+                      >
+                        <Banknote className="h-4 w-4" />
+                      </Button>
+
+                      {data.amountDue + data.previousArrears > 0 && (
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => handleSendReminder(
-                            data.tenancy.profiles.email,
-                            data.tenancy.profiles.full_name,
-                            data.amountDue
-                          )}
+                          onClick={() => handleSendReminder(data.tenancy.id, data.tenancy.profiles.full_name)}
+                          title="Send payment reminder"
                         >
                           <Send className="h-4 w-4" />
                         </Button>
@@ -326,6 +370,12 @@ const RentCollection: React.FC = () => {
           </div>
         </CardContent>
       </Card>
+
+      <CashPaymentDialog
+        tenancy={cashPaymentFor}
+        onOpenChange={(open) => !open && setCashPaymentFor(null)}
+        onSaved={fetchRentCollectionData}
+      />
     </div>
   );
 };
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { billingPeriodSuffix, parseDate, toDateString, type BillingCycle } from '@/lib/rentCharges';
+import { earliestIncreaseDate } from '@/lib/rentSchedule';
+
+interface RentIncreaseDialogProps {
+  tenancy: {
+    id: string;
+    tenantName: string;
+    rentAmount: number;
+    billingCycle: BillingCycle;
+    endDate: string | null;
+    noticeDays: number;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+  onIssued: () => void;
+}
+
+const RentIncreaseDialog: React.FC<RentIncreaseDialogProps> = ({ tenancy, onOpenChange, onIssued }) => {
+  const [rentAmount, setRentAmount] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const tenancyId = tenancy?.id;
+  const currentRent = tenancy?.rentAmount;
+  const noticeDays = tenancy?.noticeDays ?? 0;
+  const earliest = toDateString(earliestIncreaseDate(noticeDays));
+
+  // Defaults to the earliest date the notice period allows
+  useEffect(() => {
+    if (!tenancyId) return;
+
+    setRentAmount(String(currentRent ?? ''));
+    setEffectiveDate(earliest);
+  }, [tenancyId, currentRent, earliest]);
+
+  const validationError = (() => {
+    if (!tenancy) return null;
+    if (!(Number(rentAmount) > Number(tenancy.rentAmount))) return 'The new rent must be higher than the current rent';
+    if (!effectiveDate || effectiveDate < earliest) {
+      return `The notice period is ${noticeDays} days: the earliest start is ${parseDate(earliest).toLocaleDateString()}`;
+    }
+    if (tenancy.endDate && effectiveDate > tenancy.endDate) {
+      return 'The increase must start before the lease ends; offer a renewal instead';
+    }
+    return null;
+  })();
+
+  const handleIssue = async () => {
+    if (!tenancy || validationError) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('issue_rent_increase', {
+        _tenancy_id: tenancy.id,
+        _amount: Number(rentAmount),
+        _effective_date: effectiveDate,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Rent increase notice issued',
+        description: `${tenancy.tenantName}'s rent becomes $${Number(rentAmount).toLocaleString()} from ${parseDate(effectiveDate).toLocaleDateString()}.`,
+      });
+      onIssued();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error issuing notice',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const period = tenancy ? billingPeriodSuffix[tenancy.billingCycle] || 'month' : 'month';
+  const increase = tenancy ? Number(rentAmount) - Number(tenancy.rentAmount) : 0;
+
+  return (
+    <Dialog open={!!tenancy} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rent Increase Notice</DialogTitle>
+          <DialogDescription>
+            {tenancy?.tenantName} currently pays ${Number(currentRent ?? 0).toLocaleString()}/{period}. This property
+            requires {noticeDays} days notice before an increase takes effect.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="increase-rent">New Rent</Label>
+              <Input
+                id="increase-rent"
+                type="number"
+                step="0.01"
+                min={0}
+                value={rentAmount}
+                onChange={(e) => setRentAmount(e.target.value)}
+              />
+              {increase > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Up ${increase.toLocaleString()}/{period}
+                  {Number(currentRent) > 0 && ` (${((increase / Number(currentRent)) * 100).toFixed(1)}%)`}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="increase-effective">Effective From</Label>
+              <Input
+                id="increase-effective"
+                type="date"
+                min={earliest}
+                max={tenancy?.endDate || undefined}
+                value={effectiveDate}
+                onChange={(e) => setEffectiveDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Rent already billed is not changed. The new rent applies from the first billing period starting on or
+            after this date.
+          </p>
+          {validationError && <p className="text-sm text-destructive">{validationError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleIssue} disabled={submitting || !!validationError}>
+            {submitting ? 'Issuing...' : 'Issue Notice'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RentIncreaseDialog;
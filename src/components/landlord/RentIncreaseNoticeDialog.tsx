@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface RentIncreaseNoticeDialogProps {
+  property: { id: string; name: string; rent_increase_notice_days: number } | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+// Minimum notice a tenant gets before a rent increase on this property takes effect
+const RentIncreaseNoticeDialog: React.FC<RentIncreaseNoticeDialogProps> = ({ property, onOpenChange, onSaved }) => {
+  const [noticeDays, setNoticeDays] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const propertyId = property?.id;
+  const currentNoticeDays = property?.rent_increase_notice_days;
+
+  useEffect(() => {
+    setNoticeDays(currentNoticeDays !== undefined ? String(currentNoticeDays) : '');
+  }, [propertyId, currentNoticeDays]);
+
+  const days = Number(noticeDays);
+  const validationError =
+    noticeDays === '' || !Number.isInteger(days) || days < 0 || days > 365
+      ? 'Enter a whole number of days between 0 and 365'
+      : null;
+
+  const handleSave = async () => {
+    if (!property || validationError) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('properties')
+        .update({ rent_increase_notice_days: days })
+        .eq('id', property.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Notice period saved',
+        description: `${property.name}: rent increases need ${days} days notice.`,
+      });
+
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error saving notice period',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!property} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Rent Increase Notice - {property?.name}</DialogTitle>
+          <DialogDescription>
+            A rent increase can only take effect this many days after the notice is issued. Notices already issued are
+            not affected.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="rent_increase_notice_days">Notice Period (days)</Label>
+          <Input
+            id="rent_increase_notice_days"
+            type="number"
+            min="0"
+            max="365"
+            step="1"
+            value={noticeDays}
+            onChange={(e) => setNoticeDays(e.target.value)}
+          />
+          {validationError && <p className="text-sm text-destructive">{validationError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !!validationError}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RentIncreaseNoticeDialog;
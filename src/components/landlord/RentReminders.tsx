@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { BellRing, Pencil } from 'lucide-react';
+import NotificationTemplateDialog from '@/components/landlord/NotificationTemplateDialog';
+import {
+  MAX_DAYS_AFTER,
+  MAX_DAYS_BEFORE,
+  defaultReminderSettings,
+  describeReminderSettings,
+  notificationChannelLabels,
+  notificationEventLabels,
+  parseDayList,
+  type NotificationChannel,
+  type NotificationEvent,
+  type NotificationTemplate,
+  type ReminderSettings,
+} from '@/lib/notifications';
+
+const CHANNELS: NotificationChannel[] = ['sms', 'email'];
+const EVENTS: NotificationEvent[] = ['rent_due_soon', 'rent_overdue', 'rent_reminder'];
+
+const toFormValues = (settings: ReminderSettings) => ({
+  enabled: settings.enabled,
+  days_before: settings.days_before.join(', '),
+  days_after: settings.days_after.join(', '),
+  channels: settings.channels,
+});
+
+const RentReminders: React.FC = () => {
+  // Null until the landlord saves settings; reminders are off until then
+  const [settings, setSettings] = useState<ReminderSettings | null>(null);
+  const [formData, setFormData] = useState(toFormValues({ ...defaultReminderSettings, enabled: false }));
+  const [templates, setTemplates] = useState<NotificationTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<{ event: NotificationEvent; channel: NotificationChannel } | null>(null);
+  // Bumped after every change to reload
+  const [reloadKey, setReloadKey] = useState(0);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const landlordId = profile?.user_id;
+
+  useEffect(() => {
+    if (!landlordId) return;
+
+    const fetchReminders = async () => {
+      try {
+        const [settingsResult, templatesResult] = await Promise.all([
+          supabase.from('reminder_settings').select('*').eq('landlord_id', landlordId).maybeSingle(),
+          // RLS returns the platform defaults and this landlord's own templates
+          supabase.from('notification_templates').select('*'),
+        ]);
+
+        if (settingsResult.error) throw settingsResult.error;
+        if (templatesResult.error) throw templatesResult.error;
+
+        const saved = settingsResult.data;
+        setSettings(saved);
+        setFormData(toFormValues(saved || { ...defaultReminderSettings, enabled: false }));
+        setTemplates((templatesResult.data || []).filter((t) => t.landlord_id === null || t.landlord_id === landlordId));
+      } catch (error) {
+        toast({
+          title: 'Error loading reminder settings',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReminders();
+  }, [landlordId, reloadKey, toast]);
+
+  const daysBefore = parseDayList(formData.days_before, 0, MAX_DAYS_BEFORE);
+  const daysAfter = parseDayList(formData.days_after, 1, MAX_DAYS_AFTER);
+  const validationError =
+    daysBefore === null
+      ? `Days before must be whole numbers from 0 to ${MAX_DAYS_BEFORE}`
+      : daysAfter === null
+      ? `Days after must be whole numbers from 1 to ${MAX_DAYS_AFTER}`
+      : formData.channels.length === 0
+      ? 'Choose at least one channel'
+      : null;
+
+  const toggleChannel = (channel: NotificationChannel, on: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      channels: on
+        ? CHANNELS.filter((c) => c === channel || prev.channels.includes(c))
+        : prev.channels.filter((c) => c !== channel),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!landlordId || validationError) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('reminder_settings').upsert({
+        landlord_id: landlordId,
+        enabled: formData.enabled,
+        days_before: daysBefore,
+        days_after: daysAfter,
+        channels: formData.channels,
+      });
+
+      if (error) throw error;
+
+      toast({ title: 'Reminder settings saved' });
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error saving reminder settings',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const templateFor = (event: NotificationEvent, channel: NotificationChannel) => {
+    const matching = templates.filter((t) => t.event === event && t.channel === channel);
+    return matching.find((t) => t.landlord_id !== null) || matching.find((t) => t.landlord_id === null) || null;
+  };
+
+  const editingTemplate = editing ? templateFor(editing.event, editing.channel) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Rent Reminders
+        </CardTitle>
+        <CardDescription>
+          {settings ? describeReminderSettings(settings) : 'Remind tenants by SMS and email before and after rent is due'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-10 bg-muted rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : (
+          <>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="reminders-enabled">Automatic reminders</Label>
+                  <p className="text-sm text-muted-foreground">Sent every morning to tenants with rent coming up or unpaid</p>
+                </div>
+                <Switch
+                  id="reminders-enabled"
+                  checked={formData.enabled}
+                  onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, enabled: checked }))}
+                />
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="reminders-days-before">Days before due date</Label>
+                  <Input
+                    id="reminders-days-before"
+                    value={formData.days_before}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, days_before: e.target.value }))}
+                    placeholder="e.g. 3 or 7, 1"
+                    disabled={!formData.enabled}
+                  />
+                  <p className="text-xs text-muted-foreground">0 reminds on the due date itself</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reminders-days-after">Days after due date, while unpaid</Label>
+                  <Input
+                    id="reminders-days-after"
+                    value={formData.days_after}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, days_after: e.target.value }))}
+                    placeholder="e.g. 1, 7"
+                    disabled={!formData.enabled}
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-6">
+                {CHANNELS.map((channel) => (
+                  <div key={channel} className="flex items-center gap-2">
+                    <Switch
+                      id={`reminders-channel-${channel}`}
+                      checked={formData.channels.includes(channel)}
+                      onCheckedChange={(checked) => toggleChannel(channel, checked)}
+                    />
+                    <Label htmlFor={`reminders-channel-${channel}`}>{notificationChannelLabels[channel]}</Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Channels are also used for reminders you send from rent collection. Tenants need a phone number or
+                email address on their profile to receive them.
+              </p>
+
+              {validationError && <p className="text-sm text-destructive">{validationError}</p>}
+
+              <Button onClick={handleSave} disabled={saving || !!validationError}>
+                {saving ? 'Saving...' : 'Save Settings'}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="font-medium">Message templates</h4>
+              {EVENTS.map((event) =>
+                CHANNELS.map((channel) => {
+                  const template = templateFor(event, channel);
+                  return (
+                    <div key={`${event}-${channel}`} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                      <div className="space-y-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium">{notificationEventLabels[event]}</span>
+                          <Badge variant="outline">{notificationChannelLabels[channel]}</Badge>
+                          {template?.landlord_id && <Badge variant="secondary">Custom</Badge>}
+                        </div>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {template ? template.subject || template.body : 'No template'}
+                        </p>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={() => setEditing({ event, channel })}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <NotificationTemplateDialog
+        target={editing}
+        template={editingTemplate}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSaved={() => setReloadKey((key) => key + 1)}
+      />
+    </Card>
+  );
+};
+
+export default RentReminders;
@@ -10,7 +10,17 @@ import { Textarea } from '@/components/ui/textarea';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { Users, Plus, Phone, Mail, MapPin, Calendar, DollarSign, UserMinus, AlertTriangle } from 'lucide-react';
+import { Users, Plus, Phone, Mail, MapPin, Calendar, DollarSign, UserMinus, AlertTriangle, FileText, Trash2, Download, Copy, MessageSquare, RefreshCw, TrendingUp } from 'lucide-react';
+import { billingCycleLabels, billingPeriodSuffix, parseDate, type BillingCycle } from '@/lib/rentCharges';
+import { depositDeductionTypeLabels, planDepositSettlement, type DepositDeductionType } from '@/lib/deposits';
+import { downloadSettlementStatement } from '@/lib/tenantDocuments';
+import { invitationShareUrl, invitationState, inviteLink } from '@/lib/invitations';
+import { currentRenewal, daysUntilEnd, renewalDue, type LeaseRenewal } from '@/lib/renewals';
+import { DEFAULT_RENT_INCREASE_NOTICE_DAYS, scheduledIncrease, type RentScheduleEntry } from '@/lib/rentSchedule';
+import LeaseDocumentDialog from '@/components/landlord/LeaseDocumentDialog';
+import PendingInvitations, { type InvitationWithUnit } from '@/components/landlord/PendingInvitations';
+import RenewalOfferDialog from '@/components/landlord/RenewalOfferDialog';
+import RentIncreaseDialog from '@/components/landlord/RentIncreaseDialog';
 
 interface TenantInfo {
   id: string;
@@ -18,13 +28,18 @@ interface TenantInfo {
   start_date: string;
   end_date?: string;
   rent_amount: number;
+  billing_cycle: BillingCycle;
+  billing_day: number;
+  deposit_amount: number;
   status: string;
+  previous_tenancy_id: string | null;
   units: {
     id: string;
     unit_number: string;
     properties: {
       name: string;
       address: string;
+      rent_increase_notice_days: number;
     };
   };
   profiles: {
@@ -44,20 +59,51 @@ interface Unit {
   };
 }
 
+interface DeductionDraft {
+  deduction_type: DepositDeductionType;
+  description: string;
+  amount: string;
+}
+
+// Unpaid rent is deducted automatically, so it is not offered here
+const itemizedDeductionTypes: DepositDeductionType[] = ['damages', 'cleaning', 'other'];
+
+const todayString = () => new Date().toISOString().split('T')[0];
+
 const TenantManagement: React.FC = () => {
   const [tenants, setTenants] = useState<TenantInfo[]>([]);
   const [availableUnits, setAvailableUnits] = useState<Unit[]>([]);
+  const [invitations, setInvitations] = useState<InvitationWithUnit[]>([]);
+  // The invitation just sent, shown with its link until the dialog is closed
+  const [sentInvitation, setSentInvitation] = useState<InvitationWithUnit | null>(null);
+  const [inviting, setInviting] = useState(false);
   const [loading, setLoading] = useState(true);
   const [showAddTenant, setShowAddTenant] = useState(false);
   const [showRemoveTenant, setShowRemoveTenant] = useState(false);
   const [selectedTenant, setSelectedTenant] = useState<TenantInfo | null>(null);
+  const [moveOutDate, setMoveOutDate] = useState(todayString());
+  // Deposit held and unpaid charges of the tenant being moved out
+  const [depositHeld, setDepositHeld] = useState(0);
+  const [unpaidCharges, setUnpaidCharges] = useState<{ due_date: string; balance: number }[]>([]);
+  const [deductions, setDeductions] = useState<DeductionDraft[]>([]);
+  const [settling, setSettling] = useState(false);
   const [removalReason, setRemovalReason] = useState('');
+  const [leaseTenant, setLeaseTenant] = useState<TenantInfo | null>(null);
+  const [renewals, setRenewals] = useState<LeaseRenewal[]>([]);
+  const [renewalTenant, setRenewalTenant] = useState<TenantInfo | null>(null);
+  const [withdrawingRenewal, setWithdrawingRenewal] = useState<string | null>(null);
+  const [rentSchedule, setRentSchedule] = useState<RentScheduleEntry[]>([]);
+  const [rentIncreaseTenant, setRentIncreaseTenant] = useState<TenantInfo | null>(null);
+  const [cancellingIncrease, setCancellingIncrease] = useState<string | null>(null);
   const [addTenantForm, setAddTenantForm] = useState({
     email: '',
     fullName: '',
     phone: '',
     unitId: '',
     rentAmount: '',
+    depositAmount: '',
+    billingCycle: 'monthly' as BillingCycle,
+    billingDay: '1',
     startDate: '',
     endDate: '',
   });
@@ -79,7 +125,8 @@ const TenantManagement: React.FC = () => {
             properties!units_property_id_fkey (
               name,
               address,
-              landlord_id
+              landlord_id,
+              rent_increase_notice_days
             )
           )
         `)
@@ -103,6 +150,37 @@ const TenantManagement: React.FC = () => {
 
       if (unitsError) throw unitsError;
 
+      const { data: invitationsData, error: invitationsError } = await supabase
+        .from('invitations')
+        .select(`
+          *,
+          units!invitations_unit_id_fkey (
+            unit_number,
+            properties!units_property_id_fkey (
+              name
+            )
+          )
+        `)
+        .eq('landlord_id', profile.user_id)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+      if (invitationsError) throw invitationsError;
+
+      const { data: renewalsData, error: renewalsError } = await supabase
+        .from('lease_renewals')
+        .select('*')
+        .in('tenancy_id', (tenantsData || []).map(t => t.id));
+
+      if (renewalsError) throw renewalsError;
+
+      const { data: scheduleData, error: scheduleError } = await supabase
+        .from('rent_schedule_entries')
+        .select('*')
+        .in('tenancy_id', (tenantsData || []).map(t => t.id));
+
+      if (scheduleError) throw scheduleError;
+
       // Fetch tenant profiles separately
       const tenantIds = (tenantsData || []).map(t => t.tenant_id).filter(Boolean);
       const { data: profilesData } = await supabase
@@ -121,7 +199,14 @@ const TenantManagement: React.FC = () => {
       }));
 
       setTenants(enrichedTenantsData);
-      setAvailableUnits(unitsData || []);
+      // A unit with an open invitation is held for the invited tenant
+      const invitedUnitIds = (invitationsData || [])
+        .filter(i => invitationState(i) === 'pending')
+        .map(i => i.unit_id);
+      setAvailableUnits((unitsData || []).filter(u => !invitedUnitIds.includes(u.id)));
+      setInvitations(invitationsData || []);
+      setRenewals(renewalsData || []);
+      setRentSchedule(scheduleData || []);
     } catch (error: any) {
       toast({
         title: 'Error loading tenant data',
@@ -137,110 +222,164 @@ const TenantManagement: React.FC = () => {
     fetchTenantData();
   }, [profile?.user_id]);
 
-  const handleAddTenant = async (e: React.FormEvent) => {
+  const resetAddTenant = () => {
+    setAddTenantForm({
+      email: '',
+      fullName: '',
+      phone: '',
+      unitId: '',
+      rentAmount: '',
+      depositAmount: '',
+      billingCycle: 'monthly',
+      billingDay: '1',
+      startDate: '',
+      endDate: '',
+    });
+    setSentInvitation(null);
+  };
+
+  // The tenant is invited rather than added: their tenancy is created on these
+  // terms once they accept from their own account
+  const handleInviteTenant = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+
+    if (!addTenantForm.email.trim() && !addTenantForm.phone.trim()) {
+      toast({
+        title: 'Email or phone required',
+        description: 'Enter an email address or phone number to send the invitation to.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setInviting(true);
     try {
-      // First check if user exists or create profile
-      const { data: existingUser } = await supabase
-        .from('profiles')
-        .select('user_id')
-        .eq('email', addTenantForm.email)
-        .single();
-
-      let tenantUserId = existingUser?.user_id;
-
-      if (!tenantUserId) {
-        // Create a new user profile (in real scenario, user would sign up)
-        // For now, we'll create a profile placeholder
-        const { data: newProfile, error: profileError } = await supabase
-          .from('profiles')
-          .insert([{
-            email: addTenantForm.email,
-            full_name: addTenantForm.fullName,
-            phone: addTenantForm.phone,
-            role: 'tenant',
-          }])
-          .select('user_id')
-          .single();
-
-        if (profileError) throw profileError;
-        tenantUserId = newProfile.user_id;
-      }
-
-      // Create tenancy
-      const { error: tenancyError } = await supabase
-        .from('tenancies')
-        .insert([{
-          tenant_id: tenantUserId,
-          unit_id: addTenantForm.unitId,
-          rent_amount: Number(addTenantForm.rentAmount),
-          start_date: addTenantForm.startDate,
-          end_date: addTenantForm.endDate || null,
-          status: 'active',
-        }]);
-
-      if (tenancyError) throw tenancyError;
-
-      // Update unit status to occupied
-      const { error: unitError } = await supabase
-        .from('units')
-        .update({ status: 'occupied' })
-        .eq('id', addTenantForm.unitId);
+      const { data: invitation, error } = await supabase.rpc('create_invitation', {
+        _unit_id: addTenantForm.unitId,
+        _full_name: addTenantForm.fullName,
+        _email: addTenantForm.email,
+        _phone: addTenantForm.phone,
+        _rent_amount: Number(addTenantForm.rentAmount),
+        _billing_cycle: addTenantForm.billingCycle,
+        _billing_day: Number(addTenantForm.billingDay),
+        _deposit_amount: Number(addTenantForm.depositAmount || 0),
+        _start_date: addTenantForm.startDate,
+        _end_date: addTenantForm.endDate || null,
+      });
 
-      if (unitError) throw unitError;
+      if (error) throw error;
 
+      const unit = availableUnits.find(u => u.id === addTenantForm.unitId);
+      setSentInvitation({
+        ...invitation,
+        units: {
+          unit_number: unit?.unit_number ?? '',
+          properties: { name: unit?.properties.name ?? '' },
+        },
+      });
       toast({
-        title: 'Tenant added successfully',
-        description: `${addTenantForm.fullName} has been added as a tenant.`,
+        title: 'Invitation created',
+        description: `Send ${invitation.full_name} their invite link to accept.`,
       });
+      fetchTenantData();
+    } catch (error) {
+      toast({
+        title: 'Error inviting tenant',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setInviting(false);
+    }
+  };
 
-      setShowAddTenant(false);
-      setAddTenantForm({
-        email: '',
-        fullName: '',
-        phone: '',
-        unitId: '',
-        rentAmount: '',
-        startDate: '',
-        endDate: '',
+  const copySentInvitationLink = async () => {
+    if (!sentInvitation) return;
+    try {
+      await navigator.clipboard.writeText(inviteLink(sentInvitation.token));
+      toast({ title: 'Invite link copied' });
+    } catch (error) {
+      toast({
+        title: 'Could not copy the link',
+        description: (error as Error).message,
+        variant: 'destructive',
       });
-      fetchTenantData();
-    } catch (error: any) {
+    }
+  };
+
+  const openRemoveTenant = async (tenant: TenantInfo) => {
+    setSelectedTenant(tenant);
+    // An expired tenancy was billed to its end date, which is when the tenant left
+    setMoveOutDate(tenant.status === 'expired' && tenant.end_date ? tenant.end_date : todayString());
+    setDepositHeld(0);
+    setUnpaidCharges([]);
+    setDeductions([]);
+    setRemovalReason('');
+    setShowRemoveTenant(true);
+
+    try {
+      const [heldResult, chargesResult] = await Promise.all([
+        supabase.rpc('tenancy_deposit_held', { _tenancy_id: tenant.id }),
+        supabase
+          .from('rent_charge_balances')
+          .select('due_date, balance')
+          .eq('tenancy_id', tenant.id)
+          .gt('balance', 0),
+      ]);
+
+      if (heldResult.error) throw heldResult.error;
+      if (chargesResult.error) throw chargesResult.error;
+
+      setDepositHeld(Number(heldResult.data ?? 0));
+      setUnpaidCharges(chargesResult.data || []);
+    } catch (error) {
       toast({
-        title: 'Error adding tenant',
-        description: error.message,
+        title: 'Error loading deposit',
+        description: (error as Error).message,
         variant: 'destructive',
       });
     }
   };
 
+  // Rent still to be billed up to the move-out date is added when settling
+  const unpaidRent = unpaidCharges
+    .filter(c => c.due_date <= moveOutDate)
+    .reduce((sum, c) => sum + Number(c.balance), 0);
+  const settlementPlan = planDepositSettlement(
+    depositHeld,
+    unpaidRent,
+    deductions.map(d => ({ amount: Number(d.amount || 0) }))
+  );
+  const deductionsComplete = deductions.every(d => d.description.trim() !== '' && Number(d.amount) > 0);
+
+  const updateDeduction = (index: number, changes: Partial<DeductionDraft>) => {
+    setDeductions(prev => prev.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+  };
+
+  // Settles the deposit, ends the tenancy and frees the unit in one transaction
   const handleRemoveTenant = async () => {
     if (!selectedTenant) return;
 
+    setSettling(true);
     try {
-      // End the tenancy
-      const { error: tenancyError } = await supabase
-        .from('tenancies')
-        .update({ 
-          status: 'terminated',
-          end_date: new Date().toISOString().split('T')[0] // Today's date
-        })
-        .eq('id', selectedTenant.id);
-
-      if (tenancyError) throw tenancyError;
-
-      // Update unit status back to vacant
-      const { error: unitError } = await supabase
-        .from('units')
-        .update({ status: 'vacant' })
-        .eq('id', selectedTenant.units.id);
+      const { data: settlement, error } = await supabase.rpc('settle_deposit', {
+        _tenancy_id: selectedTenant.id,
+        _move_out_date: moveOutDate,
+        _deductions: deductions.map(d => ({
+          deduction_type: d.deduction_type,
+          description: d.description.trim(),
+          amount: Number(d.amount),
+        })),
+        _notes: removalReason.trim() || null,
+      });
 
-      if (unitError) throw unitError;
+      if (error) throw error;
 
       toast({
-        title: "Tenant removed",
-        description: `${selectedTenant.profiles.full_name} has been removed from ${selectedTenant.units.properties.name}.`,
+        title: "Tenant moved out",
+        description: Number(settlement.deposit_held) > 0
+          ? `${selectedTenant.profiles.full_name}'s tenancy has ended. $${Number(settlement.refund_amount).toLocaleString()} of their deposit will be refunded to their MTN MoMo number.`
+          : `${selectedTenant.profiles.full_name} has been removed from ${selectedTenant.units.properties.name}.`,
       });
 
       setShowRemoveTenant(false);
@@ -254,6 +393,130 @@ const TenantManagement: React.FC = () => {
         description: error.message,
         variant: "destructive",
       });
+    } finally {
+      setSettling(false);
+    }
+  };
+
+  const handleWithdrawRenewal = async (renewal: LeaseRenewal) => {
+    setWithdrawingRenewal(renewal.id);
+    try {
+      const { error } = await supabase.rpc('withdraw_renewal', { _renewal_id: renewal.id });
+      if (error) throw error;
+
+      toast({ title: 'Renewal offer withdrawn' });
+      fetchTenantData();
+    } catch (error) {
+      toast({
+        title: 'Error withdrawing offer',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setWithdrawingRenewal(null);
+    }
+  };
+
+  const handleCancelIncrease = async (entry: RentScheduleEntry) => {
+    setCancellingIncrease(entry.id);
+    try {
+      const { error } = await supabase.rpc('cancel_rent_increase', { _entry_id: entry.id });
+      if (error) throw error;
+
+      toast({ title: 'Rent increase cancelled' });
+      fetchTenantData();
+    } catch (error) {
+      toast({
+        title: 'Error cancelling rent increase',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setCancellingIncrease(null);
+    }
+  };
+
+  const renderRentIncrease = (tenant: TenantInfo) => {
+    const increase = scheduledIncrease(rentSchedule, tenant.id);
+    if (!increase) return null;
+
+    return (
+      <div className="mt-3 flex items-center justify-between gap-3 rounded-lg border bg-muted/50 p-3 text-sm">
+        <span>
+          Rent increases to ${Number(increase.amount).toLocaleString()} from{' '}
+          {parseDate(increase.effective_date).toLocaleDateString()}
+          {increase.notice_issued_on && ` (notice given ${parseDate(increase.notice_issued_on).toLocaleDateString()})`}.
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => handleCancelIncrease(increase)}
+          disabled={cancellingIncrease === increase.id}
+        >
+          {cancellingIncrease === increase.id ? 'Cancelling...' : 'Cancel'}
+        </Button>
+      </div>
+    );
+  };
+
+  // What happens at the end of a fixed term, once it is close
+  const renderRenewal = (tenant: TenantInfo) => {
+    const renewal = currentRenewal(renewals, tenant.id);
+    const daysLeft = daysUntilEnd(tenant.end_date);
+
+    if (renewalDue(tenant, renewals)) {
+      return (
+        <div className="mt-3 flex items-center justify-between gap-3 rounded-lg border border-orange-200 bg-orange-50 p-3 text-sm">
+          <span className="text-orange-800">
+            {daysLeft !== null && daysLeft >= 0
+              ? `Lease ends in ${daysLeft} day${daysLeft === 1 ? '' : 's'}.`
+              : 'Lease has reached its end date.'}{' '}
+            Offer a renewal or let it end.
+          </span>
+          <Button size="sm" onClick={() => setRenewalTenant(tenant)} className="flex items-center gap-1">
+            <RefreshCw className="h-3 w-3" />
+            Offer Renewal
+          </Button>
+        </div>
+      );
+    }
+
+    if (!renewal || tenant.status !== 'active') return null;
+
+    const newTerm = `$${Number(renewal.rent_amount).toLocaleString()} from ${new Date(renewal.start_date).toLocaleDateString()}` +
+      (renewal.end_date ? ` to ${new Date(renewal.end_date).toLocaleDateString()}` : ' with no fixed end');
+
+    return (
+      <div className="mt-3 flex items-center justify-between gap-3 rounded-lg border bg-muted/50 p-3 text-sm">
+        <span>
+          {renewal.status === 'offered' && `Renewal offered at ${newTerm}. Waiting for the tenant.`}
+          {renewal.status === 'accepted' && `Renewed at ${newTerm}. Prepare the renewed lease from the new tenancy below.`}
+          {renewal.status === 'declined' &&
+            `The tenant declined to renew and moves out on ${new Date(tenant.end_date as string).toLocaleDateString()}.`}
+        </span>
+        {renewal.status === 'offered' && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleWithdrawRenewal(renewal)}
+            disabled={withdrawingRenewal === renewal.id}
+          >
+            {withdrawingRenewal === renewal.id ? 'Withdrawing...' : 'Withdraw'}
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  const handleDownloadSettlement = async (tenant: TenantInfo) => {
+    try {
+      await downloadSettlementStatement(tenant.id);
+    } catch (error) {
+      toast({
+        title: 'Error downloading statement',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
     }
   };
 
@@ -289,107 +552,205 @@ const TenantManagement: React.FC = () => {
               </CardTitle>
               <CardDescription>Manage your tenants and their lease agreements</CardDescription>
             </div>
-            <Dialog open={showAddTenant} onOpenChange={setShowAddTenant}>
+            <Dialog
+              open={showAddTenant}
+              onOpenChange={(open) => {
+                setShowAddTenant(open);
+                if (!open) resetAddTenant();
+              }}
+            >
               <DialogTrigger asChild>
                 <Button className="flex items-center gap-2">
                   <Plus className="h-4 w-4" />
-                  Add Tenant
+                  Invite Tenant
                 </Button>
               </DialogTrigger>
               <DialogContent className="max-w-md">
                 <DialogHeader>
-                  <DialogTitle>Add New Tenant</DialogTitle>
+                  <DialogTitle>{sentInvitation ? 'Invitation Ready' : 'Invite a Tenant'}</DialogTitle>
                   <DialogDescription>
-                    Add a tenant to one of your available units
+                    {sentInvitation
+                      ? `Send ${sentInvitation.full_name} this link. It expires on ${new Date(sentInvitation.expires_at).toLocaleDateString()}.`
+                      : 'Invite a tenant to one of your available units. Their tenancy starts once they accept and sign the lease.'}
                   </DialogDescription>
                 </DialogHeader>
-                <form onSubmit={handleAddTenant} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="email">Email Address</Label>
-                    <Input
-                      id="email"
-                      type="email"
-                      value={addTenantForm.email}
-                      onChange={(e) => setAddTenantForm({ ...addTenantForm, email: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="fullName">Full Name</Label>
-                    <Input
-                      id="fullName"
-                      value={addTenantForm.fullName}
-                      onChange={(e) => setAddTenantForm({ ...addTenantForm, fullName: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="phone">Phone Number</Label>
-                    <Input
-                      id="phone"
-                      type="tel"
-                      value={addTenantForm.phone}
-                      onChange={(e) => setAddTenantForm({ ...addTenantForm, phone: e.target.value })}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="unit">Unit</Label>
-                    <Select 
-                      value={addTenantForm.unitId} 
-                      onValueChange={(value) => setAddTenantForm({ ...addTenantForm, unitId: value })}
-                      required
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select available unit" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {availableUnits.map((unit) => (
-                          <SelectItem key={unit.id} value={unit.id}>
-                            {unit.properties.name} - Unit {unit.unit_number}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="rentAmount">Monthly Rent</Label>
-                    <Input
-                      id="rentAmount"
-                      type="number"
-                      step="0.01"
-                      value={addTenantForm.rentAmount}
-                      onChange={(e) => setAddTenantForm({ ...addTenantForm, rentAmount: e.target.value })}
-                      required
-                    />
+                {sentInvitation ? (
+                  <div className="space-y-4">
+                    <Input value={inviteLink(sentInvitation.token)} readOnly onFocus={(e) => e.target.select()} />
+                    <div className="flex flex-wrap gap-2">
+                      <Button variant="outline" onClick={copySentInvitationLink}>
+                        <Copy className="h-4 w-4 mr-2" />
+                        Copy Link
+                      </Button>
+                      {sentInvitation.email && (
+                        <Button variant="outline" asChild>
+                          <a href={invitationShareUrl(sentInvitation, sentInvitation.units.properties.name, 'email')}>
+                            <Mail className="h-4 w-4 mr-2" />
+                            Email
+                          </a>
+                        </Button>
+                      )}
+                      {sentInvitation.phone && (
+                        <Button variant="outline" asChild>
+                          <a href={invitationShareUrl(sentInvitation, sentInvitation.units.properties.name, 'sms')}>
+                            <MessageSquare className="h-4 w-4 mr-2" />
+                            SMS
+                          </a>
+                        </Button>
+                      )}
+                    </div>
+                    <DialogFooter>
+                      <Button
+                        onClick={() => {
+                          setShowAddTenant(false);
+                          resetAddTenant();
+                        }}
+                      >
+                        Done
+                      </Button>
+                    </DialogFooter>
                   </div>
-                  <div className="grid grid-cols-2 gap-4">
+                ) : (
+                  <form onSubmit={handleInviteTenant} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="email">Email Address</Label>
+                      <Input
+                        id="email"
+                        type="email"
+                        value={addTenantForm.email}
+                        onChange={(e) => setAddTenantForm({ ...addTenantForm, email: e.target.value })}
+                      />
+                    </div>
                     <div className="space-y-2">
-                      <Label htmlFor="startDate">Start Date</Label>
+                      <Label htmlFor="fullName">Full Name</Label>
                       <Input
-                        id="startDate"
-                        type="date"
-                        value={addTenantForm.startDate}
-                        onChange={(e) => setAddTenantForm({ ...addTenantForm, startDate: e.target.value })}
+                        id="fullName"
+                        value={addTenantForm.fullName}
+                        onChange={(e) => setAddTenantForm({ ...addTenantForm, fullName: e.target.value })}
                         required
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="endDate">End Date (Optional)</Label>
+                      <Label htmlFor="phone">Phone Number</Label>
                       <Input
-                        id="endDate"
-                        type="date"
-                        value={addTenantForm.endDate}
-                        onChange={(e) => setAddTenantForm({ ...addTenantForm, endDate: e.target.value })}
+                        id="phone"
+                        type="tel"
+                        value={addTenantForm.phone}
+                        onChange={(e) => setAddTenantForm({ ...addTenantForm, phone: e.target.value })}
                       />
+                      <p className="text-xs text-muted-foreground">
+                        Give an email address, a phone number or both. The tenant accepts from an account with the same one.
+                      </p>
                     </div>
-                  </div>
-                  <div className="flex gap-2 pt-4">
-                    <Button type="submit" className="flex-1">Add Tenant</Button>
-                    <Button type="button" variant="outline" onClick={() => setShowAddTenant(false)}>
-                      Cancel
-                    </Button>
-                  </div>
-                </form>
+                    <div className="space-y-2">
+                      <Label htmlFor="unit">Unit</Label>
+                      <Select 
+                        value={addTenantForm.unitId} 
+                        onValueChange={(value) => setAddTenantForm({ ...addTenantForm, unitId: value })}
+                        required
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select available unit" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {availableUnits.map((unit) => (
+                            <SelectItem key={unit.id} value={unit.id}>
+                              {unit.properties.name} - Unit {unit.unit_number}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="billingCycle">Billing Cycle</Label>
+                        <Select
+                          value={addTenantForm.billingCycle}
+                          onValueChange={(value) => setAddTenantForm({ ...addTenantForm, billingCycle: value as BillingCycle })}
+                        >
+                          <SelectTrigger id="billingCycle">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(billingCycleLabels) as BillingCycle[]).map((cycle) => (
+                              <SelectItem key={cycle} value={cycle}>
+                                {billingCycleLabels[cycle]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="rentAmount">Rent per {billingPeriodSuffix[addTenantForm.billingCycle]}</Label>
+                        <Input
+                          id="rentAmount"
+                          type="number"
+                          step="0.01"
+                          value={addTenantForm.rentAmount}
+                          onChange={(e) => setAddTenantForm({ ...addTenantForm, rentAmount: e.target.value })}
+                          required
+                        />
+                      </div>
+                    </div>
+                    {addTenantForm.billingCycle !== 'weekly' && (
+                      <div className="space-y-2">
+                        <Label htmlFor="billingDay">Rent Due Day</Label>
+                        <Input
+                          id="billingDay"
+                          type="number"
+                          min={1}
+                          max={28}
+                          value={addTenantForm.billingDay}
+                          onChange={(e) => setAddTenantForm({ ...addTenantForm, billingDay: e.target.value })}
+                          required
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Day of the month rent falls due (1-28). A partial first period is pro-rated.
+                        </p>
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label htmlFor="depositAmount">Security Deposit (Optional)</Label>
+                      <Input
+                        id="depositAmount"
+                        type="number"
+                        step="0.01"
+                        min={0}
+                        value={addTenantForm.depositAmount}
+                        onChange={(e) => setAddTenantForm({ ...addTenantForm, depositAmount: e.target.value })}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="startDate">Start Date</Label>
+                        <Input
+                          id="startDate"
+                          type="date"
+                          value={addTenantForm.startDate}
+                          onChange={(e) => setAddTenantForm({ ...addTenantForm, startDate: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="endDate">End Date (Optional)</Label>
+                        <Input
+                          id="endDate"
+                          type="date"
+                          value={addTenantForm.endDate}
+                          onChange={(e) => setAddTenantForm({ ...addTenantForm, endDate: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                    <div className="flex gap-2 pt-4">
+                      <Button type="submit" className="flex-1" disabled={inviting}>
+                        {inviting ? 'Inviting...' : 'Send Invitation'}
+                      </Button>
+                      <Button type="button" variant="outline" onClick={() => setShowAddTenant(false)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </form>
+                )}
               </DialogContent>
             </Dialog>
           </div>
@@ -401,7 +762,7 @@ const TenantManagement: React.FC = () => {
               <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="font-medium mb-2">No tenants yet</h3>
               <p className="text-sm text-muted-foreground mb-4">
-                Add tenants to your available units to start managing rentals.
+                Invite tenants to your available units to start managing rentals.
               </p>
             </div>
           ) : (
@@ -416,8 +777,13 @@ const TenantManagement: React.FC = () => {
                       <div className="flex items-center gap-3 mb-2">
                         <h4 className="font-semibold">{tenant.profiles.full_name}</h4>
                         <Badge variant={tenant.status === 'active' ? 'default' : 'secondary'}>
-                          {tenant.status}
+                          {tenant.status === 'pending_signature'
+                            ? 'awaiting signature'
+                            : tenant.status === 'pending_start'
+                            ? 'upcoming'
+                            : tenant.status}
                         </Badge>
+                        {tenant.previous_tenancy_id && <Badge variant="outline">renewal</Badge>}
                       </div>
                       
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
@@ -441,7 +807,10 @@ const TenantManagement: React.FC = () => {
                         <div className="space-y-2">
                           <div className="flex items-center gap-2 text-muted-foreground">
                             <DollarSign className="h-4 w-4" />
-                            <span>${Number(tenant.rent_amount).toLocaleString()}/month</span>
+                            <span>
+                              ${Number(tenant.rent_amount).toLocaleString()}/{billingPeriodSuffix[tenant.billing_cycle] || 'month'}
+                              {Number(tenant.deposit_amount) > 0 && ` · $${Number(tenant.deposit_amount).toLocaleString()} deposit`}
+                            </span>
                           </div>
                           <div className="flex items-center gap-2 text-muted-foreground">
                             <Calendar className="h-4 w-4" />
@@ -452,27 +821,54 @@ const TenantManagement: React.FC = () => {
                           </div>
                         </div>
                       </div>
+
+                      {renderRentIncrease(tenant)}
+                      {renderRenewal(tenant)}
                     </div>
                     
                     <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setLeaseTenant(tenant)} className="flex items-center gap-1">
+                        <FileText className="h-3 w-3" />
+                        Lease
+                      </Button>
+                      {tenant.status === 'active' && !scheduledIncrease(rentSchedule, tenant.id) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setRentIncreaseTenant(tenant)}
+                          className="flex items-center gap-1"
+                        >
+                          <TrendingUp className="h-3 w-3" />
+                          Increase Rent
+                        </Button>
+                      )}
                       <Button size="sm" variant="outline">
                         View Details
                       </Button>
                       <Button size="sm" variant="outline">
                         Send Message
                       </Button>
-                      <Button 
-                        size="sm" 
-                        variant="destructive"
-                        onClick={() => {
-                          setSelectedTenant(tenant);
-                          setShowRemoveTenant(true);
-                        }}
-                        className="flex items-center gap-1"
-                      >
-                        <UserMinus className="h-3 w-3" />
-                        Remove
-                      </Button>
+                      {tenant.status === 'terminated' ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDownloadSettlement(tenant)}
+                          className="flex items-center gap-1"
+                        >
+                          <Download className="h-3 w-3" />
+                          Settlement
+                        </Button>
+                      ) : (
+                        <Button 
+                          size="sm" 
+                          variant="destructive"
+                          onClick={() => openRemoveTenant(tenant)}
+                          className="flex items-center gap-1"
+                        >
+                          <UserMinus className="h-3 w-3" />
+                          {tenant.status === 'expired' ? 'Move Out' : 'Remove'}
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -482,26 +878,164 @@ const TenantManagement: React.FC = () => {
         </CardContent>
       </Card>
 
+      <PendingInvitations invitations={invitations} onRevoked={fetchTenantData} />
+
+      <RenewalOfferDialog
+        tenancy={
+          renewalTenant && {
+            id: renewalTenant.id,
+            tenantName: renewalTenant.profiles.full_name,
+            rentAmount: Number(renewalTenant.rent_amount),
+            endDate: renewalTenant.end_date as string,
+          }
+        }
+        onOpenChange={(open) => !open && setRenewalTenant(null)}
+        onOffered={fetchTenantData}
+      />
+
+      <RentIncreaseDialog
+        tenancy={
+          rentIncreaseTenant && {
+            id: rentIncreaseTenant.id,
+            tenantName: rentIncreaseTenant.profiles.full_name,
+            rentAmount: Number(rentIncreaseTenant.rent_amount),
+            billingCycle: rentIncreaseTenant.billing_cycle,
+            endDate: rentIncreaseTenant.end_date || null,
+            noticeDays:
+              rentIncreaseTenant.units.properties.rent_increase_notice_days ?? DEFAULT_RENT_INCREASE_NOTICE_DAYS,
+          }
+        }
+        onOpenChange={(open) => !open && setRentIncreaseTenant(null)}
+        onIssued={fetchTenantData}
+      />
+
+      <LeaseDocumentDialog
+        tenancy={
+          leaseTenant && {
+            id: leaseTenant.id,
+            tenantName: leaseTenant.profiles.full_name,
+            unitLabel: `${leaseTenant.units.properties.name} - Unit ${leaseTenant.units.unit_number}`,
+          }
+        }
+        onOpenChange={(open) => !open && setLeaseTenant(null)}
+        onSigned={fetchTenantData}
+      />
+
       {/* Remove Tenant Dialog */}
       <Dialog open={showRemoveTenant} onOpenChange={setShowRemoveTenant}>
-        <DialogContent>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <AlertTriangle className="h-5 w-5 text-destructive" />
-              Remove Tenant
+              Move Out Tenant
             </DialogTitle>
             <DialogDescription>
-              Are you sure you want to remove {selectedTenant?.profiles?.full_name} from {selectedTenant?.units?.properties?.name}? 
-              This will end their tenancy and make the unit available for new tenants.
+              End {selectedTenant?.profiles?.full_name}'s tenancy at {selectedTenant?.units?.properties?.name} and settle
+              their security deposit. The unit becomes available for new tenants.
             </DialogDescription>
           </DialogHeader>
 
           <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="moveOutDate">Move-out Date</Label>
+              <Input
+                id="moveOutDate"
+                type="date"
+                value={moveOutDate}
+                onChange={(e) => setMoveOutDate(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Deductions</Label>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setDeductions(prev => [...prev, { deduction_type: 'damages', description: '', amount: '' }])}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add Deduction
+                </Button>
+              </div>
+              {deductions.map((deduction, index) => (
+                <div key={index} className="grid grid-cols-[7rem,1fr,6rem,auto] gap-2">
+                  <Select
+                    value={deduction.deduction_type}
+                    onValueChange={(value) => updateDeduction(index, { deduction_type: value as DepositDeductionType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {itemizedDeductionTypes.map(type => (
+                        <SelectItem key={type} value={type}>
+                          {depositDeductionTypeLabels[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="e.g. Broken window"
+                    value={deduction.description}
+                    onChange={(e) => updateDeduction(index, { description: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    placeholder="0.00"
+                    value={deduction.amount}
+                    onChange={(e) => updateDeduction(index, { amount: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setDeductions(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="bg-muted/50 rounded-lg p-3 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>Deposit held</span>
+                <span className="font-medium">${depositHeld.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between text-muted-foreground">
+                <span>Unpaid rent and fees</span>
+                <span>-${settlementPlan.rentDeduction.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between text-muted-foreground">
+                <span>Itemized deductions</span>
+                <span>-${settlementPlan.otherDeductions.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between font-semibold border-t pt-1">
+                <span>Refund to tenant</span>
+                <span>${settlementPlan.refund.toLocaleString()}</span>
+              </div>
+              {unpaidRent > settlementPlan.rentDeduction && (
+                <p className="text-xs text-muted-foreground">
+                  The deposit does not cover ${(unpaidRent - settlementPlan.rentDeduction).toLocaleString()} of unpaid rent,
+                  which stays on the tenant's account.
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Rent not yet billed up to the move-out date is added when you confirm.
+              </p>
+            </div>
+            {settlementPlan.error && <p className="text-sm text-destructive">{settlementPlan.error}</p>}
+
             <div>
-              <Label htmlFor="removalReason">Reason for Removal (Optional)</Label>
+              <Label htmlFor="removalReason">Notes (Optional)</Label>
               <Textarea
                 id="removalReason"
-                placeholder="Enter reason for tenant removal (e.g., non-payment of rent, lease violation)..."
+                placeholder="Reason for move-out, inspection notes..."
                 value={removalReason}
                 onChange={(e) => setRemovalReason(e.target.value)}
                 rows={3}
@@ -513,8 +1047,12 @@ const TenantManagement: React.FC = () => {
             <Button variant="outline" onClick={() => setShowRemoveTenant(false)}>
               Cancel
             </Button>
-            <Button variant="destructive" onClick={handleRemoveTenant}>
-              Remove Tenant
+            <Button
+              variant="destructive"
+              onClick={handleRemoveTenant}
+              disabled={settling || !moveOutDate || !!settlementPlan.error || !deductionsComplete}
+            >
+              {settling ? 'Settling...' : 'Settle and Move Out'}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -0,0 +1,358 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { HardHat, Plus, Pencil, Archive, ArchiveRestore, Phone, Mail } from 'lucide-react';
+import { maintenanceCategoryLabels, type MaintenanceCategory } from '@/lib/maintenance';
+import { describeVendorRates, type Vendor } from '@/lib/vendors';
+
+const emptyForm = {
+  name: '',
+  trade: 'other' as MaintenanceCategory,
+  contact_name: '',
+  phone: '',
+  email: '',
+  hourly_rate: '',
+  callout_fee: '',
+  notes: '',
+};
+
+const toRate = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const Vendors: React.FC = () => {
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Vendor | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  // Bumped after every change to reload the list
+  const [reloadKey, setReloadKey] = useState(0);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const userId = profile?.user_id;
+    if (!userId) return;
+
+    const fetchVendors = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('vendors')
+          .select('*')
+          .eq('landlord_id', userId)
+          .order('name');
+
+        if (error) throw error;
+        setVendors(data || []);
+      } catch (error) {
+        toast({
+          title: 'Error loading vendors',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchVendors();
+  }, [profile?.user_id, reloadKey, toast]);
+
+  const openEditor = (vendor: Vendor | null) => {
+    setEditing(vendor);
+    setFormData(
+      vendor
+        ? {
+            name: vendor.name,
+            trade: vendor.trade,
+            contact_name: vendor.contact_name || '',
+            phone: vendor.phone || '',
+            email: vendor.email || '',
+            hourly_rate: vendor.hourly_rate?.toString() || '',
+            callout_fee: vendor.callout_fee?.toString() || '',
+            notes: vendor.notes || '',
+          }
+        : emptyForm
+    );
+    setShowEditor(true);
+  };
+
+  const ratesInvalid = [formData.hourly_rate, formData.callout_fee].some(
+    (value) => value.trim() !== '' && !(Number(value) >= 0)
+  );
+
+  const handleSave = async () => {
+    if (!profile?.user_id) return;
+
+    const fields = {
+      name: formData.name.trim(),
+      trade: formData.trade,
+      contact_name: formData.contact_name.trim() || null,
+      phone: formData.phone.trim() || null,
+      email: formData.email.trim() || null,
+      hourly_rate: toRate(formData.hourly_rate),
+      callout_fee: toRate(formData.callout_fee),
+      notes: formData.notes.trim() || null,
+    };
+
+    setSaving(true);
+    try {
+      const { error } = editing
+        ? await supabase.from('vendors').update(fields).eq('id', editing.id)
+        : await supabase.from('vendors').insert({ ...fields, landlord_id: profile.user_id });
+
+      if (error) throw error;
+
+      toast({ title: editing ? 'Vendor updated' : 'Vendor added' });
+      setShowEditor(false);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error saving vendor',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Vendors are archived rather than deleted so past work orders keep them
+  const setArchived = async (vendor: Vendor, archived: boolean) => {
+    try {
+      const { error } = await supabase.from('vendors').update({ archived }).eq('id', vendor.id);
+      if (error) throw error;
+
+      toast({ title: archived ? `${vendor.name} archived` : `${vendor.name} restored` });
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error updating vendor',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const archivedCount = vendors.filter((vendor) => vendor.archived).length;
+  const visible = vendors.filter((vendor) => showArchived || !vendor.archived);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <HardHat className="h-5 w-5" />
+              Vendors
+            </CardTitle>
+            <CardDescription>Contractors you can send work orders to from a maintenance request</CardDescription>
+          </div>
+          <Button onClick={() => openEditor(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Vendor
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <div key={i} className="h-12 bg-muted rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : vendors.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <HardHat className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No vendors yet</p>
+            <p className="text-sm">Add the plumbers, electricians and other trades you work with</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visible.map((vendor) => {
+              const rates = describeVendorRates(vendor);
+
+              return (
+                <div
+                  key={vendor.id}
+                  className={`flex items-start justify-between gap-4 p-4 border rounded-lg ${vendor.archived ? 'opacity-60' : ''}`}
+                >
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{vendor.name}</span>
+                      <Badge variant="outline">{maintenanceCategoryLabels[vendor.trade]}</Badge>
+                      {vendor.archived && <Badge variant="secondary">Archived</Badge>}
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                      {vendor.contact_name && <span>{vendor.contact_name}</span>}
+                      {vendor.phone && (
+                        <a href={`tel:${vendor.phone}`} className="flex items-center gap-1 hover:underline">
+                          <Phone className="h-3 w-3" />
+                          {vendor.phone}
+                        </a>
+                      )}
+                      {vendor.email && (
+                        <a href={`mailto:${vendor.email}`} className="flex items-center gap-1 hover:underline">
+                          <Mail className="h-3 w-3" />
+                          {vendor.email}
+                        </a>
+                      )}
+                      {rates && <span>{rates}</span>}
+                    </div>
+                    {vendor.notes && <p className="text-sm whitespace-pre-line">{vendor.notes}</p>}
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => openEditor(vendor)}>
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setArchived(vendor, !vendor.archived)}
+                      title={vendor.archived ? 'Restore' : 'Archive'}
+                    >
+                      {vendor.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+            {archivedCount > 0 && (
+              <Button variant="link" size="sm" className="px-0" onClick={() => setShowArchived(!showArchived)}>
+                {showArchived ? 'Hide archived vendors' : `Show ${archivedCount} archived`}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showEditor} onOpenChange={setShowEditor}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Vendor' : 'Add Vendor'}</DialogTitle>
+            <DialogDescription>Rates are for your reference when estimating a job</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="vendor-name">Business Name</Label>
+                <Input
+                  id="vendor-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. Quick Fix Plumbing"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Trade</Label>
+                <Select
+                  value={formData.trade}
+                  onValueChange={(value: MaintenanceCategory) => setFormData({ ...formData, trade: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(maintenanceCategoryLabels) as MaintenanceCategory[]).map((trade) => (
+                      <SelectItem key={trade} value={trade}>
+                        {maintenanceCategoryLabels[trade]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="vendor-contact">Contact Person</Label>
+              <Input
+                id="vendor-contact"
+                value={formData.contact_name}
+                onChange={(e) => setFormData({ ...formData, contact_name: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="vendor-phone">Phone</Label>
+                <Input
+                  id="vendor-phone"
+                  type="tel"
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vendor-email">Email</Label>
+                <Input
+                  id="vendor-email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="vendor-hourly">Hourly Rate ($)</Label>
+                <Input
+                  id="vendor-hourly"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.hourly_rate}
+                  onChange={(e) => setFormData({ ...formData, hourly_rate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vendor-callout">Call-out Fee ($)</Label>
+                <Input
+                  id="vendor-callout"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.callout_fee}
+                  onChange={(e) => setFormData({ ...formData, callout_fee: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="vendor-notes">Notes</Label>
+              <Textarea
+                id="vendor-notes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                placeholder="e.g. Available weekends, licence number"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowEditor(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !formData.name.trim() || ratesInvalid}>
+              {saving ? 'Saving...' : 'Save Vendor'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default Vendors;
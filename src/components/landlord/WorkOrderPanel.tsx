@@ -0,0 +1,397 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { ClipboardList, Phone, Mail, Receipt } from 'lucide-react';
+import { maintenanceCategoryLabels, type MaintenanceRequest } from '@/lib/maintenance';
+import { parseDate } from '@/lib/rentCharges';
+import {
+  currentWorkOrder,
+  describeVendorRates,
+  invoicedTotal,
+  vendorsForRequest,
+  workOrderStatusLabels,
+  type Vendor,
+  type VendorInvoice,
+  type WorkOrder,
+} from '@/lib/vendors';
+
+interface WorkOrderWithDetails extends WorkOrder {
+  vendors: Pick<Vendor, 'name' | 'contact_name' | 'phone' | 'email' | 'hourly_rate' | 'callout_fee'>;
+  vendor_invoices: VendorInvoice[];
+}
+
+interface WorkOrderPanelProps {
+  request: Pick<MaintenanceRequest, 'id' | 'category' | 'status'>;
+  // Creating or cancelling a work order also changes the request
+  onRequestChanged: () => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const WorkOrderPanel: React.FC<WorkOrderPanelProps> = ({ request, onRequestChanged }) => {
+  const [workOrders, setWorkOrders] = useState<WorkOrderWithDetails[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [mode, setMode] = useState<'create' | 'invoice' | null>(null);
+  const [orderForm, setOrderForm] = useState({ vendorId: '', scheduledFor: '', costEstimate: '', instructions: '' });
+  const [invoiceForm, setInvoiceForm] = useState({ amount: '', invoiceNumber: '', invoiceDate: today() });
+  const [saving, setSaving] = useState(false);
+  // Bumped after an invoice is recorded so the panel reloads
+  const [version, setVersion] = useState(0);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const landlordId = profile?.user_id;
+  const requestId = request.id;
+
+  useEffect(() => {
+    if (!landlordId) return;
+
+    const fetchWorkOrders = async () => {
+      try {
+        const [{ data: ordersData, error: ordersError }, { data: vendorsData, error: vendorsError }] =
+          await Promise.all([
+            supabase
+              .from('work_orders')
+              .select(`
+                *,
+                vendors!work_orders_vendor_id_fkey ( name, contact_name, phone, email, hourly_rate, callout_fee ),
+                vendor_invoices ( id, work_order_id, invoice_number, amount, invoice_date )
+              `)
+              .eq('request_id', requestId),
+            supabase.from('vendors').select('*').eq('landlord_id', landlordId),
+          ]);
+
+        if (ordersError) throw ordersError;
+        if (vendorsError) throw vendorsError;
+
+        setWorkOrders(ordersData || []);
+        setVendors(vendorsData || []);
+      } catch (error) {
+        toast({
+          title: 'Error loading work orders',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      }
+    };
+
+    fetchWorkOrders();
+  }, [requestId, landlordId, version, toast]);
+
+  const workOrder = currentWorkOrder(workOrders);
+  const cancelledCount = workOrders.filter((order) => order.status === 'cancelled' && order.id !== workOrder?.id).length;
+  const available = vendorsForRequest(vendors, request.category);
+  const canDispatch =
+    !workOrders.some((order) => order.status === 'open') && !['resolved', 'closed'].includes(request.status);
+
+  const handleCreate = async () => {
+    if (!orderForm.vendorId) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('create_work_order', {
+        _request_id: request.id,
+        _vendor_id: orderForm.vendorId,
+        _scheduled_for: orderForm.scheduledFor ? new Date(orderForm.scheduledFor).toISOString() : undefined,
+        _cost_estimate: orderForm.costEstimate ? Number(orderForm.costEstimate) : undefined,
+        _instructions: orderForm.instructions.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Work order created',
+        description: `Assigned to ${vendors.find((v) => v.id === orderForm.vendorId)?.name}`,
+      });
+      onRequestChanged();
+    } catch (error) {
+      toast({
+        title: 'Error creating work order',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!workOrder) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('cancel_work_order', { _work_order_id: workOrder.id });
+      if (error) throw error;
+
+      toast({ title: 'Work order cancelled' });
+      onRequestChanged();
+    } catch (error) {
+      toast({
+        title: 'Error cancelling work order',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRecordInvoice = async () => {
+    if (!workOrder) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('record_vendor_invoice', {
+        _work_order_id: workOrder.id,
+        _amount: Number(invoiceForm.amount),
+        _invoice_number: invoiceForm.invoiceNumber.trim() || undefined,
+        _invoice_date: invoiceForm.invoiceDate,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Invoice recorded',
+        description: `$${Number(invoiceForm.amount).toLocaleString()} was added to this property's expenses.`,
+      });
+      setMode(null);
+      setInvoiceForm({ amount: '', invoiceNumber: '', invoiceDate: today() });
+      setVersion((v) => v + 1);
+    } catch (error) {
+      toast({
+        title: 'Error recording invoice',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderWorkOrder = (order: WorkOrderWithDetails) => {
+    const rates = describeVendorRates(order.vendors);
+    const invoiced = invoicedTotal(order.vendor_invoices);
+
+    return (
+      <div className="rounded-lg border p-3 space-y-2 text-sm">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span className="font-medium">{order.vendors.name}</span>
+          <Badge variant={order.status === 'open' ? 'default' : 'secondary'}>{workOrderStatusLabels[order.status]}</Badge>
+        </div>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground">
+          {order.vendors.contact_name && <span>{order.vendors.contact_name}</span>}
+          {order.vendors.phone && (
+            <a href={`tel:${order.vendors.phone}`} className="flex items-center gap-1 hover:underline">
+              <Phone className="h-3 w-3" />
+              {order.vendors.phone}
+            </a>
+          )}
+          {order.vendors.email && (
+            <a href={`mailto:${order.vendors.email}`} className="flex items-center gap-1 hover:underline">
+              <Mail className="h-3 w-3" />
+              {order.vendors.email}
+            </a>
+          )}
+          {rates && <span>{rates}</span>}
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <p className="text-xs text-muted-foreground">Scheduled</p>
+            <p>{order.scheduled_for ? new Date(order.scheduled_for).toLocaleString() : 'Not set'}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Estimate</p>
+            <p>{order.cost_estimate != null ? `$${Number(order.cost_estimate).toLocaleString()}` : 'None'}</p>
+          </div>
+        </div>
+        {order.instructions && <p className="whitespace-pre-line">{order.instructions}</p>}
+        {order.vendor_invoices.length > 0 && (
+          <div className="space-y-1 border-t pt-2">
+            {order.vendor_invoices.map((invoice) => (
+              <div key={invoice.id} className="flex items-center justify-between">
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  <Receipt className="h-3 w-3" />
+                  {invoice.invoice_number ? `Invoice ${invoice.invoice_number}` : 'Invoice'} ·{' '}
+                  {parseDate(invoice.invoice_date).toLocaleDateString()}
+                </span>
+                <span>${Number(invoice.amount).toLocaleString()}</span>
+              </div>
+            ))}
+            {order.vendor_invoices.length > 1 && (
+              <div className="flex items-center justify-between font-medium">
+                <span>Total invoiced</span>
+                <span>${invoiced.toLocaleString()}</span>
+              </div>
+            )}
+          </div>
+        )}
+        {order.status !== 'cancelled' && mode === null && (
+          <div className="flex gap-2 pt-1">
+            <Button size="sm" variant="outline" onClick={() => setMode('invoice')} disabled={saving}>
+              Record Invoice
+            </Button>
+            {order.status === 'open' && (
+              <Button size="sm" variant="ghost" onClick={handleCancel} disabled={saving}>
+                Cancel Work Order
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <ClipboardList className="h-4 w-4" />
+          Work Order
+        </h4>
+        {canDispatch && mode === null && (
+          <Button size="sm" variant="outline" onClick={() => setMode('create')}>
+            {workOrder ? 'New Work Order' : 'Create Work Order'}
+          </Button>
+        )}
+      </div>
+
+      {workOrder ? (
+        renderWorkOrder(workOrder)
+      ) : (
+        mode !== 'create' && <p className="text-sm text-muted-foreground">Not dispatched to a vendor yet.</p>
+      )}
+      {cancelledCount > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {cancelledCount} earlier work order{cancelledCount === 1 ? '' : 's'} cancelled
+        </p>
+      )}
+
+      {mode === 'create' && (
+        <div className="rounded-lg border p-3 space-y-3">
+          {available.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Add vendors in the Maintenance tab to dispatch work to them.</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label>Vendor</Label>
+                <Select value={orderForm.vendorId} onValueChange={(value) => setOrderForm({ ...orderForm, vendorId: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a vendor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {available.map((vendor) => (
+                      <SelectItem key={vendor.id} value={vendor.id}>
+                        {vendor.name} · {maintenanceCategoryLabels[vendor.trade]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="work-order-scheduled">Scheduled For</Label>
+                  <Input
+                    id="work-order-scheduled"
+                    type="datetime-local"
+                    value={orderForm.scheduledFor}
+                    onChange={(e) => setOrderForm({ ...orderForm, scheduledFor: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="work-order-estimate">Cost Estimate ($)</Label>
+                  <Input
+                    id="work-order-estimate"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={orderForm.costEstimate}
+                    onChange={(e) => setOrderForm({ ...orderForm, costEstimate: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="work-order-instructions">Instructions for the Vendor</Label>
+                <Textarea
+                  id="work-order-instructions"
+                  value={orderForm.instructions}
+                  onChange={(e) => setOrderForm({ ...orderForm, instructions: e.target.value })}
+                  placeholder="e.g. Collect keys from the caretaker"
+                />
+              </div>
+            </>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="outline" onClick={() => setMode(null)} disabled={saving}>
+              Cancel
+            </Button>
+            {available.length > 0 && (
+              <Button size="sm" onClick={handleCreate} disabled={saving || !orderForm.vendorId}>
+                {saving ? 'Creating...' : 'Create Work Order'}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {mode === 'invoice' && (
+        <div className="rounded-lg border p-3 space-y-3">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="invoice-amount">Amount ($)</Label>
+              <Input
+                id="invoice-amount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={invoiceForm.amount}
+                onChange={(e) => setInvoiceForm({ ...invoiceForm, amount: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoice-number">Invoice No.</Label>
+              <Input
+                id="invoice-number"
+                value={invoiceForm.invoiceNumber}
+                onChange={(e) => setInvoiceForm({ ...invoiceForm, invoiceNumber: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoice-date">Date</Label>
+              <Input
+                id="invoice-date"
+                type="date"
+                max={today()}
+                value={invoiceForm.invoiceDate}
+                onChange={(e) => setInvoiceForm({ ...invoiceForm, invoiceDate: e.target.value })}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The invoice completes the work order and is added to this property's expenses.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="outline" onClick={() => setMode(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleRecordInvoice}
+              disabled={saving || !(Number(invoiceForm.amount) > 0) || !invoiceForm.invoiceDate}
+            >
+              {saving ? 'Recording...' : 'Record Invoice'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkOrderPanel;
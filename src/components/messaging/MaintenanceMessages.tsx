@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { MessageCircle } from 'lucide-react';
+import MessageThread from '@/components/messaging/MessageThread';
+import { openConversation } from '@/lib/messaging';
+
+interface MaintenanceMessagesProps {
+  requestId: string;
+}
+
+// The conversation about one maintenance request. It is only started once
+// someone asks to, so looking at a request leaves no empty conversation behind.
+const MaintenanceMessages: React.FC<MaintenanceMessagesProps> = ({ requestId }) => {
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const fetchConversation = async () => {
+      const { data, error } = await supabase
+        .from('conversations')
+        .select('id')
+        .eq('maintenance_request_id', requestId)
+        .maybeSingle();
+
+      if (error) {
+        toast({
+          title: 'Error loading messages',
+          description: error.message,
+          variant: 'destructive',
+        });
+      } else {
+        setConversationId(data?.id ?? null);
+      }
+      setLoading(false);
+    };
+
+    fetchConversation();
+  }, [requestId, toast]);
+
+  const startConversation = async () => {
+    setStarting(true);
+    try {
+      setConversationId(await openConversation({ maintenanceRequestId: requestId }));
+    } catch (error) {
+      toast({
+        title: 'Error starting conversation',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  if (loading) return <div className="h-10 bg-muted rounded animate-pulse"></div>;
+
+  if (!conversationId) {
+    return (
+      <Button variant="outline" size="sm" onClick={startConversation} disabled={starting}>
+        <MessageCircle className="h-4 w-4 mr-2" />
+        {starting ? 'Opening...' : 'Message About This Request'}
+      </Button>
+    );
+  }
+
+  return <MessageThread conversationId={conversationId} className="rounded-lg border p-3" />;
+};
+
+export default MaintenanceMessages;
@@ -0,0 +1,329 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Check, CheckCheck, FileText, Paperclip, Send, X } from 'lucide-react';
+import { formatFileSize, isImage } from '@/lib/maintenanceAttachments';
+import {
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_MESSAGE_LENGTH,
+  MESSAGE_ATTACHMENT_TYPES,
+  MESSAGE_HISTORY_LIMIT,
+  markConversationRead,
+  messageAttachmentUrls,
+  sendMessage,
+  validateMessageAttachment,
+  type Message,
+  type MessageAttachment,
+} from '@/lib/messaging';
+
+interface MessageThreadProps {
+  conversationId: string;
+  className?: string;
+}
+
+interface ReadState {
+  landlord_id: string;
+  landlord_last_read_at: string | null;
+  tenant_last_read_at: string | null;
+}
+
+// The messages in one conversation with a composer underneath. New messages
+// and the other side's read receipt arrive over realtime; opening the thread
+// marks it as read.
+const MessageThread: React.FC<MessageThreadProps> = ({ conversationId, className }) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [readState, setReadState] = useState<ReadState | null>(null);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [body, setBody] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [sending, setSending] = useState(false);
+  const [loading, setLoading] = useState(true);
+  // Bumped whenever a message arrives or a receipt moves
+  const [reloadKey, setReloadKey] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const userId = profile?.user_id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const fetchThread = async () => {
+      try {
+        const [messagesResult, conversationResult] = await Promise.all([
+          supabase
+            .from('messages')
+            .select('*, message_attachments (*)')
+            .eq('conversation_id', conversationId)
+            .order('created_at', { ascending: false })
+            .limit(MESSAGE_HISTORY_LIMIT),
+          supabase
+            .from('conversations')
+            .select('landlord_id, landlord_last_read_at, tenant_last_read_at')
+            .eq('id', conversationId)
+            .single(),
+        ]);
+
+        if (messagesResult.error) throw messagesResult.error;
+        if (conversationResult.error) throw conversationResult.error;
+
+        const loaded = (messagesResult.data || []).reverse();
+        const conversation = conversationResult.data;
+        setMessages(loaded);
+        setReadState(conversation);
+
+        const myLastRead =
+          conversation.landlord_id === userId ? conversation.landlord_last_read_at : conversation.tenant_last_read_at;
+        const hasUnread = loaded.some(
+          (m) => m.sender_id !== userId && (!myLastRead || m.created_at > myLastRead)
+        );
+        if (hasUnread) await markConversationRead(conversationId);
+      } catch (error) {
+        toast({
+          title: 'Error loading messages',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchThread();
+  }, [conversationId, userId, reloadKey, toast]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`conversation-${conversationId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `conversation_id=eq.${conversationId}` },
+        () => setReloadKey((key) => key + 1)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'conversations', filter: `id=eq.${conversationId}` },
+        () => setReloadKey((key) => key + 1)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId]);
+
+  // Signed URLs are fetched again only when the set of files changes
+  const pathsKey = messages.flatMap((m) => m.message_attachments.map((a) => a.storage_path)).join(',');
+
+  useEffect(() => {
+    if (!pathsKey) return;
+
+    messageAttachmentUrls(pathsKey.split(',').map((storage_path) => ({ storage_path }) as MessageAttachment))
+      .then(setUrls)
+      .catch((error: Error) =>
+        toast({
+          title: 'Error loading attachments',
+          description: error.message,
+          variant: 'destructive',
+        })
+      );
+  }, [pathsKey, toast]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length]);
+
+  const counterpartLastRead = readState
+    ? readState.landlord_id === userId
+      ? readState.tenant_last_read_at
+      : readState.landlord_last_read_at
+    : null;
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    const errors = selected.map(validateMessageAttachment).filter((error): error is string => !!error);
+    const valid = selected.filter((file) => !validateMessageAttachment(file));
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - files.length;
+
+    if (valid.length > room) {
+      errors.push(`A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`);
+    }
+    if (errors.length > 0) {
+      toast({ title: 'Some files were not attached', description: errors.join('. '), variant: 'destructive' });
+    }
+
+    setFiles([...files, ...valid.slice(0, Math.max(room, 0))]);
+    // Lets the same file be picked again after removing it
+    e.target.value = '';
+  };
+
+  const handleSend = async () => {
+    if (!body.trim() && files.length === 0) return;
+
+    setSending(true);
+    try {
+      await sendMessage(conversationId, body, files);
+      setBody('');
+      setFiles([]);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error sending message',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends; Shift+Enter starts a new line
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      if (!sending) handleSend();
+    }
+  };
+
+  return (
+    <div className={`flex flex-col ${className || ''}`}>
+      <div className="flex-1 min-h-48 max-h-96 overflow-y-auto space-y-3 p-1">
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-10 bg-muted rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No messages yet. Say hello.</p>
+        ) : (
+          messages.map((message) => {
+            const mine = message.sender_id === userId;
+            const read = mine && !!counterpartLastRead && counterpartLastRead >= message.created_at;
+
+            return (
+              <div key={message.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                <div
+                  className={`max-w-[80%] rounded-lg px-3 py-2 space-y-2 ${
+                    mine ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                  }`}
+                >
+                  {message.body && <p className="text-sm whitespace-pre-wrap break-words">{message.body}</p>}
+
+                  {message.message_attachments.length > 0 && (
+                    <div className="space-y-1">
+                      {message.message_attachments.map((attachment) =>
+                        isImage(attachment.content_type) && urls[attachment.storage_path] ? (
+                          <a key={attachment.id} href={urls[attachment.storage_path]} target="_blank" rel="noreferrer">
+                            <img
+                              src={urls[attachment.storage_path]}
+                              alt={attachment.file_name}
+                              className="max-h-48 rounded-md object-cover"
+                            />
+                          </a>
+                        ) : (
+                          <a
+                            key={attachment.id}
+                            href={urls[attachment.storage_path]}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="flex items-center gap-2 text-sm underline"
+                          >
+                            <FileText className="h-4 w-4 shrink-0" />
+                            <span className="truncate">{attachment.file_name}</span>
+                            <span className="shrink-0 opacity-70">{formatFileSize(attachment.size_bytes)}</span>
+                          </a>
+                        )
+                      )}
+                    </div>
+                  )}
+
+                  <div className={`flex items-center gap-1 text-[11px] ${mine ? 'justify-end opacity-80' : 'text-muted-foreground'}`}>
+                    {new Date(message.created_at).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                    {mine &&
+                      (read ? (
+                        <CheckCheck className="h-3 w-3" aria-label="Read" />
+                      ) : (
+                        <Check className="h-3 w-3" aria-label="Sent" />
+                      ))}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <div className="border-t pt-3 mt-3 space-y-2">
+        {files.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {files.map((file, index) => (
+              <span
+                key={`${file.name}-${index}`}
+                className="flex items-center gap-1 rounded-md border bg-muted px-2 py-1 text-xs"
+              >
+                <span className="max-w-[10rem] truncate">{file.name}</span>
+                <button
+                  type="button"
+                  onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                  aria-label={`Remove ${file.name}`}
+                  disabled={sending}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-end gap-2">
+          <input
+            ref={inputRef}
+            type="file"
+            accept={MESSAGE_ATTACHMENT_TYPES.join(',')}
+            multiple
+            className="hidden"
+            onChange={handleSelect}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={() => inputRef.current?.click()}
+            disabled={sending || files.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+            aria-label="Attach a photo or PDF"
+          >
+            <Paperclip className="h-4 w-4" />
+          </Button>
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Write a message"
+            maxLength={MAX_MESSAGE_LENGTH}
+            rows={1}
+            className="min-h-10 resize-none"
+            disabled={sending}
+          />
+          <Button
+            type="button"
+            size="icon"
+            onClick={handleSend}
+            disabled={sending || (!body.trim() && files.length === 0)}
+            aria-label="Send"
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessageThread;
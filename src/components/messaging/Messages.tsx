@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, MessageCircle, Wrench } from 'lucide-react';
+import MessageThread from '@/components/messaging/MessageThread';
+import { conversationTitle, openConversation, type ConversationSummary } from '@/lib/messaging';
+
+// The signed-in user's conversations with the selected one open beside them.
+// Landlords can start a conversation with any current tenant; tenants with
+// their landlord.
+const Messages: React.FC = () => {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [tenants, setTenants] = useState<{ user_id: string; full_name: string }[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  // Bumped whenever one of the user's conversations changes
+  const [reloadKey, setReloadKey] = useState(0);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const userId = profile?.user_id;
+  const isLandlord = profile?.role === 'landlord';
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const fetchConversations = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_my_conversations');
+        if (error) throw error;
+
+        setConversations(data || []);
+      } catch (error) {
+        toast({
+          title: 'Error loading messages',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchConversations();
+  }, [userId, reloadKey, toast]);
+
+  // New messages and read receipts both update the conversation row
+  useEffect(() => {
+    if (!userId) return;
+
+    const column = isLandlord ? 'landlord_id' : 'tenant_id';
+    const channel = supabase
+      .channel(`conversations-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'conversations', filter: `${column}=eq.${userId}` },
+        () => setReloadKey((key) => key + 1)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, isLandlord]);
+
+  // Everyone who currently rents from the landlord, to start a conversation with
+  useEffect(() => {
+    if (!userId || !isLandlord) return;
+
+    const fetchTenants = async () => {
+      const { data: tenancies } = await supabase
+        .from('tenancies')
+        .select(`
+          tenant_id,
+          units!tenancies_unit_id_fkey (
+            properties!units_property_id_fkey (
+              landlord_id
+            )
+          )
+        `)
+        .eq('units.properties.landlord_id', userId)
+        .eq('status', 'active');
+
+      const tenantIds = Array.from(new Set((tenancies || []).map((t) => t.tenant_id).filter(Boolean)));
+      if (tenantIds.length === 0) return;
+
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, full_name')
+        .in('user_id', tenantIds)
+        .order('full_name');
+
+      setTenants(profiles || []);
+    };
+
+    fetchTenants();
+  }, [userId, isLandlord]);
+
+  const startConversation = async (counterpartId?: string) => {
+    setStarting(true);
+    try {
+      const id = await openConversation({ counterpartId });
+      setSelectedId(id);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error starting conversation',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const selected = conversations.find((c) => c.id === selectedId);
+  const hasLandlordConversation = conversations.some((c) => !c.maintenance_request_id);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle>Messages</CardTitle>
+            <CardDescription>
+              {isLandlord ? 'Conversations with your tenants' : 'Conversations with your landlord'}
+            </CardDescription>
+          </div>
+          {isLandlord ? (
+            <Select value="" onValueChange={(tenantId) => startConversation(tenantId)} disabled={starting}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Message a tenant..." />
+              </SelectTrigger>
+              <SelectContent>
+                {tenants.map((tenant) => (
+                  <SelectItem key={tenant.user_id} value={tenant.user_id}>
+                    {tenant.full_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            !hasLandlordConversation && (
+              <Button size="sm" onClick={() => startConversation()} disabled={starting}>
+                <MessageCircle className="h-4 w-4 mr-2" />
+                Message Landlord
+              </Button>
+            )
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-14 bg-muted rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : conversations.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <MessageCircle className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No conversations yet</p>
+          </div>
+        ) : (
+          <div className="md:grid md:grid-cols-[18rem_1fr] md:gap-4">
+            <div className={`space-y-1 ${selected ? 'hidden md:block' : ''}`}>
+              {conversations.map((conversation) => (
+                <button
+                  key={conversation.id}
+                  type="button"
+                  onClick={() => setSelectedId(conversation.id)}
+                  className={`flex w-full items-start gap-3 rounded-lg border p-3 text-left transition-colors hover:bg-muted/50 ${
+                    conversation.id === selectedId ? 'border-primary bg-primary/5' : ''
+                  }`}
+                >
+                  {conversation.maintenance_request_id ? (
+                    <Wrench className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                  ) : (
+                    <MessageCircle className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                  )}
+                  <span className="min-w-0 flex-1 space-y-0.5">
+                    <span className="flex items-center justify-between gap-2">
+                      <span className="truncate text-sm font-medium">{conversationTitle(conversation)}</span>
+                      {conversation.unread_count > 0 && <Badge>{conversation.unread_count}</Badge>}
+                    </span>
+                    {conversation.maintenance_request_id && (
+                      <span className="block truncate text-xs text-muted-foreground">{conversation.counterpart_name}</span>
+                    )}
+                    <span className="block truncate text-xs text-muted-foreground">
+                      {conversation.last_message_at
+                        ? `${conversation.last_message_sender_id === userId ? 'You: ' : ''}${
+                            conversation.last_message_body || 'Sent an attachment'
+                          } · ${formatDistanceToNow(new Date(conversation.last_message_at), { addSuffix: true })}`
+                        : 'No messages yet'}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            {selected ? (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2 border-b pb-3">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="md:hidden"
+                    onClick={() => setSelectedId(null)}
+                    aria-label="Back to conversations"
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                  </Button>
+                  <div className="min-w-0">
+                    <p className="truncate font-medium">{conversationTitle(selected)}</p>
+                    {selected.maintenance_request_id && (
+                      <p className="truncate text-xs text-muted-foreground">{selected.counterpart_name}</p>
+                    )}
+                  </div>
+                </div>
+                <MessageThread key={selected.id} conversationId={selected.id} />
+              </div>
+            ) : (
+              <div className="hidden md:flex items-center justify-center text-sm text-muted-foreground">
+                Choose a conversation
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Messages;
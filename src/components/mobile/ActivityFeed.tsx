@@ -1,27 +1,129 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { CreditCard, MessageCircle, Wrench, FileText, Download } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { CreditCard, MessageCircle, Wrench, FileText, UserPlus } from 'lucide-react';
 import { cn } from '@/lib/utils';
-
-interface ActivityItem {
-  id: string;
-  type: 'payment' | 'message' | 'maintenance' | 'document';
-  title: string;
-  description: string;
-  date: string;
-  status?: 'completed' | 'pending' | 'overdue';
-  amount?: number;
-}
+import {
+  activityTypeLabels,
+  fetchActivity,
+  type ActivityCursor,
+  type ActivityEvent,
+  type ActivityType,
+} from '@/lib/activity';
 
 interface ActivityFeedProps {
-  activities: ActivityItem[];
   className?: string;
 }
 
-const ActivityFeed = ({ activities, className }: ActivityFeedProps) => {
-  const getIcon = (type: string) => {
+const ACTIVITY_TYPES = Object.keys(activityTypeLabels) as ActivityType[];
+
+const ActivityFeed = ({ className }: ActivityFeedProps) => {
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [typeFilter, setTypeFilter] = useState<ActivityType | 'all'>('all');
+  // The page being shown last; null for the first page
+  const [pageCursor, setPageCursor] = useState<ActivityCursor | null>(null);
+  const [nextCursor, setNextCursor] = useState<ActivityCursor | null>(null);
+  const [loading, setLoading] = useState(true);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const userId = profile?.user_id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+
+    const fetchPage = async () => {
+      setLoading(true);
+      try {
+        const page = await fetchActivity({
+          types: typeFilter === 'all' ? undefined : [typeFilter],
+          cursor: pageCursor,
+        });
+        if (cancelled) return;
+
+        setEvents((prev) => (pageCursor ? [...prev, ...page.events] : page.events));
+        setNextCursor(page.nextCursor);
+      } catch (error) {
+        if (cancelled) return;
+        toast({
+          title: 'Error loading activity',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchPage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, typeFilter, pageCursor, toast]);
+
+  // Loads the next page as the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) setPageCursor(nextCursor);
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [nextCursor]);
+
+  // New events go on top and changed ones are updated in place, so pages
+  // already scrolled through are kept
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`activity-events-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'activity_events', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const changed = payload.new as ActivityEvent;
+          if (!changed?.id) return;
+
+          setEvents((prev) =>
+            prev.some((e) => e.id === changed.id)
+              ? prev.map((e) => (e.id === changed.id ? changed : e))
+              : typeFilter === 'all' || changed.type === typeFilter
+              ? [changed, ...prev]
+              : prev
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, typeFilter]);
+
+  const changeFilter = (value: ActivityType | 'all') => {
+    if (value === typeFilter) return;
+    setEvents([]);
+    setNextCursor(null);
+    setPageCursor(null);
+    setTypeFilter(value);
+  };
+
+  const getIcon = (type: ActivityType) => {
     switch (type) {
       case 'payment':
         return CreditCard;
@@ -29,6 +131,8 @@ const ActivityFeed = ({ activities, className }: ActivityFeedProps) => {
         return MessageCircle;
       case 'maintenance':
         return Wrench;
+      case 'join_request':
+        return UserPlus;
       case 'document':
         return FileText;
       default:
@@ -36,85 +140,94 @@ const ActivityFeed = ({ activities, className }: ActivityFeedProps) => {
     }
   };
 
-  const getStatusColor = (status?: string) => {
+  const getStatusColor = (status?: string | null) => {
     switch (status) {
       case 'completed':
         return 'bg-success/10 text-success border-success/20';
       case 'pending':
         return 'bg-warning/10 text-warning border-warning/20';
-      case 'overdue':
+      case 'failed':
         return 'bg-overdue/10 text-overdue border-overdue/20';
       default:
         return 'bg-muted/50 text-muted-foreground border-border';
     }
   };
 
-  if (activities.length === 0) {
-    return (
-      <Card className={className}>
-        <CardContent className="text-center py-8">
-          <MessageCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-          <h3 className="font-medium mb-2">No recent activity</h3>
-          <p className="text-sm text-muted-foreground">
-            Your recent payments, messages, and updates will appear here.
-          </p>
-        </CardContent>
-      </Card>
-    );
-  }
-
   return (
-    <div className={cn("space-y-3", className)}>
-      {activities.map((activity) => {
-        const Icon = getIcon(activity.type);
-        
-        return (
-          <Card key={activity.id} className="border-l-4 border-l-primary/20">
-            <CardContent className="p-4">
-              <div className="flex items-start space-x-3">
-                <div className="bg-primary/10 p-2 rounded-lg flex-shrink-0">
-                  <Icon className="h-4 w-4 text-primary" />
-                </div>
-                
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center justify-between mb-1">
-                    <h4 className="font-medium text-sm">{activity.title}</h4>
-                    {activity.status && (
-                      <Badge variant="outline" className={getStatusColor(activity.status)}>
-                        {activity.status}
-                      </Badge>
-                    )}
+    <div className={cn('space-y-3', className)}>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {(['all', ...ACTIVITY_TYPES] as const).map((type) => (
+          <Button
+            key={type}
+            variant={typeFilter === type ? 'default' : 'outline'}
+            size="sm"
+            className="shrink-0 rounded-full"
+            onClick={() => changeFilter(type)}
+          >
+            {type === 'all' ? 'All' : activityTypeLabels[type]}
+          </Button>
+        ))}
+      </div>
+
+      {!loading && events.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <MessageCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="font-medium mb-2">No recent activity</h3>
+            <p className="text-sm text-muted-foreground">
+              Your recent payments, messages, and updates will appear here.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        events.map((activity) => {
+          const Icon = getIcon(activity.type);
+
+          return (
+            <Card key={activity.id} className="border-l-4 border-l-primary/20">
+              <CardContent className="p-4">
+                <div className="flex items-start space-x-3">
+                  <div className="bg-primary/10 p-2 rounded-lg flex-shrink-0">
+                    <Icon className="h-4 w-4 text-primary" />
                   </div>
-                  
-                  <p className="text-sm text-muted-foreground mb-2">
-                    {activity.description}
-                  </p>
-                  
-                  <div className="flex items-center justify-between">
-                    <span className="text-xs text-muted-foreground">
-                      {new Date(activity.date).toLocaleDateString()}
-                    </span>
-                    
-                    {activity.amount && (
-                      <span className="font-medium text-sm">
-                        ${activity.amount.toLocaleString()}
-                      </span>
-                    )}
-                    
-                    {activity.type === 'document' && (
-                      <Button variant="ghost" size="sm" className="h-8 px-2">
-                        <Download className="h-3 w-3" />
-                      </Button>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between mb-1">
+                      <h4 className="font-medium text-sm">{activity.title}</h4>
+                      {activity.status && (
+                        <Badge variant="outline" className={getStatusColor(activity.status)}>
+                          {activity.status}
+                        </Badge>
+                      )}
+                    </div>
+
+                    {activity.description && (
+                      <p className="text-sm text-muted-foreground mb-2">{activity.description}</p>
                     )}
+
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(activity.occurred_at).toLocaleDateString()}
+                      </span>
+
+                      {activity.amount !== null && (
+                        <span className="font-medium text-sm">${Number(activity.amount).toLocaleString()}</span>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
-        );
-      })}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      {loading &&
+        [1, 2, 3].map((i) => <div key={i} className="h-20 bg-muted rounded-lg animate-pulse"></div>)}
+
+      <div ref={sentinelRef} />
     </div>
   );
 };
 
-export default ActivityFeed;
\ No newline at end of file
+export default ActivityFeed;
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Home, CreditCard, Wrench, User } from 'lucide-react';
+import { Home, CreditCard, Wrench, MessageCircle, User } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface BottomNavigationProps {
@@ -13,6 +13,7 @@ const BottomNavigation = ({ activeTab, onTabChange, notificationCount = 0 }: Bot
     { id: 'home', label: 'Home', icon: Home },
     { id: 'payments', label: 'Payments', icon: CreditCard },
     { id: 'maintenance', label: 'Maintenance', icon: Wrench },
+    { id: 'messages', label: 'Messages', icon: MessageCircle },
     { id: 'profile', label: 'Profile', icon: User },
   ];
 
@@ -35,6 +36,11 @@ const BottomNavigation = ({ activeTab, onTabChange, notificationCount = 0 }: Bot
               )}
             >
               <Icon className="h-5 w-5 mb-1" />
+              {tab.id === 'messages' && notificationCount > 0 && (
+                <span className="absolute top-0 right-1 min-w-[1rem] h-4 rounded-full bg-destructive px-1 text-[10px] font-semibold leading-4 text-destructive-foreground">
+                  {notificationCount > 99 ? '99+' : notificationCount}
+                </span>
+              )}
               <span className="text-xs font-medium">{tab.label}</span>
             </button>
           );
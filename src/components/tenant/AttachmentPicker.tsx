@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Camera, Film, X } from 'lucide-react';
+import {
+  IMAGE_TYPES,
+  MAX_ATTACHMENTS_PER_UPLOAD,
+  VIDEO_TYPES,
+  formatFileSize,
+  isImage,
+  validateAttachment,
+} from '@/lib/maintenanceAttachments';
+
+interface AttachmentPickerProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+  label?: string;
+}
+
+// Photos and videos picked for upload, with previews. Files that fail the
+// type or size checks are left out and listed with the reason.
+const AttachmentPicker: React.FC<AttachmentPickerProps> = ({ files, onChange, disabled, label = 'Add Photos or Videos' }) => {
+  const [previews, setPreviews] = useState<string[]>([]);
+  const [rejected, setRejected] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const urls = files.map((file) => (isImage(file.type) ? URL.createObjectURL(file) : ''));
+    setPreviews(urls);
+    return () => urls.forEach((url) => url && URL.revokeObjectURL(url));
+  }, [files]);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    const errors = selected.map(validateAttachment).filter((error): error is string => !!error);
+    const valid = selected.filter((file) => !validateAttachment(file));
+    const room = MAX_ATTACHMENTS_PER_UPLOAD - files.length;
+
+    if (valid.length > room) {
+      errors.push(`Only ${MAX_ATTACHMENTS_PER_UPLOAD} files can be added at a time`);
+    }
+
+    setRejected(errors);
+    onChange([...files, ...valid.slice(0, Math.max(room, 0))]);
+    // Lets the same file be picked again after removing it
+    e.target.value = '';
+  };
+
+  const remove = (index: number) => {
+    onChange(files.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept={[...IMAGE_TYPES, ...VIDEO_TYPES].join(',')}
+        multiple
+        className="hidden"
+        onChange={handleSelect}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || files.length >= MAX_ATTACHMENTS_PER_UPLOAD}
+        className="flex items-center gap-2"
+      >
+        <Camera className="h-4 w-4" />
+        {label}
+      </Button>
+
+      {files.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {files.map((file, index) => (
+            <div key={`${file.name}-${index}`} className="relative rounded-md border overflow-hidden bg-muted">
+              {previews[index] ? (
+                <img src={previews[index]} alt={file.name} className="h-20 w-full object-cover" />
+              ) : (
+                <div className="h-20 flex flex-col items-center justify-center gap-1 text-xs text-muted-foreground">
+                  <Film className="h-5 w-5" />
+                  {formatFileSize(file.size)}
+                </div>
+              )}
+              <button
+                type="button"
+                onClick={() => remove(index)}
+                disabled={disabled}
+                className="absolute top-1 right-1 rounded-full bg-background/80 p-0.5 hover:bg-background"
+                aria-label={`Remove ${file.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {rejected.map((error) => (
+        <p key={error} className="text-xs text-destructive">{error}</p>
+      ))}
+    </div>
+  );
+};
+
+export default AttachmentPicker;
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Download, Shield } from 'lucide-react';
+import { depositDeductionTypeLabels, type DepositRefund, type DepositSettlement } from '@/lib/deposits';
+import { downloadSettlementStatement } from '@/lib/tenantDocuments';
+
+interface DepositCardProps {
+  tenancyId: string;
+  depositAmount: number;
+  // Completed deposit payments
+  paid: number;
+  settlement: DepositSettlement | null;
+  onRefundRetried: () => void;
+  // Omitted once the tenancy has ended
+  onPay?: () => void;
+}
+
+const refundStatusLabels: Record<DepositRefund['status'], string> = {
+  pending: 'Sending',
+  processing: 'Sending',
+  completed: 'Sent',
+  failed: 'Failed',
+};
+
+const DepositCard: React.FC<DepositCardProps> = ({
+  tenancyId,
+  depositAmount,
+  paid,
+  settlement,
+  onRefundRetried,
+  onPay,
+}) => {
+  const [downloading, setDownloading] = useState(false);
+  const [retryPhone, setRetryPhone] = useState('');
+  const [retrying, setRetrying] = useState(false);
+  const { toast } = useToast();
+  const outstanding = Math.max(0, depositAmount - paid);
+  const refund = settlement?.payouts ?? null;
+
+  const handleRetryRefund = async () => {
+    if (!refund) return;
+
+    setRetrying(true);
+    try {
+      const { error } = await supabase.rpc('retry_deposit_refund', {
+        _payout_id: refund.id,
+        _phone_number: retryPhone.trim() || undefined,
+      });
+      if (error) throw error;
+
+      toast({
+        title: 'Refund requested again',
+        description: `Your refund will be sent to ${retryPhone.trim() || refund.phone_number}.`,
+      });
+      setRetryPhone('');
+      onRefundRetried();
+    } catch (error) {
+      toast({
+        title: 'Error retrying refund',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await downloadSettlementStatement(tenancyId);
+    } catch (error) {
+      toast({
+        title: 'Error downloading statement',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="h-5 w-5 text-green-600" />
+          Security Deposit
+        </CardTitle>
+        <CardDescription>
+          {settlement
+            ? `Settled when you moved out on ${new Date(settlement.move_out_date).toLocaleDateString()}`
+            : 'Held until you move out, then settled against any unpaid rent or damages'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {settlement ? (
+          <>
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>Deposit held</span>
+                <span className="font-medium">${Number(settlement.deposit_held).toLocaleString()}</span>
+              </div>
+              {(settlement.deposit_deductions || []).map((deduction, index) => (
+                <div key={index} className="flex justify-between text-muted-foreground">
+                  <span>
+                    {depositDeductionTypeLabels[deduction.deduction_type]}: {deduction.description}
+                  </span>
+                  <span>-${Number(deduction.amount).toLocaleString()}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-semibold border-t pt-1">
+                <span>Refunded to you</span>
+                <span>${Number(settlement.refund_amount).toLocaleString()}</span>
+              </div>
+              {refund && (
+                <div className="flex justify-between text-muted-foreground">
+                  <span>To MTN MoMo {refund.phone_number}</span>
+                  <Badge
+                    variant="outline"
+                    className={
+                      refund.status === 'completed'
+                        ? 'bg-green-100 text-green-700 border-green-200'
+                        : refund.status === 'failed'
+                        ? 'bg-red-100 text-red-700 border-red-200'
+                        : undefined
+                    }
+                  >
+                    {refundStatusLabels[refund.status]}
+                  </Badge>
+                </div>
+              )}
+            </div>
+            {refund?.status === 'failed' && (
+              <div className="space-y-2">
+                <p className="text-sm text-destructive">
+                  Your refund could not be sent{refund.failure_reason ? `: ${refund.failure_reason}` : ''}
+                </p>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder={refund.phone_number}
+                    value={retryPhone}
+                    onChange={(e) => setRetryPhone(e.target.value)}
+                  />
+                  <Button size="sm" onClick={handleRetryRefund} disabled={retrying}>
+                    {retrying ? 'Sending...' : 'Send Again'}
+                  </Button>
+                </div>
+              </div>
+            )}
+            <Button variant="outline" size="sm" onClick={handleDownload} disabled={downloading}>
+              <Download className="h-4 w-4 mr-2" />
+              {downloading ? 'Preparing...' : 'Settlement Statement'}
+            </Button>
+          </>
+        ) : (
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-2xl font-bold">${paid.toLocaleString()}</div>
+              <p className="text-sm text-muted-foreground">paid of ${depositAmount.toLocaleString()}</p>
+            </div>
+            {outstanding > 0 && onPay ? (
+              <Button onClick={onPay}>Pay ${outstanding.toLocaleString()}</Button>
+            ) : (
+              outstanding === 0 && <Badge className="bg-green-100 text-green-700 border-green-200">Paid in full</Badge>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DepositCard;
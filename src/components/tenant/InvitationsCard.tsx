@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Mail } from 'lucide-react';
+import { invitationState, type MyInvitation } from '@/lib/invitations';
+
+interface InvitationsCardProps {
+  invitations: MyInvitation[];
+  // From the invite link the tenant opened, if any
+  inviteToken: string | null;
+  onAccepted: () => void;
+}
+
+// Invitations sent to this tenant's verified email or phone, for accounts that
+// already existed when the landlord invited them. Only the one whose invite
+// link was opened can be accepted. A phone-only invitation is accepted on its
+// link alone, so it is shown when opened even if the phone is not verified.
+const InvitationsCard: React.FC<InvitationsCardProps> = ({ invitations, inviteToken, onAccepted }) => {
+  const [acceptingId, setAcceptingId] = useState<string | null>(null);
+  const [linkedInvitation, setLinkedInvitation] = useState<MyInvitation | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setLinkedInvitation(null);
+    if (!inviteToken) return;
+
+    const fetchLinkedInvitation = async () => {
+      const { data } = await supabase.rpc('get_invitation', { _token: inviteToken });
+      const invitation = data?.[0];
+      if (!invitation) return;
+
+      const { token: _token, ...preview } = invitation;
+      setLinkedInvitation(preview as MyInvitation);
+    };
+
+    fetchLinkedInvitation();
+  }, [inviteToken]);
+
+  const linkedInvitationId = linkedInvitation?.id ?? null;
+  const shown =
+    linkedInvitation &&
+    !linkedInvitation.email &&
+    invitationState(linkedInvitation) === 'pending' &&
+    !invitations.some((invitation) => invitation.id === linkedInvitation.id)
+      ? [linkedInvitation, ...invitations]
+      : invitations;
+
+  const accept = async (invitation: MyInvitation) => {
+    if (!inviteToken || invitation.id !== linkedInvitationId) return;
+
+    setAcceptingId(invitation.id);
+    try {
+      const { error } = await supabase.rpc('accept_invitation', { _token: inviteToken });
+      if (error) throw error;
+
+      toast({
+        title: 'Invitation accepted',
+        description: `Your tenancy at ${invitation.property_name} starts once you and your landlord sign the lease.`,
+      });
+      onAccepted();
+    } catch (error) {
+      toast({
+        title: 'Error accepting invitation',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setAcceptingId(null);
+    }
+  };
+
+  return (
+    <>
+      {shown.map((invitation) => (
+        <Card key={invitation.id} className="border-green-200 bg-gradient-to-r from-green-50 to-emerald-100/30 shadow-lg">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-green-100 rounded-full">
+                  <Mail className="h-5 w-5 text-green-600" />
+                </div>
+                <div>
+                  <p className="font-semibold text-green-700">Invitation to {invitation.property_name}</p>
+                  <p className="text-sm text-green-600/80">
+                    {invitation.landlord_name || 'A landlord'} invited you to rent Unit {invitation.unit_number} at $
+                    {Number(invitation.rent_amount).toLocaleString()} from{' '}
+                    {new Date(invitation.start_date).toLocaleDateString()}
+                  </p>
+                </div>
+              </div>
+              {invitation.id === linkedInvitationId ? (
+                <Button size="sm" onClick={() => accept(invitation)} disabled={acceptingId === invitation.id}>
+                  {acceptingId === invitation.id ? 'Accepting...' : 'Accept'}
+                </Button>
+              ) : (
+                <p className="text-xs text-green-600/80 max-w-[10rem] text-right">
+                  Open the invite link your landlord sent you to accept
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </>
+  );
+};
+
+export default InvitationsCard;
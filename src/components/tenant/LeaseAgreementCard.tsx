@@ -1,8 +1,21 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { FileText, Calendar, DollarSign, MapPin, Download, Eye } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { FileText, Calendar, DollarSign, MapPin, Download, Eye, PenLine } from 'lucide-react';
+import LeaseSigningDialog from '@/components/tenant/LeaseSigningDialog';
+import LeaseSignatureAudit from '@/components/tenant/LeaseSignatureAudit';
+import {
+  downloadLeaseDocument,
+  leaseSigningStatus,
+  leaseSigningStatusLabels,
+  viewLeaseDocument,
+  type LeaseDocument,
+} from '@/lib/leaseDocuments';
+import type { LeaseRenewal } from '@/lib/renewals';
 
 interface LeaseAgreementCardProps {
   tenancy: {
@@ -10,6 +23,7 @@ interface LeaseAgreementCardProps {
     start_date: string;
     end_date?: string;
     rent_amount: number;
+    deposit_amount?: number;
     status: string;
     units: {
       id: string;
@@ -24,9 +38,28 @@ interface LeaseAgreementCardProps {
       };
     };
   };
+  // The version currently in force, if the landlord has generated one
+  leaseDocument: LeaseDocument | null;
+  // Called once the tenant has signed, to reload the lease
+  onSigned: () => void;
+  // The landlord's renewal offer for the end of this lease, if any
+  renewal?: LeaseRenewal | null;
+  onRenewalResponded?: () => void;
 }
 
-const LeaseAgreementCard: React.FC<LeaseAgreementCardProps> = ({ tenancy }) => {
+const LeaseAgreementCard: React.FC<LeaseAgreementCardProps> = ({
+  tenancy,
+  leaseDocument,
+  onSigned,
+  renewal,
+  onRenewalResponded,
+}) => {
+  const [opening, setOpening] = useState<'view' | 'download' | null>(null);
+  const [signing, setSigning] = useState(false);
+  const [responding, setResponding] = useState<'accept' | 'decline' | null>(null);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const signingStatus = leaseDocument ? leaseSigningStatus(leaseDocument) : null;
   const startDate = new Date(tenancy.start_date);
   const endDate = tenancy.end_date ? new Date(tenancy.end_date) : null;
   const currentDate = new Date();
@@ -50,6 +83,53 @@ const LeaseAgreementCard: React.FC<LeaseAgreementCardProps> = ({ tenancy }) => {
   const duration = calculateDuration();
   const daysRemaining = calculateDaysRemaining();
 
+  const handleOpen = async (action: 'view' | 'download') => {
+    if (!leaseDocument) return;
+
+    setOpening(action);
+    try {
+      if (action === 'view') await viewLeaseDocument(leaseDocument);
+      else await downloadLeaseDocument(leaseDocument);
+    } catch (error) {
+      toast({
+        title: 'Error opening lease',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setOpening(null);
+    }
+  };
+
+  const respondToRenewal = async (accept: boolean) => {
+    if (!renewal) return;
+
+    setResponding(accept ? 'accept' : 'decline');
+    try {
+      const { error } = await supabase.rpc('respond_to_renewal', {
+        _renewal_id: renewal.id,
+        _accept: accept,
+      });
+      if (error) throw error;
+
+      toast({
+        title: accept ? 'Renewal accepted' : 'Renewal declined',
+        description: accept
+          ? 'Your landlord will send the renewed lease for you to sign.'
+          : `Your tenancy ends on ${endDate?.toLocaleDateString()}.`,
+      });
+      onRenewalResponded?.();
+    } catch (error) {
+      toast({
+        title: 'Error responding to renewal',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setResponding(null);
+    }
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -64,7 +144,11 @@ const LeaseAgreementCard: React.FC<LeaseAgreementCardProps> = ({ tenancy }) => {
             </CardDescription>
           </div>
           <Badge variant={tenancy.status === 'active' ? 'default' : 'secondary'}>
-            {tenancy.status}
+            {tenancy.status === 'pending_signature'
+              ? 'awaiting signature'
+              : tenancy.status === 'pending_start'
+              ? 'upcoming'
+              : tenancy.status}
           </Badge>
         </div>
       </CardHeader>
@@ -129,6 +213,12 @@ const LeaseAgreementCard: React.FC<LeaseAgreementCardProps> = ({ tenancy }) => {
               <span className="text-muted-foreground">Duration</span>
               <p className="font-medium">{duration}</p>
             </div>
+            {Number(tenancy.deposit_amount) > 0 && (
+              <div>
+                <span className="text-muted-foreground">Security Deposit</span>
+                <p className="font-medium">${Number(tenancy.deposit_amount).toLocaleString()}</p>
+              </div>
+            )}
             {endDate && (
               <>
                 <div>
@@ -146,8 +236,46 @@ const LeaseAgreementCard: React.FC<LeaseAgreementCardProps> = ({ tenancy }) => {
           </div>
         </div>
 
-        {/* Renewal Notice */}
-        {daysRemaining && daysRemaining < 90 && daysRemaining > 0 && (
+        {/* Renewal offer, or a notice while there is none */}
+        {renewal?.status === 'offered' ? (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 space-y-3">
+            <div className="text-sm">
+              <p className="font-medium text-blue-900">Renewal Offer</p>
+              <p className="text-blue-700">
+                Your landlord offers to renew at ${Number(renewal.rent_amount).toLocaleString()} from{' '}
+                {new Date(renewal.start_date).toLocaleDateString()}
+                {renewal.end_date ? ` to ${new Date(renewal.end_date).toLocaleDateString()}` : ' with no fixed end date'}
+                {Number(renewal.rent_amount) !== Number(tenancy.rent_amount) &&
+                  ` (currently $${Number(tenancy.rent_amount).toLocaleString()})`}
+                .
+              </p>
+              {renewal.message && <p className="text-blue-700 mt-1 italic">"{renewal.message}"</p>}
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => respondToRenewal(true)} disabled={responding !== null}>
+                {responding === 'accept' ? 'Accepting...' : 'Accept Renewal'}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => respondToRenewal(false)} disabled={responding !== null}>
+                {responding === 'decline' ? 'Declining...' : 'Decline'}
+              </Button>
+            </div>
+          </div>
+        ) : renewal?.status === 'accepted' ? (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm">
+            <p className="font-medium text-green-900">Lease Renewed</p>
+            <p className="text-green-700">
+              Your renewed lease starts {new Date(renewal.start_date).toLocaleDateString()}. Sign it once your landlord
+              sends it.
+            </p>
+          </div>
+        ) : renewal?.status === 'declined' ? (
+          <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 text-sm">
+            <p className="font-medium text-orange-900">Moving Out</p>
+            <p className="text-orange-700">
+              You declined to renew. Your tenancy ends on {endDate?.toLocaleDateString()}.
+            </p>
+          </div>
+        ) : daysRemaining && daysRemaining < 90 && daysRemaining > 0 && (
           <div className="bg-orange-50 dark:bg-orange-950/30 border border-orange-200 dark:border-orange-800 rounded-lg p-3">
             <div className="flex gap-2">
               <Calendar className="h-4 w-4 text-orange-600 mt-0.5 flex-shrink-0" />
@@ -161,18 +289,64 @@ const LeaseAgreementCard: React.FC<LeaseAgreementCardProps> = ({ tenancy }) => {
           </div>
         )}
 
+        {signingStatus === 'awaiting_tenant' && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 flex items-center justify-between gap-3">
+            <div className="text-sm">
+              <p className="font-medium text-blue-900">Your lease is ready to sign</p>
+              <p className="text-blue-700">Review the agreement and sign it to complete your tenancy.</p>
+            </div>
+            <Button size="sm" onClick={() => setSigning(true)} className="flex items-center gap-1">
+              <PenLine className="h-4 w-4" />
+              Sign Lease
+            </Button>
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex gap-2 pt-2">
-          <Button variant="outline" size="sm" className="flex items-center gap-1 flex-1">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-1 flex-1"
+            disabled={!leaseDocument || opening !== null}
+            onClick={() => handleOpen('view')}
+          >
             <Eye className="h-4 w-4" />
             View Agreement
           </Button>
-          <Button variant="outline" size="sm" className="flex items-center gap-1 flex-1">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-1 flex-1"
+            disabled={!leaseDocument || opening !== null}
+            onClick={() => handleOpen('download')}
+          >
             <Download className="h-4 w-4" />
-            Download PDF
+            {opening === 'download' ? 'Downloading...' : 'Download PDF'}
           </Button>
         </div>
+        <p className="text-xs text-muted-foreground">
+          {leaseDocument ? (
+            <>
+              Version {leaseDocument.version}, generated {new Date(leaseDocument.created_at).toLocaleDateString()} ·
+              SHA-256 <span className="font-mono">{leaseDocument.content_hash.slice(0, 12)}</span> ·{' '}
+              {signingStatus && leaseSigningStatusLabels[signingStatus]}
+            </>
+          ) : (
+            'Your landlord has not prepared the lease document yet.'
+          )}
+        </p>
+
+        {leaseDocument && <LeaseSignatureAudit document={leaseDocument} />}
       </CardContent>
+
+      <LeaseSigningDialog
+        document={signing ? leaseDocument : null}
+        role="tenant"
+        signerName={profile?.full_name || ''}
+        onOpenChange={setSigning}
+        onSigned={onSigned}
+      />
     </Card>
   );
 };
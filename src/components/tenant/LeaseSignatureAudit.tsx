@@ -0,0 +1,59 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck } from 'lucide-react';
+import type { LeaseDocument, LeaseSignature, SignerRole } from '@/lib/leaseDocuments';
+
+interface LeaseSignatureAuditProps {
+  document: LeaseDocument;
+}
+
+const roleLabels: Record<SignerRole, string> = {
+  tenant: 'Tenant',
+  landlord: 'Landlord',
+};
+
+// Tenant first, as they sign first
+const signingOrder = (a: LeaseSignature, b: LeaseSignature) => a.signed_at.localeCompare(b.signed_at);
+
+const LeaseSignatureAudit: React.FC<LeaseSignatureAuditProps> = ({ document }) => {
+  const signatures = [...(document.lease_signatures || [])].sort(signingOrder);
+
+  if (signatures.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium flex items-center gap-2 text-sm">
+        <ShieldCheck className="h-4 w-4 text-green-600" />
+        Signatures
+      </h4>
+      {signatures.map((signature) => (
+        <div key={signature.id} className="rounded-lg border p-3 text-xs space-y-2">
+          <div className="flex items-center justify-between">
+            <Badge variant="secondary">{roleLabels[signature.signer_role]}</Badge>
+            <span className="text-muted-foreground">{new Date(signature.signed_at).toLocaleString()}</span>
+          </div>
+          {signature.signature_image ? (
+            <img src={signature.signature_image} alt={`Signature of ${signature.signer_name}`} className="h-12" />
+          ) : (
+            <p className="font-serif italic text-xl text-slate-800">{signature.signer_name}</p>
+          )}
+          <div className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-muted-foreground">
+            <span>Signed by</span>
+            <span className="text-foreground">
+              {signature.signer_name} ({signature.signature_type === 'drawn' ? 'drawn' : 'typed'} signature)
+            </span>
+            <span>IP address</span>
+            <span className="font-mono text-foreground">{signature.ip_address || 'Not recorded'}</span>
+            <span>Document hash</span>
+            <span className="font-mono text-foreground break-all">{signature.document_hash}</span>
+            {signature.document_hash !== document.content_hash && (
+              <span className="col-span-2 text-red-600">This signature was made on a different file.</span>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LeaseSignatureAudit;
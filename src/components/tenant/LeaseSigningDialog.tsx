@@ -0,0 +1,274 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, PenLine } from 'lucide-react';
+import {
+  fetchLeaseFile,
+  sha256Hex,
+  signLeaseDocument,
+  type LeaseDocument,
+  type SignatureType,
+  type SignerRole,
+} from '@/lib/leaseDocuments';
+
+interface LeaseSigningDialogProps {
+  document: LeaseDocument | null;
+  role: SignerRole;
+  // Prefilled signer name
+  signerName: string;
+  onOpenChange: (open: boolean) => void;
+  onSigned: (activated: boolean) => void;
+}
+
+const SignaturePad: React.FC<{ onChange: (image: string | null) => void }> = ({ onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const hasInk = useRef(false);
+
+  // Pointer position in canvas pixels, as the canvas is scaled by CSS
+  const pointFor = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) * canvas.width) / rect.width,
+      y: ((e.clientY - rect.top) * canvas.height) / rect.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = pointFor(e);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!drawing.current || !context) return;
+
+    const { x, y } = pointFor(e);
+    context.lineWidth = 2.5;
+    context.lineCap = 'round';
+    context.strokeStyle = '#1e293b';
+    context.lineTo(x, y);
+    context.stroke();
+    hasInk.current = true;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    if (hasInk.current) onChange(e.currentTarget.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    hasInk.current = false;
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={600}
+        height={180}
+        className="w-full h-36 border rounded-lg bg-white touch-none cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      <Button type="button" variant="ghost" size="sm" onClick={handleClear}>
+        Clear
+      </Button>
+    </div>
+  );
+};
+
+const LeaseSigningDialog: React.FC<LeaseSigningDialogProps> = ({
+  document,
+  role,
+  signerName,
+  onOpenChange,
+  onSigned,
+}) => {
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [documentHash, setDocumentHash] = useState<string | null>(null);
+  const [signatureType, setSignatureType] = useState<SignatureType>('typed');
+  const [name, setName] = useState(signerName);
+  const [image, setImage] = useState<string | null>(null);
+  const [agreed, setAgreed] = useState(false);
+  const [signing, setSigning] = useState(false);
+  const { toast } = useToast();
+
+  // The signer reviews the stored file itself, and its hash is what they sign
+  useEffect(() => {
+    if (!document) return;
+
+    let cancelled = false;
+    let url: string | null = null;
+
+    setFileUrl(null);
+    setDocumentHash(null);
+    setSignatureType('typed');
+    setName(signerName);
+    setImage(null);
+    setAgreed(false);
+
+    const loadFile = async () => {
+      try {
+        const file = await fetchLeaseFile(document);
+        const hash = await sha256Hex(file);
+        if (cancelled) return;
+
+        url = URL.createObjectURL(new Blob([file], { type: 'application/pdf' }));
+        setFileUrl(url);
+        setDocumentHash(hash);
+      } catch (error) {
+        toast({
+          title: 'Error loading lease',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      }
+    };
+
+    loadFile();
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [document, signerName, toast]);
+
+  const hashMatches = !!document && documentHash === document.content_hash;
+  const signatureReady = name.trim() !== '' && (signatureType === 'typed' || !!image);
+
+  const handleSign = async () => {
+    if (!document || !documentHash) return;
+
+    setSigning(true);
+    try {
+      const { activated } = await signLeaseDocument({
+        documentId: document.id,
+        signatureType,
+        signerName: name.trim(),
+        signatureImage: signatureType === 'drawn' ? image : null,
+        documentHash,
+      });
+
+      toast({
+        title: role === 'tenant' ? 'Lease signed' : 'Lease countersigned',
+        description:
+          role === 'tenant'
+            ? 'Your landlord will countersign to complete the lease.'
+            : activated
+              ? 'Both parties have signed. The tenancy is now active.'
+              : 'Both parties have signed the lease.',
+      });
+      onSigned(activated);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error signing lease',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!document} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PenLine className="h-5 w-5" />
+            {role === 'tenant' ? 'Review and Sign Lease' : 'Countersign Lease'}
+          </DialogTitle>
+          <DialogDescription>
+            Lease version {document?.version}. Read the whole agreement before signing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {fileUrl ? (
+            <iframe src={fileUrl} title="Lease agreement" className="w-full h-96 border rounded-lg" />
+          ) : (
+            <div className="w-full h-96 border rounded-lg bg-muted animate-pulse"></div>
+          )}
+
+          {documentHash && (
+            <p className="text-xs text-muted-foreground">
+              Document fingerprint (SHA-256): <span className="font-mono break-all">{documentHash}</span>
+            </p>
+          )}
+          {documentHash && !hashMatches && (
+            <div className="flex gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              This file does not match the lease on record, so it cannot be signed. Contact your landlord.
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="signer-name">Full Legal Name</Label>
+            <Input id="signer-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          <Tabs
+            value={signatureType}
+            onValueChange={(value) => {
+              // The pad is cleared when its tab is hidden
+              setSignatureType(value as SignatureType);
+              setImage(null);
+            }}
+          >
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="typed">Type Signature</TabsTrigger>
+              <TabsTrigger value="drawn">Draw Signature</TabsTrigger>
+            </TabsList>
+            <TabsContent value="typed">
+              <div className="h-24 border rounded-lg bg-white flex items-center px-6 font-serif italic text-3xl text-slate-800">
+                {name.trim() || 'Your name'}
+              </div>
+            </TabsContent>
+            <TabsContent value="drawn">
+              <SignaturePad onChange={setImage} />
+            </TabsContent>
+          </Tabs>
+
+          <div className="flex items-start gap-2">
+            <Checkbox id="lease-consent" checked={agreed} onCheckedChange={(checked) => setAgreed(checked === true)} />
+            <Label htmlFor="lease-consent" className="text-sm font-normal leading-snug">
+              I have read this lease and agree to sign it electronically. I understand my electronic signature is
+              legally binding, and that the time, my IP address and the document fingerprint are recorded.
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSign} disabled={signing || !hashMatches || !signatureReady || !agreed}>
+            {signing ? 'Signing...' : role === 'tenant' ? 'Sign Lease' : 'Countersign'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LeaseSigningDialog;
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Trash2 } from 'lucide-react';
+import {
+  attachmentUrls,
+  isVideo,
+  removeMaintenanceAttachment,
+  type MaintenanceAttachment,
+  type MaintenanceAttachmentKind,
+} from '@/lib/maintenanceAttachments';
+
+interface MaintenanceGalleryProps {
+  attachments: MaintenanceAttachment[];
+  // Uploaders may remove their own files while the request is open
+  currentUserId?: string | null;
+  canRemove?: boolean;
+  onRemoved?: () => void;
+}
+
+const kindLabels: Record<MaintenanceAttachmentKind, string> = {
+  report: 'Reported',
+  resolution: 'After',
+};
+
+const MaintenanceGallery: React.FC<MaintenanceGalleryProps> = ({ attachments, currentUserId, canRemove, onRemoved }) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Signed URLs are fetched again only when the set of files changes
+  const pathsKey = attachments.map((a) => a.storage_path).join(',');
+
+  useEffect(() => {
+    if (!pathsKey) {
+      setUrls({});
+      return;
+    }
+
+    const paths = pathsKey.split(',');
+    attachmentUrls(paths.map((storage_path) => ({ storage_path }) as MaintenanceAttachment))
+      .then(setUrls)
+      .catch((error: Error) =>
+        toast({
+          title: 'Error loading attachments',
+          description: error.message,
+          variant: 'destructive',
+        })
+      );
+  }, [pathsKey, toast]);
+
+  const remove = async (attachment: MaintenanceAttachment) => {
+    setRemovingId(attachment.id);
+    try {
+      await removeMaintenanceAttachment(attachment);
+      onRemoved?.();
+    } catch (error) {
+      toast({
+        title: 'Error removing attachment',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {(Object.keys(kindLabels) as MaintenanceAttachmentKind[]).map((kind) => {
+        const group = attachments.filter((a) => a.kind === kind);
+        if (group.length === 0) return null;
+
+        return (
+          <div key={kind} className="space-y-2">
+            <h5 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+              {kindLabels[kind]} ({group.length})
+            </h5>
+            <div className="grid grid-cols-3 gap-2">
+              {group.map((attachment) => {
+                const url = urls[attachment.storage_path];
+
+                return (
+                  <div key={attachment.id} className="relative rounded-md border overflow-hidden bg-muted">
+                    {!url ? (
+                      <div className="h-24 animate-pulse" />
+                    ) : isVideo(attachment.content_type) ? (
+                      <video src={url} controls preload="metadata" className="h-24 w-full object-cover" />
+                    ) : (
+                      <a href={url} target="_blank" rel="noreferrer">
+                        <img src={url} alt={attachment.file_name} className="h-24 w-full object-cover" />
+                      </a>
+                    )}
+                    {canRemove && currentUserId === attachment.uploaded_by && (
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="secondary"
+                        onClick={() => remove(attachment)}
+                        disabled={removingId === attachment.id}
+                        className="absolute top-1 right-1 h-6 w-6"
+                        aria-label={`Remove ${attachment.file_name}`}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MaintenanceGallery;
@@ -5,13 +5,22 @@ import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { Wrench, Clock, CheckCircle, XCircle, AlertTriangle, Plus } from 'lucide-react';
+import { Wrench, Clock, CheckCircle, CalendarClock, AlertTriangle, Plus, User, ChevronDown, ChevronUp, Paperclip } from 'lucide-react';
+import MaintenanceTimeline from '@/components/tenant/MaintenanceTimeline';
+import MaintenanceGallery from '@/components/tenant/MaintenanceGallery';
+import MaintenanceMessages from '@/components/messaging/MaintenanceMessages';
+import {
+  maintenanceCategoryLabels,
+  maintenancePriorityColors,
+  maintenancePriorityLabels,
+  maintenanceStatusLabels,
+  type MaintenanceRequest as MaintenanceRequestRow,
+  type MaintenanceRequestEvent,
+  type MaintenanceStatus,
+} from '@/lib/maintenance';
+import type { MaintenanceAttachment } from '@/lib/maintenanceAttachments';
 
-interface MaintenanceRequest {
-  id: string;
-  description: string;
-  status: string;
-  created_at: string;
+interface MaintenanceRequest extends MaintenanceRequestRow {
   units: {
     unit_number: string;
     properties: {
@@ -26,6 +35,10 @@ interface MaintenanceRequestsProps {
 
 const MaintenanceRequests: React.FC<MaintenanceRequestsProps> = ({ onCreateRequest }) => {
   const [requests, setRequests] = useState<MaintenanceRequest[]>([]);
+  const [events, setEvents] = useState<MaintenanceRequestEvent[]>([]);
+  const [attachments, setAttachments] = useState<MaintenanceAttachment[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const { profile } = useAuth();
   const { toast } = useToast();
@@ -49,7 +62,20 @@ const MaintenanceRequests: React.FC<MaintenanceRequestsProps> = ({ onCreateReque
         .order('created_at', { ascending: false });
 
       if (error) throw error;
+
+      const requestIds = (data || []).map(r => r.id);
+      const [{ data: eventsData, error: eventsError }, { data: attachmentsData, error: attachmentsError }] =
+        await Promise.all([
+          supabase.from('maintenance_request_events').select('*').in('request_id', requestIds),
+          supabase.from('maintenance_attachments').select('*').in('request_id', requestIds).order('created_at'),
+        ]);
+
+      if (eventsError) throw eventsError;
+      if (attachmentsError) throw attachmentsError;
+
       setRequests(data || []);
+      setEvents(eventsData || []);
+      setAttachments(attachmentsData || []);
     } catch (error: any) {
       toast({
         title: 'Error loading maintenance requests',
@@ -65,33 +91,57 @@ const MaintenanceRequests: React.FC<MaintenanceRequestsProps> = ({ onCreateReque
     fetchMaintenanceRequests();
   }, [profile?.user_id]);
 
-  const getStatusIcon = (status: string) => {
+  // Confirms a fix (closed) or reports the problem is still there (in_progress)
+  const respondToResolution = async (request: MaintenanceRequest, status: MaintenanceStatus) => {
+    setUpdatingId(request.id);
+    try {
+      const { error } = await supabase.rpc('update_maintenance_request', {
+        _request_id: request.id,
+        _status: status,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: status === 'closed' ? 'Request closed' : 'Request reopened',
+        description: status === 'closed'
+          ? 'Thanks for confirming the issue is fixed.'
+          : 'Your landlord has been told the issue is not fixed yet.',
+      });
+      fetchMaintenanceRequests();
+    } catch (error) {
+      toast({
+        title: 'Error updating request',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const getStatusIcon = (status: MaintenanceStatus) => {
     switch (status) {
-      case 'pending':
+      case 'submitted':
         return <Clock className="h-4 w-4" />;
+      case 'acknowledged':
+        return <AlertTriangle className="h-4 w-4" />;
+      case 'scheduled':
+        return <CalendarClock className="h-4 w-4" />;
       case 'in_progress':
         return <Wrench className="h-4 w-4" />;
-      case 'completed':
-        return <CheckCircle className="h-4 w-4" />;
-      case 'cancelled':
-        return <XCircle className="h-4 w-4" />;
       default:
-        return <AlertTriangle className="h-4 w-4" />;
+        return <CheckCircle className="h-4 w-4" />;
     }
   };
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: MaintenanceStatus) => {
     switch (status) {
-      case 'pending':
+      case 'submitted':
+      case 'closed':
         return 'secondary';
-      case 'in_progress':
-        return 'default';
-      case 'completed':
-        return 'default';
-      case 'cancelled':
-        return 'destructive';
       default:
-        return 'secondary';
+        return 'default';
     }
   };
 
@@ -129,7 +179,7 @@ const MaintenanceRequests: React.FC<MaintenanceRequestsProps> = ({ onCreateReque
           </Button>
         </div>
       </CardHeader>
-      
+
       <CardContent>
         {requests.length === 0 ? (
           <div className="text-center py-8">
@@ -145,35 +195,116 @@ const MaintenanceRequests: React.FC<MaintenanceRequestsProps> = ({ onCreateReque
           </div>
         ) : (
           <div className="space-y-4">
-            {requests.map((request) => (
-              <div
-                key={request.id}
-                className="border rounded-lg p-4 hover:bg-muted/50 transition-colors"
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-2">
-                      <h4 className="font-medium">
-                        {request.units.properties.name} - Unit {request.units.unit_number}
-                      </h4>
-                      <Badge variant={getStatusColor(request.status)} className="flex items-center gap-1">
-                        {getStatusIcon(request.status)}
-                        <span className="capitalize">{request.status.replace('_', ' ')}</span>
-                      </Badge>
-                    </div>
-                    
-                    <p className="text-sm text-muted-foreground mb-2 line-clamp-2">
-                      {request.description}
-                    </p>
-                    
-                    <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                      <span>Submitted: {new Date(request.created_at).toLocaleDateString()}</span>
-                      <span>#{request.id.slice(0, 8)}</span>
+            {requests.map((request) => {
+              const expanded = expandedId === request.id;
+              const requestAttachments = attachments.filter(a => a.request_id === request.id);
+
+              return (
+                <div
+                  key={request.id}
+                  className="border rounded-lg p-4 hover:bg-muted/50 transition-colors"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex-1">
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
+                        <h4 className="font-medium">{request.title}</h4>
+                        <Badge variant={getStatusColor(request.status)} className="flex items-center gap-1">
+                          {getStatusIcon(request.status)}
+                          <span>{maintenanceStatusLabels[request.status]}</span>
+                        </Badge>
+                        <Badge variant="outline" className={maintenancePriorityColors[request.priority]}>
+                          {maintenancePriorityLabels[request.priority]}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground mb-2">
+                        {maintenanceCategoryLabels[request.category]} · {request.units.properties.name} - Unit{' '}
+                        {request.units.unit_number}
+                      </p>
+
+                      <p className={`text-sm text-muted-foreground mb-2 ${expanded ? 'whitespace-pre-line' : 'line-clamp-2'}`}>
+                        {request.description}
+                      </p>
+
+                      {(request.assignee || request.scheduled_for) && (
+                        <div className="flex flex-wrap items-center gap-4 text-sm mb-2">
+                          {request.assignee && (
+                            <span className="flex items-center gap-1">
+                              <User className="h-3 w-3" />
+                              {request.assignee}
+                            </span>
+                          )}
+                          {request.scheduled_for && (
+                            <span className="flex items-center gap-1">
+                              <CalendarClock className="h-3 w-3" />
+                              {new Date(request.scheduled_for).toLocaleString()}
+                            </span>
+                          )}
+                        </div>
+                      )}
+
+                      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                        <span>Submitted: {request.created_at && new Date(request.created_at).toLocaleDateString()}</span>
+                        <span>#{request.id.slice(0, 8)}</span>
+                        {requestAttachments.length > 0 && (
+                          <span className="flex items-center gap-1">
+                            <Paperclip className="h-3 w-3" />
+                            {requestAttachments.length}
+                          </span>
+                        )}
+                      </div>
                     </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setExpandedId(expanded ? null : request.id)}
+                      className="flex items-center gap-1"
+                    >
+                      Details
+                      {expanded ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                    </Button>
                   </div>
+
+                  {request.status === 'resolved' && (
+                    <div className="mt-3 flex flex-wrap items-center justify-between gap-2 rounded-lg border border-green-200 bg-green-50 p-3 text-sm">
+                      <span className="text-green-800">Your landlord marked this as fixed. Is it?</span>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => respondToResolution(request, 'in_progress')}
+                          disabled={updatingId === request.id}
+                        >
+                          Still an Issue
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => respondToResolution(request, 'closed')}
+                          disabled={updatingId === request.id}
+                        >
+                          Confirm Fixed
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {expanded && (
+                    <div className="mt-4 space-y-4">
+                      <MaintenanceGallery
+                        attachments={requestAttachments}
+                        currentUserId={profile?.user_id}
+                        canRemove={request.status !== 'closed'}
+                        onRemoved={fetchMaintenanceRequests}
+                      />
+                      <MaintenanceTimeline
+                        events={events.filter(e => e.request_id === request.id)}
+                        tenantId={request.tenant_id}
+                      />
+                      <MaintenanceMessages requestId={request.id} />
+                    </div>
+                  )}
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </CardContent>
@@ -181,4 +312,4 @@ const MaintenanceRequests: React.FC<MaintenanceRequestsProps> = ({ onCreateReque
   );
 };
 
-export default MaintenanceRequests;
\ No newline at end of file
+export default MaintenanceRequests;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { describeMaintenanceEvent, type MaintenanceRequestEvent } from '@/lib/maintenance';
+
+interface MaintenanceTimelineProps {
+  events: MaintenanceRequestEvent[];
+  // Tells the tenant's own entries apart from the landlord's
+  tenantId: string | null;
+}
+
+const MaintenanceTimeline: React.FC<MaintenanceTimelineProps> = ({ events, tenantId }) => {
+  const ordered = [...events].sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? ''));
+
+  if (ordered.length === 0) return null;
+
+  return (
+    <ol className="relative border-l border-muted-foreground/20 ml-2 space-y-3">
+      {ordered.map((event) => (
+        <li key={event.id} className="ml-4">
+          <span
+            className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+              event.status ? 'bg-primary' : 'bg-muted-foreground/40'
+            }`}
+          />
+          <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+            <span className="font-medium">{describeMaintenanceEvent(event)}</span>
+            <span className="text-xs text-muted-foreground">
+              {event.actor_id ? (event.actor_id === tenantId ? 'Tenant' : 'Landlord') : 'System'}
+              {event.created_at && ` · ${new Date(event.created_at).toLocaleString()}`}
+            </span>
+          </div>
+          {event.note && <p className="text-sm text-muted-foreground whitespace-pre-line">{event.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default MaintenanceTimeline;
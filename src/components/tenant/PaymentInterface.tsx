@@ -3,11 +3,21 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { X, CreditCard, DollarSign, Calendar, Smartphone } from 'lucide-react';
+import { allocationOrder, planAllocation } from '@/lib/paymentAllocation';
+import { parseDate, type RentChargeBalance } from '@/lib/rentCharges';
+import type { PaymentType } from '@/lib/deposits';
+import { edgeFunctionError } from '@/lib/edgeFunctions';
+
+const MOMO_POLL_INTERVAL_MS = 5000;
+const MOMO_POLL_ATTEMPTS = 24;
+
+// Select value for "no particular charge"
+const OLDEST_FIRST = 'oldest';
 
 interface PaymentInterfaceProps {
   tenancy: {
@@ -20,51 +30,149 @@ interface PaymentInterfaceProps {
       };
     };
   };
+  // The tenancy's billed charges; payments are applied to the unpaid ones
+  charges: RentChargeBalance[];
+  // 'deposit' pays towards the security deposit instead of rent
+  paymentType?: PaymentType;
+  // Deposit still to pay, for deposit payments
+  depositDue?: number;
   onSuccess: () => void;
   onCancel: () => void;
 }
 
 const PaymentInterface: React.FC<PaymentInterfaceProps> = ({
   tenancy,
+  charges,
+  paymentType = 'rent',
+  depositDue = 0,
   onSuccess,
   onCancel,
 }) => {
-  const [amount, setAmount] = useState(tenancy.rent_amount.toString());
+  const isDeposit = paymentType === 'deposit';
+  // Deposits are held rather than applied to charges
+  const unpaidCharges = isDeposit ? [] : allocationOrder(charges);
+  const totalOutstanding = isDeposit
+    ? depositDue
+    : unpaidCharges.reduce((sum, charge) => sum + Number(charge.balance), 0);
+
+  const [targetChargeId, setTargetChargeId] = useState(OLDEST_FIRST);
+  const [amount, setAmount] = useState(
+    (totalOutstanding > 0 ? totalOutstanding : Number(tenancy.rent_amount)).toString()
+  );
   const [paymentMethod, setPaymentMethod] = useState<'momo' | 'card' | ''>('');
   const [phoneNumber, setPhoneNumber] = useState('');
   const [loading, setLoading] = useState(false);
   const { profile } = useAuth();
   const { toast } = useToast();
 
+  const [awaitingApproval, setAwaitingApproval] = useState(false);
+
+  const chosenChargeId = targetChargeId === OLDEST_FIRST ? null : targetChargeId;
+  const plan = planAllocation(charges, Number(amount), chosenChargeId);
+
+  const handleTargetChange = (value: string) => {
+    setTargetChargeId(value);
+    // Default to paying off the chosen charge in full
+    const charge = unpaidCharges.find(c => c.id === value);
+    setAmount((charge ? Number(charge.balance) : totalOutstanding || Number(tenancy.rent_amount)).toString());
+  };
+
+  // Poll momo-collect until the tenant approves or declines the prompt on their phone
+  const waitForMomoResult = async (paymentId: string) => {
+    for (let attempt = 0; attempt < MOMO_POLL_ATTEMPTS; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, MOMO_POLL_INTERVAL_MS));
+
+      const { data, error } = await supabase.functions.invoke('momo-collect', {
+        body: { action: 'status', payment_id: paymentId },
+      });
+
+      if (error) throw await edgeFunctionError(error);
+      if (data?.payment?.status && data.payment.status !== 'pending') {
+        return data.payment as { status: string; failure_reason?: string };
+      }
+    }
+    return null;
+  };
+
+  const handleMomoPayment = async () => {
+    const { data, error } = await supabase.functions.invoke('momo-collect', {
+      body: {
+        action: 'initiate',
+        tenancy_id: tenancy.id,
+        amount: Number(amount),
+        phone_number: phoneNumber,
+        charge_id: chosenChargeId,
+        payment_type: paymentType,
+      },
+    });
+
+    if (error) throw await edgeFunctionError(error);
+    if (data?.error) throw new Error(data.error);
+
+    setAwaitingApproval(true);
+    toast({
+      title: 'Check your phone',
+      description: 'Approve the MTN MoMo prompt to complete your payment.',
+    });
+
+    const result = await waitForMomoResult(data.payment_id);
+
+    if (!result) {
+      toast({
+        title: 'Payment still pending',
+        description: 'We will update your payment history as soon as MTN MoMo confirms it.',
+      });
+    } else if (result.status === 'completed') {
+      toast({
+        title: 'Payment successful',
+        description: `Your payment of $${Number(amount).toLocaleString()} has been received.`,
+      });
+    } else {
+      throw new Error(result.failure_reason || 'The payment was not approved.');
+    }
+  };
+
   const handlePayment = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!profile?.user_id) return;
 
-    setLoading(true);
-    try {
-      // Create payment record
-      const { error: paymentError } = await supabase
-        .from('payments')
-        .insert([
-          {
-            tenancy_id: tenancy.id,
-            amount: Number(amount),
-            payment_date: new Date().toISOString().split('T')[0],
-            status: 'pending',
-            method: paymentMethod === 'momo' ? 'MTN MoMo' : 'Credit Card',
-          },
-        ]);
-
-      if (paymentError) throw paymentError;
-
-      // TODO: Integrate with MTN MoMo API here
-      // For now, we'll simulate the payment process
-      
+    if (!(Number(amount) > 0)) {
       toast({
-        title: 'Payment initiated',
-        description: `Your payment of $${amount} has been submitted for processing.`,
+        title: 'Enter an amount',
+        description: 'The payment amount must be greater than zero.',
+        variant: 'destructive',
       });
-      
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (paymentMethod === 'momo') {
+        await handleMomoPayment();
+      } else {
+        // Card payments are recorded as pending until card processing is added
+        const { error: paymentError } = await supabase
+          .from('payments')
+          .insert([
+            {
+              tenancy_id: tenancy.id,
+              amount: Number(amount),
+              payment_date: new Date().toISOString().split('T')[0],
+              status: 'pending',
+              method: 'Credit Card',
+              applies_to_charge_id: chosenChargeId,
+              payment_type: paymentType,
+            },
+          ]);
+
+        if (paymentError) throw paymentError;
+
+        toast({
+          title: 'Payment initiated',
+          description: `Your payment of $${amount} has been submitted for processing.`,
+        });
+      }
+
       onSuccess();
     } catch (error: any) {
       toast({
@@ -73,6 +181,7 @@ const PaymentInterface: React.FC<PaymentInterfaceProps> = ({
         variant: 'destructive',
       });
     } finally {
+      setAwaitingApproval(false);
       setLoading(false);
     }
   };
@@ -84,7 +193,7 @@ const PaymentInterface: React.FC<PaymentInterfaceProps> = ({
           <div>
             <CardTitle className="flex items-center gap-2">
               <DollarSign className="h-5 w-5" />
-              Pay Rent
+              {isDeposit ? 'Pay Security Deposit' : 'Pay Rent'}
             </CardTitle>
             <CardDescription>
               {tenancy.units.properties.name} - Unit {tenancy.units.unit_number}
@@ -100,15 +209,37 @@ const PaymentInterface: React.FC<PaymentInterfaceProps> = ({
             {/* Payment Summary */}
             <div className="bg-muted/50 rounded-lg p-4 space-y-2">
               <div className="flex justify-between">
-                <span className="text-sm font-medium">Monthly Rent</span>
-                <span className="font-bold">${Number(tenancy.rent_amount).toLocaleString()}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-sm text-muted-foreground">Due Date</span>
-                <span className="text-sm">{new Date(new Date().getFullYear(), new Date().getMonth(), 1).toLocaleDateString()}</span>
+                <span className="text-sm font-medium">{isDeposit ? 'Deposit Due' : 'Outstanding Balance'}</span>
+                <span className="font-bold">${totalOutstanding.toLocaleString()}</span>
               </div>
+              {unpaidCharges.length > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Oldest Due Date</span>
+                  <span className="text-sm">{parseDate(unpaidCharges[0].due_date).toLocaleDateString()}</span>
+                </div>
+              )}
             </div>
 
+            {/* Allocation target */}
+            {unpaidCharges.length > 1 && (
+              <div className="space-y-2">
+                <Label>Apply Payment To</Label>
+                <Select value={targetChargeId} onValueChange={handleTargetChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={OLDEST_FIRST}>Oldest charges first</SelectItem>
+                    {unpaidCharges.map(charge => (
+                      <SelectItem key={charge.id} value={charge.id}>
+                        {charge.description} - ${Number(charge.balance).toLocaleString()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {/* Amount */}
             <div className="space-y-2">
               <Label htmlFor="amount">Payment Amount</Label>
@@ -116,14 +247,33 @@ const PaymentInterface: React.FC<PaymentInterfaceProps> = ({
                 id="amount"
                 type="number"
                 step="0.01"
+                min="0.01"
                 value={amount}
                 onChange={(e) => setAmount(e.target.value)}
                 required
                 className="text-lg font-semibold"
               />
               <p className="text-sm text-muted-foreground">
-                Minimum payment: ${Number(tenancy.rent_amount).toLocaleString()}
+                {isDeposit
+                  ? 'Your deposit is held until you move out, when it is settled against any unpaid rent or damages.'
+                  : 'Any amount is accepted; what is left unpaid stays on your balance.'}
               </p>
+              {!isDeposit && Number(amount) > 0 && (
+                <div className="rounded-lg border p-3 space-y-1 text-sm">
+                  {plan.allocations.map(({ charge, amount: applied }) => (
+                    <div key={charge.id} className="flex justify-between gap-2">
+                      <span className="text-muted-foreground">{charge.description}</span>
+                      <span className="font-medium">${applied.toLocaleString()}</span>
+                    </div>
+                  ))}
+                  {plan.credit > 0 && (
+                    <div className="flex justify-between gap-2 text-green-600">
+                      <span>Credit carried forward</span>
+                      <span className="font-medium">${plan.credit.toLocaleString()}</span>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* Payment Method */}
@@ -191,7 +341,11 @@ const PaymentInterface: React.FC<PaymentInterfaceProps> = ({
                 disabled={loading || !paymentMethod || (paymentMethod === 'momo' && !phoneNumber)} 
                 className="flex-1"
               >
-                {loading ? 'Processing...' : `Pay $${Number(amount).toLocaleString()}`}
+                {awaitingApproval
+                  ? 'Waiting for approval...'
+                  : loading
+                  ? 'Processing...'
+                  : `Pay $${Number(amount).toLocaleString()}`}
               </Button>
               <Button type="button" variant="outline" onClick={onCancel}>
                 Cancel
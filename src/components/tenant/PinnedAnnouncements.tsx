@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Megaphone, Check } from 'lucide-react';
+import { acknowledgeAnnouncement, type PinnedAnnouncement } from '@/lib/announcements';
+
+// Announcements from this tenant's landlords, pinned at the top of the home
+// tab until they expire. The landlord sees who has acknowledged each one.
+const PinnedAnnouncements: React.FC = () => {
+  const [announcements, setAnnouncements] = useState<PinnedAnnouncement[]>([]);
+  const [acknowledgingId, setAcknowledgingId] = useState<string | null>(null);
+  // Bumped whenever one of the tenant's announcements arrives or changes
+  const [reloadKey, setReloadKey] = useState(0);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const userId = profile?.user_id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const fetchAnnouncements = async () => {
+      const { data, error } = await supabase.rpc('get_my_announcements');
+
+      if (error) {
+        toast({
+          title: 'Error loading announcements',
+          description: error.message,
+          variant: 'destructive',
+        });
+        return;
+      }
+      setAnnouncements(data || []);
+    };
+
+    fetchAnnouncements();
+  }, [userId, reloadKey, toast]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`announcement-recipients-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'announcement_recipients', filter: `tenant_id=eq.${userId}` },
+        () => setReloadKey((key) => key + 1)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  const acknowledge = async (announcement: PinnedAnnouncement) => {
+    setAcknowledgingId(announcement.id);
+    try {
+      await acknowledgeAnnouncement(announcement.id);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error acknowledging announcement',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setAcknowledgingId(null);
+    }
+  };
+
+  if (announcements.length === 0) return null;
+
+  return (
+    <>
+      {announcements.map((announcement) => (
+        <Card key={announcement.id} className="border-amber-200 bg-gradient-to-r from-amber-50 to-amber-100/30 shadow-lg">
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-start gap-3">
+              <div className="p-2 bg-amber-100 rounded-full">
+                <Megaphone className="h-5 w-5 text-amber-600" />
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="font-semibold text-amber-800">{announcement.title}</p>
+                <p className="text-xs text-amber-700/80">
+                  {announcement.property_name} ·{' '}
+                  {formatDistanceToNow(new Date(announcement.published_at), { addSuffix: true })}
+                </p>
+                <p className="mt-2 text-sm text-slate-700 whitespace-pre-wrap">{announcement.body}</p>
+              </div>
+            </div>
+            <div className="flex justify-end">
+              {announcement.acknowledged_at ? (
+                <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                  <Check className="h-4 w-4" />
+                  Acknowledged
+                </span>
+              ) : (
+                <Button
+                  size="sm"
+                  onClick={() => acknowledge(announcement)}
+                  disabled={acknowledgingId === announcement.id}
+                >
+                  {acknowledgingId === announcement.id ? 'Saving...' : 'Acknowledge'}
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </>
+  );
+};
+
+export default PinnedAnnouncements;
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Download, FileText } from 'lucide-react';
+import { parseDate, toDateString } from '@/lib/rentCharges';
+import { buildAccountStatement } from '@/lib/statements';
+import { downloadStatement } from '@/lib/tenantDocuments';
+import type { StatementLine } from '@/lib/paymentAllocation';
+
+interface RentStatementProps {
+  tenancyId: string;
+  lines: StatementLine[];
+  // Unapplied payments carried forward to future charges
+  credit: number;
+}
+
+const formatAmount = (value: number) => (value > 0 ? `$${value.toLocaleString()}` : '');
+
+const formatBalance = (value: number) =>
+  value < 0 ? `$${Math.abs(value).toLocaleString()} CR` : `$${value.toLocaleString()}`;
+
+// Statements open on the current and two previous months
+const defaultFrom = () => {
+  const today = new Date();
+  return toDateString(new Date(today.getFullYear(), today.getMonth() - 2, 1));
+};
+
+const RentStatement: React.FC<RentStatementProps> = ({ tenancyId, lines, credit }) => {
+  const [from, setFrom] = useState(defaultFrom);
+  const [to, setTo] = useState(() => toDateString(new Date()));
+  const [downloading, setDownloading] = useState(false);
+  const { toast } = useToast();
+
+  const validRange = !!from && !!to && from <= to;
+  const statement = buildAccountStatement(lines, from, to);
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await downloadStatement(tenancyId, from, to);
+    } catch (error) {
+      toast({
+        title: 'Error downloading statement',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-slate-50/50">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Account Statement
+          </span>
+          <Badge
+            className={
+              statement.closingBalance > 0
+                ? 'bg-red-100 text-red-700 border-red-200'
+                : 'bg-green-100 text-green-700 border-green-200'
+            }
+          >
+            {statement.closingBalance > 0 ? `${formatBalance(statement.closingBalance)} owed` : 'Up to date'}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          Charges, late fees and payments with your running balance
+          {credit > 0 && ` · $${credit.toLocaleString()} credit carried forward`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="statement-from" className="text-xs">From</Label>
+            <Input id="statement-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statement-to" className="text-xs">To</Label>
+            <Input id="statement-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={handleDownload} disabled={!validRange || downloading}>
+            <Download className="h-4 w-4 mr-2" />
+            {downloading ? 'Preparing...' : 'Download PDF'}
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+          {[
+            { label: 'Opening', value: formatBalance(statement.openingBalance) },
+            { label: 'Rent', value: `$${statement.rent.toLocaleString()}` },
+            { label: 'Late Fees', value: `$${statement.fees.toLocaleString()}` },
+            { label: 'Paid', value: `$${statement.payments.toLocaleString()}` },
+            { label: 'Closing', value: formatBalance(statement.closingBalance) },
+          ].map(({ label, value }) => (
+            <div key={label} className="rounded-lg bg-slate-50 p-3">
+              <div className="text-muted-foreground">{label}</div>
+              <div className="font-semibold">{value}</div>
+            </div>
+          ))}
+        </div>
+
+        {statement.periods.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No charges or payments in this period</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-2 font-medium">Date</th>
+                  <th className="py-2 pr-2 font-medium">Description</th>
+                  <th className="py-2 pr-2 font-medium text-right">Charged</th>
+                  <th className="py-2 pr-2 font-medium text-right">Paid</th>
+                  <th className="py-2 font-medium text-right">Balance</th>
+                </tr>
+              </thead>
+              {statement.periods.map((period) => (
+                <tbody key={period.key}>
+                  <tr className="bg-slate-50">
+                    <td colSpan={4} className="py-2 px-1 font-semibold">{period.label}</td>
+                    <td className="py-2 text-right text-muted-foreground whitespace-nowrap">
+                      {formatBalance(period.openingBalance)}
+                    </td>
+                  </tr>
+                  {period.lines.map((line) => (
+                    <tr key={`${line.type}-${line.id}`} className="border-b">
+                      <td className="py-2 pr-2 whitespace-nowrap">{parseDate(line.date).toLocaleDateString()}</td>
+                      <td className={`py-2 pr-2 ${line.type === 'late_fee' ? 'text-red-600' : ''}`}>
+                        {line.description}
+                      </td>
+                      <td className="py-2 pr-2 text-right">{formatAmount(line.debit)}</td>
+                      <td className="py-2 pr-2 text-right text-green-600">{formatAmount(line.credit)}</td>
+                      <td className="py-2 text-right font-medium whitespace-nowrap">{formatBalance(line.balance)}</td>
+                    </tr>
+                  ))}
+                  <tr className="border-b">
+                    <td colSpan={4} className="py-2 pr-2 text-right text-muted-foreground">Closing balance</td>
+                    <td className="py-2 text-right font-semibold whitespace-nowrap">
+                      {formatBalance(period.closingBalance)}
+                    </td>
+                  </tr>
+                </tbody>
+              ))}
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RentStatement;
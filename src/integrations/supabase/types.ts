@@ -14,326 +14,554 @@ export type Database = {
   }
   public: {
     Tables: {
-      expenses: {
+      activity_events: {
         Row: {
-          amount: number
-          created_at: string | null
+          amount: number | null
+          created_at: string
+          dedupe_key: string
           description: string | null
-          expense_date: string
+          entity_id: string | null
           id: string
-          property_id: string | null
+          occurred_at: string
+          status: string | null
+          title: string
+          type: Database["public"]["Enums"]["activity_type"]
+          user_id: string
         }
         Insert: {
-          amount: number
-          created_at?: string | null
+          amount?: number | null
+          created_at?: string
+          dedupe_key: string
           description?: string | null
-          expense_date?: string
+          entity_id?: string | null
           id?: string
-          property_id?: string | null
+          occurred_at: string
+          status?: string | null
+          title: string
+          type: Database["public"]["Enums"]["activity_type"]
+          user_id: string
         }
         Update: {
-          amount?: number
-          created_at?: string | null
+          amount?: number | null
+          created_at?: string
+          dedupe_key?: string
           description?: string | null
-          expense_date?: string
+          entity_id?: string | null
           id?: string
-          property_id?: string | null
+          occurred_at?: string
+          status?: string | null
+          title?: string
+          type?: Database["public"]["Enums"]["activity_type"]
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "expenses_property_id_fkey"
-            columns: ["property_id"]
+            foreignKeyName: "activity_events_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
-            referencedRelation: "properties"
-            referencedColumns: ["id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
           },
+        ]
+      }
+      announcement_recipients: {
+        Row: {
+          acknowledged_at: string | null
+          announcement_id: string
+          created_at: string | null
+          tenant_id: string
+          unit_number: string | null
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          announcement_id: string
+          created_at?: string | null
+          tenant_id: string
+          unit_number?: string | null
+        }
+        Update: {
+          acknowledged_at?: string | null
+          announcement_id?: string
+          created_at?: string | null
+          tenant_id?: string
+          unit_number?: string | null
+        }
+        Relationships: [
           {
-            foreignKeyName: "fk_expenses_property"
-            columns: ["property_id"]
+            foreignKeyName: "announcement_recipients_announcement_id_fkey"
+            columns: ["announcement_id"]
             isOneToOne: false
-            referencedRelation: "properties"
+            referencedRelation: "announcements"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "announcement_recipients_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
         ]
       }
-      join_requests: {
+      announcements: {
         Row: {
+          body: string
+          channels: Database["public"]["Enums"]["notification_channel"][]
           created_at: string | null
+          expires_at: string | null
           id: string
-          message: string | null
+          landlord_id: string
           property_id: string
-          rejection_reason: string | null
-          status: Database["public"]["Enums"]["join_request_status"] | null
-          tenant_id: string
-          unit_id: string | null
+          publish_at: string
+          published_at: string | null
+          title: string
+          unit_ids: string[] | null
           updated_at: string | null
         }
         Insert: {
+          body: string
+          channels?: Database["public"]["Enums"]["notification_channel"][]
           created_at?: string | null
+          expires_at?: string | null
           id?: string
-          message?: string | null
+          landlord_id: string
           property_id: string
-          rejection_reason?: string | null
-          status?: Database["public"]["Enums"]["join_request_status"] | null
-          tenant_id: string
-          unit_id?: string | null
+          publish_at?: string
+          published_at?: string | null
+          title: string
+          unit_ids?: string[] | null
           updated_at?: string | null
         }
         Update: {
+          body?: string
+          channels?: Database["public"]["Enums"]["notification_channel"][]
           created_at?: string | null
+          expires_at?: string | null
           id?: string
-          message?: string | null
+          landlord_id?: string
           property_id?: string
-          rejection_reason?: string | null
-          status?: Database["public"]["Enums"]["join_request_status"] | null
-          tenant_id?: string
-          unit_id?: string | null
+          publish_at?: string
+          published_at?: string | null
+          title?: string
+          unit_ids?: string[] | null
           updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "join_requests_property_id_fkey"
-            columns: ["property_id"]
-            isOneToOne: false
-            referencedRelation: "properties"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "join_requests_tenant_id_fkey"
-            columns: ["tenant_id"]
+            foreignKeyName: "announcements_landlord_id_fkey"
+            columns: ["landlord_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["user_id"]
           },
           {
-            foreignKeyName: "join_requests_unit_id_fkey"
-            columns: ["unit_id"]
+            foreignKeyName: "announcements_property_id_fkey"
+            columns: ["property_id"]
             isOneToOne: false
-            referencedRelation: "units"
+            referencedRelation: "properties"
             referencedColumns: ["id"]
           },
         ]
       }
-      maintenance_requests: {
+      captured_messages: {
         Row: {
+          body: string
+          channel: Database["public"]["Enums"]["notification_channel"]
           created_at: string | null
-          description: string
+          delivery_id: string | null
           id: string
-          status: string | null
-          tenant_id: string | null
-          unit_id: string | null
+          recipient: string
+          subject: string | null
         }
         Insert: {
+          body: string
+          channel: Database["public"]["Enums"]["notification_channel"]
           created_at?: string | null
-          description: string
+          delivery_id?: string | null
           id?: string
-          status?: string | null
-          tenant_id?: string | null
-          unit_id?: string | null
+          recipient: string
+          subject?: string | null
         }
         Update: {
+          body?: string
+          channel?: Database["public"]["Enums"]["notification_channel"]
           created_at?: string | null
-          description?: string
+          delivery_id?: string | null
           id?: string
-          status?: string | null
-          tenant_id?: string | null
-          unit_id?: string | null
+          recipient?: string
+          subject?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "fk_maintenance_tenant"
-            columns: ["tenant_id"]
+            foreignKeyName: "captured_messages_delivery_id_fkey"
+            columns: ["delivery_id"]
+            isOneToOne: false
+            referencedRelation: "notification_deliveries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string
+          id: string
+          landlord_id: string
+          landlord_last_read_at: string | null
+          last_message_at: string | null
+          maintenance_request_id: string | null
+          tenant_id: string
+          tenant_last_read_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          landlord_id: string
+          landlord_last_read_at?: string | null
+          last_message_at?: string | null
+          maintenance_request_id?: string | null
+          tenant_id: string
+          tenant_last_read_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          landlord_id?: string
+          landlord_last_read_at?: string | null
+          last_message_at?: string | null
+          maintenance_request_id?: string | null
+          tenant_id?: string
+          tenant_last_read_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_landlord_id_fkey"
+            columns: ["landlord_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["user_id"]
           },
           {
-            foreignKeyName: "fk_maintenance_unit"
-            columns: ["unit_id"]
+            foreignKeyName: "conversations_maintenance_request_id_fkey"
+            columns: ["maintenance_request_id"]
             isOneToOne: false
-            referencedRelation: "units"
+            referencedRelation: "maintenance_requests"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "maintenance_requests_tenant_id_fkey"
+            foreignKeyName: "conversations_tenant_id_fkey"
             columns: ["tenant_id"]
             isOneToOne: false
             referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "maintenance_requests_unit_id_fkey"
-            columns: ["unit_id"]
-            isOneToOne: false
-            referencedRelation: "units"
-            referencedColumns: ["id"]
+            referencedColumns: ["user_id"]
           },
         ]
       }
-      payments: {
+      deposit_deductions: {
         Row: {
           amount: number
           created_at: string | null
+          deduction_type: Database["public"]["Enums"]["deposit_deduction_type"]
+          description: string
           id: string
-          method: string
-          payment_date: string
-          status: string | null
-          tenancy_id: string | null
+          settlement_id: string
         }
         Insert: {
           amount: number
           created_at?: string | null
+          deduction_type: Database["public"]["Enums"]["deposit_deduction_type"]
+          description: string
           id?: string
-          method: string
-          payment_date?: string
-          status?: string | null
-          tenancy_id?: string | null
+          settlement_id: string
         }
         Update: {
           amount?: number
           created_at?: string | null
+          deduction_type?: Database["public"]["Enums"]["deposit_deduction_type"]
+          description?: string
           id?: string
-          method?: string
-          payment_date?: string
-          status?: string | null
-          tenancy_id?: string | null
+          settlement_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "fk_payments_tenancy"
-            columns: ["tenancy_id"]
-            isOneToOne: false
-            referencedRelation: "tenancies"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "payments_tenancy_id_fkey"
-            columns: ["tenancy_id"]
+            foreignKeyName: "deposit_deductions_settlement_id_fkey"
+            columns: ["settlement_id"]
             isOneToOne: false
-            referencedRelation: "tenancies"
+            referencedRelation: "deposit_settlements"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      deposit_settlements: {
         Row: {
           created_at: string | null
-          email: string | null
-          full_name: string
+          deposit_held: number
           id: string
-          phone: string | null
-          role: Database["public"]["Enums"]["user_role"]
-          user_id: string | null
+          move_out_date: string
+          notes: string | null
+          refund_amount: number
+          settled_by: string | null
+          tenancy_id: string
+          total_deductions: number
         }
         Insert: {
           created_at?: string | null
-          email?: string | null
-          full_name: string
+          deposit_held: number
           id?: string
-          phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
-          user_id?: string | null
+          move_out_date: string
+          notes?: string | null
+          refund_amount: number
+          settled_by?: string | null
+          tenancy_id: string
+          total_deductions: number
         }
         Update: {
           created_at?: string | null
-          email?: string | null
-          full_name?: string
+          deposit_held?: number
           id?: string
-          phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
-          user_id?: string | null
+          move_out_date?: string
+          notes?: string | null
+          refund_amount?: number
+          settled_by?: string | null
+          tenancy_id?: string
+          total_deductions?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "deposit_settlements_settled_by_fkey"
+            columns: ["settled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "deposit_settlements_tenancy_id_fkey"
+            columns: ["tenancy_id"]
+            isOneToOne: true
+            referencedRelation: "tenancies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      properties: {
+      expenses: {
         Row: {
-          address: string | null
-          city: string | null
-          country: string | null
+          amount: number
+          category: Database["public"]["Enums"]["expense_category"]
           created_at: string | null
+          description: string | null
+          expense_date: string
           id: string
-          is_searchable: boolean | null
-          landlord_id: string | null
-          name: string
+          property_id: string | null
+          receipt_name: string | null
+          receipt_path: string | null
+          recurring_expense_id: string | null
+          updated_at: string | null
+          vendor_invoice_id: string | null
         }
         Insert: {
-          address?: string | null
-          city?: string | null
-          country?: string | null
+          amount: number
+          category?: Database["public"]["Enums"]["expense_category"]
           created_at?: string | null
+          description?: string | null
+          expense_date?: string
           id?: string
-          is_searchable?: boolean | null
-          landlord_id?: string | null
-          name: string
+          property_id?: string | null
+          receipt_name?: string | null
+          receipt_path?: string | null
+          recurring_expense_id?: string | null
+          updated_at?: string | null
+          vendor_invoice_id?: string | null
         }
         Update: {
-          address?: string | null
-          city?: string | null
-          country?: string | null
+          amount?: number
+          category?: Database["public"]["Enums"]["expense_category"]
           created_at?: string | null
+          description?: string | null
+          expense_date?: string
           id?: string
-          is_searchable?: boolean | null
-          landlord_id?: string | null
-          name?: string
+          property_id?: string | null
+          receipt_name?: string | null
+          receipt_path?: string | null
+          recurring_expense_id?: string | null
+          updated_at?: string | null
+          vendor_invoice_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "fk_properties_landlord"
-            columns: ["landlord_id"]
+            foreignKeyName: "expenses_property_id_fkey"
+            columns: ["property_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["user_id"]
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_recurring_expense_id_fkey"
+            columns: ["recurring_expense_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_vendor_invoice_id_fkey"
+            columns: ["vendor_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "vendor_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_expenses_property"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
           },
         ]
       }
-      tenancies: {
+      invitations: {
         Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          billing_cycle: Database["public"]["Enums"]["billing_cycle"]
+          billing_day: number
           created_at: string | null
+          deposit_amount: number
+          email: string | null
           end_date: string | null
+          expires_at: string
+          full_name: string
           id: string
+          landlord_id: string
+          phone: string | null
           rent_amount: number
           start_date: string
-          status: string | null
-          tenant_id: string | null
-          unit_id: string | null
+          status: Database["public"]["Enums"]["invitation_status"]
+          tenancy_id: string | null
+          token: string
+          unit_id: string
         }
         Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          billing_cycle?: Database["public"]["Enums"]["billing_cycle"]
+          billing_day?: number
           created_at?: string | null
+          deposit_amount?: number
+          email?: string | null
           end_date?: string | null
+          expires_at?: string
+          full_name: string
           id?: string
+          landlord_id: string
+          phone?: string | null
           rent_amount: number
           start_date: string
-          status?: string | null
-          tenant_id?: string | null
-          unit_id?: string | null
+          status?: Database["public"]["Enums"]["invitation_status"]
+          tenancy_id?: string | null
+          token?: string
+          unit_id: string
         }
         Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          billing_cycle?: Database["public"]["Enums"]["billing_cycle"]
+          billing_day?: number
           created_at?: string | null
+          deposit_amount?: number
+          email?: string | null
           end_date?: string | null
+          expires_at?: string
+          full_name?: string
           id?: string
+          landlord_id?: string
+          phone?: string | null
           rent_amount?: number
           start_date?: string
-          status?: string | null
-          tenant_id?: string | null
-          unit_id?: string | null
+          status?: Database["public"]["Enums"]["invitation_status"]
+          tenancy_id?: string | null
+          token?: string
+          unit_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "fk_tenancies_tenant"
-            columns: ["tenant_id"]
+            foreignKeyName: "invitations_accepted_by_fkey"
+            columns: ["accepted_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["user_id"]
           },
           {
-            foreignKeyName: "fk_tenancies_unit"
+            foreignKeyName: "invitations_landlord_id_fkey"
+            columns: ["landlord_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "invitations_tenancy_id_fkey"
+            columns: ["tenancy_id"]
+            isOneToOne: false
+            referencedRelation: "tenancies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invitations_unit_id_fkey"
             columns: ["unit_id"]
             isOneToOne: false
             referencedRelation: "units"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      join_requests: {
+        Row: {
+          created_at: string | null
+          id: string
+          message: string | null
+          property_id: string
+          rejection_reason: string | null
+          status: Database["public"]["Enums"]["join_request_status"] | null
+          tenant_id: string
+          unit_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          message?: string | null
+          property_id: string
+          rejection_reason?: string | null
+          status?: Database["public"]["Enums"]["join_request_status"] | null
+          tenant_id: string
+          unit_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          message?: string | null
+          property_id?: string
+          rejection_reason?: string | null
+          status?: Database["public"]["Enums"]["join_request_status"] | null
+          tenant_id?: string
+          unit_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "join_requests_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
           {
-            foreignKeyName: "tenancies_unit_id_fkey"
+            foreignKeyName: "join_requests_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "join_requests_unit_id_fkey"
             columns: ["unit_id"]
             isOneToOne: false
             referencedRelation: "units"
@@ -341,71 +569,2424 @@ export type Database = {
           },
         ]
       }
-      units: {
+      late_fee_policies: {
         Row: {
-          bathrooms: number | null
-          bedrooms: number | null
           created_at: string | null
+          daily_fee: number
+          enabled: boolean
+          fee_type: Database["public"]["Enums"]["late_fee_type"]
+          grace_days: number
           id: string
-          property_id: string | null
+          initial_fee: number
+          max_fee: number | null
+          property_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          daily_fee?: number
+          enabled?: boolean
+          fee_type?: Database["public"]["Enums"]["late_fee_type"]
+          grace_days?: number
+          id?: string
+          initial_fee?: number
+          max_fee?: number | null
+          property_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          daily_fee?: number
+          enabled?: boolean
+          fee_type?: Database["public"]["Enums"]["late_fee_type"]
+          grace_days?: number
+          id?: string
+          initial_fee?: number
+          max_fee?: number | null
+          property_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "late_fee_policies_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lease_documents: {
+        Row: {
+          content_hash: string
+          created_at: string | null
+          generated_by: string | null
+          id: string
+          rendered_body: string
+          sent_at: string | null
+          storage_path: string
+          template_id: string | null
+          tenancy_id: string
+          version: number
+        }
+        Insert: {
+          content_hash: string
+          created_at?: string | null
+          generated_by?: string | null
+          id?: string
+          rendered_body: string
+          sent_at?: string | null
+          storage_path: string
+          template_id?: string | null
+          tenancy_id: string
+          version: number
+        }
+        Update: {
+          content_hash?: string
+          created_at?: string | null
+          generated_by?: string | null
+          id?: string
+          rendered_body?: string
+          sent_at?: string | null
+          storage_path?: string
+          template_id?: string | null
+          tenancy_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lease_documents_generated_by_fkey"
+            columns: ["generated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "lease_documents_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "lease_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lease_documents_tenancy_id_fkey"
+            columns: ["tenancy_id"]
+            isOneToOne: false
+            referencedRelation: "tenancies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lease_renewals: {
+        Row: {
+          created_at: string | null
+          end_date: string | null
+          id: string
+          message: string | null
+          offered_by: string
           rent_amount: number
-          status: string | null
-          unit_number: string
+          responded_at: string | null
+          start_date: string
+          status: Database["public"]["Enums"]["renewal_status"]
+          successor_tenancy_id: string | null
+          tenancy_id: string
         }
         Insert: {
-          bathrooms?: number | null
-          bedrooms?: number | null
           created_at?: string | null
+          end_date?: string | null
           id?: string
-          property_id?: string | null
+          message?: string | null
+          offered_by: string
           rent_amount: number
-          status?: string | null
-          unit_number: string
+          responded_at?: string | null
+          start_date: string
+          status?: Database["public"]["Enums"]["renewal_status"]
+          successor_tenancy_id?: string | null
+          tenancy_id: string
         }
         Update: {
-          bathrooms?: number | null
-          bedrooms?: number | null
           created_at?: string | null
+          end_date?: string | null
           id?: string
-          property_id?: string | null
+          message?: string | null
+          offered_by?: string
           rent_amount?: number
-          status?: string | null
-          unit_number?: string
+          responded_at?: string | null
+          start_date?: string
+          status?: Database["public"]["Enums"]["renewal_status"]
+          successor_tenancy_id?: string | null
+          tenancy_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "fk_units_property"
-            columns: ["property_id"]
+            foreignKeyName: "lease_renewals_offered_by_fkey"
+            columns: ["offered_by"]
             isOneToOne: false
-            referencedRelation: "properties"
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "lease_renewals_successor_tenancy_id_fkey"
+            columns: ["successor_tenancy_id"]
+            isOneToOne: false
+            referencedRelation: "tenancies"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "units_property_id_fkey"
-            columns: ["property_id"]
+            foreignKeyName: "lease_renewals_tenancy_id_fkey"
+            columns: ["tenancy_id"]
             isOneToOne: false
-            referencedRelation: "properties"
+            referencedRelation: "tenancies"
             referencedColumns: ["id"]
           },
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      get_complete_schema: {
-        Args: Record<PropertyKey, never>
-        Returns: Json
+      lease_signatures: {
+        Row: {
+          document_hash: string
+          id: string
+          ip_address: string | null
+          lease_document_id: string
+          signature_image: string | null
+          signature_type: Database["public"]["Enums"]["lease_signature_type"]
+          signed_at: string
+          signer_id: string
+          signer_name: string
+          signer_role: Database["public"]["Enums"]["lease_signer_role"]
+          user_agent: string | null
+        }
+        Insert: {
+          document_hash: string
+          id?: string
+          ip_address?: string | null
+          lease_document_id: string
+          signature_image?: string | null
+          signature_type: Database["public"]["Enums"]["lease_signature_type"]
+          signed_at?: string
+          signer_id: string
+          signer_name: string
+          signer_role: Database["public"]["Enums"]["lease_signer_role"]
+          user_agent?: string | null
+        }
+        Update: {
+          document_hash?: string
+          id?: string
+          ip_address?: string | null
+          lease_document_id?: string
+          signature_image?: string | null
+          signature_type?: Database["public"]["Enums"]["lease_signature_type"]
+          signed_at?: string
+          signer_id?: string
+          signer_name?: string
+          signer_role?: Database["public"]["Enums"]["lease_signer_role"]
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lease_signatures_lease_document_id_fkey"
+            columns: ["lease_document_id"]
+            isOneToOne: false
+            referencedRelation: "lease_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lease_signatures_signer_id_fkey"
+            columns: ["signer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
       }
-      get_user_role: {
-        Args: { user_uuid: string }
-        Returns: Database["public"]["Enums"]["user_role"]
+      lease_templates: {
+        Row: {
+          body: string
+          created_at: string | null
+          id: string
+          is_default: boolean
+          landlord_id: string
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          body: string
+          created_at?: string | null
+          id?: string
+          is_default?: boolean
+          landlord_id: string
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          body?: string
+          created_at?: string | null
+          id?: string
+          is_default?: boolean
+          landlord_id?: string
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lease_templates_landlord_id_fkey"
+            columns: ["landlord_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      ledger_accounts: {
+        Row: {
+          created_at: string | null
+          id: string
+          kind: Database["public"]["Enums"]["ledger_account_kind"]
+          normal_balance: string
+          owner_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          kind: Database["public"]["Enums"]["ledger_account_kind"]
+          normal_balance: string
+          owner_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          kind?: Database["public"]["Enums"]["ledger_account_kind"]
+          normal_balance?: string
+          owner_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_accounts_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      ledger_entries: {
+        Row: {
+          created_at: string | null
+          description: string
+          entry_type: Database["public"]["Enums"]["ledger_entry_type"]
+          id: string
+          occurred_at: string
+          reverses_entry_id: string | null
+          source_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description: string
+          entry_type: Database["public"]["Enums"]["ledger_entry_type"]
+          id?: string
+          occurred_at?: string
+          reverses_entry_id?: string | null
+          source_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          entry_type?: Database["public"]["Enums"]["ledger_entry_type"]
+          id?: string
+          occurred_at?: string
+          reverses_entry_id?: string | null
+          source_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_entries_reverses_entry_id_fkey"
+            columns: ["reverses_entry_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_lines: {
+        Row: {
+          account_id: string
+          created_at: string | null
+          credit: number
+          debit: number
+          entry_id: string
+          id: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string | null
+          credit?: number
+          debit?: number
+          entry_id: string
+          id?: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string | null
+          credit?: number
+          debit?: number
+          entry_id?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_lines_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_lines_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      maintenance_attachments: {
+        Row: {
+          content_type: string
+          created_at: string | null
+          file_name: string
+          id: string
+          kind: Database["public"]["Enums"]["maintenance_attachment_kind"]
+          request_id: string
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string
+        }
+        Insert: {
+          content_type: string
+          created_at?: string | null
+          file_name: string
+          id?: string
+          kind?: Database["public"]["Enums"]["maintenance_attachment_kind"]
+          request_id: string
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string | null
+          file_name?: string
+          id?: string
+          kind?: Database["public"]["Enums"]["maintenance_attachment_kind"]
+          request_id?: string
+          size_bytes?: number
+          storage_path?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maintenance_attachments_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "maintenance_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "maintenance_attachments_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      maintenance_request_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string | null
+          id: string
+          note: string | null
+          request_id: string
+          status: Database["public"]["Enums"]["maintenance_status"] | null
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string | null
+          id?: string
+          note?: string | null
+          request_id: string
+          status?: Database["public"]["Enums"]["maintenance_status"] | null
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string | null
+          id?: string
+          note?: string | null
+          request_id?: string
+          status?: Database["public"]["Enums"]["maintenance_status"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maintenance_request_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "maintenance_request_events_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "maintenance_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      maintenance_requests: {
+        Row: {
+          assignee: string | null
+          category: Database["public"]["Enums"]["maintenance_category"]
+          created_at: string | null
+          description: string
+          id: string
+          priority: Database["public"]["Enums"]["maintenance_priority"]
+          resolved_at: string | null
+          scheduled_for: string | null
+          status: Database["public"]["Enums"]["maintenance_status"]
+          tenant_id: string | null
+          title: string
+          unit_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          assignee?: string | null
+          category?: Database["public"]["Enums"]["maintenance_category"]
+          created_at?: string | null
+          description: string
+          id?: string
+          priority?: Database["public"]["Enums"]["maintenance_priority"]
+          resolved_at?: string | null
+          scheduled_for?: string | null
+          status?: Database["public"]["Enums"]["maintenance_status"]
+          tenant_id?: string | null
+          title: string
+          unit_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          assignee?: string | null
+          category?: Database["public"]["Enums"]["maintenance_category"]
+          created_at?: string | null
+          description?: string
+          id?: string
+          priority?: Database["public"]["Enums"]["maintenance_priority"]
+          resolved_at?: string | null
+          scheduled_for?: string | null
+          status?: Database["public"]["Enums"]["maintenance_status"]
+          tenant_id?: string | null
+          title?: string
+          unit_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_maintenance_tenant"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "fk_maintenance_unit"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "maintenance_requests_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "maintenance_requests_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_attachments: {
+        Row: {
+          content_type: string
+          created_at: string | null
+          file_name: string
+          id: string
+          message_id: string
+          size_bytes: number
+          storage_path: string
+        }
+        Insert: {
+          content_type: string
+          created_at?: string | null
+          file_name: string
+          id?: string
+          message_id: string
+          size_bytes: number
+          storage_path: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string | null
+          file_name?: string
+          id?: string
+          message_id?: string
+          size_bytes?: number
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          body: string
+          conversation_id: string
+          created_at: string
+          id: string
+          sender_id: string
+        }
+        Insert: {
+          body?: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          sender_id: string
+        }
+        Update: {
+          body?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      notification_deliveries: {
+        Row: {
+          announcement_id: string | null
+          attempts: number
+          body: string
+          channel: Database["public"]["Enums"]["notification_channel"]
+          created_at: string | null
+          created_by: string | null
+          dedupe_key: string | null
+          error: string | null
+          event: Database["public"]["Enums"]["notification_event"]
+          id: string
+          landlord_id: string | null
+          next_attempt_at: string
+          provider: string | null
+          provider_message_id: string | null
+          recipient: string | null
+          recipient_id: string
+          rent_charge_id: string | null
+          sent_at: string | null
+          status: Database["public"]["Enums"]["notification_status"]
+          subject: string | null
+          tenancy_id: string | null
+        }
+        Insert: {
+          announcement_id?: string | null
+          attempts?: number
+          body: string
+          channel: Database["public"]["Enums"]["notification_channel"]
+          created_at?: string | null
+          created_by?: string | null
+          dedupe_key?: string | null
+          error?: string | null
+          event: Database["public"]["Enums"]["notification_event"]
+          id?: string
+          landlord_id?: string | null
+          next_attempt_at?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient?: string | null
+          recipient_id: string
+          rent_charge_id?: string | null
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["notification_status"]
+          subject?: string | null
+          tenancy_id?: string | null
+        }
+        Update: {
+          announcement_id?: string | null
+          attempts?: number
+          body?: string
+          channel?: Database["public"]["Enums"]["notification_channel"]
+          created_at?: string | null
+          created_by?: string | null
+          dedupe_key?: string | null
+          error?: string | null
+          event?: Database["public"]["Enums"]["notification_event"]
+          id?: string
+          landlord_id?: string | null
+          next_attempt_at?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient?: string | null
+          recipient_id?: string
+          rent_charge_id?: string | null
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["notification_status"]
+          subject?: string | null
+          tenancy_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_landlord_id_fkey"
+            columns: ["landlord_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_rent_charge_id_fkey"
+            columns: ["rent_charge_id"]
+            isOneToOne: false
+            referencedRelation: "rent_charges"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_tenancy_id_fkey"
+            columns: ["tenancy_id"]
+            isOneToOne: false
+            referencedRelation: "tenancies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_announcement_id_fkey"
+            columns: ["announcement_id"]
+            isOneToOne: false
+            referencedRelation: "announcements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          in_app: boolean
+          kind: Database["public"]["Enums"]["notification_kind"]
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          in_app?: boolean
+          kind: Database["public"]["Enums"]["notification_kind"]
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          in_app?: boolean
+          kind?: Database["public"]["Enums"]["notification_kind"]
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      notification_templates: {
+        Row: {
+          body: string
+          channel: Database["public"]["Enums"]["notification_channel"]
+          created_at: string | null
+          event: Database["public"]["Enums"]["notification_event"]
+          id: string
+          landlord_id: string | null
+          subject: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          body: string
+          channel: Database["public"]["Enums"]["notification_channel"]
+          created_at?: string | null
+          event: Database["public"]["Enums"]["notification_event"]
+          id?: string
+          landlord_id?: string | null
+          subject?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          body?: string
+          channel?: Database["public"]["Enums"]["notification_channel"]
+          created_at?: string | null
+          event?: Database["public"]["Enums"]["notification_event"]
+          id?: string
+          landlord_id?: string | null
+          subject?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_templates_landlord_id_fkey"
+            columns: ["landlord_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          entity_id: string | null
+          id: string
+          kind: Database["public"]["Enums"]["notification_kind"]
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          entity_id?: string | null
+          id?: string
+          kind: Database["public"]["Enums"]["notification_kind"]
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          entity_id?: string | null
+          id?: string
+          kind?: Database["public"]["Enums"]["notification_kind"]
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      payment_allocations: {
+        Row: {
+          amount: number
+          charge_id: string
+          created_at: string | null
+          id: string
+          payment_id: string
+        }
+        Insert: {
+          amount: number
+          charge_id: string
+          created_at?: string | null
+          id?: string
+          payment_id: string
+        }
+        Update: {
+          amount?: number
+          charge_id?: string
+          created_at?: string | null
+          id?: string
+          payment_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_allocations_charge_id_fkey"
+            columns: ["charge_id"]
+            isOneToOne: false
+            referencedRelation: "rent_charges"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_allocations_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          applies_to_charge_id: string | null
+          created_at: string | null
+          failure_reason: string | null
+          id: string
+          method: string
+          payment_date: string
+          payment_type: Database["public"]["Enums"]["payment_type"]
+          phone_number: string | null
+          processed_at: string | null
+          provider: string | null
+          provider_reference: string | null
+          provider_transaction_id: string | null
+          status: string | null
+          tenancy_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          applies_to_charge_id?: string | null
+          created_at?: string | null
+          failure_reason?: string | null
+          id?: string
+          method: string
+          payment_date?: string
+          payment_type?: Database["public"]["Enums"]["payment_type"]
+          phone_number?: string | null
+          processed_at?: string | null
+          provider?: string | null
+          provider_reference?: string | null
+          provider_transaction_id?: string | null
+          status?: string | null
+          tenancy_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          applies_to_charge_id?: string | null
+          created_at?: string | null
+          failure_reason?: string | null
+          id?: string
+          method?: string
+          payment_date?: string
+          payment_type?: Database["public"]["Enums"]["payment_type"]
+          phone_number?: string | null
+          processed_at?: string | null
+          provider?: string | null
+          provider_reference?: string | null
+          provider_transaction_id?: string | null
+          status?: string | null
+          tenancy_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_payments_tenancy"
+            columns: ["tenancy_id"]
+            isOneToOne: false
+            referencedRelation: "tenancies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_tenancy_id_fkey"
+            columns: ["tenancy_id"]
+            isOneToOne: false
+            referencedRelation: "tenancies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_applies_to_charge_id_fkey"
+            columns: ["applies_to_charge_id"]
+            isOneToOne: false
+            referencedRelation: "rent_charges"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payouts: {
+        Row: {
+          amount: number
+          attempts: number
+          created_at: string | null
+          deposit_settlement_id: string | null
+          failure_reason: string | null
+          id: string
+          kind: Database["public"]["Enums"]["payout_kind"]
+          landlord_id: string
+          legacy_reference: string | null
+          next_attempt_at: string
+          phone_number: string
+          processed_at: string | null
+          provider: string | null
+          provider_reference: string | null
+          requested_at: string
+          status: Database["public"]["Enums"]["payout_status"]
+          submitted_at: string | null
+          tenant_id: string | null
+          transaction_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          attempts?: number
+          created_at?: string | null
+          deposit_settlement_id?: string | null
+          failure_reason?: string | null
+          id?: string
+          kind?: Database["public"]["Enums"]["payout_kind"]
+          landlord_id: string
+          legacy_reference?: string | null
+          next_attempt_at?: string
+          phone_number: string
+          processed_at?: string | null
+          provider?: string | null
+          provider_reference?: string | null
+          requested_at?: string
+          status?: Database["public"]["Enums"]["payout_status"]
+          submitted_at?: string | null
+          tenant_id?: string | null
+          transaction_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          attempts?: number
+          created_at?: string | null
+          deposit_settlement_id?: string | null
+          failure_reason?: string | null
+          id?: string
+          kind?: Database["public"]["Enums"]["payout_kind"]
+          landlord_id?: string
+          legacy_reference?: string | null
+          next_attempt_at?: string
+          phone_number?: string
+          processed_at?: string | null
+          provider?: string | null
+          provider_reference?: string | null
+          requested_at?: string
+          status?: Database["public"]["Enums"]["payout_status"]
+          submitted_at?: string | null
+          tenant_id?: string | null
+          transaction_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payouts_landlord_id_fkey"
+            columns: ["landlord_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "payouts_deposit_settlement_id_fkey"
+            columns: ["deposit_settlement_id"]
+            isOneToOne: true
+            referencedRelation: "deposit_settlements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payouts_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      platform_settings: {
+        Row: {
+          id: boolean
+          payment_fee_percent: number
+          updated_at: string | null
+        }
+        Insert: {
+          id?: boolean
+          payment_fee_percent?: number
+          updated_at?: string | null
+        }
+        Update: {
+          id?: boolean
+          payment_fee_percent?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string | null
+          email: string | null
+          full_name: string
+          id: string
+          phone: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          email?: string | null
+          full_name: string
+          id?: string
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          email?: string | null
+          full_name?: string
+          id?: string
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      properties: {
+        Row: {
+          address: string | null
+          city: string | null
+          country: string | null
+          created_at: string | null
+          id: string
+          is_searchable: boolean | null
+          landlord_id: string | null
+          name: string
+          rent_increase_notice_days: number
+        }
+        Insert: {
+          address?: string | null
+          city?: string | null
+          country?: string | null
+          created_at?: string | null
+          id?: string
+          is_searchable?: boolean | null
+          landlord_id?: string | null
+          name: string
+          rent_increase_notice_days?: number
+        }
+        Update: {
+          address?: string | null
+          city?: string | null
+          country?: string | null
+          created_at?: string | null
+          id?: string
+          is_searchable?: boolean | null
+          landlord_id?: string | null
+          name?: string
+          rent_increase_notice_days?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_properties_landlord"
+            columns: ["landlord_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      recurring_expenses: {
+        Row: {
+          active: boolean
+          amount: number
+          billing_cycle: Database["public"]["Enums"]["billing_cycle"]
+          category: Database["public"]["Enums"]["expense_category"]
+          created_at: string | null
+          created_by: string | null
+          description: string
+          end_date: string | null
+          id: string
+          next_due_date: string
+          next_occurrence: number
+          property_id: string
+          start_date: string
+        }
+        Insert: {
+          active?: boolean
+          amount: number
+          billing_cycle?: Database["public"]["Enums"]["billing_cycle"]
+          category?: Database["public"]["Enums"]["expense_category"]
+          created_at?: string | null
+          created_by?: string | null
+          description: string
+          end_date?: string | null
+          id?: string
+          next_due_date?: string
+          next_occurrence?: number
+          property_id: string
+          start_date?: string
+        }
+        Update: {
+          active?: boolean
+          amount?: number
+          billing_cycle?: Database["public"]["Enums"]["billing_cycle"]
+          category?: Database["public"]["Enums"]["expense_category"]
+          created_at?: string | null
+          created_by?: string | null
+          description?: string
+          end_date?: string | null
+          id?: string
+          next_due_date?: string
+          next_occurrence?: number
+          property_id?: string
+          start_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_expenses_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "recurring_expenses_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reminder_settings: {
+        Row: {
+          channels: Database["public"]["Enums"]["notification_channel"][]
+          created_at: string | null
+          days_after: number[]
+          days_before: number[]
+          enabled: boolean
+          landlord_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          channels?: Database["public"]["Enums"]["notification_channel"][]
+          created_at?: string | null
+          days_after?: number[]
+          days_before?: number[]
+          enabled?: boolean
+          landlord_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          channels?: Database["public"]["Enums"]["notification_channel"][]
+          created_at?: string | null
+          days_after?: number[]
+          days_before?: number[]
+          enabled?: boolean
+          landlord_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reminder_settings_landlord_id_fkey"
+            columns: ["landlord_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      rent_charges: {
+        Row: {
+          amount: number
+          charge_type: Database["public"]["Enums"]["rent_charge_type"]
+          created_at: string | null
+          description: string
+          due_date: string
+          id: string
+          parent_charge_id: string | null
+          period_end: string
+          period_start: string
+          tenancy_id: string
+        }
+        Insert: {
+          amount: number
+          charge_type?: Database["public"]["Enums"]["rent_charge_type"]
+          created_at?: string | null
+          description: string
+          due_date: string
+          id?: string
+          parent_charge_id?: string | null
+          period_end: string
+          period_start: string
+          tenancy_id: string
+        }
+        Update: {
+          amount?: number
+          charge_type?: Database["public"]["Enums"]["rent_charge_type"]
+          created_at?: string | null
+          description?: string
+          due_date?: string
+          id?: string
+          parent_charge_id?: string | null
+          period_end?: string
+          period_start?: string
+          tenancy_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rent_charges_tenancy_id_fkey"
+            columns: ["tenancy_id"]
+            isOneToOne: false
+            referencedRelation: "tenancies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rent_charges_parent_charge_id_fkey"
+            columns: ["parent_charge_id"]
+            isOneToOne: false
+            referencedRelation: "rent_charges"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rent_schedule_entries: {
+        Row: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          effective_date: string
+          id: string
+          notice_issued_on: string | null
+          tenancy_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          created_by?: string | null
+          effective_date: string
+          id?: string
+          notice_issued_on?: string | null
+          tenancy_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          effective_date?: string
+          id?: string
+          notice_issued_on?: string | null
+          tenancy_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rent_schedule_entries_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "rent_schedule_entries_tenancy_id_fkey"
+            columns: ["tenancy_id"]
+            isOneToOne: false
+            referencedRelation: "tenancies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tenancies: {
+        Row: {
+          billing_cycle: Database["public"]["Enums"]["billing_cycle"]
+          billing_day: number
+          billing_start_date: string | null
+          created_at: string | null
+          current_lease_document_id: string | null
+          deposit_amount: number
+          end_date: string | null
+          id: string
+          previous_tenancy_id: string | null
+          rent_amount: number
+          start_date: string
+          status: string | null
+          tenant_id: string | null
+          unit_id: string | null
+        }
+        Insert: {
+          billing_cycle?: Database["public"]["Enums"]["billing_cycle"]
+          billing_day?: number
+          billing_start_date?: string | null
+          created_at?: string | null
+          current_lease_document_id?: string | null
+          deposit_amount?: number
+          end_date?: string | null
+          id?: string
+          previous_tenancy_id?: string | null
+          rent_amount: number
+          start_date: string
+          status?: string | null
+          tenant_id?: string | null
+          unit_id?: string | null
+        }
+        Update: {
+          billing_cycle?: Database["public"]["Enums"]["billing_cycle"]
+          billing_day?: number
+          billing_start_date?: string | null
+          created_at?: string | null
+          current_lease_document_id?: string | null
+          deposit_amount?: number
+          end_date?: string | null
+          id?: string
+          previous_tenancy_id?: string | null
+          rent_amount?: number
+          start_date?: string
+          status?: string | null
+          tenant_id?: string | null
+          unit_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_tenancies_tenant"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "fk_tenancies_unit"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tenancies_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tenancies_current_lease_document_id_fkey"
+            columns: ["current_lease_document_id"]
+            isOneToOne: false
+            referencedRelation: "lease_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tenancies_previous_tenancy_id_fkey"
+            columns: ["previous_tenancy_id"]
+            isOneToOne: false
+            referencedRelation: "tenancies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      units: {
+        Row: {
+          bathrooms: number | null
+          bedrooms: number | null
+          created_at: string | null
+          id: string
+          property_id: string | null
+          rent_amount: number
+          status: string | null
+          unit_number: string
+        }
+        Insert: {
+          bathrooms?: number | null
+          bedrooms?: number | null
+          created_at?: string | null
+          id?: string
+          property_id?: string | null
+          rent_amount: number
+          status?: string | null
+          unit_number: string
+        }
+        Update: {
+          bathrooms?: number | null
+          bedrooms?: number | null
+          created_at?: string | null
+          id?: string
+          property_id?: string | null
+          rent_amount?: number
+          status?: string | null
+          unit_number?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_units_property"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "units_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      unposted_payments: {
+        Row: {
+          created_at: string | null
+          payment_id: string
+          reason: string
+        }
+        Insert: {
+          created_at?: string | null
+          payment_id: string
+          reason: string
+        }
+        Update: {
+          created_at?: string | null
+          payment_id?: string
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "unposted_payments_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: true
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vendor_invoices: {
+        Row: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          invoice_date: string
+          invoice_number: string | null
+          work_order_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          invoice_date?: string
+          invoice_number?: string | null
+          work_order_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          invoice_date?: string
+          invoice_number?: string | null
+          work_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vendor_invoices_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "vendor_invoices_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vendors: {
+        Row: {
+          archived: boolean
+          callout_fee: number | null
+          contact_name: string | null
+          created_at: string | null
+          email: string | null
+          hourly_rate: number | null
+          id: string
+          landlord_id: string
+          name: string
+          notes: string | null
+          phone: string | null
+          trade: Database["public"]["Enums"]["maintenance_category"]
+          updated_at: string | null
+        }
+        Insert: {
+          archived?: boolean
+          callout_fee?: number | null
+          contact_name?: string | null
+          created_at?: string | null
+          email?: string | null
+          hourly_rate?: number | null
+          id?: string
+          landlord_id: string
+          name: string
+          notes?: string | null
+          phone?: string | null
+          trade?: Database["public"]["Enums"]["maintenance_category"]
+          updated_at?: string | null
+        }
+        Update: {
+          archived?: boolean
+          callout_fee?: number | null
+          contact_name?: string | null
+          created_at?: string | null
+          email?: string | null
+          hourly_rate?: number | null
+          id?: string
+          landlord_id?: string
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          trade?: Database["public"]["Enums"]["maintenance_category"]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vendors_landlord_id_fkey"
+            columns: ["landlord_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      work_orders: {
+        Row: {
+          cancelled_at: string | null
+          completed_at: string | null
+          cost_estimate: number | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          instructions: string | null
+          request_id: string
+          scheduled_for: string | null
+          status: Database["public"]["Enums"]["work_order_status"]
+          vendor_id: string
+        }
+        Insert: {
+          cancelled_at?: string | null
+          completed_at?: string | null
+          cost_estimate?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          instructions?: string | null
+          request_id: string
+          scheduled_for?: string | null
+          status?: Database["public"]["Enums"]["work_order_status"]
+          vendor_id: string
+        }
+        Update: {
+          cancelled_at?: string | null
+          completed_at?: string | null
+          cost_estimate?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          instructions?: string | null
+          request_id?: string
+          scheduled_for?: string | null
+          status?: Database["public"]["Enums"]["work_order_status"]
+          vendor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_orders_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "work_orders_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "maintenance_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_orders_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      rent_charge_balances: {
+        Row: {
+          amount: number | null
+          amount_paid: number | null
+          balance: number | null
+          charge_type: Database["public"]["Enums"]["rent_charge_type"] | null
+          created_at: string | null
+          description: string | null
+          due_date: string | null
+          id: string | null
+          parent_charge_id: string | null
+          period_end: string | null
+          period_start: string | null
+          tenancy_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rent_charges_parent_charge_id_fkey"
+            columns: ["parent_charge_id"]
+            isOneToOne: false
+            referencedRelation: "rent_charges"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rent_charges_tenancy_id_fkey"
+            columns: ["tenancy_id"]
+            isOneToOne: false
+            referencedRelation: "tenancies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Functions: {
+      accept_invitation: {
+        Args: { _token: string }
+        Returns: {
+          billing_cycle: Database["public"]["Enums"]["billing_cycle"]
+          billing_day: number
+          billing_start_date: string | null
+          created_at: string | null
+          current_lease_document_id: string | null
+          deposit_amount: number
+          end_date: string | null
+          id: string
+          previous_tenancy_id: string | null
+          rent_amount: number
+          start_date: string
+          status: string | null
+          tenant_id: string | null
+          unit_id: string | null
+        }
+      }
+      acknowledge_announcement: {
+        Args: { _announcement_id: string }
+        Returns: undefined
+      }
+      allocate_payment: {
+        Args: { _payment_id: string }
+        Returns: number
+      }
+      apply_tenancy_credit: {
+        Args: { _tenancy_id: string }
+        Returns: undefined
+      }
+      approve_join_request: {
+        Args: {
+          _billing_day?: number
+          _deposit_amount?: number
+          _rent_amount: number
+          _request_id: string
+          _start_date: string
+          _unit_id: string
+        }
+        Returns: {
+          billing_cycle: Database["public"]["Enums"]["billing_cycle"]
+          billing_day: number
+          billing_start_date: string | null
+          created_at: string | null
+          current_lease_document_id: string | null
+          deposit_amount: number
+          end_date: string | null
+          id: string
+          previous_tenancy_id: string | null
+          rent_amount: number
+          start_date: string
+          status: string | null
+          tenant_id: string | null
+          unit_id: string | null
+        }
+      }
+      assess_late_fees: {
+        Args: { _as_of?: string }
+        Returns: number
+      }
+      billing_cycle_interval: {
+        Args: { _cycle: Database["public"]["Enums"]["billing_cycle"] }
+        Returns: unknown
+      }
+      cancel_rent_increase: {
+        Args: { _entry_id: string }
+        Returns: undefined
+      }
+      cancel_work_order: {
+        Args: { _work_order_id: string }
+        Returns: {
+          cancelled_at: string | null
+          completed_at: string | null
+          cost_estimate: number | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          instructions: string | null
+          request_id: string
+          scheduled_for: string | null
+          status: Database["public"]["Enums"]["work_order_status"]
+          vendor_id: string
+        }
+      }
+      claim_due_notifications: {
+        Args: {
+          _ids?: string[]
+          _lease_seconds?: number
+          _limit?: number
+          _provider: string
+        }
+        Returns: {
+          attempts: number
+          body: string
+          channel: Database["public"]["Enums"]["notification_channel"]
+          created_at: string | null
+          created_by: string | null
+          dedupe_key: string | null
+          error: string | null
+          event: Database["public"]["Enums"]["notification_event"]
+          id: string
+          landlord_id: string | null
+          next_attempt_at: string
+          provider: string | null
+          provider_message_id: string | null
+          recipient: string | null
+          recipient_id: string
+          rent_charge_id: string | null
+          sent_at: string | null
+          status: Database["public"]["Enums"]["notification_status"]
+          subject: string | null
+          tenancy_id: string | null
+        }[]
+      }
+      claim_due_payouts: {
+        Args: { _lease_seconds?: number; _limit?: number; _provider: string }
+        Returns: {
+          amount: number
+          attempts: number
+          created_at: string | null
+          failure_reason: string | null
+          id: string
+          landlord_id: string
+          legacy_reference: string | null
+          next_attempt_at: string
+          phone_number: string
+          processed_at: string | null
+          provider: string | null
+          provider_reference: string | null
+          requested_at: string
+          status: Database["public"]["Enums"]["payout_status"]
+          submitted_at: string | null
+          transaction_id: string | null
+          updated_at: string | null
+        }[]
+      }
+      create_invitation: {
+        Args: {
+          _billing_cycle?: Database["public"]["Enums"]["billing_cycle"]
+          _billing_day?: number
+          _deposit_amount?: number
+          _email: string
+          _end_date?: string
+          _full_name: string
+          _phone: string
+          _rent_amount: number
+          _start_date: string
+          _unit_id: string
+        }
+        Returns: {
+          accepted_at: string | null
+          accepted_by: string | null
+          billing_cycle: Database["public"]["Enums"]["billing_cycle"]
+          billing_day: number
+          created_at: string | null
+          deposit_amount: number
+          email: string | null
+          end_date: string | null
+          expires_at: string
+          full_name: string
+          id: string
+          landlord_id: string
+          phone: string | null
+          rent_amount: number
+          start_date: string
+          status: Database["public"]["Enums"]["invitation_status"]
+          tenancy_id: string | null
+          token: string
+          unit_id: string
+        }
+      }
+      create_rent_charge: {
+        Args: {
+          _full_days: number
+          _period_end: string
+          _period_start: string
+          _rent: number
+          _tenancy_id: string
+        }
+        Returns: boolean
+      }
+      create_work_order: {
+        Args: {
+          _cost_estimate?: number
+          _instructions?: string
+          _request_id: string
+          _scheduled_for?: string
+          _vendor_id: string
+        }
+        Returns: {
+          cancelled_at: string | null
+          completed_at: string | null
+          cost_estimate: number | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          instructions: string | null
+          request_id: string
+          scheduled_for: string | null
+          status: Database["public"]["Enums"]["work_order_status"]
+          vendor_id: string
+        }
+      }
+      expire_ended_tenancies: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      format_notification_amount: {
+        Args: { _amount: number }
+        Returns: string
+      }
+      generate_due_rent_charges: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      generate_rent_charges: {
+        Args: { _tenancy_id: string; _through?: string }
+        Returns: number
+      }
+      get_complete_schema: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_invitation: {
+        Args: { _token: string }
+        Returns: {
+          billing_cycle: Database["public"]["Enums"]["billing_cycle"]
+          deposit_amount: number
+          email: string
+          expires_at: string
+          full_name: string
+          id: string
+          landlord_name: string
+          phone: string
+          property_name: string
+          rent_amount: number
+          start_date: string
+          status: Database["public"]["Enums"]["invitation_status"]
+          token: string
+          unit_number: string
+        }[]
+      }
+      get_landlord_available_balance: {
+        Args: { _landlord_id: string }
+        Returns: number
+      }
+      get_landlord_deposits_held: {
+        Args: { _landlord_id: string }
+        Returns: number
+      }
+      get_ledger_balances: {
+        Args: { _owner_id: string }
+        Returns: {
+          account_kind: Database["public"]["Enums"]["ledger_account_kind"]
+          balance: number
+        }[]
+      }
+      get_my_activity: {
+        Args: {
+          _before?: string
+          _before_id?: string
+          _limit?: number
+          _types?: Database["public"]["Enums"]["activity_type"][]
+        }
+        Returns: {
+          amount: number | null
+          created_at: string
+          dedupe_key: string
+          description: string | null
+          entity_id: string | null
+          id: string
+          occurred_at: string
+          status: string | null
+          title: string
+          type: Database["public"]["Enums"]["activity_type"]
+          user_id: string
+        }[]
+      }
+      get_my_announcements: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          property_name: string
+          title: string
+          body: string
+          published_at: string
+          expires_at: string | null
+          acknowledged_at: string | null
+        }[]
+      }
+      get_my_conversations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          maintenance_request_id: string | null
+          maintenance_title: string | null
+          counterpart_id: string
+          counterpart_name: string
+          counterpart_last_read_at: string | null
+          last_message_at: string | null
+          last_message_body: string | null
+          last_message_sender_id: string | null
+          unread_count: number
+        }[]
+      }
+      get_my_invitations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          billing_cycle: Database["public"]["Enums"]["billing_cycle"]
+          deposit_amount: number
+          email: string
+          expires_at: string
+          full_name: string
+          id: string
+          landlord_name: string
+          phone: string
+          property_name: string
+          rent_amount: number
+          start_date: string
+          status: Database["public"]["Enums"]["invitation_status"]
+          unit_number: string
+        }[]
+      }
+      get_platform_ledger_summary: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          cash_balance: number
+          fee_revenue: number
+          owed_to_landlords: number
+          total_collected: number
+          total_paid_out: number
+          total_refunded: number
+        }[]
+      }
+      get_user_role: {
+        Args: { user_uuid: string }
+        Returns: Database["public"]["Enums"]["user_role"]
+      }
+      import_legacy_payouts: {
+        Args: { _payouts: Json }
+        Returns: number
+      }
+      invoke_edge_function: {
+        Args: { _body?: Json; _name: string }
+        Returns: number
+      }
+      issue_rent_increase: {
+        Args: { _amount: number; _effective_date: string; _tenancy_id: string }
+        Returns: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          effective_date: string
+          id: string
+          notice_issued_on: string | null
+          tenancy_id: string
+        }
+      }
+      late_fee_amount: {
+        Args: {
+          _charge_amount: number
+          _days_overdue: number
+          _policy: Database["public"]["Tables"]["late_fee_policies"]["Row"]
+        }
+        Returns: number
+      }
+      lease_fully_signed: {
+        Args: { _lease_document_id: string }
+        Returns: boolean
+      }
+      ledger_account_balance: {
+        Args: { _account_id: string }
+        Returns: number
+      }
+      ledger_account_id: {
+        Args: {
+          _kind: Database["public"]["Enums"]["ledger_account_kind"]
+          _owner_id?: string
+        }
+        Returns: string
+      }
+      mark_conversation_read: {
+        Args: { _conversation_id: string }
+        Returns: undefined
+      }
+      mark_notifications_read: {
+        Args: { _ids?: string[] }
+        Returns: number
+      }
+      normalize_phone: {
+        Args: { _phone: string }
+        Returns: string
+      }
+      notify_user: {
+        Args: {
+          _body?: string
+          _entity_id?: string
+          _kind: Database["public"]["Enums"]["notification_kind"]
+          _title: string
+          _user_id: string
+        }
+        Returns: string
+      }
+      offer_renewal: {
+        Args: {
+          _end_date?: string
+          _message?: string
+          _rent_amount: number
+          _tenancy_id: string
+        }
+        Returns: {
+          created_at: string | null
+          end_date: string | null
+          id: string
+          message: string | null
+          offered_by: string
+          rent_amount: number
+          responded_at: string | null
+          start_date: string
+          status: Database["public"]["Enums"]["renewal_status"]
+          successor_tenancy_id: string | null
+          tenancy_id: string
+        }
+      }
+      open_conversation: {
+        Args: { _counterpart_id?: string; _maintenance_request_id?: string }
+        Returns: string
+      }
+      post_ledger_entry: {
+        Args: {
+          _description: string
+          _entry_type: Database["public"]["Enums"]["ledger_entry_type"]
+          _lines: Json
+          _occurred_at: string
+          _reverses_entry_id?: string
+          _source_id: string
+        }
+        Returns: string
+      }
+      post_payment_to_ledger: {
+        Args: { _payment_id: string }
+        Returns: string
+      }
+      post_payout_to_ledger: {
+        Args: { _payout_id: string }
+        Returns: string
+      }
+      post_rent_charge_to_ledger: {
+        Args: { _charge_id: string }
+        Returns: string
+      }
+      queue_notification: {
+        Args: {
+          _channel: Database["public"]["Enums"]["notification_channel"]
+          _created_by?: string
+          _dedupe_key: string
+          _event: Database["public"]["Enums"]["notification_event"]
+          _landlord_id: string
+          _recipient_id: string
+          _rent_charge_id?: string
+          _tenancy_id?: string
+          _values: Json
+        }
+        Returns: string
+      }
+      queue_rent_reminders: {
+        Args: { _as_of?: string }
+        Returns: number
+      }
+      record_cash_payment: {
+        Args: { _amount: number; _payment_date?: string; _tenancy_id: string }
+        Returns: string
+      }
+      record_unposted_payment: {
+        Args: { _payment_id: string; _reason: string }
+        Returns: undefined
+      }
+      record_vendor_invoice: {
+        Args: {
+          _amount: number
+          _invoice_date?: string
+          _invoice_number?: string
+          _work_order_id: string
+        }
+        Returns: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          invoice_date: string
+          invoice_number: string | null
+          work_order_id: string
+        }
+      }
+      render_notification_template: {
+        Args: { _template: string; _values: Json }
+        Returns: string
+      }
+      request_payout: {
+        Args: { _amount: number; _phone_number: string }
+        Returns: {
+          amount: number
+          attempts: number
+          created_at: string | null
+          failure_reason: string | null
+          id: string
+          landlord_id: string
+          legacy_reference: string | null
+          next_attempt_at: string
+          phone_number: string
+          processed_at: string | null
+          provider: string | null
+          provider_reference: string | null
+          requested_at: string
+          status: Database["public"]["Enums"]["payout_status"]
+          submitted_at: string | null
+          transaction_id: string | null
+          updated_at: string | null
+        }
+      }
+      respond_to_renewal: {
+        Args: { _accept: boolean; _renewal_id: string }
+        Returns: {
+          created_at: string | null
+          end_date: string | null
+          id: string
+          message: string | null
+          offered_by: string
+          rent_amount: number
+          responded_at: string | null
+          start_date: string
+          status: Database["public"]["Enums"]["renewal_status"]
+          successor_tenancy_id: string | null
+          tenancy_id: string
+        }
+      }
+      retry_deposit_refund: {
+        Args: { _payout_id: string; _phone_number?: string }
+        Returns: {
+          amount: number
+          attempts: number
+          created_at: string | null
+          deposit_settlement_id: string | null
+          failure_reason: string | null
+          id: string
+          kind: Database["public"]["Enums"]["payout_kind"]
+          landlord_id: string
+          legacy_reference: string | null
+          next_attempt_at: string
+          phone_number: string
+          processed_at: string | null
+          provider: string | null
+          provider_reference: string | null
+          requested_at: string
+          status: Database["public"]["Enums"]["payout_status"]
+          submitted_at: string | null
+          tenant_id: string | null
+          transaction_id: string | null
+          updated_at: string | null
+        }
+      }
+      reverse_ledger_entry: {
+        Args: {
+          _description: string
+          _entry_id: string
+          _entry_type: Database["public"]["Enums"]["ledger_entry_type"]
+          _source_id: string
+        }
+        Returns: string
+      }
+      revoke_invitation: {
+        Args: { _invitation_id: string }
+        Returns: {
+          accepted_at: string | null
+          accepted_by: string | null
+          billing_cycle: Database["public"]["Enums"]["billing_cycle"]
+          billing_day: number
+          created_at: string | null
+          deposit_amount: number
+          email: string | null
+          end_date: string | null
+          expires_at: string
+          full_name: string
+          id: string
+          landlord_id: string
+          phone: string | null
+          rent_amount: number
+          start_date: string
+          status: Database["public"]["Enums"]["invitation_status"]
+          tenancy_id: string | null
+          token: string
+          unit_id: string
+        }
+      }
+      send_message: {
+        Args: { _attachments?: Json; _body: string; _conversation_id: string }
+        Returns: string
+      }
+      send_rent_reminder: {
+        Args: { _tenancy_id: string }
+        Returns: string[]
+      }
+      settle_deposit: {
+        Args: {
+          _deductions?: Json
+          _move_out_date: string
+          _notes?: string
+          _tenancy_id: string
+        }
+        Returns: {
+          created_at: string | null
+          deposit_held: number
+          id: string
+          move_out_date: string
+          notes: string | null
+          refund_amount: number
+          settled_by: string | null
+          tenancy_id: string
+          total_deductions: number
+        }
+      }
+      tenancy_deposit_held: {
+        Args: { _tenancy_id: string }
+        Returns: number
+      }
+      tenancy_rent_on: {
+        Args: { _date: string; _tenancy_id: string }
+        Returns: number
+      }
+      unit_is_occupied: {
+        Args: { _unit_id: string }
+        Returns: boolean
+      }
+      update_maintenance_request: {
+        Args: {
+          _assignee?: string
+          _note?: string
+          _priority?: Database["public"]["Enums"]["maintenance_priority"]
+          _request_id: string
+          _scheduled_for?: string
+          _status?: Database["public"]["Enums"]["maintenance_status"]
+        }
+        Returns: {
+          assignee: string | null
+          category: Database["public"]["Enums"]["maintenance_category"]
+          created_at: string | null
+          description: string
+          id: string
+          priority: Database["public"]["Enums"]["maintenance_priority"]
+          resolved_at: string | null
+          scheduled_for: string | null
+          status: Database["public"]["Enums"]["maintenance_status"]
+          tenant_id: string | null
+          title: string
+          unit_id: string | null
+          updated_at: string | null
+        }
+      }
+      withdraw_renewal: {
+        Args: { _renewal_id: string }
+        Returns: {
+          created_at: string | null
+          end_date: string | null
+          id: string
+          message: string | null
+          offered_by: string
+          rent_amount: number
+          responded_at: string | null
+          start_date: string
+          status: Database["public"]["Enums"]["renewal_status"]
+          successor_tenancy_id: string | null
+          tenancy_id: string
+        }
       }
     }
     Enums: {
+      activity_type: "payment" | "maintenance" | "join_request" | "document" | "message"
+      billing_cycle: "weekly" | "monthly" | "quarterly"
+      deposit_deduction_type: "unpaid_rent" | "damages" | "cleaning" | "other"
+      expense_category: "repairs_maintenance" | "utilities" | "security" | "cleaning" | "insurance" | "taxes" | "management" | "supplies" | "other"
+      invitation_status: "pending" | "accepted" | "revoked"
       join_request_status: "pending" | "approved" | "rejected"
+      late_fee_type: "flat" | "percentage"
+      lease_signature_type: "typed" | "drawn"
+      lease_signer_role: "tenant" | "landlord"
+      ledger_account_kind: "tenant_receivable" | "landlord_accrued" | "landlord_payable" | "platform_cash" | "platform_revenue" | "deposits_held"
+      ledger_entry_type: "rent_charge" | "payment" | "payment_refund" | "payout" | "adjustment" | "late_fee" | "deposit_settlement" | "deposit_refund"
+      maintenance_attachment_kind: "report" | "resolution"
+      maintenance_category: "plumbing" | "electrical" | "hvac" | "appliances" | "structural" | "pest_control" | "locks_security" | "cleaning" | "other"
+      maintenance_priority: "low" | "medium" | "high" | "emergency"
+      maintenance_status: "submitted" | "acknowledged" | "scheduled" | "in_progress" | "resolved" | "closed"
+      notification_channel: "sms" | "email"
+      notification_event: "rent_due_soon" | "rent_overdue" | "rent_reminder" | "announcement"
+      notification_kind: "join_request_submitted" | "join_request_approved" | "join_request_rejected" | "payment_completed" | "payment_failed" | "maintenance_status_changed" | "payout_completed" | "payout_failed" | "message_received" | "announcement_published"
+      notification_status: "pending" | "sending" | "sent" | "failed"
+      payment_type: "rent" | "deposit"
+      payout_kind: "landlord_payout" | "deposit_refund"
+      payout_status: "pending" | "processing" | "completed" | "failed"
+      renewal_status: "offered" | "accepted" | "declined" | "withdrawn" | "lapsed"
+      rent_charge_type: "rent" | "late_fee"
       user_role: "tenant" | "landlord" | "admin"
+      work_order_status: "open" | "completed" | "cancelled"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -533,8 +3114,32 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      activity_type: ["payment", "maintenance", "join_request", "document", "message"],
+      billing_cycle: ["weekly", "monthly", "quarterly"],
+      deposit_deduction_type: ["unpaid_rent", "damages", "cleaning", "other"],
+      expense_category: ["repairs_maintenance", "utilities", "security", "cleaning", "insurance", "taxes", "management", "supplies", "other"],
+      invitation_status: ["pending", "accepted", "revoked"],
       join_request_status: ["pending", "approved", "rejected"],
+      late_fee_type: ["flat", "percentage"],
+      lease_signature_type: ["typed", "drawn"],
+      lease_signer_role: ["tenant", "landlord"],
+      ledger_account_kind: ["tenant_receivable", "landlord_accrued", "landlord_payable", "platform_cash", "platform_revenue", "deposits_held"],
+      ledger_entry_type: ["rent_charge", "payment", "payment_refund", "payout", "adjustment", "late_fee", "deposit_settlement", "deposit_refund"],
+      maintenance_attachment_kind: ["report", "resolution"],
+      maintenance_category: ["plumbing", "electrical", "hvac", "appliances", "structural", "pest_control", "locks_security", "cleaning", "other"],
+      maintenance_priority: ["low", "medium", "high", "emergency"],
+      maintenance_status: ["submitted", "acknowledged", "scheduled", "in_progress", "resolved", "closed"],
+      notification_channel: ["sms", "email"],
+      notification_event: ["rent_due_soon", "rent_overdue", "rent_reminder", "announcement"],
+      notification_kind: ["join_request_submitted", "join_request_approved", "join_request_rejected", "payment_completed", "payment_failed", "maintenance_status_changed", "payout_completed", "payout_failed", "message_received", "announcement_published"],
+      notification_status: ["pending", "sending", "sent", "failed"],
+      payment_type: ["rent", "deposit"],
+      payout_kind: ["landlord_payout", "deposit_refund"],
+      payout_status: ["pending", "processing", "completed", "failed"],
+      renewal_status: ["offered", "accepted", "declined", "withdrawn", "lapsed"],
+      rent_charge_type: ["rent", "late_fee"],
       user_role: ["tenant", "landlord", "admin"],
+      work_order_status: ["open", "completed", "cancelled"],
     },
   },
 } as const
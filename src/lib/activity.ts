@@ -0,0 +1,61 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// The activity stream: payments, maintenance updates, join requests, lease
+// documents and messages that concern the user, in one feed. Database
+// triggers record each event for everyone involved; the app reads them a page
+// at a time, newest first.
+
+export type ActivityType = 'payment' | 'maintenance' | 'join_request' | 'document' | 'message';
+
+export type ActivityStatus = 'completed' | 'pending' | 'failed';
+
+export interface ActivityEvent {
+  id: string;
+  type: ActivityType;
+  title: string;
+  description: string | null;
+  status: string | null;
+  amount: number | null;
+  entity_id: string | null;
+  occurred_at: string;
+}
+
+// Where the next page starts: the last event of the page before it
+export interface ActivityCursor {
+  occurredAt: string;
+  id: string;
+}
+
+export const ACTIVITY_PAGE_SIZE = 20;
+
+export const activityTypeLabels: Record<ActivityType, string> = {
+  payment: 'Payments',
+  maintenance: 'Maintenance',
+  join_request: 'Join requests',
+  document: 'Documents',
+  message: 'Messages',
+};
+
+// Fetches one page of the user's activity, optionally of some types only.
+// nextCursor is null once there is nothing older.
+export const fetchActivity = async (
+  options: { types?: ActivityType[]; cursor?: ActivityCursor | null; limit?: number } = {}
+) => {
+  const limit = options.limit ?? ACTIVITY_PAGE_SIZE;
+
+  // One extra row tells whether another page follows
+  const { data, error } = await supabase.rpc('get_my_activity', {
+    _types: options.types && options.types.length > 0 ? options.types : undefined,
+    _before: options.cursor?.occurredAt,
+    _before_id: options.cursor?.id,
+    _limit: limit + 1,
+  });
+  if (error) throw error;
+
+  const events: ActivityEvent[] = (data || []).slice(0, limit);
+  const last = events[events.length - 1];
+  const nextCursor: ActivityCursor | null =
+    (data || []).length > limit && last ? { occurredAt: last.occurred_at, id: last.id } : null;
+
+  return { events, nextCursor };
+};
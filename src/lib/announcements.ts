@@ -0,0 +1,93 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { NotificationChannel } from '@/lib/notifications';
+
+// Property announcements. Landlords write them against a property, for every
+// tenant or only some units; the database publishes them at publish_at,
+// records who they reached in announcement_recipients and queues any SMS or
+// email copies. Tenants see theirs pinned on the dashboard and acknowledge
+// them there.
+
+export interface AnnouncementRecipient {
+  tenant_id: string;
+  unit_number: string | null;
+  acknowledged_at: string | null;
+}
+
+export interface Announcement {
+  id: string;
+  property_id: string;
+  title: string;
+  body: string;
+  // Null for every unit of the property
+  unit_ids: string[] | null;
+  channels: NotificationChannel[];
+  publish_at: string;
+  published_at: string | null;
+  expires_at: string | null;
+  created_at: string | null;
+  announcement_recipients: AnnouncementRecipient[];
+}
+
+// What a tenant sees, from get_my_announcements()
+export interface PinnedAnnouncement {
+  id: string;
+  property_name: string;
+  title: string;
+  body: string;
+  published_at: string;
+  expires_at: string | null;
+  acknowledged_at: string | null;
+}
+
+export type AnnouncementStatus = 'scheduled' | 'published' | 'expired';
+
+// Both enforced again by the table's checks
+export const MAX_ANNOUNCEMENT_TITLE = 120;
+export const MAX_ANNOUNCEMENT_BODY = 2000;
+
+export const announcementStatusLabels: Record<AnnouncementStatus, string> = {
+  scheduled: 'Scheduled',
+  published: 'Published',
+  expired: 'Expired',
+};
+
+export const announcementStatus = (announcement: Announcement, now = new Date()): AnnouncementStatus => {
+  if (!announcement.published_at) return 'scheduled';
+  if (announcement.expires_at && new Date(announcement.expires_at) <= now) return 'expired';
+  return 'published';
+};
+
+export const describeAudience = (announcement: Announcement, units: { id: string; unit_number: string }[]) => {
+  if (!announcement.unit_ids) return 'All tenants';
+
+  const numbers = announcement.unit_ids
+    .map((id) => units.find((unit) => unit.id === id)?.unit_number)
+    .filter(Boolean);
+  return numbers.length > 0 ? `Unit${numbers.length === 1 ? '' : 's'} ${numbers.join(', ')}` : 'Selected units';
+};
+
+// Sends the SMS and email copies of a just-published announcement straight
+// away. If the send fails they stay queued, and the scheduled send-notifications
+// run picks them up within a minute.
+export const sendAnnouncementNotifications = async (announcementId: string) => {
+  const { data, error } = await supabase
+    .from('notification_deliveries')
+    .select('id')
+    .eq('announcement_id', announcementId)
+    .eq('status', 'pending');
+  if (error) throw error;
+
+  const deliveryIds = (data || []).map((delivery) => delivery.id);
+  if (deliveryIds.length === 0) return { deliveryIds, sentNow: true };
+
+  const { error: sendError } = await supabase.functions.invoke('send-notifications', {
+    body: { delivery_ids: deliveryIds },
+  });
+
+  return { deliveryIds, sentNow: !sendError };
+};
+
+export const acknowledgeAnnouncement = async (announcementId: string) => {
+  const { error } = await supabase.rpc('acknowledge_announcement', { _announcement_id: announcementId });
+  if (error) throw error;
+};
@@ -0,0 +1,97 @@
+// Security deposits. A deposit is paid as a payment with payment_type
+// 'deposit' and held until move-out, when settle_deposit() deducts unpaid rent
+// and any itemized charges and refunds the rest as a payout to the tenant.
+// planDepositSettlement() mirrors its arithmetic so the landlord sees the
+// refund before settling.
+
+import { roundCurrency } from '@/lib/rentCharges';
+
+export type PaymentType = 'rent' | 'deposit';
+export type DepositDeductionType = 'unpaid_rent' | 'damages' | 'cleaning' | 'other';
+
+export interface DepositPayment {
+  amount: number;
+  status: string | null;
+  payment_type: PaymentType;
+}
+
+export interface DepositDeduction {
+  deduction_type: DepositDeductionType;
+  description: string;
+  amount: number;
+}
+
+// The payout that sends the refund to the tenant's MTN MoMo number
+export interface DepositRefund {
+  id: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  phone_number: string;
+  failure_reason: string | null;
+}
+
+export interface DepositSettlement {
+  id: string;
+  tenancy_id: string;
+  move_out_date: string;
+  deposit_held: number;
+  total_deductions: number;
+  refund_amount: number;
+  notes: string | null;
+  created_at: string | null;
+  deposit_deductions?: DepositDeduction[];
+  payouts?: DepositRefund | null;
+}
+
+export interface DepositSettlementPlan {
+  // Unpaid rent covered by the deposit
+  rentDeduction: number;
+  otherDeductions: number;
+  totalDeductions: number;
+  refund: number;
+  // Set when the deductions are more than the deposit held
+  error: string | null;
+}
+
+export const depositDeductionTypeLabels: Record<DepositDeductionType, string> = {
+  unpaid_rent: 'Unpaid rent',
+  damages: 'Damages',
+  cleaning: 'Cleaning',
+  other: 'Other',
+};
+
+export const isRentPayment = (payment: { payment_type?: PaymentType | null }) =>
+  (payment.payment_type ?? 'rent') === 'rent';
+
+// Completed deposit payments, as tenancy_deposit_held() counts them
+export const depositPaid = (payments: DepositPayment[]): number =>
+  roundCurrency(
+    payments
+      .filter((p) => p.payment_type === 'deposit' && p.status === 'completed')
+      .reduce((sum, p) => sum + Number(p.amount), 0)
+  );
+
+export const depositOutstanding = (depositAmount: number, payments: DepositPayment[]): number =>
+  Math.max(0, roundCurrency(Number(depositAmount) - depositPaid(payments)));
+
+export const planDepositSettlement = (
+  held: number,
+  unpaidRent: number,
+  deductions: Pick<DepositDeduction, 'amount'>[]
+): DepositSettlementPlan => {
+  const rentDeduction = roundCurrency(Math.min(held, Math.max(0, unpaidRent)));
+  const otherDeductions = roundCurrency(
+    deductions.reduce((sum, d) => sum + roundCurrency(Number(d.amount) || 0), 0)
+  );
+  const totalDeductions = roundCurrency(rentDeduction + otherDeductions);
+
+  return {
+    rentDeduction,
+    otherDeductions,
+    totalDeductions,
+    refund: Math.max(0, roundCurrency(held - totalDeductions)),
+    error:
+      totalDeductions > held
+        ? `Deductions of $${totalDeductions.toLocaleString()} are more than the $${Number(held).toLocaleString()} deposit held`
+        : null,
+  };
+};
@@ -0,0 +1,13 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+// supabase.functions.invoke() reports a non-2xx response as a FunctionsHttpError
+// with data set to null, so the { error } body our edge functions send back is
+// only available from the response itself. Returns an error carrying that
+// message, or the original error when there is none.
+export const edgeFunctionError = async (error: Error): Promise<Error> => {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (body?.error) return new Error(body.error);
+  }
+  return error;
+};
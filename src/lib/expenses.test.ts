@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseExpensesCsv } from '@/lib/expenses';
+
+// The client needs a browser's localStorage and the parser never touches it
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const properties = [
+  { id: 'property-1', name: 'Sunrise Apartments' },
+  { id: 'property-2', name: 'Lakeview Court' },
+];
+
+const csv = (...lines: string[]) => ['date,property,category,description,amount', ...lines].join('\n');
+
+describe('parseExpensesCsv', () => {
+  it('reads rows matching properties and categories by name', () => {
+    const result = parseExpensesCsv(
+      csv('2025-03-04,sunrise apartments,Repairs & Maintenance,Fixed the gate,120', '2025-03-05,Lakeview Court,,,15.5'),
+      properties
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.rows).toEqual([
+      {
+        row: 1,
+        property_id: 'property-1',
+        propertyName: 'Sunrise Apartments',
+        expense_date: '2025-03-04',
+        category: 'repairs_maintenance',
+        description: 'Fixed the gate',
+        amount: 120,
+      },
+      {
+        row: 2,
+        property_id: 'property-2',
+        propertyName: 'Lakeview Court',
+        expense_date: '2025-03-05',
+        category: 'other',
+        description: null,
+        amount: 15.5,
+      },
+    ]);
+  });
+
+  it('rejects dates that do not exist on the calendar', () => {
+    const result = parseExpensesCsv(
+      csv('2025-02-30,Sunrise Apartments,Utilities,,50', '2025-13-01,Sunrise Apartments,Utilities,,50', '2024-02-29,Sunrise Apartments,Utilities,,50'),
+      properties
+    );
+
+    expect(result.errors).toEqual([
+      'Row 1: date "2025-02-30" is not a valid YYYY-MM-DD date',
+      'Row 2: date "2025-13-01" is not a valid YYYY-MM-DD date',
+    ]);
+    expect(result.rows.map((row) => row.expense_date)).toEqual(['2024-02-29']);
+  });
+
+  it('rejects dates in other formats', () => {
+    const result = parseExpensesCsv(csv('04/03/2025,Sunrise Apartments,Utilities,,50'), properties);
+
+    expect(result.errors).toEqual(['Row 1: date "04/03/2025" is not a valid YYYY-MM-DD date']);
+  });
+
+  it('reads amounts written with currency signs and thousands separators', () => {
+    const result = parseExpensesCsv(csv('2025-03-04,Sunrise Apartments,Insurance,," $1,250.50 "'), properties);
+
+    expect(result.errors).toEqual([]);
+    expect(result.rows[0].amount).toBe(1250.5);
+  });
+
+  it('rejects amounts that are not positive numbers', () => {
+    const result = parseExpensesCsv(
+      csv('2025-03-04,Sunrise Apartments,Utilities,,0', '2025-03-04,Sunrise Apartments,Utilities,,-20', '2025-03-04,Sunrise Apartments,Utilities,,abc'),
+      properties
+    );
+
+    expect(result.errors).toEqual([
+      'Row 1: amount "0" is not a positive number',
+      'Row 2: amount "-20" is not a positive number',
+      'Row 3: amount "abc" is not a positive number',
+    ]);
+    expect(result.rows).toEqual([]);
+  });
+
+  it('reports every problem with a row together', () => {
+    const result = parseExpensesCsv(csv('2025-02-29,Nowhere,Gardening,,free'), properties);
+
+    expect(result.errors).toEqual([
+      'Row 1: date "2025-02-29" is not a valid YYYY-MM-DD date; no property named "Nowhere"; unknown category "Gardening"; amount "free" is not a positive number',
+    ]);
+  });
+
+  it('reports missing columns', () => {
+    expect(parseExpensesCsv('date,amount\n2025-03-04,10', properties).errors).toEqual(['Missing column: property']);
+  });
+});
@@ -0,0 +1,234 @@
+import { supabase } from '@/integrations/supabase/client';
+import { parseDate, roundCurrency, toDateString, type BillingCycle } from '@/lib/rentCharges';
+
+// Property expenses. Most are entered by the landlord; some are posted by the
+// database from a recurring expense or a vendor invoice, and invoice expenses
+// can only be recategorized. Receipts are kept in the private expense-receipts
+// bucket under the property id.
+
+const RECEIPT_BUCKET = 'expense-receipts';
+
+export type ExpenseCategory =
+  | 'repairs_maintenance'
+  | 'utilities'
+  | 'security'
+  | 'cleaning'
+  | 'insurance'
+  | 'taxes'
+  | 'management'
+  | 'supplies'
+  | 'other';
+
+export interface Expense {
+  id: string;
+  property_id: string | null;
+  category: ExpenseCategory;
+  description: string | null;
+  amount: number;
+  expense_date: string;
+  receipt_path: string | null;
+  receipt_name: string | null;
+  recurring_expense_id: string | null;
+  vendor_invoice_id: string | null;
+}
+
+export interface RecurringExpense {
+  id: string;
+  property_id: string;
+  category: ExpenseCategory;
+  description: string;
+  amount: number;
+  billing_cycle: BillingCycle;
+  start_date: string;
+  end_date: string | null;
+  next_due_date: string;
+  active: boolean;
+}
+
+export const expenseCategoryLabels: Record<ExpenseCategory, string> = {
+  repairs_maintenance: 'Repairs & Maintenance',
+  utilities: 'Utilities',
+  security: 'Security',
+  cleaning: 'Cleaning',
+  insurance: 'Insurance',
+  taxes: 'Taxes & Fees',
+  management: 'Management',
+  supplies: 'Supplies',
+  other: 'Other',
+};
+
+export const RECEIPT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+// Matches the bucket's file_size_limit
+export const MAX_RECEIPT_BYTES = 10 * 1024 * 1024;
+
+export const validateReceipt = (file: File): string | null => {
+  if (!RECEIPT_TYPES.includes(file.type)) return 'Receipts must be a photo (JPEG, PNG, WebP) or a PDF';
+  if (file.size > MAX_RECEIPT_BYTES) return 'Receipts must be 10 MB or smaller';
+  return null;
+};
+
+export const uploadReceipt = async (propertyId: string, file: File) => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || file.type.split('/')[1];
+  const path = `${propertyId}/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage.from(RECEIPT_BUCKET).upload(path, file, { contentType: file.type });
+  if (error) throw error;
+
+  return path;
+};
+
+export const removeReceipt = async (path: string) => {
+  const { error } = await supabase.storage.from(RECEIPT_BUCKET).remove([path]);
+  if (error) throw error;
+};
+
+// Opens in a new tab; the link is only valid for a few minutes
+export const receiptUrl = async (path: string) => {
+  const { data, error } = await supabase.storage.from(RECEIPT_BUCKET).createSignedUrl(path, 5 * 60);
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+export const totalsByCategory = (expenses: Pick<Expense, 'category' | 'amount'>[]) =>
+  expenses.reduce<Partial<Record<ExpenseCategory, number>>>((totals, expense) => {
+    totals[expense.category] = (totals[expense.category] ?? 0) + Number(expense.amount);
+    return totals;
+  }, {});
+
+// CSV import. The header row names the columns, in any order:
+//   date (YYYY-MM-DD), property (its name), amount, and optionally category
+//   (a label or key, "Other" when blank) and description.
+
+export const EXPENSE_CSV_TEMPLATE =
+  'date,property,category,description,amount\n2025-01-31,Sunset Apartments,Utilities,Water bill,120.50\n';
+
+export interface ExpenseImportRow {
+  // Position among the data rows, counting from 1 below the header
+  row: number;
+  property_id: string;
+  propertyName: string;
+  expense_date: string;
+  category: ExpenseCategory;
+  description: string | null;
+  amount: number;
+}
+
+export interface ExpenseImportResult {
+  rows: ExpenseImportRow[];
+  errors: string[];
+}
+
+// Splits CSV text into rows of fields, honouring quoted fields with commas,
+// doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''));
+};
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const categoryFor = (value: string): ExpenseCategory | null => {
+  const wanted = normalize(value);
+  if (!wanted) return 'other';
+
+  const match = (Object.keys(expenseCategoryLabels) as ExpenseCategory[]).find(
+    (category) => normalize(category) === wanted || normalize(expenseCategoryLabels[category]) === wanted
+  );
+  return match ?? null;
+};
+
+// Dates such as 2025-02-30 roll over to the next month when parsed, so the
+// parsed date has to come back as the same string
+const isValidDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && toDateString(parseDate(value)) === value;
+
+export const parseExpensesCsv = (
+  text: string,
+  properties: { id: string; name: string }[]
+): ExpenseImportResult => {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return { rows: [], errors: ['The file is empty'] };
+
+  const columns = header.map(normalize);
+  const column = (name: string) => columns.indexOf(name);
+  const missing = ['date', 'property', 'amount'].filter((name) => column(name) === -1);
+  if (missing.length > 0) {
+    return { rows: [], errors: [`Missing column${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}`] };
+  }
+
+  const rows: ExpenseImportRow[] = [];
+  const errors: string[] = [];
+
+  records.forEach((fields, index) => {
+    const row = index + 1;
+    const value = (name: string) => (column(name) === -1 ? '' : (fields[column(name)] ?? '').trim());
+
+    const date = value('date');
+    const propertyName = value('property');
+    const property = properties.find((p) => normalize(p.name) === normalize(propertyName));
+    const category = categoryFor(value('category'));
+    const amount = Number(value('amount').replace(/[$,\s]/g, ''));
+
+    const problems = [
+      !isValidDate(date) && `date "${date}" is not a valid YYYY-MM-DD date`,
+      !property && `no property named "${propertyName}"`,
+      !category && `unknown category "${value('category')}"`,
+      !(amount > 0) && `amount "${value('amount')}" is not a positive number`,
+    ].filter(Boolean);
+
+    if (problems.length > 0) {
+      errors.push(`Row ${row}: ${problems.join('; ')}`);
+      return;
+    }
+
+    rows.push({
+      row,
+      property_id: property.id,
+      propertyName: property.name,
+      expense_date: date,
+      category,
+      description: value('description') || null,
+      amount: roundCurrency(amount),
+    });
+  });
+
+  return { rows, errors };
+};
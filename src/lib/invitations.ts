@@ -0,0 +1,80 @@
+// Tenant invitations. A landlord invites a tenant by email or phone with the
+// terms of their tenancy; the tenant accepts through the invite link, either by
+// signing up with it or from their existing account, and accept_invitation()
+// creates the tenancy. For an email invitation the account must have verified
+// that email (or the invited phone); a phone-only invitation is accepted on its
+// link alone. Invitations expire, but stay 'pending' in the database, so the
+// displayed state is derived here.
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked';
+export type InvitationState = InvitationStatus | 'expired';
+
+export interface Invitation {
+  id: string;
+  unit_id: string;
+  email: string | null;
+  phone: string | null;
+  full_name: string;
+  rent_amount: number;
+  deposit_amount: number;
+  start_date: string;
+  token: string;
+  status: InvitationStatus;
+  expires_at: string;
+  created_at: string | null;
+}
+
+// What get_invitation() shows an invitee before they have an account
+export interface InvitationPreview {
+  id: string;
+  token: string;
+  email: string | null;
+  phone: string | null;
+  full_name: string;
+  status: InvitationStatus;
+  expires_at: string;
+  rent_amount: number;
+  deposit_amount: number;
+  start_date: string;
+  unit_number: string;
+  property_name: string;
+  landlord_name: string | null;
+}
+
+// An invitation get_my_invitations() found for the tenant's verified email or
+// phone. It has no token: accepting still takes the invite link.
+export type MyInvitation = Omit<InvitationPreview, 'token'>;
+
+export const INVITE_PARAM = 'invite';
+
+export const invitationState = (
+  invitation: Pick<Invitation, 'status' | 'expires_at'>,
+  now = new Date()
+): InvitationState =>
+  invitation.status === 'pending' && new Date(invitation.expires_at) <= now ? 'expired' : invitation.status;
+
+export const invitationStateLabels: Record<InvitationState, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  revoked: 'Revoked',
+  expired: 'Expired',
+};
+
+export const inviteLink = (token: string) =>
+  `${window.location.origin}/auth?${INVITE_PARAM}=${encodeURIComponent(token)}`;
+
+export const inviteMessage = (invitation: Pick<Invitation, 'full_name' | 'token'>, propertyName: string) =>
+  `Hi ${invitation.full_name}, you've been invited to rent at ${propertyName}. ` +
+  `Accept your invitation here: ${inviteLink(invitation.token)}`;
+
+// mailto: or sms: link that opens the invitation in the landlord's own app
+export const invitationShareUrl = (
+  invitation: Pick<Invitation, 'full_name' | 'token' | 'email' | 'phone'>,
+  propertyName: string,
+  channel: 'email' | 'sms'
+) => {
+  const message = encodeURIComponent(inviteMessage(invitation, propertyName));
+  return channel === 'email'
+    ? `mailto:${invitation.email}?subject=${encodeURIComponent('Your tenancy invitation')}&body=${message}`
+    : `sms:${invitation.phone}?body=${message}`;
+};
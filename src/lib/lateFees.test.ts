@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { lateFeeForCharge, upcomingLateFee, unpaidLateFees, validateLateFeePolicy, type LateFeePolicy } from '@/lib/lateFees';
+import { toDateString, type RentChargeBalance } from '@/lib/rentCharges';
+
+const flatPolicy: LateFeePolicy = {
+  enabled: true,
+  grace_days: 5,
+  fee_type: 'flat',
+  initial_fee: 50,
+  daily_fee: 5,
+  max_fee: 100,
+};
+
+const percentagePolicy: LateFeePolicy = {
+  enabled: true,
+  grace_days: 3,
+  fee_type: 'percentage',
+  initial_fee: 5,
+  daily_fee: 1,
+  max_fee: 10,
+};
+
+const charge = (overrides: Partial<RentChargeBalance>): RentChargeBalance => ({
+  id: 'charge-1',
+  tenancy_id: 'tenancy-1',
+  charge_type: 'rent',
+  period_start: '2025-03-01',
+  period_end: '2025-03-31',
+  due_date: '2025-03-01',
+  amount: 1000,
+  amount_paid: 0,
+  balance: 1000,
+  description: 'Rent for March 2025',
+  ...overrides,
+});
+
+describe('lateFeeForCharge', () => {
+  it('charges nothing within the grace period', () => {
+    expect(lateFeeForCharge(flatPolicy, 1000, 0)).toBe(0);
+    expect(lateFeeForCharge(flatPolicy, 1000, 5)).toBe(0);
+  });
+
+  it('charges the initial fee on the first day after the grace period', () => {
+    expect(lateFeeForCharge(flatPolicy, 1000, 6)).toBe(50);
+  });
+
+  it('adds the daily fee for every further day', () => {
+    expect(lateFeeForCharge(flatPolicy, 1000, 8)).toBe(60);
+  });
+
+  it('stops at the cap', () => {
+    expect(lateFeeForCharge(flatPolicy, 1000, 15)).toBe(95);
+    expect(lateFeeForCharge(flatPolicy, 1000, 16)).toBe(100);
+    expect(lateFeeForCharge(flatPolicy, 1000, 100)).toBe(100);
+  });
+
+  it('has no cap when max_fee is null', () => {
+    expect(lateFeeForCharge({ ...flatPolicy, max_fee: null }, 1000, 40)).toBe(220);
+  });
+
+  it('charges from the day after the due date with no grace period', () => {
+    const policy = { ...flatPolicy, grace_days: 0 };
+    expect(lateFeeForCharge(policy, 1000, 0)).toBe(0);
+    expect(lateFeeForCharge(policy, 1000, 1)).toBe(50);
+  });
+
+  it('charges nothing when the policy is disabled', () => {
+    expect(lateFeeForCharge({ ...flatPolicy, enabled: false }, 1000, 30)).toBe(0);
+  });
+
+  it('takes percentages of the rent charge, capping the percentage', () => {
+    expect(lateFeeForCharge(percentagePolicy, 1000, 3)).toBe(0);
+    expect(lateFeeForCharge(percentagePolicy, 1000, 4)).toBe(50);
+    expect(lateFeeForCharge(percentagePolicy, 1000, 6)).toBe(70);
+    expect(lateFeeForCharge(percentagePolicy, 1000, 30)).toBe(100);
+  });
+
+  it('rounds percentage fees to cents', () => {
+    expect(lateFeeForCharge({ ...percentagePolicy, initial_fee: 7 }, 999.99, 4)).toBe(70);
+    expect(lateFeeForCharge({ ...percentagePolicy, max_fee: null }, 333.33, 4)).toBe(16.67);
+  });
+});
+
+describe('upcomingLateFee', () => {
+  it('warns about the fee while the oldest unpaid charge is in its grace period', () => {
+    const upcoming = upcomingLateFee([charge({})], flatPolicy, new Date(2025, 2, 3));
+
+    expect(upcoming).not.toBeNull();
+    expect(upcoming?.chargeId).toBe('charge-1');
+    expect(upcoming?.amount).toBe(50);
+    expect(toDateString(upcoming!.startsOn)).toBe('2025-03-07');
+  });
+
+  it('uses the oldest unpaid rent charge', () => {
+    const charges = [
+      charge({ id: 'april', due_date: '2025-04-01', period_start: '2025-04-01', period_end: '2025-04-30' }),
+      charge({ id: 'march-paid', amount_paid: 1000, balance: 0 }),
+      charge({ id: 'fee', charge_type: 'late_fee', due_date: '2025-03-20', amount: 50, balance: 50 }),
+    ];
+
+    expect(upcomingLateFee(charges, flatPolicy, new Date(2025, 3, 2))?.chargeId).toBe('april');
+  });
+
+  it('is null once fees are accruing, or when nothing is owed or charged', () => {
+    expect(upcomingLateFee([charge({})], flatPolicy, new Date(2025, 2, 7))).toBeNull();
+    expect(upcomingLateFee([charge({ amount_paid: 1000, balance: 0 })], flatPolicy, new Date(2025, 2, 3))).toBeNull();
+    expect(upcomingLateFee([charge({})], null, new Date(2025, 2, 3))).toBeNull();
+    expect(upcomingLateFee([charge({})], { ...flatPolicy, initial_fee: 0, daily_fee: 0 }, new Date(2025, 2, 3))).toBeNull();
+  });
+});
+
+describe('unpaidLateFees', () => {
+  it('adds up what is left on late fees only', () => {
+    const charges = [
+      charge({}),
+      charge({ id: 'fee-1', charge_type: 'late_fee', amount: 50, amount_paid: 20, balance: 30 }),
+      charge({ id: 'fee-2', charge_type: 'late_fee', amount: 10, amount_paid: 10, balance: 0 }),
+    ];
+
+    expect(unpaidLateFees(charges)).toBe(30);
+  });
+});
+
+describe('validateLateFeePolicy', () => {
+  it('accepts a sensible policy', () => {
+    expect(validateLateFeePolicy(flatPolicy)).toBeNull();
+    expect(validateLateFeePolicy(percentagePolicy)).toBeNull();
+  });
+
+  it('rejects policies that cannot be charged', () => {
+    expect(validateLateFeePolicy({ ...flatPolicy, grace_days: 61 })).toMatch(/Grace period/);
+    expect(validateLateFeePolicy({ ...flatPolicy, grace_days: 1.5 })).toMatch(/Grace period/);
+    expect(validateLateFeePolicy({ ...flatPolicy, daily_fee: -1 })).toBe('Fees cannot be negative');
+    expect(validateLateFeePolicy({ ...flatPolicy, initial_fee: 0, daily_fee: 0 })).toMatch(/initial fee/);
+    expect(validateLateFeePolicy({ ...flatPolicy, max_fee: 0 })).toMatch(/Maximum fee/);
+    expect(validateLateFeePolicy({ ...percentagePolicy, max_fee: 150 })).toMatch(/100/);
+  });
+});
@@ -0,0 +1,156 @@
+// Late-fee rules for a property's late_fee_policies row. Fees are charged in the
+// database by assess_late_fees(), whose late_fee_amount() mirrors
+// lateFeeForCharge() below; the rest is what the app needs to explain a policy
+// and warn tenants before a fee is charged.
+
+import {
+  addDays,
+  daysBetween,
+  isUnpaid,
+  parseDate,
+  roundCurrency,
+  sortByDueDate,
+  startOfDay,
+  type RentChargeBalance,
+} from '@/lib/rentCharges';
+
+export type LateFeeType = 'flat' | 'percentage';
+
+export interface LateFeePolicy {
+  enabled: boolean;
+  // Days after the due date before any fee is charged
+  grace_days: number;
+  // Whether the fees below are amounts or percentages of the overdue rent charge
+  fee_type: LateFeeType;
+  // Charged on the first day after the grace period
+  initial_fee: number;
+  // Charged for every further day the rent charge stays unpaid
+  daily_fee: number;
+  // Most that can be charged on one rent charge; null means no cap
+  max_fee: number | null;
+}
+
+export interface UpcomingLateFee {
+  chargeId: string;
+  // First day the fee is charged if the rent is still unpaid
+  startsOn: Date;
+  amount: number;
+}
+
+export const MAX_GRACE_DAYS = 60;
+
+export const defaultLateFeePolicy: LateFeePolicy = {
+  enabled: true,
+  grace_days: 5,
+  fee_type: 'flat',
+  initial_fee: 0,
+  daily_fee: 0,
+  max_fee: null,
+};
+
+export const lateFeeTypeLabels: Record<LateFeeType, string> = {
+  flat: 'Fixed amount',
+  percentage: 'Percentage of rent',
+};
+
+// Total late fee owed on a rent charge of chargeAmount that is daysOverdue days
+// past its due date
+export const lateFeeForCharge = (
+  policy: LateFeePolicy,
+  chargeAmount: number,
+  daysOverdue: number
+): number => {
+  if (!policy.enabled || daysOverdue <= policy.grace_days) return 0;
+
+  let fee = Number(policy.initial_fee) + Number(policy.daily_fee) * (daysOverdue - policy.grace_days - 1);
+  if (policy.max_fee !== null) {
+    fee = Math.min(fee, Number(policy.max_fee));
+  }
+
+  if (policy.fee_type === 'percentage') {
+    fee = (Number(chargeAmount) * fee) / 100;
+  }
+
+  return roundCurrency(fee);
+};
+
+// First day a charge due on dueDate can attract a late fee
+export const lateFeeStartDate = (policy: LateFeePolicy, dueDate: Date): Date =>
+  addDays(dueDate, policy.grace_days + 1);
+
+export const isLateFee = (charge: RentChargeBalance) => charge.charge_type === 'late_fee';
+
+// Unpaid late fees included in a tenancy's balance
+export const unpaidLateFees = (charges: RentChargeBalance[]): number =>
+  charges
+    .filter((charge) => isLateFee(charge) && isUnpaid(charge))
+    .reduce((sum, charge) => sum + Number(charge.balance), 0);
+
+// The fee the oldest unpaid rent charge will attract next, while it is still
+// inside its grace period. Null once fees are already accruing on it (they are
+// in the balance by then) or when the policy charges nothing.
+export const upcomingLateFee = (
+  charges: RentChargeBalance[],
+  policy: LateFeePolicy | null,
+  today: Date = new Date()
+): UpcomingLateFee | null => {
+  if (!policy || !policy.enabled) return null;
+
+  const oldestRent = sortByDueDate(charges).find((charge) => !isLateFee(charge) && isUnpaid(charge));
+  if (!oldestRent) return null;
+
+  const dueDate = parseDate(oldestRent.due_date);
+  if (daysBetween(dueDate, startOfDay(today)) > policy.grace_days) return null;
+
+  const amount = lateFeeForCharge(policy, Number(oldestRent.amount), policy.grace_days + 1);
+  if (amount <= 0) return null;
+
+  return { chargeId: oldestRent.id, startsOn: lateFeeStartDate(policy, dueDate), amount };
+};
+
+const formatFee = (policy: LateFeePolicy, value: number) =>
+  policy.fee_type === 'percentage' ? `${Number(value)}% of rent` : `$${Number(value).toLocaleString()}`;
+
+// One-line summary, e.g. "$50 after 5 days, then $5/day (max $100)"
+export const describeLateFeePolicy = (policy: LateFeePolicy): string => {
+  if (!policy.enabled) return 'No late fees';
+
+  const parts: string[] = [];
+  if (policy.initial_fee > 0) {
+    parts.push(`${formatFee(policy, policy.initial_fee)} after ${policy.grace_days} day${policy.grace_days !== 1 ? 's' : ''}`);
+  }
+  if (policy.daily_fee > 0) {
+    parts.push(
+      policy.initial_fee > 0
+        ? `then ${formatFee(policy, policy.daily_fee)}/day`
+        : `${formatFee(policy, policy.daily_fee)}/day after ${policy.grace_days} day${policy.grace_days !== 1 ? 's' : ''}`
+    );
+  }
+  const cap = policy.max_fee !== null ? ` (max ${formatFee(policy, policy.max_fee)})` : '';
+
+  return parts.join(', ') + cap;
+};
+
+// Returns a message describing the first problem with the policy, or null.
+// Matches the checks on the late_fee_policies table.
+export const validateLateFeePolicy = (policy: LateFeePolicy): string | null => {
+  const { grace_days, initial_fee, daily_fee, max_fee } = policy;
+
+  if (!Number.isInteger(grace_days) || grace_days < 0 || grace_days > MAX_GRACE_DAYS) {
+    return `Grace period must be a whole number of days between 0 and ${MAX_GRACE_DAYS}`;
+  }
+  if ([initial_fee, daily_fee].some((fee) => !Number.isFinite(fee) || fee < 0)) {
+    return 'Fees cannot be negative';
+  }
+  if (initial_fee <= 0 && daily_fee <= 0) {
+    return 'Set an initial fee, a daily fee or both';
+  }
+  if (max_fee !== null && (!Number.isFinite(max_fee) || max_fee <= 0)) {
+    return 'Maximum fee must be greater than zero';
+  }
+  if (policy.fee_type === 'percentage' && [initial_fee, daily_fee, max_fee ?? 0].some((fee) => fee > 100)) {
+    return 'Percentages cannot be more than 100';
+  }
+
+  return null;
+};
@@ -0,0 +1,144 @@
+import { supabase } from '@/integrations/supabase/client';
+import { edgeFunctionError } from '@/lib/edgeFunctions';
+import { saveBlob } from '@/lib/tenantDocuments';
+
+// Leases are rendered by the lease-documents edge function and stored, one
+// file per version, in the private lease-documents bucket. The landlord sends
+// the current version to the tenant, the tenant signs it and the landlord
+// countersigns, which activates a tenancy waiting on its lease.
+
+const BUCKET = 'lease-documents';
+
+export type SignerRole = 'tenant' | 'landlord';
+export type SignatureType = 'typed' | 'drawn';
+export type LeaseSigningStatus = 'draft' | 'awaiting_tenant' | 'awaiting_landlord' | 'signed';
+
+export interface LeaseSignature {
+  id: string;
+  signer_role: SignerRole;
+  signature_type: SignatureType;
+  signer_name: string;
+  // PNG data URL, for drawn signatures
+  signature_image: string | null;
+  document_hash: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  signed_at: string;
+}
+
+export interface LeaseDocument {
+  id: string;
+  tenancy_id: string;
+  version: number;
+  storage_path: string;
+  content_hash: string;
+  sent_at: string | null;
+  created_at: string;
+  lease_signatures?: LeaseSignature[];
+}
+
+export const LEASE_DOCUMENT_COLUMNS = `
+  id,
+  tenancy_id,
+  version,
+  storage_path,
+  content_hash,
+  sent_at,
+  created_at,
+  lease_signatures (
+    id,
+    signer_role,
+    signature_type,
+    signer_name,
+    signature_image,
+    document_hash,
+    ip_address,
+    user_agent,
+    signed_at
+  )
+`;
+
+export const leaseSigningStatusLabels: Record<LeaseSigningStatus, string> = {
+  draft: 'Draft',
+  awaiting_tenant: 'Awaiting tenant signature',
+  awaiting_landlord: 'Awaiting countersignature',
+  signed: 'Signed',
+};
+
+export const signatureFor = (document: LeaseDocument, role: SignerRole) =>
+  document.lease_signatures?.find((s) => s.signer_role === role) ?? null;
+
+export const leaseSigningStatus = (document: LeaseDocument): LeaseSigningStatus => {
+  if (signatureFor(document, 'landlord')) return 'signed';
+  if (signatureFor(document, 'tenant')) return 'awaiting_landlord';
+  return document.sent_at ? 'awaiting_tenant' : 'draft';
+};
+
+const invokeLeaseDocuments = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('lease-documents', { body });
+
+  if (error) throw await edgeFunctionError(error);
+  if (data?.error) throw new Error(data.error);
+
+  return data;
+};
+
+export const generateLeaseDocument = async (tenancyId: string, templateId: string) => {
+  const data = await invokeLeaseDocuments({ action: 'generate', tenancy_id: tenancyId, template_id: templateId });
+  return data.document as LeaseDocument;
+};
+
+export const sendLeaseDocument = (documentId: string) =>
+  invokeLeaseDocuments({ action: 'send', document_id: documentId });
+
+export const signLeaseDocument = async (signature: {
+  documentId: string;
+  signatureType: SignatureType;
+  signerName: string;
+  signatureImage: string | null;
+  // SHA-256 of the file the signer reviewed
+  documentHash: string;
+}) => {
+  const data = await invokeLeaseDocuments({
+    action: 'sign',
+    document_id: signature.documentId,
+    signature_type: signature.signatureType,
+    signer_name: signature.signerName,
+    signature_image: signature.signatureImage,
+    document_hash: signature.documentHash,
+  });
+  return data as { signature: LeaseSignature; activated: boolean };
+};
+
+export const leaseFilename = (document: LeaseDocument) => `lease-v${document.version}.pdf`;
+
+export const fetchLeaseFile = async (document: LeaseDocument) => {
+  const { data, error } = await supabase.storage.from(BUCKET).download(document.storage_path);
+  if (error) throw error;
+  return data;
+};
+
+// Hex SHA-256, as stored in lease_documents.content_hash
+export const sha256Hex = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+// The tab is opened straight away, before the signed URL is fetched, so popup
+// blockers treat it as part of the click
+export const viewLeaseDocument = async (document: LeaseDocument) => {
+  const viewer = window.open('', '_blank');
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(document.storage_path, 60 * 5);
+
+  if (error) {
+    viewer?.close();
+    throw error;
+  }
+
+  if (viewer) viewer.location.href = data.signedUrl;
+  else window.location.href = data.signedUrl;
+};
+
+export const downloadLeaseDocument = async (document: LeaseDocument) => {
+  saveBlob(await fetchLeaseFile(document), leaseFilename(document));
+};
@@ -0,0 +1,178 @@
+// Lease templates are plain text with {{placeholders}} for the tenancy's
+// details. The PDF is rendered by the lease-documents edge function, whose
+// supabase/functions/_shared/leaseTemplates.ts mirrors the placeholders and
+// formatting below so the preview matches the document; keep them in step.
+//
+// Layout is kept to what a PDF writer can do simply: a line starting with "# "
+// is a heading, a blank line starts a new paragraph and other line breaks are
+// kept as written.
+
+import type { BillingCycle } from '@/lib/rentCharges';
+
+export interface LeaseDetails {
+  tenant_name: string;
+  tenant_email: string | null;
+  tenant_phone: string | null;
+  landlord_name: string;
+  landlord_email: string | null;
+  landlord_phone: string | null;
+  property_name: string;
+  property_address: string;
+  unit_number: string;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  rent_amount: number;
+  billing_cycle: BillingCycle;
+  start_date: string;
+  end_date: string | null;
+  deposit_amount: number;
+}
+
+export type LeaseBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string };
+
+export const leasePlaceholders: { key: string; label: string }[] = [
+  { key: 'tenant_name', label: 'Tenant full name' },
+  { key: 'tenant_email', label: 'Tenant email' },
+  { key: 'tenant_phone', label: 'Tenant phone' },
+  { key: 'landlord_name', label: 'Landlord full name' },
+  { key: 'landlord_email', label: 'Landlord email' },
+  { key: 'landlord_phone', label: 'Landlord phone' },
+  { key: 'property_name', label: 'Property name' },
+  { key: 'property_address', label: 'Property address' },
+  { key: 'unit_number', label: 'Unit number' },
+  { key: 'bedrooms', label: 'Bedrooms' },
+  { key: 'bathrooms', label: 'Bathrooms' },
+  { key: 'rent_amount', label: 'Rent per billing period' },
+  { key: 'billing_cycle', label: 'Billing cycle, e.g. monthly' },
+  { key: 'start_date', label: 'Lease start date' },
+  { key: 'end_date', label: 'Lease end date' },
+  { key: 'deposit_amount', label: 'Security deposit' },
+  { key: 'today', label: 'Date the lease is generated' },
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string) => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+// today is YYYY-MM-DD
+export const leasePlaceholderValues = (details: LeaseDetails, today: string): Record<string, string> => ({
+  tenant_name: details.tenant_name,
+  tenant_email: details.tenant_email ?? '',
+  tenant_phone: details.tenant_phone ?? '',
+  landlord_name: details.landlord_name,
+  landlord_email: details.landlord_email ?? '',
+  landlord_phone: details.landlord_phone ?? '',
+  property_name: details.property_name,
+  property_address: details.property_address,
+  unit_number: details.unit_number,
+  bedrooms: details.bedrooms === null ? '' : String(details.bedrooms),
+  bathrooms: details.bathrooms === null ? '' : String(details.bathrooms),
+  rent_amount: formatMoney(Number(details.rent_amount)),
+  billing_cycle: details.billing_cycle,
+  start_date: formatDate(details.start_date),
+  end_date: details.end_date ? formatDate(details.end_date) : 'None (periodic tenancy)',
+  deposit_amount: formatMoney(Number(details.deposit_amount)),
+  today: formatDate(today),
+});
+
+// Unknown placeholders are left as written so they stand out in the preview
+export const renderLeaseTemplate = (body: string, values: Record<string, string>) =>
+  body.replace(PLACEHOLDER_PATTERN, (match, key: string) => (key in values ? values[key] : match));
+
+export const findUnknownPlaceholders = (body: string) => {
+  const known = new Set(leasePlaceholders.map((p) => p.key));
+  const unknown = new Set<string>();
+  for (const [, key] of body.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!known.has(key)) unknown.add(key);
+  }
+  return [...unknown];
+};
+
+export const toLeaseBlocks = (text: string): LeaseBlock[] => {
+  const blocks: LeaseBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+    paragraph = [];
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith('# ')) {
+      flush();
+      blocks.push({ type: 'heading', text: line.slice(2).trim() });
+    } else if (line === '') {
+      flush();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+};
+
+// Shown in the template editor's preview
+export const sampleLeaseDetails: LeaseDetails = {
+  tenant_name: 'Jane Tenant',
+  tenant_email: 'jane@example.com',
+  tenant_phone: '+1 555 0100',
+  landlord_name: 'Sam Landlord',
+  landlord_email: 'sam@example.com',
+  landlord_phone: '+1 555 0199',
+  property_name: 'Sunrise Apartments',
+  property_address: '12 Main Street, Springfield',
+  unit_number: '4B',
+  bedrooms: 2,
+  bathrooms: 1,
+  rent_amount: 1200,
+  billing_cycle: 'monthly',
+  start_date: '2025-01-01',
+  end_date: '2025-12-31',
+  deposit_amount: 1200,
+};
+
+export const standardLeaseTemplate = `# Residential Lease Agreement
+
+This lease is made on {{today}} between {{landlord_name}} ("Landlord") and {{tenant_name}} ("Tenant").
+
+# Premises
+
+The Landlord lets to the Tenant unit {{unit_number}} at {{property_name}}, {{property_address}}, with {{bedrooms}} bedroom(s) and {{bathrooms}} bathroom(s).
+
+# Term
+
+Start date: {{start_date}}
+End date: {{end_date}}
+
+# Rent
+
+The Tenant will pay rent of {{rent_amount}} {{billing_cycle}}, in advance, through Property Pay. Late payments may incur late fees under the property's late fee policy.
+
+# Security Deposit
+
+The Tenant will pay a security deposit of {{deposit_amount}} before moving in. The deposit is returned at the end of the lease, less any amounts owed for unpaid rent or damage beyond normal wear and tear.
+
+# Use and Care
+
+The Tenant will use the premises as a private residence only, keep them clean and in good condition, and report any needed repairs promptly.
+
+# Contact
+
+Landlord: {{landlord_name}}, {{landlord_email}}, {{landlord_phone}}
+Tenant: {{tenant_name}}, {{tenant_email}}, {{tenant_phone}}
+`;
@@ -0,0 +1,116 @@
+// Maintenance requests. Status follows a fixed lifecycle; the landlord moves a
+// request forward through it (see update_maintenance_request()), and each
+// change lands on the request's timeline of maintenance_request_events.
+
+export type MaintenanceCategory =
+  | 'plumbing'
+  | 'electrical'
+  | 'hvac'
+  | 'appliances'
+  | 'structural'
+  | 'pest_control'
+  | 'locks_security'
+  | 'cleaning'
+  | 'other';
+
+export type MaintenancePriority = 'low' | 'medium' | 'high' | 'emergency';
+
+export type MaintenanceStatus = 'submitted' | 'acknowledged' | 'scheduled' | 'in_progress' | 'resolved' | 'closed';
+
+export interface MaintenanceRequest {
+  id: string;
+  unit_id: string | null;
+  tenant_id: string | null;
+  title: string;
+  description: string;
+  category: MaintenanceCategory;
+  priority: MaintenancePriority;
+  status: MaintenanceStatus;
+  assignee: string | null;
+  scheduled_for: string | null;
+  resolved_at: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface MaintenanceRequestEvent {
+  id: string;
+  request_id: string;
+  status: MaintenanceStatus | null;
+  note: string | null;
+  actor_id: string | null;
+  created_at: string | null;
+}
+
+export const maintenanceCategoryLabels: Record<MaintenanceCategory, string> = {
+  plumbing: 'Plumbing',
+  electrical: 'Electrical',
+  hvac: 'HVAC',
+  appliances: 'Appliances',
+  structural: 'Structural',
+  pest_control: 'Pest Control',
+  locks_security: 'Locks/Security',
+  cleaning: 'Cleaning',
+  other: 'Other',
+};
+
+export const maintenancePriorityLabels: Record<MaintenancePriority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  emergency: 'Emergency',
+};
+
+// Lifecycle order, the order statuses compare in the database
+export const MAINTENANCE_STATUSES: MaintenanceStatus[] = [
+  'submitted',
+  'acknowledged',
+  'scheduled',
+  'in_progress',
+  'resolved',
+  'closed',
+];
+
+export const maintenanceStatusLabels: Record<MaintenanceStatus, string> = {
+  submitted: 'Submitted',
+  acknowledged: 'Acknowledged',
+  scheduled: 'Scheduled',
+  in_progress: 'In Progress',
+  resolved: 'Resolved',
+  closed: 'Closed',
+};
+
+export const maintenancePriorityColors: Record<MaintenancePriority, string> = {
+  low: 'bg-blue-100 text-blue-700',
+  medium: 'bg-yellow-100 text-yellow-700',
+  high: 'bg-orange-100 text-orange-700',
+  emergency: 'bg-red-100 text-red-700',
+};
+
+// Requests the landlord still has work to do on
+export const isOpenMaintenanceRequest = (request: { status: MaintenanceStatus }) =>
+  !['resolved', 'closed'].includes(request.status);
+
+// Statuses the landlord can move a request to: any later one, or back to work
+// on a resolved request
+export const landlordNextStatuses = (status: MaintenanceStatus): MaintenanceStatus[] => {
+  if (status === 'closed') return [];
+
+  const later = MAINTENANCE_STATUSES.slice(MAINTENANCE_STATUSES.indexOf(status) + 1);
+  return status === 'resolved' ? ['in_progress', ...later] : later;
+};
+
+// Open requests first, the most urgent at the top, then oldest first
+export const sortByPriority = <T extends MaintenanceRequest>(requests: T[]): T[] => {
+  const priorities: MaintenancePriority[] = ['emergency', 'high', 'medium', 'low'];
+  return [...requests].sort(
+    (a, b) =>
+      Number(isOpenMaintenanceRequest(b)) - Number(isOpenMaintenanceRequest(a)) ||
+      priorities.indexOf(a.priority) - priorities.indexOf(b.priority) ||
+      (a.created_at ?? '').localeCompare(b.created_at ?? '')
+  );
+};
+
+// Heading of a timeline entry: the status it moved to, or "Update" for a note
+export const describeMaintenanceEvent = (event: MaintenanceRequestEvent): string =>
+  event.status ? maintenanceStatusLabels[event.status] : 'Update';
@@ -0,0 +1,151 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Photos and videos on maintenance requests, stored in the private
+// maintenance-attachments bucket under the request id. Photos are scaled down
+// and re-encoded in the browser before upload; videos go up as recorded,
+// within the bucket's size limit.
+
+const BUCKET = 'maintenance-attachments';
+
+export type MaintenanceAttachmentKind = 'report' | 'resolution';
+
+export interface MaintenanceAttachment {
+  id: string;
+  request_id: string;
+  kind: MaintenanceAttachmentKind;
+  storage_path: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  uploaded_by: string;
+  created_at: string | null;
+}
+
+export const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const VIDEO_TYPES = ['video/mp4', 'video/quicktime', 'video/webm'];
+
+// Before compression; a phone photo is well under this
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+// Matches the bucket's file_size_limit
+export const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+// Per upload, so one request cannot be buried in files
+export const MAX_ATTACHMENTS_PER_UPLOAD = 6;
+
+// Longest side of a compressed photo, in pixels
+const MAX_IMAGE_DIMENSION = 1600;
+const JPEG_QUALITY = 0.8;
+
+export const isImage = (contentType: string) => contentType.startsWith('image/');
+export const isVideo = (contentType: string) => contentType.startsWith('video/');
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Why a file cannot be attached, or null when it can
+export const validateAttachment = (file: File): string | null => {
+  if (IMAGE_TYPES.includes(file.type)) {
+    return file.size > MAX_IMAGE_BYTES ? `${file.name} is larger than ${formatFileSize(MAX_IMAGE_BYTES)}` : null;
+  }
+  if (VIDEO_TYPES.includes(file.type)) {
+    return file.size > MAX_VIDEO_BYTES ? `${file.name} is larger than ${formatFileSize(MAX_VIDEO_BYTES)}` : null;
+  }
+  return `${file.name} is not a supported photo (JPEG, PNG, WebP) or video (MP4, MOV, WebM)`;
+};
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not read ${file.name}`));
+    };
+    image.src = url;
+  });
+
+// Scales a photo down to MAX_IMAGE_DIMENSION and re-encodes it as JPEG. Keeps
+// the original when that would not make it smaller.
+export const compressImage = async (file: File): Promise<File> => {
+  const image = await loadImage(file);
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) return file;
+  // JPEG has no transparency; fill it white rather than black
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  if (!blob || blob.size >= file.size) return file;
+
+  return new File([blob], file.name.replace(/\.[^.]+$/, '') + '.jpg', { type: 'image/jpeg' });
+};
+
+const extensionFor = (file: File) => file.name.split('.').pop()?.toLowerCase() || file.type.split('/')[1];
+
+// Uploads each file and records it against the request. A file whose record
+// cannot be saved is removed again so no orphan is left in storage.
+export const uploadMaintenanceAttachments = async (requestId: string, uploaderId: string, files: File[]) => {
+  const uploaded: MaintenanceAttachment[] = [];
+
+  for (const original of files) {
+    const file = isImage(original.type) ? await compressImage(original) : original;
+    const path = `${requestId}/${crypto.randomUUID()}.${extensionFor(file)}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(path, file, { contentType: file.type });
+    if (uploadError) throw uploadError;
+
+    const { data, error } = await supabase
+      .from('maintenance_attachments')
+      .insert({
+        request_id: requestId,
+        storage_path: path,
+        file_name: original.name,
+        content_type: file.type,
+        size_bytes: file.size,
+        uploaded_by: uploaderId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      await supabase.storage.from(BUCKET).remove([path]);
+      throw error;
+    }
+    uploaded.push(data);
+  }
+
+  return uploaded;
+};
+
+export const removeMaintenanceAttachment = async (attachment: MaintenanceAttachment) => {
+  const { error } = await supabase.from('maintenance_attachments').delete().eq('id', attachment.id);
+  if (error) throw error;
+
+  const { error: storageError } = await supabase.storage.from(BUCKET).remove([attachment.storage_path]);
+  if (storageError) throw storageError;
+};
+
+// Short-lived URLs to show attachments, keyed by storage path
+export const attachmentUrls = async (attachments: MaintenanceAttachment[]): Promise<Record<string, string>> => {
+  if (attachments.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrls(attachments.map((a) => a.storage_path), 60 * 60);
+  if (error) throw error;
+
+  return Object.fromEntries(
+    (data || []).filter((entry) => entry.signedUrl && entry.path).map((entry) => [entry.path as string, entry.signedUrl])
+  );
+};
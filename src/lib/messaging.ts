@@ -0,0 +1,131 @@
+import { supabase } from '@/integrations/supabase/client';
+import { compressImage, formatFileSize, isImage } from '@/lib/maintenanceAttachments';
+
+// Conversations between a landlord and a tenant: one general conversation per
+// pair and one per maintenance request. Messages and their attachments are
+// written through the send_message function; files go up first into the
+// private message-attachments bucket under the conversation id.
+
+const BUCKET = 'message-attachments';
+
+export interface ConversationSummary {
+  id: string;
+  maintenance_request_id: string | null;
+  maintenance_title: string | null;
+  counterpart_id: string;
+  counterpart_name: string;
+  counterpart_last_read_at: string | null;
+  last_message_at: string | null;
+  last_message_body: string | null;
+  last_message_sender_id: string | null;
+  unread_count: number;
+}
+
+export interface MessageAttachment {
+  id: string;
+  message_id: string;
+  storage_path: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  created_at: string | null;
+}
+
+export interface Message {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  body: string;
+  created_at: string;
+  message_attachments: MessageAttachment[];
+}
+
+export const MESSAGE_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+
+// Matches the bucket's file_size_limit; photos are compressed well below it
+export const MAX_MESSAGE_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+// Both enforced again by send_message
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+export const MAX_MESSAGE_LENGTH = 4000;
+
+// Most recent messages loaded into a thread
+export const MESSAGE_HISTORY_LIMIT = 200;
+
+// Why a file cannot be attached to a message, or null when it can
+export const validateMessageAttachment = (file: File): string | null => {
+  if (!MESSAGE_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name} is not a supported photo (JPEG, PNG, WebP) or PDF`;
+  }
+  // Photos are compressed before upload, so only PDFs are held to the limit here
+  if (!isImage(file.type) && file.size > MAX_MESSAGE_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${formatFileSize(MAX_MESSAGE_ATTACHMENT_BYTES)}`;
+  }
+  return null;
+};
+
+export const conversationTitle = (conversation: ConversationSummary) =>
+  conversation.maintenance_title ? `Re: ${conversation.maintenance_title}` : conversation.counterpart_name;
+
+// Finds or starts a conversation. A tenant who passes neither option gets
+// their current landlord.
+export const openConversation = async (options: { counterpartId?: string; maintenanceRequestId?: string } = {}) => {
+  const { data, error } = await supabase.rpc('open_conversation', {
+    _counterpart_id: options.counterpartId,
+    _maintenance_request_id: options.maintenanceRequestId,
+  });
+  if (error) throw error;
+  return data;
+};
+
+// Uploads the files, then sends the message with them. Files are removed
+// again if the message cannot be sent, so no orphan is left in storage.
+export const sendMessage = async (conversationId: string, body: string, files: File[] = []) => {
+  const uploaded: { storage_path: string; file_name: string; content_type: string; size_bytes: number }[] = [];
+
+  try {
+    for (const original of files) {
+      const file = isImage(original.type) ? await compressImage(original) : original;
+      const extension = file.name.split('.').pop()?.toLowerCase() || file.type.split('/')[1];
+      const path = `${conversationId}/${crypto.randomUUID()}.${extension}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(BUCKET)
+        .upload(path, file, { contentType: file.type });
+      if (uploadError) throw uploadError;
+
+      uploaded.push({ storage_path: path, file_name: original.name, content_type: file.type, size_bytes: file.size });
+    }
+
+    const { data, error } = await supabase.rpc('send_message', {
+      _conversation_id: conversationId,
+      _body: body,
+      _attachments: uploaded,
+    });
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    if (uploaded.length > 0) {
+      await supabase.storage.from(BUCKET).remove(uploaded.map((a) => a.storage_path));
+    }
+    throw error;
+  }
+};
+
+export const markConversationRead = async (conversationId: string) => {
+  const { error } = await supabase.rpc('mark_conversation_read', { _conversation_id: conversationId });
+  if (error) throw error;
+};
+
+// Short-lived URLs to show attachments, keyed by storage path
+export const messageAttachmentUrls = async (attachments: MessageAttachment[]): Promise<Record<string, string>> => {
+  if (attachments.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrls(attachments.map((a) => a.storage_path), 60 * 60);
+  if (error) throw error;
+
+  return Object.fromEntries(
+    (data || []).filter((entry) => entry.signedUrl && entry.path).map((entry) => [entry.path as string, entry.signedUrl])
+  );
+};
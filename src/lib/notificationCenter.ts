@@ -0,0 +1,70 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// In-app notifications shown by the header bell. They are written by database
+// triggers when something happens that concerns the user; the app only reads
+// them, marks them as read and manages which kinds the user wants.
+
+export type NotificationKind =
+  | 'join_request_submitted'
+  | 'join_request_approved'
+  | 'join_request_rejected'
+  | 'payment_completed'
+  | 'payment_failed'
+  | 'maintenance_status_changed'
+  | 'payout_completed'
+  | 'payout_failed'
+  | 'message_received'
+  | 'announcement_published';
+
+export interface AppNotification {
+  id: string;
+  kind: NotificationKind;
+  title: string;
+  body: string | null;
+  entity_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+// Loaded into the bell; older notifications are still kept
+export const NOTIFICATION_LIST_LIMIT = 30;
+
+export const notificationKindLabels: Record<NotificationKind, string> = {
+  join_request_submitted: 'New join requests',
+  join_request_approved: 'Join request approved',
+  join_request_rejected: 'Join request declined',
+  payment_completed: 'Payments received',
+  payment_failed: 'Failed payments',
+  maintenance_status_changed: 'Maintenance updates',
+  payout_completed: 'Payouts sent',
+  payout_failed: 'Failed payouts',
+  message_received: 'New messages',
+  announcement_published: 'Property announcements',
+};
+
+// The kinds each role can receive, in the order preferences are listed
+export const notificationKindsForRole: Record<'tenant' | 'landlord' | 'admin', NotificationKind[]> = {
+  tenant: [
+    'join_request_approved',
+    'join_request_rejected',
+    'payment_completed',
+    'payment_failed',
+    'maintenance_status_changed',
+    'message_received',
+    'announcement_published',
+  ],
+  landlord: [
+    'join_request_submitted',
+    'payment_completed',
+    'maintenance_status_changed',
+    'payout_completed',
+    'payout_failed',
+    'message_received',
+  ],
+  admin: [],
+};
+
+export const markNotificationsRead = async (ids?: string[]) => {
+  const { error } = await supabase.rpc('mark_notifications_read', ids ? { _ids: ids } : {});
+  if (error) throw error;
+};
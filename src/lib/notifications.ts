@@ -0,0 +1,140 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Rent reminders, and the SMS and email copies of announcements. Messages are
+// queued in the database, from the landlord's templates or the platform
+// defaults, and sent over SMS and email by the send-notifications edge
+// function. notification_deliveries is the delivery
+// log; reminder_settings decides when the daily job reminds tenants.
+
+export type NotificationChannel = 'sms' | 'email';
+export type NotificationEvent = 'rent_due_soon' | 'rent_overdue' | 'rent_reminder' | 'announcement';
+export type NotificationStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface NotificationTemplate {
+  id: string;
+  // Null for the platform default
+  landlord_id: string | null;
+  event: NotificationEvent;
+  channel: NotificationChannel;
+  subject: string | null;
+  body: string;
+}
+
+export interface NotificationDelivery {
+  id: string;
+  recipient_id: string;
+  tenancy_id: string | null;
+  event: NotificationEvent;
+  channel: NotificationChannel;
+  recipient: string | null;
+  subject: string | null;
+  body: string;
+  status: NotificationStatus;
+  attempts: number;
+  error: string | null;
+  created_by: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  days_before: number[];
+  days_after: number[];
+  channels: NotificationChannel[];
+}
+
+// Matches the column defaults and CHECK constraints on reminder_settings
+export const defaultReminderSettings: ReminderSettings = {
+  enabled: true,
+  days_before: [3],
+  days_after: [1, 7],
+  channels: ['sms', 'email'],
+};
+export const MAX_DAYS_BEFORE = 30;
+export const MAX_DAYS_AFTER = 60;
+
+export const notificationChannelLabels: Record<NotificationChannel, string> = {
+  sms: 'SMS',
+  email: 'Email',
+};
+
+export const notificationEventLabels: Record<NotificationEvent, string> = {
+  rent_due_soon: 'Rent due soon',
+  rent_overdue: 'Rent overdue',
+  rent_reminder: 'Manual reminder',
+  announcement: 'Announcement',
+};
+
+export const notificationStatusLabels: Record<NotificationStatus, string> = {
+  pending: 'Queued',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+};
+
+// Placeholders filled in for each event; days_overdue only for overdue rent
+export const templatePlaceholders: Record<NotificationEvent, string[]> = {
+  rent_due_soon: ['tenant_name', 'amount', 'due_date', 'property', 'unit'],
+  rent_overdue: ['tenant_name', 'amount', 'due_date', 'days_overdue', 'property', 'unit'],
+  rent_reminder: ['tenant_name', 'amount', 'property', 'unit'],
+  announcement: ['tenant_name', 'title', 'body', 'property', 'unit'],
+};
+
+// Values used to preview a template
+export const samplePlaceholderValues: Record<string, string> = {
+  tenant_name: 'Jane Doe',
+  amount: '$1,200.00',
+  due_date: '01 Nov 2025',
+  days_overdue: '7',
+  property: 'Sunset Apartments',
+  unit: '4B',
+  title: 'Water outage on Saturday',
+  body: 'The water will be off from 9am to 1pm for repairs to the main supply.',
+};
+
+// Replaces each {{key}} with its value, leaving unknown placeholders as they
+// are. Mirrors render_notification_template() in the database.
+export const renderTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => (key in values ? values[key] : match));
+
+// Parses "1, 7, 14" into sorted, unique whole days; null when any entry is not
+// a whole number between min and max
+export const parseDayList = (value: string, min: number, max: number): number[] | null => {
+  const entries = value.split(/[\s,]+/).filter(Boolean);
+  const days = entries.map(Number);
+  if (days.some((day) => !Number.isInteger(day) || day < min || day > max)) return null;
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+};
+
+const dayList = (days: number[]) =>
+  days.length === 1 ? `${days[0]} day${days[0] === 1 ? '' : 's'}` : `${days.join(', ')} days`;
+
+export const describeReminderSettings = (settings: ReminderSettings) => {
+  if (!settings.enabled) return 'Automatic reminders are off';
+
+  const parts = [
+    settings.days_before.length > 0 &&
+      (settings.days_before.length === 1 && settings.days_before[0] === 0
+        ? 'on the due date'
+        : `${dayList(settings.days_before)} before rent is due`),
+    settings.days_after.length > 0 && `${dayList(settings.days_after)} after if unpaid`,
+  ].filter(Boolean);
+
+  if (parts.length === 0) return 'Automatic reminders are on, but no days are set';
+  const channels = settings.channels.map((channel) => notificationChannelLabels[channel]).join(' and ');
+  return `By ${channels}, ${parts.join(', and ')}`;
+};
+
+// Queues a reminder for everything the tenant owes and sends it straight away.
+// If the send fails the deliveries stay queued for the next worker run.
+export const sendRentReminder = async (tenancyId: string) => {
+  const { data: deliveryIds, error } = await supabase.rpc('send_rent_reminder', { _tenancy_id: tenancyId });
+  if (error) throw error;
+
+  const { error: sendError } = await supabase.functions.invoke('send-notifications', {
+    body: { delivery_ids: deliveryIds },
+  });
+
+  return { deliveryIds: deliveryIds ?? [], sentNow: !sendError };
+};
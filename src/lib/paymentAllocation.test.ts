@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+  allocationOrder,
+  buildStatement,
+  planAllocation,
+  tenancyCredit,
+  type AllocatablePayment,
+} from '@/lib/paymentAllocation';
+import type { RentChargeBalance } from '@/lib/rentCharges';
+
+const charge = (id: string, dueDate: string, amount: number, amountPaid = 0): RentChargeBalance => ({
+  id,
+  tenancy_id: 'tenancy-1',
+  charge_type: 'rent',
+  period_start: dueDate,
+  period_end: dueDate,
+  due_date: dueDate,
+  amount,
+  amount_paid: amountPaid,
+  balance: amount - amountPaid,
+  description: `Rent due ${dueDate}`,
+});
+
+const payment = (id: string, date: string, amount: number, status = 'completed'): AllocatablePayment => ({
+  id,
+  amount,
+  payment_date: date,
+  status,
+});
+
+const march = charge('march', '2025-03-01', 500);
+const april = charge('april', '2025-04-01', 500);
+const may = charge('may', '2025-05-01', 500);
+
+describe('allocationOrder', () => {
+  it('puts unpaid charges oldest due first and leaves out paid ones', () => {
+    const paid = charge('february', '2025-02-01', 500, 500);
+
+    expect(allocationOrder([may, paid, march, april]).map((c) => c.id)).toEqual(['march', 'april', 'may']);
+  });
+
+  it('puts the charge the tenant chose first', () => {
+    expect(allocationOrder([march, april, may], 'may').map((c) => c.id)).toEqual(['may', 'march', 'april']);
+  });
+
+  it('ignores a chosen charge that is already paid', () => {
+    const paid = charge('february', '2025-02-01', 500, 500);
+
+    expect(allocationOrder([march, paid], 'february').map((c) => c.id)).toEqual(['march']);
+  });
+});
+
+describe('planAllocation', () => {
+  it('pays off the oldest charges first and part-pays the next', () => {
+    const plan = planAllocation([april, march, may], 750);
+
+    expect(plan.allocations.map((a) => [a.charge.id, a.amount])).toEqual([
+      ['march', 500],
+      ['april', 250],
+    ]);
+    expect(plan.credit).toBe(0);
+  });
+
+  it('applies only the balance left on a part-paid charge', () => {
+    const plan = planAllocation([charge('march', '2025-03-01', 500, 300), april], 300);
+
+    expect(plan.allocations.map((a) => [a.charge.id, a.amount])).toEqual([
+      ['march', 200],
+      ['april', 100],
+    ]);
+  });
+
+  it('keeps what is left over as credit', () => {
+    const plan = planAllocation([march], 620.5);
+
+    expect(plan.allocations).toHaveLength(1);
+    expect(plan.credit).toBe(120.5);
+  });
+
+  it('does not leave floating point dust behind', () => {
+    const plan = planAllocation([charge('a', '2025-03-01', 0.1), charge('b', '2025-04-01', 0.2)], 0.3);
+
+    expect(plan.allocations.map((a) => a.amount)).toEqual([0.1, 0.2]);
+    expect(plan.credit).toBe(0);
+  });
+
+  it('plans nothing for an empty or invalid amount', () => {
+    expect(planAllocation([march], 0)).toEqual({ allocations: [], credit: 0 });
+    expect(planAllocation([march], Number.NaN)).toEqual({ allocations: [], credit: 0 });
+  });
+});
+
+describe('tenancyCredit', () => {
+  it('is what completed payments exceed the amounts applied to charges by', () => {
+    const charges = [charge('march', '2025-03-01', 500, 500), charge('april', '2025-04-01', 500, 200)];
+    const payments = [payment('p1', '2025-03-01', 500), payment('p2', '2025-04-01', 300)];
+
+    expect(tenancyCredit(charges, payments)).toBe(100);
+  });
+
+  it('leaves out payments that did not complete or predate billing', () => {
+    const charges = [charge('march', '2025-03-01', 500, 500)];
+    const payments = [
+      payment('p1', '2025-03-01', 500),
+      payment('pending', '2025-03-02', 200, 'pending'),
+      payment('old', '2025-01-15', 400),
+    ];
+
+    expect(tenancyCredit(charges, payments, '2025-03-01')).toBe(0);
+  });
+});
+
+describe('buildStatement', () => {
+  it('keeps a running balance, with charges before payments on the same day', () => {
+    const lines = buildStatement(
+      [march, april],
+      [payment('p1', '2025-03-01', 500), payment('p2', '2025-03-20', 600)]
+    );
+
+    expect(lines.map((line) => [line.id, line.balance])).toEqual([
+      ['march', 500],
+      ['p1', 0],
+      ['p2', -600],
+      ['april', -100],
+    ]);
+  });
+
+  it('labels late fees and leaves out payments made before billing started', () => {
+    const fee = { ...charge('fee', '2025-03-07', 50), charge_type: 'late_fee' };
+    const lines = buildStatement([march, fee], [payment('old', '2025-02-01', 500)], '2025-03-01');
+
+    expect(lines.map((line) => line.type)).toEqual(['rent', 'late_fee']);
+  });
+});
@@ -0,0 +1,130 @@
+// How payments are applied to a tenancy's charges. The database does the real
+// allocation in allocate_payment(); this mirrors its rules so the dashboards can
+// preview a payment, work out tenant credit and show a running statement:
+//
+//   1. the charge the tenant chose to pay, if any
+//   2. then every other unpaid charge, oldest due first
+//   3. anything left over is credit, applied to charges as they are billed
+//
+// Payments dated before the tenancy's billing_start_date settled rent billed
+// outside the app and are left out of allocation, credit and statements.
+
+import { isUnpaid, roundCurrency, sortByDueDate, type RentChargeBalance } from '@/lib/rentCharges';
+
+export interface AllocatablePayment {
+  id: string;
+  amount: number;
+  payment_date: string;
+  status: string;
+  method?: string;
+}
+
+export interface PlannedAllocation {
+  charge: RentChargeBalance;
+  amount: number;
+}
+
+export interface AllocationPlan {
+  allocations: PlannedAllocation[];
+  // Left over once every unpaid charge is covered
+  credit: number;
+}
+
+export type StatementLineType = 'rent' | 'late_fee' | 'payment';
+
+export interface StatementLine {
+  id: string;
+  date: string;
+  type: StatementLineType;
+  description: string;
+  // Charges increase what the tenant owes, payments reduce it
+  debit: number;
+  credit: number;
+  // Running balance after this line; negative means the tenant is in credit
+  balance: number;
+}
+
+// Unpaid charges in the order a payment is applied to them
+export const allocationOrder = (
+  charges: RentChargeBalance[],
+  targetChargeId?: string | null
+): RentChargeBalance[] => {
+  const unpaid = sortByDueDate(charges).filter(isUnpaid);
+  const target = unpaid.find((charge) => charge.id === targetChargeId);
+  return target ? [target, ...unpaid.filter((charge) => charge !== target)] : unpaid;
+};
+
+// What a payment of amount would pay off if it completed now
+export const planAllocation = (
+  charges: RentChargeBalance[],
+  amount: number,
+  targetChargeId?: string | null
+): AllocationPlan => {
+  let remaining = roundCurrency(Number(amount) || 0);
+  const allocations: PlannedAllocation[] = [];
+
+  for (const charge of allocationOrder(charges, targetChargeId)) {
+    if (remaining <= 0) break;
+
+    const applied = Math.min(remaining, Number(charge.balance));
+    allocations.push({ charge, amount: applied });
+    remaining = roundCurrency(remaining - applied);
+  }
+
+  return { allocations, credit: Math.max(0, remaining) };
+};
+
+// Whether a payment takes part in allocation at all
+export const isAllocatable = (payment: AllocatablePayment, billingStartDate?: string | null) =>
+  payment.status === 'completed' && (!billingStartDate || payment.payment_date >= billingStartDate);
+
+// Tenant credit: allocatable payments not yet applied to any charge. Every
+// allocation comes from an allocatable payment, so what was paid against the
+// charges is exactly what has been applied.
+export const tenancyCredit = (
+  charges: RentChargeBalance[],
+  payments: AllocatablePayment[],
+  billingStartDate?: string | null
+): number => {
+  const paid = payments
+    .filter((payment) => isAllocatable(payment, billingStartDate))
+    .reduce((sum, payment) => sum + Number(payment.amount), 0);
+  const applied = charges.reduce((sum, charge) => sum + Number(charge.amount_paid), 0);
+
+  return Math.max(0, roundCurrency(paid - applied));
+};
+
+// Every charge and allocatable payment in date order with a running balance.
+// On the same day charges come before payments, as they fall due first.
+export const buildStatement = (
+  charges: RentChargeBalance[],
+  payments: AllocatablePayment[],
+  billingStartDate?: string | null
+): StatementLine[] => {
+  const entries = [
+    ...charges.map((charge) => ({
+      id: charge.id,
+      date: charge.due_date,
+      type: (charge.charge_type === 'late_fee' ? 'late_fee' : 'rent') as StatementLineType,
+      description: charge.description,
+      debit: Number(charge.amount),
+      credit: 0,
+    })),
+    ...payments
+      .filter((payment) => isAllocatable(payment, billingStartDate))
+      .map((payment) => ({
+        id: payment.id,
+        date: payment.payment_date,
+        type: 'payment' as StatementLineType,
+        description: payment.method ? `Payment - ${payment.method}` : 'Payment',
+        debit: 0,
+        credit: Number(payment.amount),
+      })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || b.debit - a.debit);
+
+  let balance = 0;
+  return entries.map((entry) => {
+    balance = roundCurrency(balance + entry.debit - entry.credit);
+    return { ...entry, balance };
+  });
+};
@@ -0,0 +1,57 @@
+// Lease renewals. Landlords are prompted to offer a renewal once a fixed-term
+// tenancy is within RENEWAL_NOTICE_DAYS of its end date. An accepted offer
+// creates a successor tenancy starting the day after; a declined one means
+// the tenant moves out at the end of the term, when expire_ended_tenancies()
+// ends the tenancy.
+
+import { daysBetween, parseDate } from '@/lib/rentCharges';
+
+export type RenewalStatus = 'offered' | 'accepted' | 'declined' | 'withdrawn' | 'lapsed';
+
+export interface LeaseRenewal {
+  id: string;
+  tenancy_id: string;
+  rent_amount: number;
+  start_date: string;
+  end_date: string | null;
+  message: string | null;
+  status: RenewalStatus;
+  responded_at: string | null;
+  successor_tenancy_id: string | null;
+  created_at: string | null;
+}
+
+export const RENEWAL_NOTICE_DAYS = 60;
+
+export const renewalStatusLabels: Record<RenewalStatus, string> = {
+  offered: 'Renewal offered',
+  accepted: 'Renewed',
+  declined: 'Moving out',
+  withdrawn: 'Offer withdrawn',
+  lapsed: 'Offer lapsed',
+};
+
+// The offer that decides what happens at the end of the term: an open or
+// answered offer, ignoring withdrawn and lapsed ones
+export const currentRenewal = (renewals: LeaseRenewal[], tenancyId: string): LeaseRenewal | null =>
+  renewals
+    .filter((r) => r.tenancy_id === tenancyId && ['offered', 'accepted', 'declined'].includes(r.status))
+    .sort((a, b) => (b.created_at ?? '').localeCompare(a.created_at ?? ''))[0] || null;
+
+export const daysUntilEnd = (endDate: string | null | undefined, today = new Date()): number | null =>
+  endDate ? daysBetween(today, parseDate(endDate)) : null;
+
+// Whether the landlord should be prompted to offer a renewal
+export const renewalDue = (
+  tenancy: { id: string; status: string; end_date?: string | null },
+  renewals: LeaseRenewal[],
+  today = new Date()
+): boolean => {
+  const days = daysUntilEnd(tenancy.end_date, today);
+  return (
+    tenancy.status === 'active' &&
+    days !== null &&
+    days <= RENEWAL_NOTICE_DAYS &&
+    !currentRenewal(renewals, tenancy.id)
+  );
+};
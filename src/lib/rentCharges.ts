@@ -0,0 +1,145 @@
+// Derived rent status for a tenancy, computed from its billed charges
+// (the rent_charge_balances view) rather than from calendar assumptions.
+// The charges themselves are generated in the database by generate_rent_charges().
+
+export type BillingCycle = 'weekly' | 'monthly' | 'quarterly';
+
+export interface RentChargeBalance {
+  id: string;
+  tenancy_id: string;
+  charge_type: string;
+  // The rent charge a late fee was assessed on
+  parent_charge_id?: string | null;
+  period_start: string;
+  period_end: string;
+  due_date: string;
+  amount: number;
+  amount_paid: number;
+  balance: number;
+  description: string;
+}
+
+export interface BillingTerms {
+  rent_amount: number;
+  billing_cycle: BillingCycle;
+  start_date: string;
+  end_date?: string | null;
+  // Scheduled rent changes (rent_schedule_entries); rent_amount applies without them
+  rent_schedule?: RentScheduleAmount[];
+}
+
+export interface RentScheduleAmount {
+  amount: number;
+  effective_date: string;
+}
+
+export type RentStatus = 'paid' | 'due_soon' | 'overdue';
+
+export interface RentSummary {
+  // Unpaid amount on charges already due (today included)
+  arrears: number;
+  // Days since the oldest unpaid charge fell due; 0 when nothing is overdue
+  daysOverdue: number;
+  oldestUnpaidDueDate: Date | null;
+  // The earliest unpaid charge, or else the start of the next billing period
+  nextDueDate: Date | null;
+  nextDueAmount: number;
+  status: RentStatus;
+}
+
+// Charges due within this many days count as "due soon"
+export const DUE_SOON_DAYS = 5;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export const billingCycleLabels: Record<BillingCycle, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+};
+
+// Short per-period suffix for amounts, e.g. "$500/month"
+export const billingPeriodSuffix: Record<BillingCycle, string> = {
+  weekly: 'week',
+  monthly: 'month',
+  quarterly: 'quarter',
+};
+
+// Parses a YYYY-MM-DD date as local midnight (new Date('YYYY-MM-DD') is UTC)
+export const parseDate = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Formats a date as local YYYY-MM-DD, the inverse of parseDate
+export const toDateString = (date: Date): string =>
+  [date.getFullYear(), String(date.getMonth() + 1).padStart(2, '0'), String(date.getDate()).padStart(2, '0')].join('-');
+
+export const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const daysBetween = (from: Date, to: Date): number =>
+  Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / MS_PER_DAY);
+
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Rounds to whole cents, the precision amounts are stored with
+export const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// The rent in effect on a date, as tenancy_rent_on() bills it: the latest
+// schedule entry on or before the date, or the fallback before the first one
+export const rentEffectiveOn = (schedule: RentScheduleAmount[], date: Date, fallback: number): number => {
+  const entry = schedule
+    .filter((e) => parseDate(e.effective_date) <= date)
+    .sort((a, b) => b.effective_date.localeCompare(a.effective_date))[0];
+  return entry ? Number(entry.amount) : Number(fallback);
+};
+
+export const isUnpaid = (charge: RentChargeBalance) => Number(charge.balance) > 0;
+
+// Charges sorted oldest due first, the order payments are applied in
+export const sortByDueDate = (charges: RentChargeBalance[]) =>
+  [...charges].sort((a, b) => a.due_date.localeCompare(b.due_date));
+
+export const summarizeRentCharges = (
+  charges: RentChargeBalance[],
+  terms: BillingTerms | null,
+  today: Date = new Date()
+): RentSummary => {
+  const sorted = sortByDueDate(charges);
+  const todayStart = startOfDay(today);
+
+  const unpaid = sorted.filter(isUnpaid);
+  const dueUnpaid = unpaid.filter((charge) => parseDate(charge.due_date) <= todayStart);
+  const arrears = dueUnpaid.reduce((sum, charge) => sum + Number(charge.balance), 0);
+
+  const overdue = dueUnpaid.filter((charge) => parseDate(charge.due_date) < todayStart);
+  const oldestUnpaidDueDate = overdue.length > 0 ? parseDate(overdue[0].due_date) : null;
+  const daysOverdue = oldestUnpaidDueDate ? daysBetween(oldestUnpaidDueDate, todayStart) : 0;
+
+  let nextDueDate: Date | null = null;
+  let nextDueAmount = 0;
+
+  if (unpaid.length > 0) {
+    nextDueDate = parseDate(unpaid[0].due_date);
+    nextDueAmount = Number(unpaid[0].balance);
+  } else if (terms) {
+    // Everything billed is paid: the next charge starts the day after the last period
+    const last = sorted[sorted.length - 1];
+    const candidate = last ? addDays(parseDate(last.period_end), 1) : parseDate(terms.start_date);
+    if (!terms.end_date || candidate <= parseDate(terms.end_date)) {
+      nextDueDate = candidate;
+      nextDueAmount = rentEffectiveOn(terms.rent_schedule || [], candidate, terms.rent_amount);
+    }
+  }
+
+  let status: RentStatus = 'paid';
+  if (overdue.length > 0) {
+    status = 'overdue';
+  } else if (arrears > 0 || (nextDueDate && daysBetween(todayStart, nextDueDate) <= DUE_SOON_DAYS)) {
+    status = 'due_soon';
+  }
+
+  return { arrears, daysOverdue, oldestUnpaidDueDate, nextDueDate, nextDueAmount, status };
+};
@@ -0,0 +1,32 @@
+// Rent schedules. Each tenancy has an entry for its starting rent, and a rent
+// increase adds one with the date it takes effect. Charges bill the rent in
+// effect on the first day of each period (see tenancy_rent_on()), so an
+// increase never changes what was billed before it.
+
+import { addDays, parseDate, startOfDay } from '@/lib/rentCharges';
+
+export interface RentScheduleEntry {
+  id: string;
+  tenancy_id: string;
+  amount: number;
+  effective_date: string;
+  // Null for the starting rent
+  notice_issued_on: string | null;
+  created_at: string | null;
+}
+
+export const DEFAULT_RENT_INCREASE_NOTICE_DAYS = 30;
+
+// The first date an increase issued today may take effect
+export const earliestIncreaseDate = (noticeDays: number, today = new Date()): Date =>
+  addDays(startOfDay(today), noticeDays);
+
+// The increase a tenancy has been given notice of that has not taken effect yet
+export const scheduledIncrease = (
+  entries: RentScheduleEntry[],
+  tenancyId: string,
+  today = new Date()
+): RentScheduleEntry | null =>
+  entries
+    .filter((e) => e.tenancy_id === tenancyId && e.notice_issued_on && parseDate(e.effective_date) > startOfDay(today))
+    .sort((a, b) => a.effective_date.localeCompare(b.effective_date))[0] || null;
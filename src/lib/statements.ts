@@ -0,0 +1,86 @@
+// Account statements: the running statement from buildStatement() split into
+// calendar-month periods, each with its opening balance, what was charged and
+// paid in it and its closing balance. The PDF statement is produced by the
+// tenant-documents edge function, whose _shared/statements.ts mirrors this.
+
+import { roundCurrency } from '@/lib/rentCharges';
+import type { StatementLine } from '@/lib/paymentAllocation';
+
+export interface StatementPeriod {
+  // YYYY-MM
+  key: string;
+  label: string;
+  openingBalance: number;
+  rent: number;
+  fees: number;
+  payments: number;
+  closingBalance: number;
+  lines: StatementLine[];
+}
+
+export const periodLabel = (key: string) => {
+  const [year, month] = key.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+};
+
+export interface AccountStatement {
+  openingBalance: number;
+  rent: number;
+  fees: number;
+  payments: number;
+  closingBalance: number;
+  periods: StatementPeriod[];
+}
+
+// Statement for from..to (YYYY-MM-DD, both inclusive, either may be left open).
+// Lines before from only make up the opening balance; months without any
+// activity are left out.
+export const buildAccountStatement = (
+  lines: StatementLine[],
+  from?: string | null,
+  to?: string | null
+): AccountStatement => {
+  const periods: StatementPeriod[] = [];
+  let openingBalance = 0;
+  let balance = 0;
+
+  for (const line of lines) {
+    if (to && line.date > to) break;
+    if (from && line.date < from) {
+      openingBalance = balance = line.balance;
+      continue;
+    }
+
+    const key = line.date.slice(0, 7);
+    let period = periods[periods.length - 1];
+    if (!period || period.key !== key) {
+      period = {
+        key,
+        label: periodLabel(key),
+        openingBalance: balance,
+        rent: 0,
+        fees: 0,
+        payments: 0,
+        closingBalance: balance,
+        lines: [],
+      };
+      periods.push(period);
+    }
+
+    if (line.type === 'late_fee') period.fees = roundCurrency(period.fees + line.debit);
+    else if (line.type === 'rent') period.rent = roundCurrency(period.rent + line.debit);
+    else period.payments = roundCurrency(period.payments + line.credit);
+
+    period.lines.push(line);
+    period.closingBalance = balance = line.balance;
+  }
+
+  return {
+    openingBalance,
+    rent: roundCurrency(periods.reduce((sum, p) => sum + p.rent, 0)),
+    fees: roundCurrency(periods.reduce((sum, p) => sum + p.fees, 0)),
+    payments: roundCurrency(periods.reduce((sum, p) => sum + p.payments, 0)),
+    closingBalance: balance,
+    periods,
+  };
+};
@@ -0,0 +1,46 @@
+import { supabase } from '@/integrations/supabase/client';
+import { edgeFunctionError } from '@/lib/edgeFunctions';
+
+// PDF receipts and statements are generated by the tenant-documents edge function
+
+type TenantDocumentRequest =
+  | { action: 'receipt'; payment_id: string }
+  | { action: 'statement'; tenancy_id: string; from: string; to: string }
+  | { action: 'settlement'; tenancy_id: string };
+
+export const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadTenantDocument = async (request: TenantDocumentRequest, filename: string) => {
+  const { data, error } = await supabase.functions.invoke('tenant-documents', { body: request });
+
+  if (error) throw await edgeFunctionError(error);
+  if (!(data instanceof Blob)) {
+    throw new Error(data?.error || 'The document could not be generated');
+  }
+
+  saveBlob(data, filename);
+};
+
+export const downloadReceipt = (payment: { id: string; payment_date: string }) =>
+  downloadTenantDocument(
+    { action: 'receipt', payment_id: payment.id },
+    `receipt-${payment.payment_date}-${payment.id.slice(0, 8)}.pdf`
+  );
+
+export const downloadStatement = (tenancyId: string, from: string, to: string) =>
+  downloadTenantDocument(
+    { action: 'statement', tenancy_id: tenancyId, from, to },
+    `statement-${from}-to-${to}.pdf`
+  );
+
+export const downloadSettlementStatement = (tenancyId: string) =>
+  downloadTenantDocument({ action: 'settlement', tenancy_id: tenancyId }, 'deposit-settlement.pdf');
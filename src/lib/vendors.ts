@@ -0,0 +1,73 @@
+import type { MaintenanceCategory } from '@/lib/maintenance';
+
+// A landlord's vendors and the work orders that dispatch maintenance requests
+// to them. Work orders and invoices are written by database functions; the
+// invoice is also posted to the property's expenses there.
+
+export type WorkOrderStatus = 'open' | 'completed' | 'cancelled';
+
+export interface Vendor {
+  id: string;
+  landlord_id: string;
+  name: string;
+  trade: MaintenanceCategory;
+  contact_name: string | null;
+  phone: string | null;
+  email: string | null;
+  hourly_rate: number | null;
+  callout_fee: number | null;
+  notes: string | null;
+  archived: boolean;
+}
+
+export interface VendorInvoice {
+  id: string;
+  work_order_id: string;
+  invoice_number: string | null;
+  amount: number;
+  invoice_date: string;
+}
+
+export interface WorkOrder {
+  id: string;
+  request_id: string;
+  vendor_id: string;
+  status: WorkOrderStatus;
+  scheduled_for: string | null;
+  cost_estimate: number | null;
+  instructions: string | null;
+  created_at: string | null;
+  completed_at: string | null;
+  cancelled_at: string | null;
+}
+
+export const workOrderStatusLabels: Record<WorkOrderStatus, string> = {
+  open: 'Open',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+// "$45/hr · $60 call-out", or null when no rates are on file
+export const describeVendorRates = (vendor: Pick<Vendor, 'hourly_rate' | 'callout_fee'>): string | null => {
+  const rates = [
+    vendor.hourly_rate != null && `$${Number(vendor.hourly_rate).toLocaleString()}/hr`,
+    vendor.callout_fee != null && `$${Number(vendor.callout_fee).toLocaleString()} call-out`,
+  ].filter(Boolean);
+
+  return rates.length > 0 ? rates.join(' · ') : null;
+};
+
+// Vendors that can be dispatched, those in the request's trade first
+export const vendorsForRequest = (vendors: Vendor[], category: MaintenanceCategory): Vendor[] =>
+  vendors
+    .filter((vendor) => !vendor.archived)
+    .sort((a, b) => Number(b.trade === category) - Number(a.trade === category) || a.name.localeCompare(b.name));
+
+// The work order to show on a request: the open one, else the latest
+export const currentWorkOrder = <T extends WorkOrder>(workOrders: T[]): T | null =>
+  workOrders.find((order) => order.status === 'open') ??
+  [...workOrders].sort((a, b) => (b.created_at ?? '').localeCompare(a.created_at ?? ''))[0] ??
+  null;
+
+export const invoicedTotal = (invoices: Pick<VendorInvoice, 'amount'>[]) =>
+  invoices.reduce((sum, invoice) => sum + Number(invoice.amount), 0);
@@ -5,8 +5,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useAuth } from '@/contexts/AuthContext';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { INVITE_PARAM, invitationState, type InvitationPreview } from '@/lib/invitations';
 
 type UserRole = 'landlord' | 'tenant' | 'admin';
 
@@ -14,13 +17,18 @@ const Auth = () => {
   const [isLoading, setIsLoading] = useState(false);
   const { signIn, signUp, user, profile } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get(INVITE_PARAM);
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [inviteError, setInviteError] = useState<string | null>(null);
 
-  // Redirect authenticated users to dashboard
+  // Redirect authenticated users to dashboard, keeping an invite link's token
+  // so an existing account can accept it there
   useEffect(() => {
     if (user && profile) {
-      navigate('/', { replace: true });
+      navigate(inviteToken ? `/?${INVITE_PARAM}=${encodeURIComponent(inviteToken)}` : '/', { replace: true });
     }
-  }, [user, profile, navigate]);
+  }, [user, profile, navigate, inviteToken]);
 
   // Sign In Form State
   const [signInEmail, setSignInEmail] = useState('');
@@ -33,6 +41,41 @@ const Auth = () => {
   const [phone, setPhone] = useState('');
   const [role, setRole] = useState<UserRole>('tenant');
 
+  // An invite link signs the tenant up with the details their landlord gave,
+  // and the new account accepts the invitation as it is created
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    const fetchInvitation = async () => {
+      const { data, error } = await supabase.rpc('get_invitation', { _token: inviteToken });
+      const found = data?.[0];
+
+      if (error || !found) {
+        setInviteError('This invite link is not valid. Ask your landlord to send a new one.');
+        return;
+      }
+
+      const state = invitationState(found);
+      if (state !== 'pending') {
+        setInviteError(
+          state === 'expired'
+            ? 'This invitation has expired. Ask your landlord to send a new one.'
+            : `This invitation has been ${state}.`
+        );
+        return;
+      }
+
+      setInvitation(found);
+      setFullName(found.full_name);
+      setSignUpEmail(found.email ?? '');
+      setSignInEmail(found.email ?? '');
+      setPhone(found.phone ?? '');
+      setRole('tenant');
+    };
+
+    fetchInvitation();
+  }, [inviteToken]);
+
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -51,7 +94,7 @@ const Auth = () => {
     setIsLoading(true);
     
     try {
-      await signUp(signUpEmail, signUpPassword, fullName, phone, role);
+      await signUp(signUpEmail, signUpPassword, fullName, phone, role, invitation?.token);
     } catch (error) {
       console.error('Sign up error:', error);
     } finally {
@@ -67,7 +110,23 @@ const Auth = () => {
           <CardDescription>Sign in to your account or create a new one</CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="signin" className="w-full">
+          {invitation && (
+            <Alert className="mb-4">
+              <AlertTitle>You're invited to {invitation.property_name}</AlertTitle>
+              <AlertDescription>
+                {invitation.landlord_name || 'Your landlord'} has invited you to rent Unit {invitation.unit_number} at $
+                {Number(invitation.rent_amount).toLocaleString()}, starting{' '}
+                {new Date(invitation.start_date).toLocaleDateString()}. Create your account to accept, or sign in if you
+                already have one and accept from your dashboard.
+              </AlertDescription>
+            </Alert>
+          )}
+          {inviteError && (
+            <Alert variant="destructive" className="mb-4">
+              <AlertDescription>{inviteError}</AlertDescription>
+            </Alert>
+          )}
+          <Tabs defaultValue={inviteToken ? 'signup' : 'signin'} className="w-full">
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="signin">Sign In</TabsTrigger>
               <TabsTrigger value="signup">Sign Up</TabsTrigger>
@@ -127,6 +186,7 @@ const Auth = () => {
                     placeholder="Enter your email"
                     value={signUpEmail}
                     onChange={(e) => setSignUpEmail(e.target.value)}
+                    readOnly={!!invitation?.email}
                     required
                   />
                 </div>
@@ -139,13 +199,14 @@ const Auth = () => {
                     placeholder="Enter your phone number"
                     value={phone}
                     onChange={(e) => setPhone(e.target.value)}
+                    readOnly={!!invitation && !invitation.email}
                     required
                   />
                 </div>
                 
                 <div className="space-y-2">
                   <Label htmlFor="role">Role</Label>
-                  <Select value={role} onValueChange={(value: UserRole) => setRole(value)}>
+                  <Select value={role} onValueChange={(value: UserRole) => setRole(value)} disabled={!!invitation}>
                     <SelectTrigger>
                       <SelectValue placeholder="Select your role" />
                     </SelectTrigger>
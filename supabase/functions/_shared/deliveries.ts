@@ -0,0 +1,94 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { isTransientNotificationError } from './notifications.ts';
+import type { ChannelGateway, NotificationChannel } from './notifications.ts';
+
+export interface ClaimedDelivery {
+  id: string;
+  channel: NotificationChannel;
+  recipient: string | null;
+  subject: string | null;
+  body: string;
+  attempts: number;
+}
+
+export interface DeliveryOptions {
+  maxAttempts: number;
+}
+
+export type DeliveryOutcome = 'sent' | 'failed' | 'retry_scheduled';
+
+const secondsFromNow = (seconds: number) => new Date(Date.now() + seconds * 1000).toISOString();
+
+// Exponential backoff between attempts that hit a transient error: 1, 2, 4... minutes, capped at an hour
+const retryDelaySeconds = (attempts: number) => Math.min(60 * 2 ** Math.max(attempts - 1, 0), 3600);
+
+const updateDelivery = async (admin: SupabaseClient, deliveryId: string, changes: Record<string, unknown>) => {
+  const { error } = await admin
+    .from('notification_deliveries')
+    .update(changes)
+    .eq('id', deliveryId)
+    .eq('status', 'sending');
+
+  if (error) throw error;
+};
+
+// Fails a claimed delivery that cannot be attempted at all, such as one whose
+// channel has no gateway configured
+export const failDelivery = async (
+  admin: SupabaseClient,
+  delivery: ClaimedDelivery,
+  reason: string
+): Promise<DeliveryOutcome> => {
+  await updateDelivery(admin, delivery.id, { status: 'failed', attempts: delivery.attempts + 1, error: reason });
+  return 'failed';
+};
+
+// Runs one attempt for a delivery claimed by claim_due_notifications()
+export const processDelivery = async (
+  admin: SupabaseClient,
+  gateway: ChannelGateway,
+  delivery: ClaimedDelivery,
+  options: DeliveryOptions
+): Promise<DeliveryOutcome> => {
+  const attempts = delivery.attempts + 1;
+
+  if (!delivery.recipient) {
+    await updateDelivery(admin, delivery.id, { status: 'failed', attempts, error: 'No recipient address' });
+    return 'failed';
+  }
+
+  try {
+    const sent = await gateway.send({
+      deliveryId: delivery.id,
+      channel: delivery.channel,
+      to: delivery.recipient,
+      subject: delivery.subject,
+      body: delivery.body,
+    });
+
+    await updateDelivery(admin, delivery.id, {
+      status: 'sent',
+      attempts,
+      provider: gateway.name,
+      provider_message_id: sent.providerMessageId ?? null,
+      error: null,
+      sent_at: new Date().toISOString(),
+    });
+    return 'sent';
+  } catch (error) {
+    const reason = (error as Error).message;
+
+    if (!isTransientNotificationError(error) || attempts >= options.maxAttempts) {
+      await updateDelivery(admin, delivery.id, { status: 'failed', attempts, error: reason });
+      return 'failed';
+    }
+
+    await updateDelivery(admin, delivery.id, {
+      status: 'pending',
+      attempts,
+      error: reason,
+      next_attempt_at: secondsFromNow(retryDelaySeconds(attempts)),
+    });
+    return 'retry_scheduled';
+  }
+};
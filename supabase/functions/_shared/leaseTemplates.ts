@@ -0,0 +1,90 @@
+// Lease template rendering for the lease PDFs. Mirrors src/lib/leaseTemplates.ts,
+// which the landlord's template preview uses; keep the placeholders and their
+// formatting in step.
+
+export interface LeaseDetails {
+  tenant_name: string;
+  tenant_email: string | null;
+  tenant_phone: string | null;
+  landlord_name: string;
+  landlord_email: string | null;
+  landlord_phone: string | null;
+  property_name: string;
+  property_address: string;
+  unit_number: string;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  rent_amount: number;
+  billing_cycle: string;
+  start_date: string;
+  end_date: string | null;
+  deposit_amount: number;
+}
+
+export type LeaseBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string };
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string) => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+// today is YYYY-MM-DD
+export const leasePlaceholderValues = (details: LeaseDetails, today: string): Record<string, string> => ({
+  tenant_name: details.tenant_name,
+  tenant_email: details.tenant_email ?? '',
+  tenant_phone: details.tenant_phone ?? '',
+  landlord_name: details.landlord_name,
+  landlord_email: details.landlord_email ?? '',
+  landlord_phone: details.landlord_phone ?? '',
+  property_name: details.property_name,
+  property_address: details.property_address,
+  unit_number: details.unit_number,
+  bedrooms: details.bedrooms === null ? '' : String(details.bedrooms),
+  bathrooms: details.bathrooms === null ? '' : String(details.bathrooms),
+  rent_amount: formatMoney(Number(details.rent_amount)),
+  billing_cycle: details.billing_cycle,
+  start_date: formatDate(details.start_date),
+  end_date: details.end_date ? formatDate(details.end_date) : 'None (periodic tenancy)',
+  deposit_amount: formatMoney(Number(details.deposit_amount)),
+  today: formatDate(today),
+});
+
+export const renderLeaseTemplate = (body: string, values: Record<string, string>) =>
+  body.replace(PLACEHOLDER_PATTERN, (match, key: string) => (key in values ? values[key] : match));
+
+export const toLeaseBlocks = (text: string): LeaseBlock[] => {
+  const blocks: LeaseBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+    paragraph = [];
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith('# ')) {
+      flush();
+      blocks.push({ type: 'heading', text: line.slice(2).trim() });
+    } else if (line === '') {
+      flush();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+};
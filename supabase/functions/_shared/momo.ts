@@ -0,0 +1,278 @@
+// Mobile money provider abstraction.
+//
+// The edge functions only talk to a CollectionsProvider or DisbursementsProvider;
+// which implementation backs them is decided by environment variables:
+//
+//   MOMO_PROVIDER            'mtn' (default) or 'sandbox'
+//   MOMO_BASE_URL            API root, e.g. https://sandbox.momodeveloper.mtn.com
+//   MOMO_TARGET_ENVIRONMENT  'sandbox' or the production environment name (e.g. 'mtnuganda')
+//   MOMO_CURRENCY            ISO currency code (the MTN sandbox only accepts EUR)
+//   MOMO_HTTP_TIMEOUT_MS     per-request timeout (default 15000)
+//   MOMO_COLLECTION_SUBSCRIPTION_KEY / MOMO_COLLECTION_API_USER / MOMO_COLLECTION_API_KEY
+//   MOMO_DISBURSEMENT_SUBSCRIPTION_KEY / MOMO_DISBURSEMENT_API_USER / MOMO_DISBURSEMENT_API_KEY
+//
+// With MOMO_PROVIDER=sandbox the MTN client is pointed at the local stand-in in
+// supabase/sandbox/momo-server.ts (MOMO_SANDBOX_URL, default http://localhost:8787),
+// which speaks the same HTTP API, so the full flow can be exercised offline.
+
+export type MomoTransactionStatus = 'PENDING' | 'SUCCESSFUL' | 'FAILED';
+
+export interface ProviderTransaction {
+  referenceId: string;
+  status: MomoTransactionStatus;
+  financialTransactionId?: string;
+  reason?: string;
+}
+
+export interface RequestToPayParams {
+  referenceId: string;
+  amount: number;
+  phoneNumber: string;
+  externalId: string;
+  payerMessage: string;
+  payeeNote: string;
+  callbackUrl?: string;
+}
+
+export interface CollectionsProvider {
+  readonly name: string;
+  readonly currency: string;
+  requestToPay(params: RequestToPayParams): Promise<void>;
+  getRequestToPayStatus(referenceId: string): Promise<ProviderTransaction>;
+}
+
+export interface TransferParams {
+  referenceId: string;
+  amount: number;
+  phoneNumber: string;
+  externalId: string;
+  payerMessage: string;
+  payeeNote: string;
+}
+
+export interface DisbursementsProvider {
+  readonly name: string;
+  readonly currency: string;
+  // Resolves once the provider has accepted the transfer, including when it was
+  // already accepted under the same referenceId by an earlier attempt
+  transfer(params: TransferParams): Promise<void>;
+  getTransferStatus(referenceId: string): Promise<ProviderTransaction>;
+}
+
+export class MomoApiError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'MomoApiError';
+  }
+}
+
+// Network failures, timeouts, throttling and 5xx responses are worth retrying;
+// any other rejection will not change on a second try
+export const isTransientMomoError = (error: unknown) => {
+  if (!(error instanceof MomoApiError)) return true;
+  return error.status === undefined || error.status === 429 || error.status >= 500;
+};
+
+export interface MomoProductConfig {
+  name: string;
+  baseUrl: string;
+  targetEnvironment: string;
+  currency: string;
+  subscriptionKey: string;
+  apiUser: string;
+  apiKey: string;
+  timeoutMs: number;
+}
+
+export const getMomoConfig = (product: 'collection' | 'disbursement'): MomoProductConfig => {
+  const provider = Deno.env.get('MOMO_PROVIDER') ?? 'mtn';
+  const prefix = `MOMO_${product.toUpperCase()}`;
+  const timeoutMs = Number(Deno.env.get('MOMO_HTTP_TIMEOUT_MS') ?? 15000);
+
+  if (provider === 'sandbox') {
+    return {
+      name: 'sandbox',
+      baseUrl: Deno.env.get('MOMO_SANDBOX_URL') ?? 'http://localhost:8787',
+      targetEnvironment: 'sandbox',
+      currency: Deno.env.get('MOMO_CURRENCY') ?? 'UGX',
+      subscriptionKey: 'sandbox',
+      apiUser: 'sandbox',
+      apiKey: 'sandbox',
+      timeoutMs,
+    };
+  }
+
+  const required = (key: string) => {
+    const value = Deno.env.get(key);
+    if (!value) throw new Error(`Missing ${key} environment variable`);
+    return value;
+  };
+
+  return {
+    name: 'mtn',
+    baseUrl: Deno.env.get('MOMO_BASE_URL') ?? 'https://sandbox.momodeveloper.mtn.com',
+    targetEnvironment: Deno.env.get('MOMO_TARGET_ENVIRONMENT') ?? 'sandbox',
+    currency: Deno.env.get('MOMO_CURRENCY') ?? 'EUR',
+    subscriptionKey: required(`${prefix}_SUBSCRIPTION_KEY`),
+    apiUser: required(`${prefix}_API_USER`),
+    apiKey: required(`${prefix}_API_KEY`),
+    timeoutMs,
+  };
+};
+
+// Shared plumbing for the MTN Open API products (token, headers, errors)
+export class MtnMomoProduct {
+  private token: { value: string; expiresAt: number } | null = null;
+
+  constructor(
+    protected readonly product: 'collection' | 'disbursement',
+    protected readonly config: MomoProductConfig
+  ) {}
+
+  get name() {
+    return this.config.name;
+  }
+
+  get currency() {
+    return this.config.currency;
+  }
+
+  protected async getAccessToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now()) {
+      return this.token.value;
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/${this.product}/token/`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${this.config.apiUser}:${this.config.apiKey}`)}`,
+        'Ocp-Apim-Subscription-Key': this.config.subscriptionKey,
+      },
+      signal: AbortSignal.timeout(this.config.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new MomoApiError(`Token request failed (${response.status})`, response.status);
+    }
+
+    const body = await response.json();
+    // Refresh a minute early so a token never expires mid-request
+    this.token = {
+      value: body.access_token,
+      expiresAt: Date.now() + (Number(body.expires_in ?? 3600) - 60) * 1000,
+    };
+    return this.token.value;
+  }
+
+  protected async request(path: string, init: RequestInit & { headers?: Record<string, string> }) {
+    const token = await this.getAccessToken();
+    return fetch(`${this.config.baseUrl}/${this.product}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'X-Target-Environment': this.config.targetEnvironment,
+        'Ocp-Apim-Subscription-Key': this.config.subscriptionKey,
+        ...init.headers,
+      },
+      signal: AbortSignal.timeout(this.config.timeoutMs),
+    });
+  }
+
+  protected async readTransaction(path: string, referenceId: string): Promise<ProviderTransaction> {
+    const response = await this.request(`${path}/${referenceId}`, { method: 'GET' });
+
+    if (!response.ok) {
+      throw new MomoApiError(`Status lookup failed (${response.status})`, response.status);
+    }
+
+    const body = await response.json();
+    return {
+      referenceId,
+      status: body.status,
+      financialTransactionId: body.financialTransactionId ?? undefined,
+      reason: typeof body.reason === 'string' ? body.reason : body.reason?.message ?? body.reason?.code,
+    };
+  }
+}
+
+export class MtnMomoCollections extends MtnMomoProduct implements CollectionsProvider {
+  constructor(config: MomoProductConfig) {
+    super('collection', config);
+  }
+
+  async requestToPay(params: RequestToPayParams) {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Reference-Id': params.referenceId,
+    };
+    if (params.callbackUrl) headers['X-Callback-Url'] = params.callbackUrl;
+
+    const response = await this.request('/v1_0/requesttopay', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        amount: String(params.amount),
+        currency: this.currency,
+        externalId: params.externalId,
+        payer: { partyIdType: 'MSISDN', partyId: params.phoneNumber },
+        payerMessage: params.payerMessage,
+        payeeNote: params.payeeNote,
+      }),
+    });
+
+    // 202 Accepted is the only success response for request-to-pay
+    if (response.status !== 202) {
+      const detail = await response.text();
+      throw new MomoApiError(`Request to pay was rejected (${response.status}) ${detail}`.trim(), response.status);
+    }
+  }
+
+  getRequestToPayStatus(referenceId: string) {
+    return this.readTransaction('/v1_0/requesttopay', referenceId);
+  }
+}
+
+export class MtnMomoDisbursements extends MtnMomoProduct implements DisbursementsProvider {
+  constructor(config: MomoProductConfig) {
+    super('disbursement', config);
+  }
+
+  async transfer(params: TransferParams) {
+    const response = await this.request('/v1_0/transfer', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Reference-Id': params.referenceId,
+      },
+      body: JSON.stringify({
+        amount: String(params.amount),
+        currency: this.currency,
+        externalId: params.externalId,
+        payee: { partyIdType: 'MSISDN', partyId: params.phoneNumber },
+        payerMessage: params.payerMessage,
+        payeeNote: params.payeeNote,
+      }),
+    });
+
+    // 409 means a previous attempt with this reference already reached MTN
+    if (response.status === 202 || response.status === 409) return;
+
+    const detail = await response.text();
+    throw new MomoApiError(`Transfer was rejected (${response.status}) ${detail}`.trim(), response.status);
+  }
+
+  getTransferStatus(referenceId: string) {
+    return this.readTransaction('/v1_0/transfer', referenceId);
+  }
+}
+
+export const createCollectionsProvider = (): CollectionsProvider =>
+  new MtnMomoCollections(getMomoConfig('collection'));
+
+export const createDisbursementsProvider = (): DisbursementsProvider =>
+  new MtnMomoDisbursements(getMomoConfig('disbursement'));
+
+// MSISDN without '+', spaces or dashes, e.g. "256 772 123 456" -> "256772123456"
+export const normalizeMsisdn = (phoneNumber: string) => phoneNumber.replace(/\D/g, '');
+
+export const isValidMsisdn = (msisdn: string) => /^\d{9,15}$/.test(msisdn);
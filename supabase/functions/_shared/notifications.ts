@@ -0,0 +1,197 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+// Messaging gateway abstraction.
+//
+// The send-notifications worker only talks to a ChannelGateway for each
+// channel; which implementation backs it is decided by environment variables:
+//
+//   NOTIFY_PROVIDER        'live' (default) or 'capture'
+//   NOTIFY_HTTP_TIMEOUT_MS per-request timeout (default 15000)
+//
+// SMS, through the Africa's Talking messaging API:
+//
+//   AT_USERNAME            app username ('sandbox' for the Africa's Talking sandbox)
+//   AT_API_KEY
+//   AT_SENDER_ID           registered sender id or short code (optional)
+//   AT_BASE_URL            API root (default derived from AT_USERNAME)
+//
+// Email, over SMTP:
+//
+//   SMTP_HOST / SMTP_PORT (default 465) / SMTP_USERNAME / SMTP_PASSWORD
+//   SMTP_FROM              e.g. "Rentals <no-reply@example.com>"
+//   SMTP_TLS               'false' to use STARTTLS on a plain connection (default 'true')
+//
+// With NOTIFY_PROVIDER=capture nothing leaves the system: every message is
+// written to the captured_messages table instead, so reminders can be
+// exercised locally and inspected with a query.
+
+export type NotificationChannel = 'sms' | 'email';
+
+export interface OutgoingMessage {
+  deliveryId: string;
+  channel: NotificationChannel;
+  to: string;
+  subject: string | null;
+  body: string;
+}
+
+export interface SentMessage {
+  providerMessageId?: string;
+}
+
+export interface ChannelGateway {
+  readonly name: string;
+  readonly channel: NotificationChannel;
+  send(message: OutgoingMessage): Promise<SentMessage>;
+}
+
+export class NotificationGatewayError extends Error {
+  constructor(message: string, public readonly transient = false) {
+    super(message);
+    this.name = 'NotificationGatewayError';
+  }
+}
+
+// Network failures, timeouts and gateway outages are worth retrying; a
+// rejected number or address will not change on a second try
+export const isTransientNotificationError = (error: unknown) =>
+  !(error instanceof NotificationGatewayError) || error.transient;
+
+const required = (key: string) => {
+  const value = Deno.env.get(key);
+  if (!value) throw new NotificationGatewayError(`Missing ${key} environment variable`);
+  return value;
+};
+
+const timeoutMs = () => Number(Deno.env.get('NOTIFY_HTTP_TIMEOUT_MS') ?? 15000);
+
+// Recipient statuses Africa's Talking reports for a message it took
+// (Processed, Sent, Queued); anything else was rejected
+const AT_ACCEPTED_CODES = [100, 101, 102];
+
+export class AfricasTalkingSms implements ChannelGateway {
+  readonly name = 'africastalking';
+  readonly channel = 'sms' as const;
+  private readonly username = required('AT_USERNAME');
+  private readonly apiKey = required('AT_API_KEY');
+  private readonly senderId = Deno.env.get('AT_SENDER_ID');
+  private readonly baseUrl =
+    Deno.env.get('AT_BASE_URL') ??
+    (this.username === 'sandbox' ? 'https://api.sandbox.africastalking.com' : 'https://api.africastalking.com');
+
+  async send(message: OutgoingMessage): Promise<SentMessage> {
+    const form = new URLSearchParams({
+      username: this.username,
+      // Africa's Talking expects international format with the leading '+'
+      to: `+${message.to.replace(/\D/g, '')}`,
+      message: message.body,
+    });
+    if (this.senderId) form.set('from', this.senderId);
+
+    const response = await fetch(`${this.baseUrl}/version1/messaging`, {
+      method: 'POST',
+      headers: {
+        apiKey: this.apiKey,
+        Accept: 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: form,
+      signal: AbortSignal.timeout(timeoutMs()),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text();
+      throw new NotificationGatewayError(
+        `SMS was rejected (${response.status}) ${detail}`.trim(),
+        response.status === 429 || response.status >= 500
+      );
+    }
+
+    const body = await response.json();
+    const recipient = body?.SMSMessageData?.Recipients?.[0];
+    if (!recipient) {
+      throw new NotificationGatewayError(body?.SMSMessageData?.Message ?? 'SMS was not accepted');
+    }
+
+    const statusCode = Number(recipient.statusCode);
+    if (!AT_ACCEPTED_CODES.includes(statusCode)) {
+      // 5xx codes are gateway-side failures; the rest are about the number or account
+      throw new NotificationGatewayError(`SMS was rejected: ${recipient.status}`, statusCode >= 500);
+    }
+
+    return { providerMessageId: recipient.messageId };
+  }
+}
+
+export class SmtpEmail implements ChannelGateway {
+  readonly name = 'smtp';
+  readonly channel = 'email' as const;
+  private readonly from = required('SMTP_FROM');
+  private readonly client = new SMTPClient({
+    connection: {
+      hostname: required('SMTP_HOST'),
+      port: Number(Deno.env.get('SMTP_PORT') ?? 465),
+      tls: Deno.env.get('SMTP_TLS') !== 'false',
+      auth: {
+        username: required('SMTP_USERNAME'),
+        password: required('SMTP_PASSWORD'),
+      },
+    },
+  });
+
+  async send(message: OutgoingMessage): Promise<SentMessage> {
+    try {
+      await this.client.send({
+        from: this.from,
+        to: message.to,
+        subject: message.subject ?? '',
+        content: message.body,
+      });
+      return {};
+    } catch (error) {
+      // SMTP 5xx replies are permanent (bad mailbox, refused); the rest is connectivity
+      const permanent = /\b5\d\d\b/.test((error as Error).message);
+      throw new NotificationGatewayError(`Email was not sent: ${(error as Error).message}`, !permanent);
+    }
+  }
+
+  close() {
+    return this.client.close();
+  }
+}
+
+// Local stand-in: records the message instead of sending it
+export class CaptureGateway implements ChannelGateway {
+  readonly name = 'capture';
+
+  constructor(
+    private readonly admin: SupabaseClient,
+    readonly channel: NotificationChannel
+  ) {}
+
+  async send(message: OutgoingMessage): Promise<SentMessage> {
+    const { data, error } = await this.admin
+      .from('captured_messages')
+      .insert({
+        delivery_id: message.deliveryId,
+        channel: message.channel,
+        recipient: message.to,
+        subject: message.subject,
+        body: message.body,
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    console.log(`[notify-capture] ${message.channel} to ${message.to}: ${message.subject ?? message.body}`);
+    return { providerMessageId: data.id };
+  }
+}
+
+export const notificationProviderName = () => Deno.env.get('NOTIFY_PROVIDER') ?? 'live';
+
+export const createChannelGateway = (admin: SupabaseClient, channel: NotificationChannel): ChannelGateway => {
+  if (notificationProviderName() === 'capture') return new CaptureGateway(admin, channel);
+  return channel === 'sms' ? new AfricasTalkingSms() : new SmtpEmail();
+};
@@ -0,0 +1,64 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { MomoApiError, type CollectionsProvider, type ProviderTransaction } from './momo.ts';
+
+export type PaymentStatus = 'pending' | 'completed' | 'failed';
+
+const toPaymentStatus = (status: ProviderTransaction['status']): PaymentStatus => {
+  switch (status) {
+    case 'SUCCESSFUL':
+      return 'completed';
+    case 'FAILED':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+};
+
+// Moves a pending payment to its final state. The status guard makes this safe to
+// call from both the callback and the polling path without double-processing.
+export const applyCollectionResult = async (
+  admin: SupabaseClient,
+  paymentId: string,
+  transaction: ProviderTransaction
+) => {
+  const status = toPaymentStatus(transaction.status);
+  if (status === 'pending') return { status, updated: false };
+
+  const { data, error } = await admin
+    .from('payments')
+    .update({
+      status,
+      provider_transaction_id: transaction.financialTransactionId ?? null,
+      failure_reason: status === 'failed' ? transaction.reason ?? 'Payment was declined' : null,
+      processed_at: new Date().toISOString(),
+    })
+    .eq('id', paymentId)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) throw error;
+  return { status, updated: (data ?? []).length > 0 };
+};
+
+// Asks the provider where a payment stands and records the outcome. A 404 means
+// MTN never received the request-to-pay, so nothing can complete it any more.
+export const refreshPaymentStatus = async (
+  admin: SupabaseClient,
+  provider: CollectionsProvider,
+  payment: { id: string; status: string | null; provider_reference: string | null },
+  unknownReason = 'MTN MoMo has no record of this payment'
+) => {
+  if (payment.status !== 'pending' || !payment.provider_reference) {
+    return { status: payment.status, updated: false };
+  }
+
+  let transaction: ProviderTransaction;
+  try {
+    transaction = await provider.getRequestToPayStatus(payment.provider_reference);
+  } catch (error) {
+    if (!(error instanceof MomoApiError && error.status === 404)) throw error;
+    transaction = { referenceId: payment.provider_reference, status: 'FAILED', reason: unknownReason };
+  }
+
+  return applyCollectionResult(admin, payment.id, transaction);
+};
@@ -0,0 +1,143 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { MomoApiError, isTransientMomoError, isValidMsisdn, normalizeMsisdn } from './momo.ts';
+import type { DisbursementsProvider } from './momo.ts';
+
+export interface ClaimedPayout {
+  id: string;
+  kind: 'landlord_payout' | 'deposit_refund';
+  amount: number;
+  phone_number: string;
+  provider_reference: string;
+  attempts: number;
+  submitted_at: string | null;
+}
+
+export interface DisbursementOptions {
+  maxAttempts: number;
+  // How long to wait before asking the provider again about an accepted transfer
+  recheckSeconds: number;
+}
+
+export type DisbursementOutcome = 'completed' | 'failed' | 'awaiting_provider' | 'retry_scheduled';
+
+const secondsFromNow = (seconds: number) => new Date(Date.now() + seconds * 1000).toISOString();
+
+// Exponential backoff between attempts that hit a transient error: 1, 2, 4... minutes, capped at an hour
+const retryDelaySeconds = (attempts: number) => Math.min(60 * 2 ** Math.max(attempts - 1, 0), 3600);
+
+const updatePayout = async (admin: SupabaseClient, payoutId: string, changes: Record<string, unknown>) => {
+  const { error } = await admin
+    .from('payouts')
+    .update(changes)
+    .eq('id', payoutId)
+    .eq('status', 'processing');
+
+  if (error) throw error;
+};
+
+const failPayout = (admin: SupabaseClient, payoutId: string, reason: string) =>
+  updatePayout(admin, payoutId, {
+    status: 'failed',
+    failure_reason: reason,
+    processed_at: new Date().toISOString(),
+  });
+
+// Whether MTN holds a transfer under this reference: false only when it says
+// the reference is unknown, null when the lookup itself failed
+const transferWasAccepted = async (provider: DisbursementsProvider, referenceId: string) => {
+  try {
+    await provider.getTransferStatus(referenceId);
+    return true;
+  } catch (error) {
+    return error instanceof MomoApiError && error.status === 404 ? false : null;
+  }
+};
+
+// Runs one attempt for a payout claimed by claim_due_payouts(). The transfer is
+// submitted at most once per provider_reference; later attempts only ask the
+// provider where it stands, so a retry can never pay the landlord (or, for a
+// deposit refund, the tenant) twice.
+export const processPayout = async (
+  admin: SupabaseClient,
+  provider: DisbursementsProvider,
+  payout: ClaimedPayout,
+  options: DisbursementOptions
+): Promise<DisbursementOutcome> => {
+  const phoneNumber = normalizeMsisdn(payout.phone_number);
+  if (!isValidMsisdn(phoneNumber)) {
+    await failPayout(admin, payout.id, 'Invalid MTN MoMo phone number');
+    return 'failed';
+  }
+
+  let submitted = !!payout.submitted_at;
+
+  try {
+    if (!submitted) {
+      await provider.transfer({
+        referenceId: payout.provider_reference,
+        amount: Number(payout.amount),
+        phoneNumber,
+        externalId: payout.id,
+        payerMessage: payout.kind === 'deposit_refund' ? 'Deposit refund' : 'Rent payout',
+        payeeNote: `${payout.kind === 'deposit_refund' ? 'Refund' : 'Payout'} ${payout.id}`,
+      });
+      await updatePayout(admin, payout.id, { submitted_at: new Date().toISOString() });
+      submitted = true;
+    }
+
+    const transaction = await provider.getTransferStatus(payout.provider_reference);
+
+    if (transaction.status === 'SUCCESSFUL') {
+      await updatePayout(admin, payout.id, {
+        status: 'completed',
+        transaction_id: transaction.financialTransactionId ?? null,
+        failure_reason: null,
+        processed_at: new Date().toISOString(),
+      });
+      return 'completed';
+    }
+
+    if (transaction.status === 'FAILED') {
+      await failPayout(admin, payout.id, transaction.reason ?? 'Transfer was declined');
+      return 'failed';
+    }
+
+    await updatePayout(admin, payout.id, { next_attempt_at: secondsFromNow(options.recheckSeconds) });
+    return 'awaiting_provider';
+  } catch (error) {
+    const attempts = payout.attempts + 1;
+    const reason = (error as Error).message;
+
+    if (!submitted) {
+      // A submission that errored or timed out may still have reached MTN, so the
+      // payout is only failed once MTN confirms it never saw the reference
+      const accepted = await transferWasAccepted(provider, payout.provider_reference);
+
+      if (accepted) {
+        await updatePayout(admin, payout.id, {
+          attempts,
+          submitted_at: new Date().toISOString(),
+          next_attempt_at: secondsFromNow(options.recheckSeconds),
+        });
+        return 'awaiting_provider';
+      }
+
+      if (accepted === false && (!isTransientMomoError(error) || attempts >= options.maxAttempts)) {
+        await failPayout(admin, payout.id, reason);
+        return 'failed';
+      }
+    } else if (!isTransientMomoError(error)) {
+      // Once MTN has accepted the transfer it may still complete, so only a
+      // definite rejection fails it; anything else is checked again later
+      await failPayout(admin, payout.id, reason);
+      return 'failed';
+    }
+
+    await updatePayout(admin, payout.id, {
+      attempts,
+      failure_reason: reason,
+      next_attempt_at: secondsFromNow(retryDelaySeconds(attempts)),
+    });
+    return 'retry_scheduled';
+  }
+};
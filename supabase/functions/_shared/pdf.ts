@@ -0,0 +1,203 @@
+import { PDFDocument, StandardFonts, rgb } from 'https://esm.sh/pdf-lib@1.17.1';
+import type { PDFFont, PDFPage } from 'https://esm.sh/pdf-lib@1.17.1';
+import { corsHeaders } from './cors.ts';
+
+// Minimal top-to-bottom layout for generated documents (receipts, statements,
+// leases): lines of text, wrapped paragraphs and simple table rows on A4 pages,
+// with page breaks as needed.
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+
+const TEXT_COLOR = rgb(0.12, 0.16, 0.22);
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5);
+const RULE_COLOR = rgb(0.85, 0.87, 0.9);
+
+export type Align = 'left' | 'right';
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  muted?: boolean;
+}
+
+export interface Column {
+  // Share of the content width, e.g. 0.25
+  width: number;
+  align?: Align;
+}
+
+// The standard fonts only cover WinAnsi; anything else would make pdf-lib throw
+const sanitize = (text: string) => text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+
+export const formatMoney = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Balances are shown as owed amounts, or with CR when the tenant is in credit
+export const formatBalance = (value: number) =>
+  value < 0 ? `${formatMoney(-value)} CR` : formatMoney(value);
+
+export const formatDate = (value: string) => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+export class PdfWriter {
+  private page!: PDFPage;
+  private y = 0;
+
+  private constructor(
+    private readonly doc: PDFDocument,
+    private readonly font: PDFFont,
+    private readonly boldFont: PDFFont
+  ) {
+    this.addPage();
+  }
+
+  static async create(title: string) {
+    const doc = await PDFDocument.create();
+    doc.setTitle(sanitize(title));
+    doc.setCreator('Property Pay');
+    const font = await doc.embedFont(StandardFonts.Helvetica);
+    const boldFont = await doc.embedFont(StandardFonts.HelveticaBold);
+    return new PdfWriter(doc, font, boldFont);
+  }
+
+  private get contentWidth() {
+    return PAGE_WIDTH - MARGIN * 2;
+  }
+
+  private addPage() {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height < MARGIN) this.addPage();
+  }
+
+  // Cuts text down to fit width, ending in "..." when it had to be shortened
+  private fit(text: string, font: PDFFont, size: number, width: number) {
+    let fitted = sanitize(text);
+    if (font.widthOfTextAtSize(fitted, size) <= width) return fitted;
+    while (fitted.length > 0 && font.widthOfTextAtSize(`${fitted}...`, size) > width) {
+      fitted = fitted.slice(0, -1);
+    }
+    return `${fitted}...`;
+  }
+
+  text(text: string, { size = 10, bold = false, muted = false }: TextOptions = {}) {
+    const font = bold ? this.boldFont : this.font;
+    const lineHeight = size * 1.4;
+    this.ensureSpace(lineHeight);
+    this.y -= lineHeight;
+    this.page.drawText(this.fit(text, font, size, this.contentWidth), {
+      x: MARGIN,
+      y: this.y,
+      size,
+      font,
+      color: muted ? MUTED_COLOR : TEXT_COLOR,
+    });
+  }
+
+  // Word-wrapped to the content width; line breaks in text are kept
+  paragraph(text: string, { size = 10, bold = false, muted = false }: TextOptions = {}) {
+    const font = bold ? this.boldFont : this.font;
+    const lineHeight = size * 1.4;
+
+    for (const line of this.wrap(text, font, size)) {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      this.page.drawText(line, {
+        x: MARGIN,
+        y: this.y,
+        size,
+        font,
+        color: muted ? MUTED_COLOR : TEXT_COLOR,
+      });
+    }
+  }
+
+  // A single word wider than the page is cut rather than overflowing
+  private wrap(text: string, font: PDFFont, size: number) {
+    const lines: string[] = [];
+    for (const source of text.split('\n')) {
+      let line = '';
+      for (const word of sanitize(source).split(' ').filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && font.widthOfTextAtSize(candidate, size) > this.contentWidth) {
+          lines.push(this.fit(line, font, size, this.contentWidth));
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(this.fit(line, font, size, this.contentWidth));
+    }
+    return lines;
+  }
+
+  row(cells: string[], columns: Column[], { size = 10, bold = false, muted = false }: TextOptions = {}) {
+    const font = bold ? this.boldFont : this.font;
+    const lineHeight = size * 1.6;
+    this.ensureSpace(lineHeight);
+    this.y -= lineHeight;
+
+    let x = MARGIN;
+    cells.forEach((cell, index) => {
+      const column = columns[index];
+      const width = column.width * this.contentWidth;
+      const text = this.fit(cell, font, size, width - 6);
+      const textWidth = font.widthOfTextAtSize(text, size);
+      this.page.drawText(text, {
+        x: column.align === 'right' ? x + width - textWidth : x,
+        y: this.y,
+        size,
+        font,
+        color: muted ? MUTED_COLOR : TEXT_COLOR,
+      });
+      x += width;
+    });
+  }
+
+  // Label on the left, value right-aligned
+  field(label: string, value: string, options: TextOptions = {}) {
+    this.row([label, value], [{ width: 0.5 }, { width: 0.5, align: 'right' }], options);
+  }
+
+  rule() {
+    this.ensureSpace(10);
+    this.y -= 6;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.75,
+      color: RULE_COLOR,
+    });
+    this.y -= 4;
+  }
+
+  space(height = 10) {
+    this.y -= height;
+  }
+
+  save() {
+    return this.doc.save();
+  }
+}
+
+export const pdfResponse = (bytes: Uint8Array, filename: string) =>
+  new Response(bytes, {
+    headers: {
+      ...corsHeaders,
+      // octet-stream so supabase-js hands the client a Blob
+      'Content-Type': 'application/octet-stream',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  });
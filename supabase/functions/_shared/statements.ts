@@ -0,0 +1,144 @@
+// Tenant account statements for the PDF documents. Mirrors buildStatement() in
+// src/lib/paymentAllocation.ts and buildAccountStatement() in src/lib/statements.ts
+// so the PDF matches what the tenant sees in the app; keep them in step.
+
+export interface StatementCharge {
+  id: string;
+  charge_type: string;
+  due_date: string;
+  amount: number;
+  description: string;
+}
+
+export interface StatementPayment {
+  id: string;
+  amount: number;
+  payment_date: string;
+  status: string | null;
+  method: string;
+}
+
+export type StatementLineType = 'rent' | 'late_fee' | 'payment';
+
+export interface StatementLine {
+  id: string;
+  date: string;
+  type: StatementLineType;
+  description: string;
+  debit: number;
+  credit: number;
+  // Negative means the tenant is in credit
+  balance: number;
+}
+
+export interface StatementPeriod {
+  key: string;
+  label: string;
+  openingBalance: number;
+  rent: number;
+  fees: number;
+  payments: number;
+  closingBalance: number;
+  lines: StatementLine[];
+}
+
+export interface AccountStatement {
+  openingBalance: number;
+  rent: number;
+  fees: number;
+  payments: number;
+  closingBalance: number;
+  periods: StatementPeriod[];
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Completed payments from billing_start_date on; earlier ones settled rent
+// billed outside the app
+export const buildStatementLines = (
+  charges: StatementCharge[],
+  payments: StatementPayment[],
+  billingStartDate: string | null
+): StatementLine[] => {
+  const entries = [
+    ...charges.map((charge) => ({
+      id: charge.id,
+      date: charge.due_date,
+      type: (charge.charge_type === 'late_fee' ? 'late_fee' : 'rent') as StatementLineType,
+      description: charge.description,
+      debit: Number(charge.amount),
+      credit: 0,
+    })),
+    ...payments
+      .filter((payment) => payment.status === 'completed' && (!billingStartDate || payment.payment_date >= billingStartDate))
+      .map((payment) => ({
+        id: payment.id,
+        date: payment.payment_date,
+        type: 'payment' as StatementLineType,
+        description: payment.method ? `Payment - ${payment.method}` : 'Payment',
+        debit: 0,
+        credit: Number(payment.amount),
+      })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || b.debit - a.debit);
+
+  let balance = 0;
+  return entries.map((entry) => {
+    balance = roundCurrency(balance + entry.debit - entry.credit);
+    return { ...entry, balance };
+  });
+};
+
+const periodLabel = (key: string) => {
+  const [year, month] = key.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+export const buildAccountStatement = (lines: StatementLine[], from: string, to: string): AccountStatement => {
+  const periods: StatementPeriod[] = [];
+  let openingBalance = 0;
+  let balance = 0;
+
+  for (const line of lines) {
+    if (line.date > to) break;
+    if (line.date < from) {
+      openingBalance = balance = line.balance;
+      continue;
+    }
+
+    const key = line.date.slice(0, 7);
+    let period = periods[periods.length - 1];
+    if (!period || period.key !== key) {
+      period = {
+        key,
+        label: periodLabel(key),
+        openingBalance: balance,
+        rent: 0,
+        fees: 0,
+        payments: 0,
+        closingBalance: balance,
+        lines: [],
+      };
+      periods.push(period);
+    }
+
+    if (line.type === 'late_fee') period.fees = roundCurrency(period.fees + line.debit);
+    else if (line.type === 'rent') period.rent = roundCurrency(period.rent + line.debit);
+    else period.payments = roundCurrency(period.payments + line.credit);
+
+    period.lines.push(line);
+    period.closingBalance = balance = line.balance;
+  }
+
+  return {
+    openingBalance,
+    rent: roundCurrency(periods.reduce((sum, p) => sum + p.rent, 0)),
+    fees: roundCurrency(periods.reduce((sum, p) => sum + p.fees, 0)),
+    payments: roundCurrency(periods.reduce((sum, p) => sum + p.payments, 0)),
+    closingBalance: balance,
+    periods,
+  };
+};
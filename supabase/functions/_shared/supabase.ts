@@ -0,0 +1,20 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+
+// Service-role client: bypasses RLS, only for trusted server-side writes
+export const createAdminClient = () =>
+  createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { auth: { persistSession: false } }
+  );
+
+// Client acting as the caller, so RLS decides what they can see
+export const createUserClient = (req: Request) =>
+  createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    {
+      auth: { persistSession: false },
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    }
+  );
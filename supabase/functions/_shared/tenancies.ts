@@ -0,0 +1,98 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+
+// Everything the generated documents print about a tenancy. Read with the
+// service role, as tenants cannot see their landlord's profile; callers must
+// check the caller may see the tenancy first.
+
+export interface Contact {
+  full_name: string;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface TenancyDetails {
+  id: string;
+  tenant_id: string;
+  landlord_id: string;
+  status: string;
+  current_lease_document_id: string | null;
+  start_date: string;
+  end_date: string | null;
+  rent_amount: number;
+  billing_cycle: string;
+  billing_start_date: string | null;
+  deposit_amount: number;
+  unitNumber: string;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  property: { name: string; address: string | null; city: string | null; country: string | null };
+  tenant: Contact | null;
+  landlord: Contact | null;
+}
+
+export const loadTenancyDetails = async (admin: SupabaseClient, tenancyId: string): Promise<TenancyDetails> => {
+  const { data: tenancy, error } = await admin
+    .from('tenancies')
+    .select(`
+      id,
+      tenant_id,
+      status,
+      current_lease_document_id,
+      start_date,
+      end_date,
+      rent_amount,
+      billing_cycle,
+      billing_start_date,
+      deposit_amount,
+      units!tenancies_unit_id_fkey (
+        unit_number,
+        bedrooms,
+        bathrooms,
+        properties!units_property_id_fkey (
+          name,
+          address,
+          city,
+          country,
+          landlord_id
+        )
+      )
+    `)
+    .eq('id', tenancyId)
+    .single();
+
+  if (error) throw error;
+
+  const { landlord_id, ...property } = tenancy.units.properties;
+  const { data: people, error: peopleError } = await admin
+    .from('profiles')
+    .select('user_id, full_name, email, phone')
+    .in('user_id', [tenancy.tenant_id, landlord_id]);
+
+  if (peopleError) throw peopleError;
+
+  return {
+    id: tenancy.id,
+    tenant_id: tenancy.tenant_id,
+    landlord_id,
+    status: tenancy.status,
+    current_lease_document_id: tenancy.current_lease_document_id,
+    start_date: tenancy.start_date,
+    end_date: tenancy.end_date,
+    rent_amount: Number(tenancy.rent_amount),
+    billing_cycle: tenancy.billing_cycle,
+    billing_start_date: tenancy.billing_start_date,
+    deposit_amount: Number(tenancy.deposit_amount),
+    unitNumber: tenancy.units.unit_number,
+    bedrooms: tenancy.units.bedrooms,
+    bathrooms: tenancy.units.bathrooms,
+    property,
+    tenant: people?.find((p) => p.user_id === tenancy.tenant_id) ?? null,
+    landlord: people?.find((p) => p.user_id === landlord_id) ?? null,
+  };
+};
+
+export const contactLine = (person: Contact | null) =>
+  person ? [person.full_name, person.email, person.phone].filter(Boolean).join(' - ') : 'Unknown';
+
+export const propertyAddress = (property: TenancyDetails['property']) =>
+  [property.address, property.city, property.country].filter(Boolean).join(', ');
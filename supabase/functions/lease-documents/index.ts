@@ -0,0 +1,346 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient, createUserClient } from '../_shared/supabase.ts';
+import { PdfWriter, formatDate } from '../_shared/pdf.ts';
+import { leasePlaceholderValues, renderLeaseTemplate, toLeaseBlocks } from '../_shared/leaseTemplates.ts';
+import { loadTenancyDetails, propertyAddress, type TenancyDetails } from '../_shared/tenancies.ts';
+
+// Lease PDFs for a tenancy.
+//
+//   { action: 'generate', tenancy_id, template_id }
+//     renders one of the landlord's lease templates with the tenancy's details,
+//     stores it as the next version in the lease-documents bucket and makes it
+//     the tenancy's current lease
+//   { action: 'send', document_id }
+//     sends the current lease to the tenant for signature
+//   { action: 'sign', document_id, signature_type, signer_name, signature_image?, document_hash }
+//     signs the current lease: the tenant first, then the landlord countersigns,
+//     which activates a tenancy that was waiting on its lease
+//
+// Only the property's landlord (or an admin) may generate or send a lease.
+// Tenants and landlords read the stored files directly from the bucket, where
+// RLS limits them to their own tenancies.
+
+const BUCKET = 'lease-documents';
+
+// Drawn signatures are stored inline as PNG data URLs
+const MAX_SIGNATURE_IMAGE_LENGTH = 300_000;
+
+interface LeaseRequest {
+  action: string;
+  tenancy_id?: string;
+  template_id?: string;
+  document_id?: string;
+  signature_type?: string;
+  signer_name?: string;
+  signature_image?: string;
+  document_hash?: string;
+}
+
+class RequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const isAdmin = async (userClient: SupabaseClient, userId: string) => {
+  const { data: role } = await userClient.rpc('get_user_role', { user_uuid: userId });
+  return role === 'admin';
+};
+
+const sha256 = async (bytes: Uint8Array) => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+const renderLease = async (body: string, version: number, details: TenancyDetails, today: string) => {
+  const text = renderLeaseTemplate(
+    body,
+    leasePlaceholderValues(
+      {
+        tenant_name: details.tenant?.full_name ?? '',
+        tenant_email: details.tenant?.email ?? null,
+        tenant_phone: details.tenant?.phone ?? null,
+        landlord_name: details.landlord?.full_name ?? '',
+        landlord_email: details.landlord?.email ?? null,
+        landlord_phone: details.landlord?.phone ?? null,
+        property_name: details.property.name,
+        property_address: propertyAddress(details.property),
+        unit_number: details.unitNumber,
+        bedrooms: details.bedrooms,
+        bathrooms: details.bathrooms,
+        rent_amount: details.rent_amount,
+        billing_cycle: details.billing_cycle,
+        start_date: details.start_date,
+        end_date: details.end_date,
+        deposit_amount: details.deposit_amount,
+      },
+      today
+    )
+  );
+
+  const pdf = await PdfWriter.create(`Lease - ${details.property.name} unit ${details.unitNumber}`);
+  toLeaseBlocks(text).forEach((block, index) => {
+    if (block.type === 'heading') {
+      if (index > 0) pdf.space(8);
+      pdf.paragraph(block.text, index === 0 ? { size: 18, bold: true } : { size: 12, bold: true });
+      pdf.space(4);
+    } else {
+      pdf.paragraph(block.text);
+      pdf.space(6);
+    }
+  });
+
+  pdf.space(20);
+  pdf.text(`Lease version ${version}, generated ${formatDate(today)}.`, { muted: true, size: 9 });
+
+  return { text, bytes: await pdf.save() };
+};
+
+// The tenancy must be visible to the caller; landlordOnly also requires them
+// to be its landlord or an admin
+const loadTenancyFor = async (
+  userClient: SupabaseClient,
+  admin: SupabaseClient,
+  user: User,
+  tenancyId: string,
+  landlordOnly: boolean
+) => {
+  const { data: tenancy } = await userClient
+    .from('tenancies')
+    .select('id')
+    .eq('id', tenancyId)
+    .maybeSingle();
+
+  if (!tenancy) throw new RequestError('Tenancy not found', 404);
+
+  const details = await loadTenancyDetails(admin, tenancy.id);
+  if (landlordOnly && details.landlord_id !== user.id && !(await isAdmin(userClient, user.id))) {
+    throw new RequestError('Only the landlord can do this', 403);
+  }
+  return details;
+};
+
+const loadCurrentDocument = async (admin: SupabaseClient, details: TenancyDetails, documentId: string) => {
+  if (details.current_lease_document_id !== documentId) {
+    throw new RequestError('This lease has been replaced by a newer version', 409);
+  }
+
+  const { data: document, error } = await admin
+    .from('lease_documents')
+    .select('id, tenancy_id, version, storage_path, content_hash, sent_at, lease_signatures ( signer_role )')
+    .eq('id', documentId)
+    .single();
+
+  if (error) throw error;
+  return document;
+};
+
+// Looks the document up as the caller first, so RLS decides whether they may see it
+const tenancyIdForDocument = async (userClient: SupabaseClient, documentId: string) => {
+  const { data: document } = await userClient
+    .from('lease_documents')
+    .select('tenancy_id')
+    .eq('id', documentId)
+    .maybeSingle();
+
+  if (!document) throw new RequestError('Lease not found', 404);
+  return document.tenancy_id as string;
+};
+
+const generateLease = async (userClient: SupabaseClient, admin: SupabaseClient, user: User, body: LeaseRequest) => {
+  const details = await loadTenancyFor(userClient, admin, user, body.tenancy_id ?? '', true);
+
+  const { data: template } = await admin
+    .from('lease_templates')
+    .select('id, landlord_id, body')
+    .eq('id', body.template_id)
+    .maybeSingle();
+
+  if (!template || template.landlord_id !== details.landlord_id) {
+    throw new RequestError('Lease template not found', 404);
+  }
+
+  const { data: latest, error: latestError } = await admin
+    .from('lease_documents')
+    .select('version')
+    .eq('tenancy_id', details.id)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) throw latestError;
+
+  const version = (latest?.version ?? 0) + 1;
+  const today = new Date().toISOString().slice(0, 10);
+  const { text, bytes } = await renderLease(template.body, version, details, today);
+  const storagePath = `${details.id}/lease-v${version}.pdf`;
+
+  // No upsert: an existing file means another version was generated at the
+  // same time, and a stored lease must never be replaced
+  const { error: uploadError } = await admin.storage
+    .from(BUCKET)
+    .upload(storagePath, bytes, { contentType: 'application/pdf', upsert: false });
+
+  if (uploadError) throw uploadError;
+
+  const { data: document, error: insertError } = await admin
+    .from('lease_documents')
+    .insert({
+      tenancy_id: details.id,
+      template_id: template.id,
+      version,
+      storage_path: storagePath,
+      content_hash: await sha256(bytes),
+      rendered_body: text,
+      generated_by: user.id,
+    })
+    .select('id, tenancy_id, version, storage_path, content_hash, sent_at, created_at')
+    .single();
+
+  if (insertError) {
+    await admin.storage.from(BUCKET).remove([storagePath]);
+    throw insertError;
+  }
+
+  const { error: tenancyError } = await admin
+    .from('tenancies')
+    .update({ current_lease_document_id: document.id })
+    .eq('id', details.id);
+
+  if (tenancyError) throw tenancyError;
+
+  return { document };
+};
+
+const sendLease = async (userClient: SupabaseClient, admin: SupabaseClient, user: User, body: LeaseRequest) => {
+  const tenancyId = await tenancyIdForDocument(userClient, body.document_id ?? '');
+  const details = await loadTenancyFor(userClient, admin, user, tenancyId, true);
+  const document = await loadCurrentDocument(admin, details, body.document_id ?? '');
+
+  if (document.sent_at) return { sent_at: document.sent_at };
+
+  const { data: sent, error } = await admin
+    .from('lease_documents')
+    .update({ sent_at: new Date().toISOString() })
+    .eq('id', document.id)
+    .select('sent_at')
+    .single();
+
+  if (error) throw error;
+  return { sent_at: sent.sent_at };
+};
+
+const signLease = async (
+  req: Request,
+  userClient: SupabaseClient,
+  admin: SupabaseClient,
+  user: User,
+  body: LeaseRequest
+) => {
+  const tenancyId = await tenancyIdForDocument(userClient, body.document_id ?? '');
+  const details = await loadTenancyFor(userClient, admin, user, tenancyId, false);
+  const document = await loadCurrentDocument(admin, details, body.document_id ?? '');
+
+  const role = user.id === details.tenant_id ? 'tenant' : user.id === details.landlord_id ? 'landlord' : null;
+  if (!role) throw new RequestError('Only the tenant and landlord can sign this lease', 403);
+
+  const signed = new Set((document.lease_signatures ?? []).map((s: { signer_role: string }) => s.signer_role));
+  if (!document.sent_at) throw new RequestError('This lease has not been sent for signature yet', 409);
+  if (signed.has(role)) throw new RequestError('You have already signed this lease', 409);
+  if (role === 'landlord' && !signed.has('tenant')) {
+    throw new RequestError('The tenant has to sign before the landlord countersigns', 409);
+  }
+
+  const signerName = String(body.signer_name ?? '').trim();
+  const signatureType = body.signature_type === 'drawn' ? 'drawn' : body.signature_type === 'typed' ? 'typed' : null;
+  const signatureImage = signatureType === 'drawn' ? String(body.signature_image ?? '') : null;
+
+  if (!signatureType || !signerName || signerName.length > 200) {
+    throw new RequestError('Enter your full name to sign', 400);
+  }
+  if (
+    signatureImage !== null &&
+    (!signatureImage.startsWith('data:image/png;base64,') || signatureImage.length > MAX_SIGNATURE_IMAGE_LENGTH)
+  ) {
+    throw new RequestError('Draw your signature to sign', 400);
+  }
+
+  // The signer must have been shown exactly the stored file
+  if (body.document_hash !== document.content_hash) {
+    throw new RequestError('The lease you reviewed does not match the current version; reload and try again', 409);
+  }
+  const { data: file, error: fileError } = await admin.storage.from(BUCKET).download(document.storage_path);
+  if (fileError) throw fileError;
+  if ((await sha256(new Uint8Array(await file.arrayBuffer()))) !== document.content_hash) {
+    throw new RequestError('The stored lease file does not match its recorded hash', 409);
+  }
+
+  const { data: signature, error: insertError } = await admin
+    .from('lease_signatures')
+    .insert({
+      lease_document_id: document.id,
+      signer_id: user.id,
+      signer_role: role,
+      signature_type: signatureType,
+      signer_name: signerName,
+      signature_image: signatureImage,
+      document_hash: document.content_hash,
+      ip_address: req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+      user_agent: req.headers.get('user-agent'),
+    })
+    .select('*')
+    .single();
+
+  if (insertError) throw insertError;
+
+  let activated = false;
+  if (role === 'landlord' && details.status === 'pending_signature') {
+    // A renewal signed before the current term ends is held as 'pending_start'
+    const { data: tenancy, error: activateError } = await admin
+      .from('tenancies')
+      .update({ status: 'active' })
+      .eq('id', details.id)
+      .eq('status', 'pending_signature')
+      .select('status')
+      .maybeSingle();
+
+    if (activateError) throw activateError;
+    activated = tenancy?.status === 'active';
+  }
+
+  return { signature, activated };
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const userClient = createUserClient(req);
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) return jsonResponse({ error: 'Not authenticated' }, 401);
+
+    const body: LeaseRequest = await req.json();
+    const admin = createAdminClient();
+
+    switch (body.action) {
+      case 'generate':
+        return jsonResponse(await generateLease(userClient, admin, user, body));
+      case 'send':
+        return jsonResponse(await sendLease(userClient, admin, user, body));
+      case 'sign':
+        return jsonResponse(await signLease(req, userClient, admin, user, body));
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error('lease-documents error:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,43 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabase.ts';
+import { createCollectionsProvider } from '../_shared/momo.ts';
+import { refreshPaymentStatus } from '../_shared/payments.ts';
+
+// Receives MTN MoMo request-to-pay callbacks (PUT or POST).
+//
+// Callbacks are not signed, so the body is only used to find the payment; the
+// outcome is always re-read from the provider before anything is recorded.
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // MTN echoes our externalId (the payment id); the sandbox also sends referenceId
+    const body = await req.json();
+    const paymentId = UUID_PATTERN.test(body.externalId ?? '') ? body.externalId : null;
+    const referenceId = UUID_PATTERN.test(body.referenceId ?? '') ? body.referenceId : null;
+    if (!paymentId && !referenceId) return jsonResponse({ error: 'Missing reference' }, 400);
+
+    const admin = createAdminClient();
+    const query = admin.from('payments').select('id, status, provider_reference');
+    const { data: payment, error } = await (paymentId
+      ? query.eq('id', paymentId)
+      : query.eq('provider_reference', referenceId)
+    ).maybeSingle();
+
+    if (error) throw error;
+    // Acknowledge unknown references so the provider stops retrying
+    if (!payment) return jsonResponse({ received: true });
+
+    const result = await refreshPaymentStatus(admin, createCollectionsProvider(), payment);
+    return jsonResponse({ received: true, status: result.status });
+  } catch (error) {
+    console.error('momo-callback error:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,185 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient, createUserClient } from '../_shared/supabase.ts';
+import { createCollectionsProvider, isTransientMomoError, isValidMsisdn, normalizeMsisdn } from '../_shared/momo.ts';
+import { applyCollectionResult, refreshPaymentStatus } from '../_shared/payments.ts';
+
+// Tenant-facing MTN MoMo collections.
+//
+//   { action: 'initiate', tenancy_id, amount, phone_number, charge_id?, payment_type? }
+//     creates a pending payment and sends a request-to-pay prompt to the phone;
+//     charge_id picks the charge the payment is applied to first. With
+//     payment_type 'deposit' the payment goes towards the security deposit
+//     instead, which can be paid before the lease is signed
+//   { action: 'status', payment_id }
+//     checks the provider and returns the (possibly updated) payment status
+//
+// The provider also calls momo-callback when the tenant approves or declines,
+// so 'status' is only a fallback for when callbacks cannot reach us.
+//
+// A timeout, network failure or 5xx from the request-to-pay may come after MTN
+// accepted it, so the payment stays pending and is failed only once MTN says
+// it has no transaction under our reference, or that the transaction failed.
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const userClient = createUserClient(req);
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) return jsonResponse({ error: 'Not authenticated' }, 401);
+
+    const body = await req.json();
+    const admin = createAdminClient();
+    const provider = createCollectionsProvider();
+
+    if (body.action === 'status') {
+      // Reading through the user client means RLS enforces ownership
+      const { data: payment, error } = await userClient
+        .from('payments')
+        .select('id, status, provider_reference, failure_reason')
+        .eq('id', body.payment_id)
+        .single();
+
+      if (error || !payment) return jsonResponse({ error: 'Payment not found' }, 404);
+
+      const result = await refreshPaymentStatus(admin, provider, payment);
+      const { data: latest } = await admin
+        .from('payments')
+        .select('id, status, failure_reason, provider_transaction_id')
+        .eq('id', payment.id)
+        .single();
+
+      return jsonResponse({ payment: latest, updated: result.updated });
+    }
+
+    if (body.action !== 'initiate') {
+      return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+
+    const amount = Number(body.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return jsonResponse({ error: 'Amount must be greater than zero' }, 400);
+    }
+
+    const phoneNumber = normalizeMsisdn(String(body.phone_number ?? ''));
+    if (!isValidMsisdn(phoneNumber)) {
+      return jsonResponse({ error: 'Enter a valid MTN MoMo phone number' }, 400);
+    }
+
+    const paymentType = body.payment_type === 'deposit' ? 'deposit' : 'rent';
+
+    const { data: tenancy, error: tenancyError } = await userClient
+      .from('tenancies')
+      .select('id, status, tenant_id, deposit_amount')
+      .eq('id', body.tenancy_id)
+      .single();
+
+    if (tenancyError || !tenancy || tenancy.tenant_id !== user.id) {
+      return jsonResponse({ error: 'Tenancy not found' }, 404);
+    }
+
+    if (paymentType === 'deposit') {
+      if (!['active', 'pending_signature', 'pending_start'].includes(tenancy.status)) {
+        return jsonResponse({ error: 'This tenancy has ended' }, 400);
+      }
+
+      // Pending deposit payments count too, so a deposit cannot be paid twice
+      const { data: depositPayments, error: depositError } = await admin
+        .from('payments')
+        .select('amount')
+        .eq('tenancy_id', tenancy.id)
+        .eq('payment_type', 'deposit')
+        .in('status', ['pending', 'completed']);
+
+      if (depositError) throw depositError;
+
+      const paid = (depositPayments ?? []).reduce((sum, p) => sum + Number(p.amount), 0);
+      const outstanding = Math.round((Number(tenancy.deposit_amount) - paid) * 100) / 100;
+      if (amount > outstanding) {
+        return jsonResponse(
+          { error: outstanding > 0 ? `The deposit still to pay is ${outstanding}` : 'Your deposit is already paid' },
+          400
+        );
+      }
+    } else if (tenancy.status !== 'active') {
+      return jsonResponse({ error: 'Payments can only be made on active tenancies' }, 400);
+    }
+
+    let chargeId: string | null = null;
+    if (body.charge_id && paymentType === 'rent') {
+      const { data: charge } = await userClient
+        .from('rent_charges')
+        .select('id')
+        .eq('id', body.charge_id)
+        .eq('tenancy_id', tenancy.id)
+        .maybeSingle();
+
+      if (!charge) return jsonResponse({ error: 'Charge not found' }, 404);
+      chargeId = charge.id;
+    }
+
+    const referenceId = crypto.randomUUID();
+
+    const { data: payment, error: paymentError } = await admin
+      .from('payments')
+      .insert({
+        tenancy_id: tenancy.id,
+        amount,
+        payment_date: new Date().toISOString().split('T')[0],
+        status: 'pending',
+        method: 'MTN MoMo',
+        phone_number: phoneNumber,
+        provider: provider.name,
+        provider_reference: referenceId,
+        applies_to_charge_id: chargeId,
+        payment_type: paymentType,
+      })
+      .select('id')
+      .single();
+
+    if (paymentError) throw paymentError;
+
+    try {
+      await provider.requestToPay({
+        referenceId,
+        amount,
+        phoneNumber,
+        externalId: payment.id,
+        payerMessage: paymentType === 'deposit' ? 'Security deposit' : 'Rent payment',
+        payeeNote: `Tenancy ${tenancy.id}`,
+        callbackUrl: `${Deno.env.get('SUPABASE_URL')}/functions/v1/momo-callback`,
+      });
+    } catch (providerError) {
+      const reason = (providerError as Error).message;
+      let status: string | null = 'pending';
+
+      if (!isTransientMomoError(providerError)) {
+        ({ status } = await applyCollectionResult(admin, payment.id, { referenceId, status: 'FAILED', reason }));
+      } else {
+        try {
+          ({ status } = await refreshPaymentStatus(
+            admin,
+            provider,
+            { id: payment.id, status: 'pending', provider_reference: referenceId },
+            reason
+          ));
+        } catch (lookupError) {
+          // Left pending: the callback or the tenant's status checks settle it
+          console.error('momo-collect status lookup error:', lookupError);
+        }
+      }
+
+      if (status === 'failed') {
+        return jsonResponse({ error: 'MTN MoMo could not start the payment', payment_id: payment.id }, 502);
+      }
+    }
+
+    return jsonResponse({ payment_id: payment.id, status: 'pending' });
+  } catch (error) {
+    console.error('momo-collect error:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,77 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient, createUserClient } from '../_shared/supabase.ts';
+import { createDisbursementsProvider } from '../_shared/momo.ts';
+import { processPayout } from '../_shared/payouts.ts';
+import type { ClaimedPayout, DisbursementOutcome } from '../_shared/payouts.ts';
+
+// Payout worker: sends pending landlord payouts and tenant deposit refunds
+// through MTN MoMo Disbursements.
+//
+// Each run claims a batch of due payouts and makes one attempt on each. Transfers
+// the provider has accepted but not yet settled are re-checked on later runs;
+// transient errors are retried with backoff up to MOMO_DISBURSE_MAX_ATTEMPTS.
+// A payout whose submission errored is only failed once MTN confirms it has no
+// transfer under the payout's reference.
+// pg_cron calls it every minute with the service role key (see
+// invoke_edge_function(), which needs the project_url and service_role_key
+// Vault secrets); admins may also trigger a run by hand.
+//
+//   MOMO_DISBURSE_BATCH_SIZE      payouts per run (default 10)
+//   MOMO_DISBURSE_MAX_ATTEMPTS    attempts before a payout is failed (default 5)
+//   MOMO_DISBURSE_RECHECK_SECONDS wait between checks on an accepted transfer (default 60)
+
+const isAuthorized = async (req: Request) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (req.headers.get('Authorization') === `Bearer ${serviceRoleKey}`) return true;
+
+  const userClient = createUserClient(req);
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) return false;
+
+  const { data: role } = await userClient.rpc('get_user_role', { user_uuid: user.id });
+  return role === 'admin';
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    if (!(await isAuthorized(req))) return jsonResponse({ error: 'Not allowed' }, 403);
+
+    const admin = createAdminClient();
+    const provider = createDisbursementsProvider();
+    const options = {
+      maxAttempts: Number(Deno.env.get('MOMO_DISBURSE_MAX_ATTEMPTS') ?? 5),
+      recheckSeconds: Number(Deno.env.get('MOMO_DISBURSE_RECHECK_SECONDS') ?? 60),
+    };
+
+    const { data: payouts, error } = await admin.rpc('claim_due_payouts', {
+      _provider: provider.name,
+      _limit: Number(Deno.env.get('MOMO_DISBURSE_BATCH_SIZE') ?? 10),
+    });
+
+    if (error) throw error;
+
+    const results: { payout_id: string; outcome: DisbursementOutcome | 'error' }[] = [];
+
+    // One at a time: keeps us well inside the provider's rate limits
+    for (const payout of (payouts ?? []) as ClaimedPayout[]) {
+      try {
+        const outcome = await processPayout(admin, provider, payout, options);
+        results.push({ payout_id: payout.id, outcome });
+      } catch (payoutError) {
+        // The claim lease expires on its own, so the payout is picked up again later
+        console.error(`momo-disburse: payout ${payout.id} failed to update:`, payoutError);
+        results.push({ payout_id: payout.id, outcome: 'error' });
+      }
+    }
+
+    return jsonResponse({ processed: results.length, results });
+  } catch (error) {
+    console.error('momo-disburse error:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
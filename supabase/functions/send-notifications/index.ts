@@ -0,0 +1,128 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient, createUserClient } from '../_shared/supabase.ts';
+import { SmtpEmail, createChannelGateway, notificationProviderName } from '../_shared/notifications.ts';
+import type { ChannelGateway, NotificationChannel } from '../_shared/notifications.ts';
+import { failDelivery, processDelivery } from '../_shared/deliveries.ts';
+import type { ClaimedDelivery, DeliveryOutcome } from '../_shared/deliveries.ts';
+
+// Notification worker: sends queued SMS and email deliveries through the
+// messaging gateways.
+//
+// Called every minute by pg_cron with the service role key (see
+// invoke_edge_function(), which needs the project_url and service_role_key
+// Vault secrets), it claims a batch of due deliveries; admins may also
+// trigger a run by hand. A landlord who has just queued a reminder calls it
+// with { delivery_ids } to send those deliveries right away; only deliveries
+// they queued themselves are accepted. Deliveries on a channel whose gateway
+// settings are missing are failed with the setup error.
+//
+//   NOTIFY_BATCH_SIZE    deliveries per run (default 50)
+//   NOTIFY_MAX_ATTEMPTS  attempts before a delivery is failed (default 5)
+
+type Caller = { kind: 'worker' } | { kind: 'landlord'; userId: string } | null;
+
+const identifyCaller = async (req: Request): Promise<Caller> => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (req.headers.get('Authorization') === `Bearer ${serviceRoleKey}`) return { kind: 'worker' };
+
+  const userClient = createUserClient(req);
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) return null;
+
+  const { data: role } = await userClient.rpc('get_user_role', { user_uuid: user.id });
+  if (role === 'admin') return { kind: 'worker' };
+  if (role === 'landlord') return { kind: 'landlord', userId: user.id };
+  return null;
+};
+
+const readDeliveryIds = async (req: Request): Promise<string[] | null> => {
+  if (req.method !== 'POST') return null;
+
+  try {
+    const body = await req.json();
+    return Array.isArray(body?.delivery_ids) ? body.delivery_ids.map(String) : null;
+  } catch {
+    return null;
+  }
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const gateways = new Map<NotificationChannel, ChannelGateway>();
+  const gatewayErrors = new Map<NotificationChannel, string>();
+
+  try {
+    const caller = await identifyCaller(req);
+    if (!caller) return jsonResponse({ error: 'Not allowed' }, 403);
+
+    const admin = createAdminClient();
+    const deliveryIds = await readDeliveryIds(req);
+
+    if (caller.kind === 'landlord') {
+      if (!deliveryIds || deliveryIds.length === 0) {
+        return jsonResponse({ error: 'delivery_ids is required' }, 400);
+      }
+
+      const { data: own, error: ownError } = await admin
+        .from('notification_deliveries')
+        .select('id')
+        .in('id', deliveryIds)
+        .eq('created_by', caller.userId);
+
+      if (ownError) throw ownError;
+      if ((own ?? []).length !== deliveryIds.length) return jsonResponse({ error: 'Not allowed' }, 403);
+    }
+
+    const { data: deliveries, error } = await admin.rpc('claim_due_notifications', {
+      _provider: notificationProviderName(),
+      _limit: Number(Deno.env.get('NOTIFY_BATCH_SIZE') ?? 50),
+      _ids: deliveryIds,
+    });
+
+    if (error) throw error;
+
+    const options = { maxAttempts: Number(Deno.env.get('NOTIFY_MAX_ATTEMPTS') ?? 5) };
+    const results: { delivery_id: string; outcome: DeliveryOutcome | 'error' }[] = [];
+
+    for (const delivery of (deliveries ?? []) as ClaimedDelivery[]) {
+      try {
+        // Gateways are only set up for channels that have messages to send, so a
+        // missing SMTP setup does not hold up SMS
+        let gateway = gateways.get(delivery.channel);
+        if (!gateway && !gatewayErrors.has(delivery.channel)) {
+          try {
+            gateway = createChannelGateway(admin, delivery.channel);
+            gateways.set(delivery.channel, gateway);
+          } catch (setupError) {
+            console.error(`send-notifications: ${delivery.channel} gateway setup failed:`, setupError);
+            gatewayErrors.set(delivery.channel, (setupError as Error).message);
+          }
+        }
+
+        // Settings will not appear between attempts, so the delivery is failed
+        // rather than left 'sending'
+        const outcome = gateway
+          ? await processDelivery(admin, gateway, delivery, options)
+          : await failDelivery(admin, delivery, `Gateway not configured: ${gatewayErrors.get(delivery.channel)}`);
+        results.push({ delivery_id: delivery.id, outcome });
+      } catch (deliveryError) {
+        // The claim lease expires on its own, so the delivery is picked up again later
+        console.error(`send-notifications: delivery ${delivery.id} failed:`, deliveryError);
+        results.push({ delivery_id: delivery.id, outcome: 'error' });
+      }
+    }
+
+    return jsonResponse({ processed: results.length, results });
+  } catch (error) {
+    console.error('send-notifications error:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  } finally {
+    for (const gateway of gateways.values()) {
+      if (gateway instanceof SmtpEmail) await gateway.close().catch(() => undefined);
+    }
+  }
+});
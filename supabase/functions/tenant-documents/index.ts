@@ -0,0 +1,323 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient, createUserClient } from '../_shared/supabase.ts';
+import { PdfWriter, formatBalance, formatDate, formatMoney, pdfResponse } from '../_shared/pdf.ts';
+import { buildAccountStatement, buildStatementLines } from '../_shared/statements.ts';
+import { contactLine, loadTenancyDetails, propertyAddress, type TenancyDetails } from '../_shared/tenancies.ts';
+
+// PDF receipts and account statements for a tenancy.
+//
+//   { action: 'receipt', payment_id }
+//     receipt for one completed payment, with the charges it paid
+//   { action: 'statement', tenancy_id, from, to }
+//     statement for a date range (YYYY-MM-DD, inclusive), month by month
+//   { action: 'settlement', tenancy_id }
+//     security deposit settlement at move-out, with its itemized deductions
+//
+// The payment or tenancy is looked up as the caller, so RLS decides who may
+// download it (the tenant, their landlord or an admin) before the details are
+// loaded with the service role.
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const deductionTypeLabels: Record<string, string> = {
+  unpaid_rent: 'Unpaid rent',
+  damages: 'Damages',
+  cleaning: 'Cleaning',
+  other: 'Other',
+};
+
+const writeHeader = (pdf: PdfWriter, title: string, subtitle: string, details: TenancyDetails) => {
+  const { property } = details;
+
+  pdf.text(title, { size: 18, bold: true });
+  pdf.text(subtitle, { muted: true });
+  pdf.space();
+  pdf.text(property.name, { size: 12, bold: true });
+  pdf.text(`Unit ${details.unitNumber}`);
+  pdf.text(propertyAddress(property), { muted: true });
+  pdf.space(6);
+  pdf.field('Landlord', contactLine(details.landlord));
+  pdf.field('Tenant', contactLine(details.tenant));
+  pdf.rule();
+};
+
+const renderReceipt = async (
+  payment: {
+    id: string;
+    amount: number;
+    payment_date: string;
+    method: string;
+    payment_type: string;
+    processed_at: string | null;
+    provider_transaction_id: string | null;
+  },
+  allocations: { amount: number; rent_charges: { description: string; due_date: string } | null }[],
+  details: TenancyDetails
+) => {
+  const pdf = await PdfWriter.create(`Receipt ${payment.id}`);
+  writeHeader(pdf, 'Payment Receipt', `Receipt no. ${payment.id.slice(0, 8).toUpperCase()}`, details);
+
+  pdf.field('Payment date', formatDate(payment.payment_date));
+  pdf.field('Method', payment.method);
+  if (payment.provider_transaction_id) {
+    pdf.field('Transaction ID', payment.provider_transaction_id);
+  }
+  pdf.field('Amount received', formatMoney(Number(payment.amount)), { bold: true, size: 12 });
+  pdf.rule();
+
+  if (payment.payment_type === 'deposit') {
+    pdf.text('Held as the security deposit for this tenancy, to be settled when you move out.');
+    pdf.space(20);
+    pdf.text(`Issued ${formatDate(new Date().toISOString())}. Thank you for your payment.`, { muted: true, size: 9 });
+    return pdf.save();
+  }
+
+  const columns = [{ width: 0.2 }, { width: 0.55 }, { width: 0.25, align: 'right' as const }];
+  pdf.text('Applied to', { bold: true });
+  pdf.row(['Due', 'Charge', 'Amount'], columns, { muted: true });
+
+  let applied = 0;
+  for (const allocation of allocations) {
+    applied += Number(allocation.amount);
+    pdf.row(
+      [
+        allocation.rent_charges ? formatDate(allocation.rent_charges.due_date) : '',
+        allocation.rent_charges?.description ?? 'Charge',
+        formatMoney(Number(allocation.amount)),
+      ],
+      columns
+    );
+  }
+
+  const credit = Math.round((Number(payment.amount) - applied) * 100) / 100;
+  if (credit > 0) {
+    pdf.row(['', 'Credit carried forward', formatMoney(credit)], columns);
+  }
+
+  pdf.space(20);
+  pdf.text(`Issued ${formatDate(new Date().toISOString())}. Thank you for your payment.`, { muted: true, size: 9 });
+
+  return pdf.save();
+};
+
+const renderStatement = async (
+  statement: ReturnType<typeof buildAccountStatement>,
+  from: string,
+  to: string,
+  details: TenancyDetails
+) => {
+  const pdf = await PdfWriter.create(`Statement ${from} to ${to}`);
+  writeHeader(pdf, 'Account Statement', `${formatDate(from)} - ${formatDate(to)}`, details);
+
+  pdf.field('Opening balance', formatBalance(statement.openingBalance));
+  pdf.field('Rent charged', formatMoney(statement.rent));
+  pdf.field('Late fees', formatMoney(statement.fees));
+  pdf.field('Payments received', formatMoney(statement.payments));
+  pdf.field('Closing balance', formatBalance(statement.closingBalance), { bold: true, size: 12 });
+  pdf.rule();
+
+  const columns = [
+    { width: 0.16 },
+    { width: 0.42 },
+    { width: 0.14, align: 'right' as const },
+    { width: 0.14, align: 'right' as const },
+    { width: 0.14, align: 'right' as const },
+  ];
+
+  if (statement.periods.length === 0) {
+    pdf.text('No charges or payments in this period.', { muted: true });
+  }
+
+  for (const period of statement.periods) {
+    pdf.space(6);
+    pdf.text(period.label, { bold: true, size: 11 });
+    pdf.row(['Date', 'Description', 'Charged', 'Paid', 'Balance'], columns, { muted: true });
+    pdf.row(['', 'Opening balance', '', '', formatBalance(period.openingBalance)], columns);
+
+    for (const line of period.lines) {
+      pdf.row(
+        [
+          formatDate(line.date),
+          line.description,
+          line.debit > 0 ? formatMoney(line.debit) : '',
+          line.credit > 0 ? formatMoney(line.credit) : '',
+          formatBalance(line.balance),
+        ],
+        columns
+      );
+    }
+
+    pdf.row(['', 'Closing balance', '', '', formatBalance(period.closingBalance)], columns, { bold: true });
+  }
+
+  pdf.space(20);
+  pdf.text(`Issued ${formatDate(new Date().toISOString())}. CR means the account is in credit.`, { muted: true, size: 9 });
+
+  return pdf.save();
+};
+
+const renderSettlement = async (
+  settlement: {
+    id: string;
+    move_out_date: string;
+    deposit_held: number;
+    total_deductions: number;
+    refund_amount: number;
+    notes: string | null;
+    deposit_deductions: { deduction_type: string; description: string; amount: number }[];
+  },
+  details: TenancyDetails
+) => {
+  const pdf = await PdfWriter.create(`Deposit settlement ${settlement.id}`);
+  writeHeader(pdf, 'Deposit Settlement', `Move-out date ${formatDate(settlement.move_out_date)}`, details);
+
+  pdf.field('Tenancy', `${formatDate(details.start_date)} - ${formatDate(settlement.move_out_date)}`);
+  pdf.field('Deposit held', formatMoney(Number(settlement.deposit_held)));
+  pdf.rule();
+
+  const columns = [{ width: 0.25 }, { width: 0.5 }, { width: 0.25, align: 'right' as const }];
+  pdf.text('Deductions', { bold: true });
+  pdf.row(['Type', 'Description', 'Amount'], columns, { muted: true });
+
+  if (settlement.deposit_deductions.length === 0) {
+    pdf.text('No deductions.', { muted: true });
+  }
+  for (const deduction of settlement.deposit_deductions) {
+    pdf.row(
+      [
+        deductionTypeLabels[deduction.deduction_type] ?? deduction.deduction_type,
+        deduction.description,
+        formatMoney(Number(deduction.amount)),
+      ],
+      columns
+    );
+  }
+  pdf.row(['', 'Total deductions', formatMoney(Number(settlement.total_deductions))], columns, { bold: true });
+  pdf.rule();
+
+  pdf.field('Refund to tenant', formatMoney(Number(settlement.refund_amount)), { bold: true, size: 12 });
+  if (settlement.notes) {
+    pdf.space(6);
+    pdf.text('Notes', { bold: true });
+    pdf.paragraph(settlement.notes);
+  }
+
+  pdf.space(20);
+  pdf.text(
+    `Issued ${formatDate(new Date().toISOString())}. Unpaid rent was paid from the deposit and appears on your account statement.`,
+    { muted: true, size: 9 }
+  );
+
+  return pdf.save();
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const userClient = createUserClient(req);
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) return jsonResponse({ error: 'Not authenticated' }, 401);
+
+    const body = await req.json();
+    const admin = createAdminClient();
+
+    if (body.action === 'receipt') {
+      const { data: payment } = await userClient
+        .from('payments')
+        .select('id, tenancy_id, amount, payment_date, method, payment_type, status, processed_at, provider_transaction_id')
+        .eq('id', body.payment_id)
+        .maybeSingle();
+
+      if (!payment || !payment.tenancy_id) return jsonResponse({ error: 'Payment not found' }, 404);
+      if (payment.status !== 'completed') {
+        return jsonResponse({ error: 'Receipts are only available for completed payments' }, 400);
+      }
+
+      const { data: allocations, error: allocationsError } = await admin
+        .from('payment_allocations')
+        .select('amount, rent_charges ( description, due_date )')
+        .eq('payment_id', payment.id)
+        .order('created_at', { ascending: true });
+
+      if (allocationsError) throw allocationsError;
+
+      const details = await loadTenancyDetails(admin, payment.tenancy_id);
+      const pdf = await renderReceipt(payment, allocations ?? [], details);
+      return pdfResponse(pdf, `receipt-${payment.payment_date}-${payment.id.slice(0, 8)}.pdf`);
+    }
+
+    if (body.action === 'settlement') {
+      const { data: settlement } = await userClient
+        .from('deposit_settlements')
+        .select(`
+          id,
+          tenancy_id,
+          move_out_date,
+          deposit_held,
+          total_deductions,
+          refund_amount,
+          notes,
+          deposit_deductions ( deduction_type, description, amount, created_at )
+        `)
+        .eq('tenancy_id', body.tenancy_id)
+        .maybeSingle();
+
+      if (!settlement) return jsonResponse({ error: 'This tenancy has no deposit settlement' }, 404);
+
+      const deductions = [...(settlement.deposit_deductions ?? [])].sort((a, b) =>
+        String(a.created_at).localeCompare(String(b.created_at))
+      );
+      const details = await loadTenancyDetails(admin, settlement.tenancy_id);
+      const pdf = await renderSettlement({ ...settlement, deposit_deductions: deductions }, details);
+      return pdfResponse(pdf, 'deposit-settlement.pdf');
+    }
+
+    if (body.action !== 'statement') {
+      return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+
+    const from = String(body.from ?? '');
+    const to = String(body.to ?? '');
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+      return jsonResponse({ error: 'Choose a valid date range' }, 400);
+    }
+
+    const { data: tenancy } = await userClient
+      .from('tenancies')
+      .select('id')
+      .eq('id', body.tenancy_id)
+      .maybeSingle();
+
+    if (!tenancy) return jsonResponse({ error: 'Tenancy not found' }, 404);
+
+    const [details, charges, payments] = await Promise.all([
+      loadTenancyDetails(admin, tenancy.id),
+      admin
+        .from('rent_charges')
+        .select('id, charge_type, due_date, amount, description')
+        .eq('tenancy_id', tenancy.id)
+        .lte('due_date', to),
+      admin
+        .from('payments')
+        .select('id, amount, payment_date, status, method')
+        .eq('tenancy_id', tenancy.id)
+        .eq('status', 'completed')
+        .eq('payment_type', 'rent')
+        .lte('payment_date', to),
+    ]);
+
+    if (charges.error) throw charges.error;
+    if (payments.error) throw payments.error;
+
+    const lines = buildStatementLines(charges.data ?? [], payments.data ?? [], details.billing_start_date);
+    const pdf = await renderStatement(buildAccountStatement(lines, from, to), from, to, details);
+    return pdfResponse(pdf, `statement-${from}-to-${to}.pdf`);
+  } catch (error) {
+    console.error('tenant-documents error:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,86 @@
+-- Track MTN MoMo collection details on payments
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS phone_number TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS provider TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS provider_reference TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS provider_transaction_id TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS processed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+-- Only one payment can be linked to a given provider request
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_provider_reference
+  ON payments(provider_reference)
+  WHERE provider_reference IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payments_status ON payments(status);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_payments_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_payments_updated_at_trigger ON payments;
+CREATE TRIGGER update_payments_updated_at_trigger
+  BEFORE UPDATE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_payments_updated_at();
+
+-- Tenants could previously update their own payments (and mark them completed).
+-- Status transitions now happen server-side in the momo-collect / momo-callback
+-- edge functions, so tenants only get read access plus pending inserts.
+DROP POLICY IF EXISTS "tenant_payments_access" ON payments;
+DROP POLICY IF EXISTS "Users can manage their tenancy payments" ON payments;
+
+CREATE POLICY "tenant_payments_select" ON payments FOR SELECT
+USING (
+  tenancy_id IN (
+    SELECT id FROM tenancies WHERE tenant_id = auth.uid()
+  ) OR get_user_role(auth.uid()) = 'admin'
+);
+
+CREATE POLICY "tenant_payments_insert_pending" ON payments FOR INSERT
+WITH CHECK (
+  tenancy_id IN (
+    SELECT id FROM tenancies WHERE tenant_id = auth.uid()
+  )
+  AND status = 'pending'
+  AND provider_reference IS NULL
+);
+
+-- Whatever the policies allow, a signed-in user cannot set a payment's status:
+-- only the service role (the edge functions) and SECURITY DEFINER functions,
+-- which run as their owner, can move a payment out of 'pending'. Completed
+-- payments are posted to the ledger, so this is what keeps rent from being
+-- marked paid without money arriving.
+CREATE OR REPLACE FUNCTION guard_payment_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') AND (
+    (TG_OP = 'INSERT' AND NEW.status IS DISTINCT FROM 'pending')
+    OR (TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status)
+  ) THEN
+    RAISE EXCEPTION 'Payment status can only be changed by the payment provider';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_payment_status_trigger
+  BEFORE INSERT OR UPDATE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_payment_status();
+
+-- Let tenants follow their payment status in realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE payments;
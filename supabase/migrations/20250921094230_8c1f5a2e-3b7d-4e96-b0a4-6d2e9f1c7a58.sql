@@ -0,0 +1,171 @@
+-- Landlord payout requests, previously kept in the browser's localStorage
+CREATE TYPE payout_status AS ENUM ('pending', 'processing', 'completed', 'failed');
+
+CREATE TABLE payouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  landlord_id UUID NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  phone_number TEXT NOT NULL,
+  status payout_status NOT NULL DEFAULT 'pending',
+  transaction_id TEXT,
+  failure_reason TEXT,
+  legacy_reference TEXT, -- id of the localStorage entry this row was imported from
+  requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(landlord_id, legacy_reference)
+);
+
+ALTER TABLE payouts ENABLE ROW LEVEL SECURITY;
+
+-- Landlords can only read their payouts; creating one goes through request_payout()
+-- so the balance check cannot be bypassed
+CREATE POLICY "landlords_can_view_own_payouts" ON payouts
+FOR SELECT USING (landlord_id = auth.uid());
+
+CREATE POLICY "admins_can_manage_payouts" ON payouts
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+CREATE OR REPLACE FUNCTION update_payouts_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_payouts_updated_at_trigger
+  BEFORE UPDATE ON payouts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_payouts_updated_at();
+
+CREATE INDEX idx_payouts_landlord_id ON payouts(landlord_id);
+CREATE INDEX idx_payouts_status ON payouts(status);
+
+-- Completed rent payments on the landlord's properties, less every payout that
+-- has not failed (pending and processing payouts are reserved)
+CREATE OR REPLACE FUNCTION get_landlord_available_balance(_landlord_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  collected NUMERIC;
+  paid_out NUMERIC;
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND auth.uid() <> _landlord_id
+     AND get_user_role(auth.uid()) <> 'admin' THEN
+    RAISE EXCEPTION 'Not allowed to view this balance';
+  END IF;
+
+  SELECT COALESCE(SUM(pay.amount), 0) INTO collected
+  FROM payments pay
+  JOIN tenancies t ON t.id = pay.tenancy_id
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE p.landlord_id = _landlord_id
+    AND pay.status = 'completed';
+
+  SELECT COALESCE(SUM(amount), 0) INTO paid_out
+  FROM payouts
+  WHERE landlord_id = _landlord_id
+    AND status <> 'failed';
+
+  RETURN collected - paid_out;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION request_payout(_amount NUMERIC, _phone_number TEXT)
+RETURNS payouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  available NUMERIC;
+  new_payout payouts;
+BEGIN
+  IF caller IS NULL OR get_user_role(caller) <> 'landlord' THEN
+    RAISE EXCEPTION 'Only landlords can request payouts';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Payout amount must be greater than zero';
+  END IF;
+
+  IF COALESCE(btrim(_phone_number), '') = '' THEN
+    RAISE EXCEPTION 'A phone number is required';
+  END IF;
+
+  -- Serialize requests per landlord so two requests cannot spend the same balance
+  PERFORM pg_advisory_xact_lock(hashtext('payouts:' || caller::text));
+
+  available := get_landlord_available_balance(caller);
+  IF _amount > available THEN
+    RAISE EXCEPTION 'Requested amount exceeds available balance';
+  END IF;
+
+  INSERT INTO payouts (landlord_id, amount, phone_number)
+  VALUES (caller, round(_amount, 2), btrim(_phone_number))
+  RETURNING * INTO new_payout;
+
+  RETURN new_payout;
+END;
+$$;
+
+-- One-off import of payout requests stored in localStorage by older app versions.
+-- Idempotent through legacy_reference. None of them was ever sent, and some are
+-- long stale, so they are kept as history only: recorded as failed, never as
+-- something the payout worker would pay. The landlord requests again to be paid.
+CREATE OR REPLACE FUNCTION import_legacy_payouts(_payouts JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  entry JSONB;
+  entry_amount NUMERIC;
+  imported INTEGER := 0;
+BEGIN
+  IF caller IS NULL OR get_user_role(caller) <> 'landlord' THEN
+    RAISE EXCEPTION 'Only landlords can import payouts';
+  END IF;
+
+  FOR entry IN SELECT * FROM jsonb_array_elements(COALESCE(_payouts, '[]'::jsonb))
+  LOOP
+    entry_amount := round((entry->>'amount')::numeric, 2);
+    CONTINUE WHEN entry_amount IS NULL OR entry_amount <= 0;
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM payouts
+      WHERE landlord_id = caller AND legacy_reference = entry->>'id'
+    );
+
+    INSERT INTO payouts (
+      landlord_id, amount, phone_number, status, failure_reason, legacy_reference, requested_at
+    ) VALUES (
+      caller,
+      entry_amount,
+      COALESCE(NULLIF(btrim(entry->>'phone_number'), ''), 'unknown'),
+      'failed',
+      'Saved in this browser by an older version of the app and never sent. Request a new payout to be paid.',
+      entry->>'id',
+      COALESCE((entry->>'requested_at')::timestamptz, now())
+    );
+
+    imported := imported + 1;
+  END LOOP;
+
+  RETURN imported;
+END;
+$$;
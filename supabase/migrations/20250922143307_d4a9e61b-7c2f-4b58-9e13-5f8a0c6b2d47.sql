@@ -0,0 +1,91 @@
+-- Disbursement bookkeeping for payouts, used by the momo-disburse worker
+ALTER TABLE payouts
+  ADD COLUMN provider TEXT,
+  ADD COLUMN provider_reference TEXT,
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD COLUMN submitted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE UNIQUE INDEX idx_payouts_provider_reference ON payouts(provider_reference)
+  WHERE provider_reference IS NOT NULL;
+
+CREATE INDEX idx_payouts_next_attempt_at ON payouts(next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+
+-- Hands a batch of due payouts to one worker run. Claimed rows move to
+-- 'processing' and are leased until next_attempt_at, so overlapping runs never
+-- pick up the same payout. A payout whose worker died mid-attempt becomes due
+-- again when its lease runs out, and is re-checked through its provider_reference.
+CREATE OR REPLACE FUNCTION claim_due_payouts(_provider TEXT, _limit INTEGER DEFAULT 10, _lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF payouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE payouts
+  SET status = 'processing',
+      provider = COALESCE(provider, _provider),
+      provider_reference = COALESCE(provider_reference, gen_random_uuid()::text),
+      next_attempt_at = now() + make_interval(secs => _lease_seconds)
+  WHERE id IN (
+    SELECT id FROM payouts
+    WHERE status IN ('pending', 'processing')
+      AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+-- Only the worker (service role) may claim payouts
+REVOKE EXECUTE ON FUNCTION claim_due_payouts(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_due_payouts(TEXT, INTEGER, INTEGER) TO service_role;
+
+-- Let landlords watch their payouts move through the worker
+ALTER PUBLICATION supabase_realtime ADD TABLE payouts;
+
+-- Workers are edge functions, so pg_cron reaches them over HTTP through pg_net
+-- with the service role key. The project URL and key are read from Vault and
+-- have to be stored once per project before the scheduled runs do anything:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION invoke_edge_function(_name TEXT, _body JSONB DEFAULT '{}'::jsonb)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  project_url TEXT;
+  service_role_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_role_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF project_url IS NULL OR service_role_key IS NULL THEN
+    RAISE WARNING 'Cannot call %: the project_url and service_role_key Vault secrets are not set', _name;
+    RETURN NULL;
+  END IF;
+
+  RETURN net.http_post(
+    url := rtrim(project_url, '/') || '/functions/v1/' || _name,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := _body,
+    timeout_milliseconds := 60000
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION invoke_edge_function(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('momo-disburse', '* * * * *', $$SELECT invoke_edge_function('momo-disburse')$$);
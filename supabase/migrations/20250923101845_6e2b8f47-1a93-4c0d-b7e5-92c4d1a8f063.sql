@@ -0,0 +1,550 @@
+-- Double-entry ledger for all money movements.
+--
+-- Every rent payment, refund, platform fee and payout is posted as a balanced
+-- journal entry. Balances are never stored: they are always summed from the
+-- journal lines, so every screen that reads them reconciles by construction.
+--
+-- Accounts:
+--   tenant_receivable  per tenant; debit = rent owed, credit = paid in advance
+--   landlord_accrued   per landlord; rent earned but not yet collected
+--   landlord_payable   per landlord; collected rent the platform owes them
+--   platform_cash      money held in the platform's MoMo account
+--   platform_revenue   platform fees
+
+CREATE TYPE ledger_account_kind AS ENUM (
+  'tenant_receivable',
+  'landlord_accrued',
+  'landlord_payable',
+  'platform_cash',
+  'platform_revenue'
+);
+
+CREATE TYPE ledger_entry_type AS ENUM ('rent_charge', 'payment', 'payment_refund', 'payout', 'adjustment');
+
+CREATE TABLE ledger_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind ledger_account_kind NOT NULL,
+  owner_id UUID REFERENCES profiles(user_id) ON DELETE RESTRICT, -- null for platform accounts
+  normal_balance TEXT NOT NULL CHECK (normal_balance IN ('debit', 'credit')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK ((owner_id IS NULL) = (kind IN ('platform_cash', 'platform_revenue')))
+);
+
+CREATE UNIQUE INDEX idx_ledger_accounts_kind_owner
+  ON ledger_accounts(kind, COALESCE(owner_id, '00000000-0000-0000-0000-000000000000'));
+
+CREATE TABLE ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_type ledger_entry_type NOT NULL,
+  source_id UUID, -- the payment, payout or charge the entry was posted for
+  reverses_entry_id UUID REFERENCES ledger_entries(id),
+  description TEXT NOT NULL,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Posting the same source twice is a no-op, which makes every posting idempotent
+CREATE UNIQUE INDEX idx_ledger_entries_source ON ledger_entries(entry_type, source_id)
+  WHERE source_id IS NOT NULL;
+
+CREATE TABLE ledger_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id UUID NOT NULL REFERENCES ledger_entries(id),
+  account_id UUID NOT NULL REFERENCES ledger_accounts(id),
+  debit NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+  credit NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK ((debit > 0) <> (credit > 0))
+);
+
+CREATE INDEX idx_ledger_lines_entry_id ON ledger_lines(entry_id);
+CREATE INDEX idx_ledger_lines_account_id ON ledger_lines(account_id);
+
+-- Platform-wide settings (single row)
+CREATE TABLE platform_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  payment_fee_percent NUMERIC(5, 2) NOT NULL DEFAULT 0
+    CHECK (payment_fee_percent >= 0 AND payment_fee_percent < 100),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+INSERT INTO platform_settings DEFAULT VALUES;
+
+-- Completed payments the ledger could not post, e.g. money that arrived for a
+-- payment not linked to a tenancy. Listed for admins to reconcile by hand.
+CREATE TABLE unposted_payments (
+  payment_id UUID PRIMARY KEY REFERENCES payments(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE platform_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE unposted_payments ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients; all writes go through the posting functions below
+CREATE POLICY "ledger_accounts_access" ON ledger_accounts
+FOR SELECT USING (owner_id = auth.uid() OR get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "ledger_entries_access" ON ledger_entries
+FOR SELECT USING (
+  id IN (
+    SELECT l.entry_id FROM ledger_lines l
+    JOIN ledger_accounts a ON a.id = l.account_id
+    WHERE a.owner_id = auth.uid()
+  ) OR get_user_role(auth.uid()) = 'admin'
+);
+
+CREATE POLICY "ledger_lines_access" ON ledger_lines
+FOR SELECT USING (
+  account_id IN (SELECT id FROM ledger_accounts WHERE owner_id = auth.uid())
+  OR get_user_role(auth.uid()) = 'admin'
+);
+
+CREATE POLICY "authenticated_can_view_platform_settings" ON platform_settings
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "admins_can_update_platform_settings" ON platform_settings
+FOR UPDATE USING (get_user_role(auth.uid()) = 'admin');
+
+-- Admins clear an entry once the payment has been sorted out
+CREATE POLICY "admins_can_manage_unposted_payments" ON unposted_payments
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+-- The journal is append-only: mistakes are corrected with reversing entries
+CREATE OR REPLACE FUNCTION prevent_ledger_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION '% is append-only; post a reversing entry instead', TG_TABLE_NAME;
+END;
+$$;
+
+CREATE TRIGGER prevent_ledger_entries_changes
+  BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION prevent_ledger_changes();
+
+CREATE TRIGGER prevent_ledger_entries_truncate
+  BEFORE TRUNCATE ON ledger_entries
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_ledger_changes();
+
+CREATE TRIGGER prevent_ledger_lines_changes
+  BEFORE UPDATE OR DELETE ON ledger_lines
+  FOR EACH ROW EXECUTE FUNCTION prevent_ledger_changes();
+
+CREATE TRIGGER prevent_ledger_lines_truncate
+  BEFORE TRUNCATE ON ledger_lines
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_ledger_changes();
+
+-- Checked at commit, once all lines of an entry have been inserted
+CREATE OR REPLACE FUNCTION check_ledger_entry_balanced()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  difference NUMERIC;
+BEGIN
+  SELECT SUM(debit) - SUM(credit) INTO difference
+  FROM ledger_lines
+  WHERE entry_id = NEW.entry_id;
+
+  IF difference <> 0 THEN
+    RAISE EXCEPTION 'Ledger entry % does not balance (off by %)', NEW.entry_id, difference;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER check_ledger_entry_balanced
+  AFTER INSERT ON ledger_lines
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION check_ledger_entry_balanced();
+
+-- Returns the account of the given kind, creating it on first use
+CREATE OR REPLACE FUNCTION ledger_account_id(_kind ledger_account_kind, _owner_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  account UUID;
+BEGIN
+  SELECT id INTO account
+  FROM ledger_accounts
+  WHERE kind = _kind AND owner_id IS NOT DISTINCT FROM _owner_id;
+
+  IF account IS NULL THEN
+    INSERT INTO ledger_accounts (kind, owner_id, normal_balance)
+    VALUES (
+      _kind,
+      _owner_id,
+      CASE WHEN _kind IN ('tenant_receivable', 'platform_cash') THEN 'debit' ELSE 'credit' END
+    )
+    ON CONFLICT DO NOTHING;
+
+    SELECT id INTO account
+    FROM ledger_accounts
+    WHERE kind = _kind AND owner_id IS NOT DISTINCT FROM _owner_id;
+  END IF;
+
+  RETURN account;
+END;
+$$;
+
+-- Posts one journal entry. _lines is a JSON array of
+-- { account_id, debit, credit }; zero-amount lines are skipped.
+CREATE OR REPLACE FUNCTION post_ledger_entry(
+  _entry_type ledger_entry_type,
+  _source_id UUID,
+  _description TEXT,
+  _occurred_at TIMESTAMP WITH TIME ZONE,
+  _lines JSONB,
+  _reverses_entry_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry UUID;
+  total_debit NUMERIC;
+  total_credit NUMERIC;
+BEGIN
+  IF _source_id IS NOT NULL THEN
+    SELECT id INTO entry FROM ledger_entries
+    WHERE entry_type = _entry_type AND source_id = _source_id;
+    IF entry IS NOT NULL THEN
+      RETURN entry;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(SUM(debit), 0), COALESCE(SUM(credit), 0)
+  INTO total_debit, total_credit
+  FROM jsonb_to_recordset(_lines) AS l(account_id UUID, debit NUMERIC, credit NUMERIC);
+
+  IF total_debit <> total_credit OR total_debit = 0 THEN
+    RAISE EXCEPTION 'Ledger entry must balance (debits %, credits %)', total_debit, total_credit;
+  END IF;
+
+  INSERT INTO ledger_entries (entry_type, source_id, reverses_entry_id, description, occurred_at)
+  VALUES (_entry_type, _source_id, _reverses_entry_id, _description, COALESCE(_occurred_at, now()))
+  RETURNING id INTO entry;
+
+  INSERT INTO ledger_lines (entry_id, account_id, debit, credit)
+  SELECT entry, l.account_id, COALESCE(l.debit, 0), COALESCE(l.credit, 0)
+  FROM jsonb_to_recordset(_lines) AS l(account_id UUID, debit NUMERIC, credit NUMERIC)
+  WHERE COALESCE(l.debit, 0) + COALESCE(l.credit, 0) > 0;
+
+  RETURN entry;
+END;
+$$;
+
+-- Posts the mirror image of an entry, e.g. when a payment is refunded
+CREATE OR REPLACE FUNCTION reverse_ledger_entry(
+  _entry_id UUID,
+  _entry_type ledger_entry_type,
+  _source_id UUID,
+  _description TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN post_ledger_entry(
+    _entry_type,
+    _source_id,
+    _description,
+    now(),
+    (
+      SELECT jsonb_agg(jsonb_build_object('account_id', account_id, 'debit', credit, 'credit', debit))
+      FROM ledger_lines
+      WHERE entry_id = _entry_id
+    ),
+    _entry_id
+  );
+END;
+$$;
+
+-- Records a completed payment the ledger has nowhere to post. Raising instead
+-- would roll back the status change that completed it.
+CREATE OR REPLACE FUNCTION record_unposted_payment(_payment_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RAISE WARNING 'Payment % was not posted to the ledger: %', _payment_id, _reason;
+
+  INSERT INTO unposted_payments (payment_id, reason)
+  VALUES (_payment_id, _reason)
+  ON CONFLICT (payment_id) DO UPDATE SET reason = EXCLUDED.reason;
+END;
+$$;
+
+-- A completed payment moves cash in from the tenant and turns the landlord's
+-- accrued rent into money owed to them, less the platform fee
+CREATE OR REPLACE FUNCTION post_payment_to_ledger(_payment_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment RECORD;
+  fee NUMERIC;
+BEGIN
+  SELECT pay.id, pay.amount, pay.method, pay.payment_date, pay.processed_at,
+         t.tenant_id, p.landlord_id
+  INTO payment
+  FROM payments pay
+  JOIN tenancies t ON t.id = pay.tenancy_id
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE pay.id = _payment_id;
+
+  -- A payment with no tenancy, unit or property behind it has nobody to post to
+  IF payment.id IS NULL THEN
+    PERFORM record_unposted_payment(_payment_id, 'Not linked to a tenancy');
+    RETURN NULL;
+  END IF;
+
+  SELECT round(payment.amount * payment_fee_percent / 100, 2) INTO fee
+  FROM platform_settings;
+
+  RETURN post_ledger_entry(
+    'payment',
+    payment.id,
+    'Rent payment via ' || payment.method,
+    COALESCE(payment.processed_at, payment.payment_date::timestamptz),
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_account_id('platform_cash'), 'debit', payment.amount),
+      jsonb_build_object('account_id', ledger_account_id('tenant_receivable', payment.tenant_id), 'credit', payment.amount),
+      jsonb_build_object('account_id', ledger_account_id('landlord_accrued', payment.landlord_id), 'debit', payment.amount),
+      jsonb_build_object('account_id', ledger_account_id('landlord_payable', payment.landlord_id), 'credit', payment.amount - COALESCE(fee, 0)),
+      jsonb_build_object('account_id', ledger_account_id('platform_revenue'), 'credit', COALESCE(fee, 0))
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_payout_to_ledger(_payout_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payout RECORD;
+BEGIN
+  SELECT id, landlord_id, amount, phone_number, processed_at INTO payout
+  FROM payouts
+  WHERE id = _payout_id;
+
+  RETURN post_ledger_entry(
+    'payout',
+    payout.id,
+    'Payout to MTN MoMo ' || payout.phone_number,
+    COALESCE(payout.processed_at, now()),
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_account_id('landlord_payable', payout.landlord_id), 'debit', payout.amount),
+      jsonb_build_object('account_id', ledger_account_id('platform_cash'), 'credit', payout.amount)
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_payment_status_to_ledger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  original_entry UUID;
+BEGIN
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    PERFORM post_payment_to_ledger(NEW.id);
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'completed' AND NEW.status = 'refunded' THEN
+    SELECT id INTO original_entry FROM ledger_entries
+    WHERE entry_type = 'payment' AND source_id = NEW.id;
+
+    IF original_entry IS NOT NULL THEN
+      PERFORM reverse_ledger_entry(original_entry, 'payment_refund', NEW.id, 'Refund of rent payment');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER post_payment_status_to_ledger_trigger
+  AFTER INSERT OR UPDATE OF status ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION post_payment_status_to_ledger();
+
+CREATE OR REPLACE FUNCTION post_payout_status_to_ledger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    PERFORM post_payout_to_ledger(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER post_payout_status_to_ledger_trigger
+  AFTER UPDATE OF status ON payouts
+  FOR EACH ROW
+  EXECUTE FUNCTION post_payout_status_to_ledger();
+
+-- Balance of one account on its normal side (positive = the usual direction)
+CREATE OR REPLACE FUNCTION ledger_account_balance(_account_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(
+    CASE WHEN a.normal_balance = 'debit' THEN l.debit - l.credit ELSE l.credit - l.debit END
+  ), 0)
+  FROM ledger_accounts a
+  LEFT JOIN ledger_lines l ON l.account_id = a.id
+  WHERE a.id = _account_id;
+$$;
+
+-- Posting and raw balance helpers are internal: only triggers and other
+-- functions in this file may call them
+REVOKE EXECUTE ON FUNCTION ledger_account_id(ledger_account_kind, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION post_ledger_entry(ledger_entry_type, UUID, TEXT, TIMESTAMP WITH TIME ZONE, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reverse_ledger_entry(UUID, ledger_entry_type, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_unposted_payment(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION post_payment_to_ledger(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION post_payout_to_ledger(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ledger_account_balance(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Balances of every account a landlord or tenant owns
+CREATE OR REPLACE FUNCTION get_ledger_balances(_owner_id UUID)
+RETURNS TABLE (account_kind ledger_account_kind, balance NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND auth.uid() <> _owner_id
+     AND get_user_role(auth.uid()) <> 'admin' THEN
+    RAISE EXCEPTION 'Not allowed to view these balances';
+  END IF;
+
+  RETURN QUERY
+  SELECT a.kind, ledger_account_balance(a.id)
+  FROM ledger_accounts a
+  WHERE a.owner_id = _owner_id
+  ORDER BY a.kind;
+END;
+$$;
+
+-- Now read from the ledger: what the platform owes the landlord, less payouts
+-- that are requested but not yet completed (completed ones are already posted)
+CREATE OR REPLACE FUNCTION get_landlord_available_balance(_landlord_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payable NUMERIC;
+  reserved NUMERIC;
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND auth.uid() <> _landlord_id
+     AND get_user_role(auth.uid()) <> 'admin' THEN
+    RAISE EXCEPTION 'Not allowed to view this balance';
+  END IF;
+
+  SELECT COALESCE(SUM(ledger_account_balance(id)), 0) INTO payable
+  FROM ledger_accounts
+  WHERE kind = 'landlord_payable' AND owner_id = _landlord_id;
+
+  SELECT COALESCE(SUM(amount), 0) INTO reserved
+  FROM payouts
+  WHERE landlord_id = _landlord_id
+    AND status IN ('pending', 'processing');
+
+  RETURN payable - reserved;
+END;
+$$;
+
+-- Platform-wide totals for the admin dashboard
+CREATE OR REPLACE FUNCTION get_platform_ledger_summary()
+RETURNS TABLE (
+  total_collected NUMERIC,
+  total_refunded NUMERIC,
+  total_paid_out NUMERIC,
+  fee_revenue NUMERIC,
+  cash_balance NUMERIC,
+  owed_to_landlords NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF get_user_role(auth.uid()) <> 'admin' THEN
+    RAISE EXCEPTION 'Only admins can view platform totals';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    COALESCE(SUM(l.debit) FILTER (WHERE a.kind = 'platform_cash' AND e.entry_type = 'payment'), 0),
+    COALESCE(SUM(l.credit) FILTER (WHERE a.kind = 'platform_cash' AND e.entry_type = 'payment_refund'), 0),
+    COALESCE(SUM(l.credit) FILTER (WHERE a.kind = 'platform_cash' AND e.entry_type = 'payout'), 0),
+    COALESCE(SUM(l.credit - l.debit) FILTER (WHERE a.kind = 'platform_revenue'), 0),
+    COALESCE(SUM(l.debit - l.credit) FILTER (WHERE a.kind = 'platform_cash'), 0),
+    COALESCE(SUM(l.credit - l.debit) FILTER (WHERE a.kind = 'landlord_payable'), 0)
+  FROM ledger_lines l
+  JOIN ledger_accounts a ON a.id = l.account_id
+  JOIN ledger_entries e ON e.id = l.entry_id;
+END;
+$$;
+
+-- Post history so opening balances match what was collected and paid out so far
+DO $$
+DECLARE
+  source RECORD;
+BEGIN
+  FOR source IN
+    SELECT id FROM payments
+    WHERE status = 'completed' AND tenancy_id IS NOT NULL
+    ORDER BY COALESCE(processed_at, payment_date::timestamptz)
+  LOOP
+    PERFORM post_payment_to_ledger(source.id);
+  END LOOP;
+
+  FOR source IN
+    SELECT id FROM payouts WHERE status = 'completed' ORDER BY processed_at
+  LOOP
+    PERFORM post_payout_to_ledger(source.id);
+  END LOOP;
+END;
+$$;
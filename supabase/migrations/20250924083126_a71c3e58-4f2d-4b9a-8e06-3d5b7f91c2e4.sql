@@ -0,0 +1,489 @@
+-- Rent charges: what each tenancy was actually billed, and which payments paid it.
+--
+-- Charges are generated per billing period from the tenancy's start date and
+-- billing cycle. rent_amount is the amount due per period; partial first and
+-- last periods are pro-rated by day. Each charge is due on the first day of its
+-- period and is posted to the ledger (tenant_receivable / landlord_accrued).
+
+CREATE TYPE billing_cycle AS ENUM ('weekly', 'monthly', 'quarterly');
+CREATE TYPE rent_charge_type AS ENUM ('rent');
+
+ALTER TABLE tenancies
+  ADD COLUMN billing_cycle billing_cycle NOT NULL DEFAULT 'monthly',
+  -- Day of the month monthly and quarterly periods start on (weekly periods
+  -- start on the weekday of billing_start_date). Capped at 28 so every month has it.
+  ADD COLUMN billing_day SMALLINT NOT NULL DEFAULT 1 CHECK (billing_day BETWEEN 1 AND 28),
+  -- First day charges are generated for; null means start_date
+  ADD COLUMN billing_start_date DATE;
+
+CREATE TABLE rent_charges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenancy_id UUID NOT NULL REFERENCES tenancies(id) ON DELETE CASCADE,
+  charge_type rent_charge_type NOT NULL DEFAULT 'rent',
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  due_date DATE NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  description TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (period_end >= period_start),
+  UNIQUE(tenancy_id, charge_type, period_start)
+);
+
+CREATE INDEX idx_rent_charges_tenancy_due ON rent_charges(tenancy_id, due_date);
+
+CREATE TABLE payment_allocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  charge_id UUID NOT NULL REFERENCES rent_charges(id) ON DELETE CASCADE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(payment_id, charge_id)
+);
+
+CREATE INDEX idx_payment_allocations_charge_id ON payment_allocations(charge_id);
+
+ALTER TABLE rent_charges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_allocations ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients; charges and allocations are written by the functions below
+CREATE POLICY "tenant_rent_charges_access" ON rent_charges
+FOR SELECT USING (
+  tenancy_id IN (
+    SELECT id FROM tenancies WHERE tenant_id = auth.uid()
+  ) OR get_user_role(auth.uid()) = 'admin'
+);
+
+CREATE POLICY "landlord_rent_charges_access" ON rent_charges
+FOR SELECT USING (
+  tenancy_id IN (
+    SELECT t.id FROM tenancies t
+    WHERE t.unit_id IN (
+      SELECT u.id FROM units u
+      WHERE u.property_id IN (
+        SELECT p.id FROM properties p WHERE p.landlord_id = auth.uid()
+      )
+    )
+  )
+);
+
+CREATE POLICY "payment_allocations_access" ON payment_allocations
+FOR SELECT USING (
+  charge_id IN (SELECT id FROM rent_charges)
+);
+
+-- Billing is driven by the tenancy's status, dates, cycle and rent, so those
+-- can no longer be written directly: tenants and landlords read their
+-- tenancies, and changes go through the SECURITY DEFINER functions.
+DROP POLICY IF EXISTS "tenant_tenancies_access" ON tenancies;
+DROP POLICY IF EXISTS "landlord_tenancies_access" ON tenancies;
+DROP POLICY IF EXISTS "Property owners can manage tenancies for their properties" ON tenancies;
+
+CREATE POLICY "tenant_tenancies_select" ON tenancies
+FOR SELECT USING (tenant_id = auth.uid());
+
+CREATE POLICY "landlord_tenancies_select" ON tenancies
+FOR SELECT USING (
+  unit_id IN (
+    SELECT u.id FROM units u
+    WHERE u.property_id IN (
+      SELECT p.id FROM properties p WHERE p.landlord_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "admins_can_manage_tenancies" ON tenancies
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+-- Charges with what has been paid against them so far
+CREATE VIEW rent_charge_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  c.*,
+  COALESCE(a.amount_paid, 0) AS amount_paid,
+  c.amount - COALESCE(a.amount_paid, 0) AS balance
+FROM rent_charges c
+LEFT JOIN (
+  SELECT charge_id, SUM(amount) AS amount_paid
+  FROM payment_allocations
+  GROUP BY charge_id
+) a ON a.charge_id = c.id;
+
+CREATE OR REPLACE FUNCTION billing_cycle_interval(_cycle billing_cycle)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _cycle
+    WHEN 'weekly' THEN INTERVAL '7 days'
+    WHEN 'monthly' THEN INTERVAL '1 month'
+    ELSE INTERVAL '3 months'
+  END;
+$$;
+
+-- Applies a completed payment to the tenancy's unpaid charges, oldest first.
+-- Whatever cannot be applied yet stays unallocated as tenant credit and is used
+-- by apply_tenancy_credit() when the next charge is generated. Payments dated
+-- before billing_start_date settled rent billed outside the schedule and are
+-- never allocated.
+CREATE OR REPLACE FUNCTION allocate_payment(_payment_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment RECORD;
+  remaining NUMERIC;
+  charge RECORD;
+  applied NUMERIC;
+BEGIN
+  SELECT pay.id, pay.tenancy_id, pay.amount, pay.status, pay.payment_date, t.billing_start_date
+  INTO payment
+  FROM payments pay
+  JOIN tenancies t ON t.id = pay.tenancy_id
+  WHERE pay.id = _payment_id
+  FOR UPDATE OF pay;
+
+  IF payment.id IS NULL OR payment.status <> 'completed' THEN
+    RETURN 0;
+  END IF;
+
+  IF payment.payment_date < payment.billing_start_date THEN
+    RETURN 0;
+  END IF;
+
+  SELECT payment.amount - COALESCE(SUM(amount), 0) INTO remaining
+  FROM payment_allocations
+  WHERE payment_id = payment.id;
+
+  FOR charge IN
+    SELECT c.id, c.amount - COALESCE(SUM(a.amount), 0) AS outstanding
+    FROM rent_charges c
+    LEFT JOIN payment_allocations a ON a.charge_id = c.id
+    WHERE c.tenancy_id = payment.tenancy_id
+    GROUP BY c.id
+    HAVING c.amount - COALESCE(SUM(a.amount), 0) > 0
+    ORDER BY MIN(c.due_date), MIN(c.created_at)
+  LOOP
+    EXIT WHEN remaining <= 0;
+
+    applied := LEAST(remaining, charge.outstanding);
+
+    INSERT INTO payment_allocations (payment_id, charge_id, amount)
+    VALUES (payment.id, charge.id, applied)
+    ON CONFLICT (payment_id, charge_id)
+    DO UPDATE SET amount = payment_allocations.amount + EXCLUDED.amount;
+
+    remaining := remaining - applied;
+  END LOOP;
+
+  RETURN remaining;
+END;
+$$;
+
+-- Re-applies any unallocated payment amounts (tenant credit), oldest payment first
+CREATE OR REPLACE FUNCTION apply_tenancy_credit(_tenancy_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment RECORD;
+BEGIN
+  FOR payment IN
+    SELECT p.id
+    FROM payments p
+    LEFT JOIN payment_allocations a ON a.payment_id = p.id
+    WHERE p.tenancy_id = _tenancy_id AND p.status = 'completed'
+    GROUP BY p.id
+    HAVING p.amount - COALESCE(SUM(a.amount), 0) > 0
+    ORDER BY MIN(COALESCE(p.processed_at, p.payment_date::timestamptz))
+  LOOP
+    PERFORM allocate_payment(payment.id);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_rent_charge_to_ledger(_charge_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  charge RECORD;
+BEGIN
+  SELECT c.id, c.amount, c.description, c.due_date, t.tenant_id, p.landlord_id
+  INTO charge
+  FROM rent_charges c
+  JOIN tenancies t ON t.id = c.tenancy_id
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE c.id = _charge_id;
+
+  RETURN post_ledger_entry(
+    'rent_charge',
+    charge.id,
+    charge.description,
+    charge.due_date::timestamptz,
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_account_id('tenant_receivable', charge.tenant_id), 'debit', charge.amount),
+      jsonb_build_object('account_id', ledger_account_id('landlord_accrued', charge.landlord_id), 'credit', charge.amount)
+    )
+  );
+END;
+$$;
+
+-- Creates the charge for one billing period (pro-rated against a period of
+-- _full_days) unless it already exists, and posts it to the ledger
+CREATE OR REPLACE FUNCTION create_rent_charge(
+  _tenancy_id UUID,
+  _period_start DATE,
+  _period_end DATE,
+  _full_days INTEGER,
+  _rent NUMERIC
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  days INTEGER := _period_end - _period_start + 1;
+  charge_amount NUMERIC := LEAST(_rent, round(_rent * days / _full_days, 2));
+  new_charge UUID;
+BEGIN
+  IF charge_amount <= 0 THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO rent_charges (tenancy_id, period_start, period_end, due_date, amount, description)
+  VALUES (
+    _tenancy_id,
+    _period_start,
+    _period_end,
+    _period_start,
+    charge_amount,
+    'Rent ' || to_char(_period_start, 'DD Mon YYYY') || ' - ' || to_char(_period_end, 'DD Mon YYYY')
+      || CASE WHEN days < _full_days THEN ' (pro-rated)' ELSE '' END
+  )
+  ON CONFLICT (tenancy_id, charge_type, period_start) DO NOTHING
+  RETURNING id INTO new_charge;
+
+  IF new_charge IS NULL THEN
+    RETURN false;
+  END IF;
+
+  PERFORM post_rent_charge_to_ledger(new_charge);
+  RETURN true;
+END;
+$$;
+
+-- Generates every charge of an active tenancy due on or before _through.
+-- Picks up after the last existing charge, so it is safe to run repeatedly and
+-- a change of billing cycle only affects periods that were not billed yet.
+CREATE OR REPLACE FUNCTION generate_rent_charges(_tenancy_id UUID, _through DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tenancy RECORD;
+  step INTERVAL;
+  period_start DATE;
+  anchor DATE;
+  next_start DATE;
+  last_end DATE;
+  created INTEGER := 0;
+BEGIN
+  SELECT * INTO tenancy FROM tenancies WHERE id = _tenancy_id;
+  IF tenancy.id IS NULL OR tenancy.status <> 'active' OR tenancy.rent_amount <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  step := billing_cycle_interval(tenancy.billing_cycle);
+  period_start := COALESCE(tenancy.billing_start_date, tenancy.start_date);
+
+  SELECT MAX(period_end) INTO last_end FROM rent_charges
+  WHERE tenancy_id = tenancy.id AND charge_type = 'rent';
+  IF last_end IS NOT NULL THEN
+    period_start := GREATEST(period_start, last_end + 1);
+  END IF;
+
+  -- First regular period boundary on or after period_start
+  IF tenancy.billing_cycle = 'weekly' THEN
+    anchor := period_start;
+  ELSE
+    anchor := make_date(
+      EXTRACT(YEAR FROM period_start)::int,
+      EXTRACT(MONTH FROM period_start)::int,
+      tenancy.billing_day
+    );
+    IF anchor < period_start THEN
+      anchor := (anchor + INTERVAL '1 month')::date;
+    END IF;
+  END IF;
+
+  -- Partial period before the first boundary, pro-rated against a full period
+  IF anchor > period_start AND period_start <= _through
+     AND (tenancy.end_date IS NULL OR period_start <= tenancy.end_date) THEN
+    IF create_rent_charge(
+      tenancy.id,
+      period_start,
+      LEAST(anchor - 1, COALESCE(tenancy.end_date, anchor - 1)),
+      anchor - (anchor - step)::date,
+      tenancy.rent_amount
+    ) THEN
+      created := created + 1;
+    END IF;
+  END IF;
+
+  period_start := anchor;
+  WHILE period_start <= _through
+        AND (tenancy.end_date IS NULL OR period_start <= tenancy.end_date) LOOP
+    next_start := (period_start + step)::date;
+
+    -- The last period is cut short (and pro-rated) when the tenancy ends inside it
+    IF create_rent_charge(
+      tenancy.id,
+      period_start,
+      LEAST(next_start - 1, COALESCE(tenancy.end_date, next_start - 1)),
+      next_start - period_start,
+      tenancy.rent_amount
+    ) THEN
+      created := created + 1;
+    END IF;
+
+    period_start := next_start;
+  END LOOP;
+
+  IF created > 0 THEN
+    PERFORM apply_tenancy_credit(tenancy.id);
+  END IF;
+
+  RETURN created;
+END;
+$$;
+
+-- Daily job: bill every active tenancy up to today
+CREATE OR REPLACE FUNCTION generate_due_rent_charges()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tenancy RECORD;
+  created INTEGER := 0;
+BEGIN
+  FOR tenancy IN SELECT id FROM tenancies WHERE status = 'active' LOOP
+    created := created + generate_rent_charges(tenancy.id);
+  END LOOP;
+
+  RETURN created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION allocate_payment(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION apply_tenancy_credit(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION post_rent_charge_to_ledger(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_rent_charge(UUID, DATE, DATE, INTEGER, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION generate_rent_charges(UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION generate_due_rent_charges() FROM PUBLIC, anon, authenticated;
+
+-- Bill a tenancy as soon as it becomes active
+CREATE OR REPLACE FUNCTION generate_rent_charges_for_tenancy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'active' THEN
+    PERFORM generate_rent_charges(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER generate_rent_charges_for_tenancy_trigger
+  AFTER INSERT OR UPDATE OF status, billing_cycle, billing_day, billing_start_date ON tenancies
+  FOR EACH ROW
+  EXECUTE FUNCTION generate_rent_charges_for_tenancy();
+
+-- Allocate payments as they complete; a refund releases the charges it paid
+CREATE OR REPLACE FUNCTION allocate_payment_on_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    PERFORM allocate_payment(NEW.id);
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'completed' AND NEW.status <> 'completed' THEN
+    DELETE FROM payment_allocations WHERE payment_id = NEW.id;
+    IF NEW.tenancy_id IS NOT NULL THEN
+      PERFORM apply_tenancy_credit(NEW.tenancy_id);
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER allocate_payment_on_status_change_trigger
+  AFTER INSERT OR UPDATE OF status ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION allocate_payment_on_status_change();
+
+-- Existing tenancies are billed from the start of the current month: the app
+-- never billed earlier periods, so generating them now would invent arrears
+-- for rent that may well have been settled outside the app.
+UPDATE tenancies
+SET billing_start_date = GREATEST(start_date, date_trunc('month', CURRENT_DATE)::date)
+WHERE status = 'active';
+
+-- Payments already in the ledger paid for rent the ledger never charged. Post
+-- that rent as an opening balance so tenant balances start from zero rather
+-- than showing every historical payment as credit.
+DO $$
+DECLARE
+  tenancy RECORD;
+BEGIN
+  FOR tenancy IN
+    SELECT t.id, t.tenant_id, p.landlord_id, SUM(pay.amount) AS settled
+    FROM tenancies t
+    JOIN units u ON u.id = t.unit_id
+    JOIN properties p ON p.id = u.property_id
+    JOIN payments pay ON pay.tenancy_id = t.id AND pay.status = 'completed'
+    WHERE t.status <> 'active' OR pay.payment_date < t.billing_start_date
+    GROUP BY t.id, t.tenant_id, p.landlord_id
+  LOOP
+    PERFORM post_ledger_entry(
+      'adjustment',
+      tenancy.id,
+      'Opening balance: rent settled before the charge schedule',
+      now(),
+      jsonb_build_array(
+        jsonb_build_object('account_id', ledger_account_id('tenant_receivable', tenancy.tenant_id), 'debit', tenancy.settled),
+        jsonb_build_object('account_id', ledger_account_id('landlord_accrued', tenancy.landlord_id), 'credit', tenancy.settled)
+      )
+    );
+  END LOOP;
+
+  FOR tenancy IN SELECT id FROM tenancies WHERE status = 'active' LOOP
+    PERFORM generate_rent_charges(tenancy.id);
+    PERFORM apply_tenancy_credit(tenancy.id);
+  END LOOP;
+END;
+$$;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('generate-rent-charges', '15 0 * * *', 'SELECT generate_due_rent_charges()');
+
+ALTER PUBLICATION supabase_realtime ADD TABLE rent_charges;
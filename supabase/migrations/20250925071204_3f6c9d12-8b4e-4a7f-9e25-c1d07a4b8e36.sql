@@ -0,0 +1,4 @@
+-- New enum values for late fees. Kept in their own migration: a value added by
+-- ALTER TYPE cannot be used in the same transaction that adds it.
+ALTER TYPE rent_charge_type ADD VALUE IF NOT EXISTS 'late_fee';
+ALTER TYPE ledger_entry_type ADD VALUE IF NOT EXISTS 'late_fee';
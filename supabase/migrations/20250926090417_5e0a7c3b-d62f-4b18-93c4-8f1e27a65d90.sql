@@ -0,0 +1,71 @@
+-- Payment allocation rules.
+--
+-- A payment is applied to the charge the tenant chose to pay (if any) first,
+-- then to the tenancy's other unpaid charges oldest first. Whatever is left is
+-- tenant credit: it stays unallocated and is applied by apply_tenancy_credit()
+-- as new charges are billed. The same rules are implemented for the app in
+-- src/lib/paymentAllocation.ts; keep the two in step.
+
+-- The charge the tenant chose to pay; null means oldest first
+ALTER TABLE payments
+  ADD COLUMN applies_to_charge_id UUID REFERENCES rent_charges(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION allocate_payment(_payment_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment RECORD;
+  remaining NUMERIC;
+  charge RECORD;
+  applied NUMERIC;
+BEGIN
+  SELECT pay.id, pay.tenancy_id, pay.amount, pay.status, pay.payment_date,
+         pay.applies_to_charge_id, t.billing_start_date
+  INTO payment
+  FROM payments pay
+  JOIN tenancies t ON t.id = pay.tenancy_id
+  WHERE pay.id = _payment_id
+  FOR UPDATE OF pay;
+
+  IF payment.id IS NULL OR payment.status <> 'completed' THEN
+    RETURN 0;
+  END IF;
+
+  IF payment.payment_date < payment.billing_start_date THEN
+    RETURN 0;
+  END IF;
+
+  SELECT payment.amount - COALESCE(SUM(amount), 0) INTO remaining
+  FROM payment_allocations
+  WHERE payment_id = payment.id;
+
+  -- A chosen charge only counts if it belongs to the payment's tenancy
+  FOR charge IN
+    SELECT c.id, c.amount - COALESCE(SUM(a.amount), 0) AS outstanding
+    FROM rent_charges c
+    LEFT JOIN payment_allocations a ON a.charge_id = c.id
+    WHERE c.tenancy_id = payment.tenancy_id
+    GROUP BY c.id
+    HAVING c.amount - COALESCE(SUM(a.amount), 0) > 0
+    ORDER BY (c.id = payment.applies_to_charge_id) IS NOT TRUE, MIN(c.due_date), MIN(c.created_at)
+  LOOP
+    EXIT WHEN remaining <= 0;
+
+    applied := LEAST(remaining, charge.outstanding);
+
+    INSERT INTO payment_allocations (payment_id, charge_id, amount)
+    VALUES (payment.id, charge.id, applied)
+    ON CONFLICT (payment_id, charge_id)
+    DO UPDATE SET amount = payment_allocations.amount + EXCLUDED.amount;
+
+    remaining := remaining - applied;
+  END LOOP;
+
+  RETURN remaining;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION allocate_payment(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,92 @@
+-- Lease documents: landlord-managed lease templates, rendered to a PDF for a
+-- specific tenancy by the lease-documents edge function.
+--
+-- Templates are plain text with {{placeholders}} for the tenancy's details
+-- (see src/lib/leaseTemplates.ts for the list). Every generated PDF is kept as
+-- a numbered version in the private lease-documents bucket, with a SHA-256 of
+-- the file, and the tenancy points at the version currently in force. Both the
+-- tenant and the landlord can read the files; only the edge function writes.
+
+-- Security deposit, shown on the lease
+ALTER TABLE tenancies
+  ADD COLUMN deposit_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0);
+
+CREATE TABLE lease_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  landlord_id UUID NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  body TEXT NOT NULL,
+  -- Preselected when generating a lease; at most one per landlord
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE UNIQUE INDEX lease_templates_default_key
+  ON lease_templates(landlord_id) WHERE is_default;
+
+ALTER TABLE lease_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "landlords_can_manage_own_lease_templates" ON lease_templates
+FOR ALL USING (landlord_id = auth.uid()) WITH CHECK (landlord_id = auth.uid());
+
+CREATE POLICY "admins_can_manage_lease_templates" ON lease_templates
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+CREATE OR REPLACE FUNCTION update_lease_templates_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_lease_templates_updated_at_trigger
+  BEFORE UPDATE ON lease_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_lease_templates_updated_at();
+
+CREATE TABLE lease_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenancy_id UUID NOT NULL REFERENCES tenancies(id) ON DELETE CASCADE,
+  -- Kept for reference only; the rendered text below is what was signed off
+  template_id UUID REFERENCES lease_templates(id) ON DELETE SET NULL,
+  version INTEGER NOT NULL CHECK (version > 0),
+  -- <tenancy_id>/lease-v<version>.pdf in the lease-documents bucket
+  storage_path TEXT NOT NULL UNIQUE,
+  -- Hex SHA-256 of the PDF, to show a download is the exact version generated
+  content_hash TEXT NOT NULL,
+  rendered_body TEXT NOT NULL,
+  generated_by UUID REFERENCES profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (tenancy_id, version)
+);
+
+CREATE INDEX idx_lease_documents_tenancy_id ON lease_documents(tenancy_id);
+
+ALTER TABLE lease_documents ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can see the tenancy (its tenant and landlord) can see its leases
+CREATE POLICY "tenancy_parties_can_view_lease_documents" ON lease_documents
+FOR SELECT USING (tenancy_id IN (SELECT id FROM tenancies));
+
+CREATE POLICY "admins_can_manage_lease_documents" ON lease_documents
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+ALTER TABLE tenancies
+  ADD COLUMN current_lease_document_id UUID REFERENCES lease_documents(id) ON DELETE SET NULL;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('lease-documents', 'lease-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Files are stored under the tenancy id, so the same tenancy check applies
+CREATE POLICY "tenancy_parties_can_read_lease_files" ON storage.objects
+FOR SELECT USING (
+  bucket_id = 'lease-documents'
+  AND (storage.foldername(name))[1] IN (SELECT id::text FROM tenancies)
+);
@@ -0,0 +1,86 @@
+-- Lease signing: a new tenancy starts as 'pending_signature' and only becomes
+-- 'active' (and starts billing) once its current lease document has been
+-- signed by the tenant and countersigned by the landlord.
+--
+-- The landlord sends a generated lease version to the tenant (sent_at). The
+-- tenant signs it, then the landlord countersigns. Each signature records who
+-- signed, how (typed name or drawn image), when, from which IP address and the
+-- SHA-256 of the PDF they were shown, which must match the stored file.
+-- Signatures are written by the lease-documents edge function only.
+
+ALTER TABLE tenancies ALTER COLUMN status SET DEFAULT 'pending_signature';
+
+CREATE TYPE lease_signer_role AS ENUM ('tenant', 'landlord');
+CREATE TYPE lease_signature_type AS ENUM ('typed', 'drawn');
+
+ALTER TABLE lease_documents
+  ADD COLUMN sent_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE lease_signatures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lease_document_id UUID NOT NULL REFERENCES lease_documents(id) ON DELETE CASCADE,
+  signer_id UUID NOT NULL REFERENCES profiles(user_id),
+  signer_role lease_signer_role NOT NULL,
+  signature_type lease_signature_type NOT NULL,
+  -- Typed: the name as typed. Drawn: the signer's name, for display
+  signer_name TEXT NOT NULL,
+  -- PNG data URL of a drawn signature
+  signature_image TEXT,
+  -- SHA-256 of the PDF the signer was shown, equal to lease_documents.content_hash
+  document_hash TEXT NOT NULL,
+  ip_address TEXT,
+  user_agent TEXT,
+  signed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (lease_document_id, signer_role),
+  CHECK ((signature_type = 'drawn') = (signature_image IS NOT NULL))
+);
+
+ALTER TABLE lease_signatures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tenancy_parties_can_view_lease_signatures" ON lease_signatures
+FOR SELECT USING (
+  lease_document_id IN (SELECT id FROM lease_documents)
+);
+
+CREATE POLICY "admins_can_manage_lease_signatures" ON lease_signatures
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+-- Whether both parties have signed a lease document
+CREATE OR REPLACE FUNCTION lease_fully_signed(_lease_document_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(DISTINCT signer_role) = 2
+  FROM lease_signatures
+  WHERE lease_document_id = _lease_document_id;
+$$;
+
+-- Tenants and landlords can both update tenancies, so the rule is enforced
+-- here rather than in the app. The service role (the edge function, once the
+-- landlord countersigns) and admins are trusted to activate directly.
+CREATE OR REPLACE FUNCTION enforce_signed_lease_before_activation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'active'
+    AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'active')
+    AND auth.uid() IS NOT NULL
+    AND get_user_role(auth.uid()) <> 'admin'
+    AND (NEW.current_lease_document_id IS NULL OR NOT lease_fully_signed(NEW.current_lease_document_id))
+  THEN
+    RAISE EXCEPTION 'A tenancy can only become active once its lease is signed by both parties';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_signed_lease_before_activation_trigger
+  BEFORE INSERT OR UPDATE OF status ON tenancies
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_signed_lease_before_activation();
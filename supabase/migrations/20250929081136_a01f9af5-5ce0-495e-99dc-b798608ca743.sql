@@ -0,0 +1,85 @@
+-- Join request approval in one transaction.
+--
+-- Approving used to be three separate client writes (create the tenancy, mark
+-- the request approved, mark the unit occupied), so a failure part way left an
+-- approved request with a vacant unit, or two tenancies on one unit.
+-- approve_join_request() does all three or none, and locks the request and
+-- the unit so two approvals cannot race each other.
+
+-- Tenancies that hold their unit
+CREATE OR REPLACE FUNCTION unit_is_occupied(_unit_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM tenancies
+    WHERE unit_id = _unit_id
+      AND status IN ('active', 'pending_signature')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION approve_join_request(_request_id UUID)
+RETURNS tenancies
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  request RECORD;
+  unit RECORD;
+  new_tenancy tenancies;
+BEGIN
+  SELECT jr.id, jr.tenant_id, jr.property_id, jr.unit_id, jr.status, p.landlord_id
+  INTO request
+  FROM join_requests jr
+  JOIN properties p ON p.id = jr.property_id
+  WHERE jr.id = _request_id
+  FOR UPDATE OF jr;
+
+  IF request.id IS NULL OR caller IS NULL OR request.landlord_id IS DISTINCT FROM caller THEN
+    RAISE EXCEPTION 'Join request not found';
+  END IF;
+
+  IF request.status IS DISTINCT FROM 'pending' THEN
+    RAISE EXCEPTION 'This request has already been %', request.status;
+  END IF;
+
+  IF request.unit_id IS NULL THEN
+    RAISE EXCEPTION 'This request is not for a specific unit';
+  END IF;
+
+  SELECT u.id, u.property_id, u.rent_amount, u.status
+  INTO unit
+  FROM units u
+  WHERE u.id = request.unit_id
+  FOR UPDATE;
+
+  IF unit.id IS NULL OR unit.property_id IS DISTINCT FROM request.property_id THEN
+    RAISE EXCEPTION 'Unit not found';
+  END IF;
+
+  IF unit.status = 'occupied' OR unit_is_occupied(unit.id) THEN
+    RAISE EXCEPTION 'This unit is already occupied';
+  END IF;
+
+  -- Becomes active once the lease is signed by both parties
+  INSERT INTO tenancies (tenant_id, unit_id, rent_amount, start_date, status)
+  VALUES (request.tenant_id, unit.id, unit.rent_amount, CURRENT_DATE, 'pending_signature')
+  RETURNING * INTO new_tenancy;
+
+  UPDATE join_requests
+  SET status = 'approved'
+  WHERE id = request.id;
+
+  UPDATE units
+  SET status = 'occupied'
+  WHERE id = unit.id;
+
+  RETURN new_tenancy;
+END;
+$$;
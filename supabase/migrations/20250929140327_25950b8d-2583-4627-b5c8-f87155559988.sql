@@ -0,0 +1,101 @@
+-- The landlord sets the terms when approving a join request, and picks the
+-- unit when the tenant asked for any unit of the property. Every term is
+-- checked here, so the app cannot create a tenancy without a unit or rent.
+
+DROP FUNCTION IF EXISTS approve_join_request(UUID);
+
+CREATE OR REPLACE FUNCTION approve_join_request(
+  _request_id UUID,
+  _unit_id UUID,
+  _rent_amount NUMERIC,
+  _start_date DATE,
+  _deposit_amount NUMERIC DEFAULT 0,
+  _billing_day INTEGER DEFAULT 1
+)
+RETURNS tenancies
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  request RECORD;
+  unit RECORD;
+  new_tenancy tenancies;
+BEGIN
+  SELECT jr.id, jr.tenant_id, jr.property_id, jr.unit_id, jr.status, p.landlord_id
+  INTO request
+  FROM join_requests jr
+  JOIN properties p ON p.id = jr.property_id
+  WHERE jr.id = _request_id
+  FOR UPDATE OF jr;
+
+  IF request.id IS NULL OR caller IS NULL OR request.landlord_id IS DISTINCT FROM caller THEN
+    RAISE EXCEPTION 'Join request not found';
+  END IF;
+
+  IF request.status IS DISTINCT FROM 'pending' THEN
+    RAISE EXCEPTION 'This request has already been %', request.status;
+  END IF;
+
+  IF _unit_id IS NULL THEN
+    RAISE EXCEPTION 'Choose a unit for this tenant';
+  END IF;
+
+  -- Only "any unit" requests leave the choice to the landlord
+  IF request.unit_id IS NOT NULL AND request.unit_id <> _unit_id THEN
+    RAISE EXCEPTION 'The tenant asked for a different unit';
+  END IF;
+
+  IF _rent_amount IS NULL OR _rent_amount <= 0 THEN
+    RAISE EXCEPTION 'Rent must be greater than zero';
+  END IF;
+
+  IF _start_date IS NULL THEN
+    RAISE EXCEPTION 'A start date is required';
+  END IF;
+
+  IF _deposit_amount IS NULL OR _deposit_amount < 0 THEN
+    RAISE EXCEPTION 'The deposit cannot be negative';
+  END IF;
+
+  IF _billing_day IS NULL OR _billing_day NOT BETWEEN 1 AND 28 THEN
+    RAISE EXCEPTION 'Rent due day must be between 1 and 28';
+  END IF;
+
+  SELECT u.id, u.property_id, u.status
+  INTO unit
+  FROM units u
+  WHERE u.id = _unit_id
+  FOR UPDATE;
+
+  IF unit.id IS NULL OR unit.property_id IS DISTINCT FROM request.property_id THEN
+    RAISE EXCEPTION 'Unit not found in this property';
+  END IF;
+
+  IF unit.status = 'occupied' OR unit_is_occupied(unit.id) THEN
+    RAISE EXCEPTION 'This unit is already occupied';
+  END IF;
+
+  -- Becomes active once the lease is signed by both parties
+  INSERT INTO tenancies (
+    tenant_id, unit_id, rent_amount, start_date, deposit_amount, billing_day, status
+  )
+  VALUES (
+    request.tenant_id, unit.id, round(_rent_amount, 2), _start_date,
+    round(_deposit_amount, 2), _billing_day, 'pending_signature'
+  )
+  RETURNING * INTO new_tenancy;
+
+  -- Records the unit chosen for an "any unit" request
+  UPDATE join_requests
+  SET status = 'approved', unit_id = unit.id
+  WHERE id = request.id;
+
+  UPDATE units
+  SET status = 'occupied'
+  WHERE id = unit.id;
+
+  RETURN new_tenancy;
+END;
+$$;
@@ -0,0 +1,350 @@
+-- Security deposits.
+--
+-- A deposit is paid as a payment with payment_type 'deposit'. It is never
+-- applied to rent charges: the money is held in the landlord's deposits_held
+-- ledger account until the tenant moves out.
+--
+-- At move-out settle_deposit() itemizes the deductions and settles the
+-- deposit in one transaction:
+--   unpaid_rent  paid out of the deposit as a rent payment (method
+--                'Security deposit'), so it clears the charges like any other
+--                payment and the landlord is paid for it as rent
+--   damages, cleaning, other
+--                moved to the landlord's payable balance
+--   remainder    refunded to the tenant from the platform's account
+-- and then ends the tenancy and frees the unit. The same rules are
+-- implemented for the app in src/lib/deposits.ts; keep the two in step.
+
+CREATE TYPE payment_type AS ENUM ('rent', 'deposit');
+CREATE TYPE deposit_deduction_type AS ENUM ('unpaid_rent', 'damages', 'cleaning', 'other');
+
+ALTER TYPE ledger_account_kind ADD VALUE IF NOT EXISTS 'deposits_held';
+ALTER TYPE ledger_entry_type ADD VALUE IF NOT EXISTS 'deposit_settlement';
+
+ALTER TABLE payments
+  ADD COLUMN payment_type payment_type NOT NULL DEFAULT 'rent';
+
+CREATE TABLE deposit_settlements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenancy_id UUID NOT NULL UNIQUE REFERENCES tenancies(id) ON DELETE CASCADE,
+  move_out_date DATE NOT NULL,
+  deposit_held NUMERIC(12, 2) NOT NULL CHECK (deposit_held >= 0),
+  total_deductions NUMERIC(12, 2) NOT NULL CHECK (total_deductions >= 0),
+  refund_amount NUMERIC(12, 2) NOT NULL CHECK (refund_amount >= 0),
+  notes TEXT,
+  settled_by UUID REFERENCES profiles(user_id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (total_deductions + refund_amount = deposit_held)
+);
+
+CREATE TABLE deposit_deductions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  settlement_id UUID NOT NULL REFERENCES deposit_settlements(id) ON DELETE CASCADE,
+  deduction_type deposit_deduction_type NOT NULL,
+  description TEXT NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_deposit_deductions_settlement_id ON deposit_deductions(settlement_id);
+
+ALTER TABLE deposit_settlements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deposit_deductions ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients; settlements are written by settle_deposit()
+CREATE POLICY "tenancy_parties_can_view_deposit_settlements" ON deposit_settlements
+FOR SELECT USING (
+  tenancy_id IN (SELECT id FROM tenancies)
+);
+
+CREATE POLICY "admins_can_manage_deposit_settlements" ON deposit_settlements
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "tenancy_parties_can_view_deposit_deductions" ON deposit_deductions
+FOR SELECT USING (
+  settlement_id IN (SELECT id FROM deposit_settlements)
+);
+
+CREATE POLICY "admins_can_manage_deposit_deductions" ON deposit_deductions
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+-- Deposits are held rather than paid to the landlord, and rent paid out of a
+-- deposit at move-out comes from the held deposit instead of new cash
+CREATE OR REPLACE FUNCTION post_payment_to_ledger(_payment_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment RECORD;
+  fee NUMERIC;
+  source_account UUID;
+BEGIN
+  SELECT pay.id, pay.amount, pay.method, pay.payment_type, pay.payment_date, pay.processed_at,
+         t.tenant_id, p.landlord_id
+  INTO payment
+  FROM payments pay
+  JOIN tenancies t ON t.id = pay.tenancy_id
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE pay.id = _payment_id;
+
+  -- A payment with no tenancy, unit or property behind it has nobody to post to
+  IF payment.id IS NULL THEN
+    PERFORM record_unposted_payment(_payment_id, 'Not linked to a tenancy');
+    RETURN NULL;
+  END IF;
+
+  IF payment.payment_type = 'deposit' THEN
+    RETURN post_ledger_entry(
+      'payment',
+      payment.id,
+      'Security deposit via ' || payment.method,
+      COALESCE(payment.processed_at, payment.payment_date::timestamptz),
+      jsonb_build_array(
+        jsonb_build_object('account_id', ledger_account_id('platform_cash'), 'debit', payment.amount),
+        jsonb_build_object('account_id', ledger_account_id('deposits_held', payment.landlord_id), 'credit', payment.amount)
+      )
+    );
+  END IF;
+
+  SELECT round(payment.amount * payment_fee_percent / 100, 2) INTO fee
+  FROM platform_settings;
+
+  source_account := CASE
+    WHEN payment.method = 'Security deposit' THEN ledger_account_id('deposits_held', payment.landlord_id)
+    ELSE ledger_account_id('platform_cash')
+  END;
+
+  RETURN post_ledger_entry(
+    'payment',
+    payment.id,
+    'Rent payment via ' || payment.method,
+    COALESCE(payment.processed_at, payment.payment_date::timestamptz),
+    jsonb_build_array(
+      jsonb_build_object('account_id', source_account, 'debit', payment.amount),
+      jsonb_build_object('account_id', ledger_account_id('tenant_receivable', payment.tenant_id), 'credit', payment.amount),
+      jsonb_build_object('account_id', ledger_account_id('landlord_accrued', payment.landlord_id), 'debit', payment.amount),
+      jsonb_build_object('account_id', ledger_account_id('landlord_payable', payment.landlord_id), 'credit', payment.amount - COALESCE(fee, 0)),
+      jsonb_build_object('account_id', ledger_account_id('platform_revenue'), 'credit', COALESCE(fee, 0))
+    )
+  );
+END;
+$$;
+
+-- Only rent payments are applied to charges or carried as tenant credit
+CREATE OR REPLACE FUNCTION apply_tenancy_credit(_tenancy_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment RECORD;
+BEGIN
+  FOR payment IN
+    SELECT p.id
+    FROM payments p
+    LEFT JOIN payment_allocations a ON a.payment_id = p.id
+    WHERE p.tenancy_id = _tenancy_id AND p.status = 'completed' AND p.payment_type = 'rent'
+    GROUP BY p.id
+    HAVING p.amount - COALESCE(SUM(a.amount), 0) > 0
+    ORDER BY MIN(COALESCE(p.processed_at, p.payment_date::timestamptz))
+  LOOP
+    PERFORM allocate_payment(payment.id);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION allocate_payment_on_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.payment_type <> 'rent' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    PERFORM allocate_payment(NEW.id);
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'completed' AND NEW.status <> 'completed' THEN
+    DELETE FROM payment_allocations WHERE payment_id = NEW.id;
+    IF NEW.tenancy_id IS NOT NULL THEN
+      PERFORM apply_tenancy_credit(NEW.tenancy_id);
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Completed deposit payments on a tenancy, less any that were refunded
+CREATE OR REPLACE FUNCTION tenancy_deposit_held(_tenancy_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(amount), 0)
+  FROM payments
+  WHERE tenancy_id = _tenancy_id
+    AND payment_type = 'deposit'
+    AND status = 'completed';
+$$;
+
+-- Settles the deposit and ends the tenancy. _deductions is a JSON array of
+-- { deduction_type, description, amount } for anything other than unpaid
+-- rent, which is worked out here from the charges due by the move-out date.
+CREATE OR REPLACE FUNCTION settle_deposit(
+  _tenancy_id UUID,
+  _move_out_date DATE,
+  _deductions JSONB DEFAULT '[]'::jsonb,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS deposit_settlements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  tenancy RECORD;
+  held NUMERIC;
+  unpaid_rent NUMERIC;
+  rent_deduction NUMERIC;
+  other_deductions NUMERIC;
+  deduction RECORD;
+  settlement deposit_settlements;
+BEGIN
+  SELECT t.id, t.status, t.start_date, t.unit_id, p.landlord_id
+  INTO tenancy
+  FROM tenancies t
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE t.id = _tenancy_id
+  FOR UPDATE OF t;
+
+  IF tenancy.id IS NULL OR caller IS NULL OR tenancy.landlord_id IS DISTINCT FROM caller THEN
+    RAISE EXCEPTION 'Tenancy not found';
+  END IF;
+
+  IF tenancy.status NOT IN ('active', 'pending_signature') THEN
+    RAISE EXCEPTION 'This tenancy has already ended';
+  END IF;
+
+  IF _move_out_date IS NULL OR _move_out_date < tenancy.start_date THEN
+    RAISE EXCEPTION 'The move-out date cannot be before the tenancy started';
+  END IF;
+
+  IF jsonb_typeof(COALESCE(_deductions, '[]'::jsonb)) <> 'array' THEN
+    RAISE EXCEPTION 'Deductions must be a list';
+  END IF;
+
+  FOR deduction IN
+    SELECT *
+    FROM jsonb_to_recordset(COALESCE(_deductions, '[]'::jsonb))
+      AS d(deduction_type deposit_deduction_type, description TEXT, amount NUMERIC)
+  LOOP
+    IF deduction.deduction_type IS NULL OR deduction.deduction_type = 'unpaid_rent' THEN
+      RAISE EXCEPTION 'Choose a deduction type other than unpaid rent';
+    END IF;
+    IF COALESCE(btrim(deduction.description), '') = '' THEN
+      RAISE EXCEPTION 'Describe each deduction';
+    END IF;
+    IF deduction.amount IS NULL OR deduction.amount <= 0 THEN
+      RAISE EXCEPTION 'Deduction amounts must be greater than zero';
+    END IF;
+  END LOOP;
+
+  -- Bill the tenancy up to the day the tenant leaves, pro-rating the last period
+  UPDATE tenancies SET end_date = _move_out_date WHERE id = tenancy.id;
+  PERFORM generate_rent_charges(tenancy.id, _move_out_date);
+
+  held := tenancy_deposit_held(tenancy.id);
+
+  SELECT COALESCE(SUM(balance), 0) INTO unpaid_rent
+  FROM rent_charge_balances
+  WHERE tenancy_id = tenancy.id AND due_date <= _move_out_date;
+
+  rent_deduction := LEAST(held, unpaid_rent);
+
+  SELECT COALESCE(SUM(round(amount, 2)), 0) INTO other_deductions
+  FROM jsonb_to_recordset(COALESCE(_deductions, '[]'::jsonb)) AS d(amount NUMERIC);
+
+  IF rent_deduction + other_deductions > held THEN
+    RAISE EXCEPTION 'Deductions of % exceed the % deposit held (% of it covers unpaid rent)',
+      rent_deduction + other_deductions, held, rent_deduction;
+  END IF;
+
+  INSERT INTO deposit_settlements (
+    tenancy_id, move_out_date, deposit_held, total_deductions, refund_amount, notes, settled_by
+  )
+  VALUES (
+    tenancy.id, _move_out_date, held, rent_deduction + other_deductions,
+    held - rent_deduction - other_deductions, NULLIF(btrim(_notes), ''), caller
+  )
+  RETURNING * INTO settlement;
+
+  IF rent_deduction > 0 THEN
+    INSERT INTO deposit_deductions (settlement_id, deduction_type, description, amount)
+    VALUES (settlement.id, 'unpaid_rent', 'Unpaid rent and fees', rent_deduction);
+
+    -- Allocated to the unpaid charges and posted to the ledger by the payment triggers
+    INSERT INTO payments (tenancy_id, amount, payment_date, status, method, payment_type, processed_at)
+    VALUES (tenancy.id, rent_deduction, _move_out_date, 'completed', 'Security deposit', 'rent', now());
+  END IF;
+
+  INSERT INTO deposit_deductions (settlement_id, deduction_type, description, amount)
+  SELECT settlement.id, d.deduction_type, btrim(d.description), round(d.amount, 2)
+  FROM jsonb_to_recordset(COALESCE(_deductions, '[]'::jsonb))
+    AS d(deduction_type deposit_deduction_type, description TEXT, amount NUMERIC);
+
+  IF other_deductions + settlement.refund_amount > 0 THEN
+    PERFORM post_ledger_entry(
+      'deposit_settlement',
+      settlement.id,
+      'Security deposit settlement',
+      _move_out_date::timestamptz,
+      jsonb_build_array(
+        jsonb_build_object('account_id', ledger_account_id('deposits_held', tenancy.landlord_id), 'debit', other_deductions + settlement.refund_amount),
+        jsonb_build_object('account_id', ledger_account_id('landlord_payable', tenancy.landlord_id), 'credit', other_deductions),
+        jsonb_build_object('account_id', ledger_account_id('platform_cash'), 'credit', settlement.refund_amount)
+      )
+    );
+  END IF;
+
+  UPDATE tenancies SET status = 'terminated' WHERE id = tenancy.id;
+  UPDATE units SET status = 'vacant' WHERE id = tenancy.unit_id;
+
+  RETURN settlement;
+END;
+$$;
+
+-- Total deposits a landlord is holding for their tenants
+CREATE OR REPLACE FUNCTION get_landlord_deposits_held(_landlord_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND auth.uid() <> _landlord_id
+     AND get_user_role(auth.uid()) <> 'admin' THEN
+    RAISE EXCEPTION 'Not allowed to view this balance';
+  END IF;
+
+  RETURN (
+    SELECT COALESCE(SUM(ledger_account_balance(id)), 0)
+    FROM ledger_accounts
+    WHERE kind = 'deposits_held' AND owner_id = _landlord_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION post_payment_to_ledger(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION apply_tenancy_credit(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,406 @@
+-- Tenant invitations.
+--
+-- Adding a tenant who had no account used to insert a profiles row with no
+-- user_id and a tenancy pointing at nothing. Instead the landlord now invites
+-- the tenant by email or phone with the terms of the tenancy. The invitation
+-- carries a secret token for the invite link (/auth?invite=<token>) and
+-- expires after 14 days.
+--
+-- Accepting links the invitation to the tenant's account and creates their
+-- tenancy, which then goes through lease signing like any other. An invitation
+-- is accepted when the tenant signs up through the link (handle_new_user), or
+-- from an existing account through accept_invitation(). Either way the
+-- account's email (or phone, for phone-only invitations) must match.
+
+CREATE TYPE invitation_status AS ENUM ('pending', 'accepted', 'revoked');
+
+CREATE TABLE invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  landlord_id UUID NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  unit_id UUID NOT NULL REFERENCES units(id) ON DELETE CASCADE,
+  email TEXT,
+  phone TEXT,
+  full_name TEXT NOT NULL,
+  rent_amount NUMERIC(12, 2) NOT NULL CHECK (rent_amount > 0),
+  deposit_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0),
+  billing_cycle billing_cycle NOT NULL DEFAULT 'monthly',
+  billing_day SMALLINT NOT NULL DEFAULT 1 CHECK (billing_day BETWEEN 1 AND 28),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  status invitation_status NOT NULL DEFAULT 'pending',
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + INTERVAL '14 days',
+  accepted_by UUID REFERENCES profiles(user_id),
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  tenancy_id UUID REFERENCES tenancies(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (email IS NOT NULL OR phone IS NOT NULL),
+  CHECK (end_date IS NULL OR end_date > start_date)
+);
+
+CREATE INDEX idx_invitations_landlord_id ON invitations(landlord_id);
+CREATE INDEX idx_invitations_unit_id ON invitations(unit_id);
+
+ALTER TABLE invitations ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients; invitations are written by the functions below
+CREATE POLICY "landlords_can_view_their_invitations" ON invitations
+FOR SELECT USING (landlord_id = auth.uid());
+
+CREATE POLICY "admins_can_manage_invitations" ON invitations
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+CREATE OR REPLACE FUNCTION normalize_phone(_phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(regexp_replace(COALESCE(_phone, ''), '\D', '', 'g'), '');
+$$;
+
+-- Whether an account is the one an invitation was sent to
+CREATE OR REPLACE FUNCTION invitation_matches_user(_invitation_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM invitations i
+    JOIN profiles p ON p.user_id = _user_id
+    WHERE i.id = _invitation_id
+      AND CASE
+        WHEN i.email IS NOT NULL THEN lower(i.email) = lower(p.email)
+        ELSE normalize_phone(i.phone) = normalize_phone(p.phone)
+      END
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION create_invitation(
+  _unit_id UUID,
+  _full_name TEXT,
+  _email TEXT,
+  _phone TEXT,
+  _rent_amount NUMERIC,
+  _start_date DATE,
+  _end_date DATE DEFAULT NULL,
+  _deposit_amount NUMERIC DEFAULT 0,
+  _billing_cycle billing_cycle DEFAULT 'monthly',
+  _billing_day INTEGER DEFAULT 1
+)
+RETURNS invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  unit RECORD;
+  clean_email TEXT := NULLIF(lower(trim(_email)), '');
+  clean_phone TEXT := NULLIF(trim(_phone), '');
+  invitation invitations;
+BEGIN
+  SELECT u.id, u.status, p.landlord_id
+  INTO unit
+  FROM units u
+  JOIN properties p ON p.id = u.property_id
+  WHERE u.id = _unit_id
+  FOR UPDATE OF u;
+
+  IF unit.id IS NULL OR caller IS NULL OR unit.landlord_id IS DISTINCT FROM caller THEN
+    RAISE EXCEPTION 'Unit not found';
+  END IF;
+
+  IF NULLIF(trim(_full_name), '') IS NULL THEN
+    RAISE EXCEPTION 'The tenant''s name is required';
+  END IF;
+
+  IF clean_email IS NULL AND clean_phone IS NULL THEN
+    RAISE EXCEPTION 'An email address or phone number is required';
+  END IF;
+
+  IF clean_email IS NOT NULL AND clean_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'The email address is not valid';
+  END IF;
+
+  IF clean_phone IS NOT NULL AND length(normalize_phone(clean_phone)) < 7 THEN
+    RAISE EXCEPTION 'The phone number is not valid';
+  END IF;
+
+  IF _rent_amount IS NULL OR _rent_amount <= 0 THEN
+    RAISE EXCEPTION 'Rent must be greater than zero';
+  END IF;
+
+  IF _start_date IS NULL THEN
+    RAISE EXCEPTION 'A start date is required';
+  END IF;
+
+  IF _end_date IS NOT NULL AND _end_date <= _start_date THEN
+    RAISE EXCEPTION 'The end date must be after the start date';
+  END IF;
+
+  IF _deposit_amount IS NULL OR _deposit_amount < 0 THEN
+    RAISE EXCEPTION 'The deposit cannot be negative';
+  END IF;
+
+  IF _billing_day IS NULL OR _billing_day NOT BETWEEN 1 AND 28 THEN
+    RAISE EXCEPTION 'Rent due day must be between 1 and 28';
+  END IF;
+
+  IF unit.status = 'occupied' OR unit_is_occupied(unit.id) THEN
+    RAISE EXCEPTION 'This unit is already occupied';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM invitations
+    WHERE unit_id = unit.id AND status = 'pending' AND expires_at > now()
+  ) THEN
+    RAISE EXCEPTION 'This unit already has a pending invitation. Revoke it to invite someone else.';
+  END IF;
+
+  INSERT INTO invitations (
+    landlord_id, unit_id, email, phone, full_name, rent_amount, deposit_amount,
+    billing_cycle, billing_day, start_date, end_date
+  )
+  VALUES (
+    caller, unit.id, clean_email, clean_phone, trim(_full_name), round(_rent_amount, 2),
+    round(_deposit_amount, 2), COALESCE(_billing_cycle, 'monthly'), _billing_day,
+    _start_date, _end_date
+  )
+  RETURNING * INTO invitation;
+
+  RETURN invitation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_invitation(_invitation_id UUID)
+RETURNS invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  invitation invitations;
+BEGIN
+  SELECT * INTO invitation
+  FROM invitations
+  WHERE id = _invitation_id
+  FOR UPDATE;
+
+  IF invitation.id IS NULL OR caller IS NULL OR invitation.landlord_id IS DISTINCT FROM caller THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF invitation.status <> 'pending' THEN
+    RAISE EXCEPTION 'This invitation has already been %', invitation.status;
+  END IF;
+
+  UPDATE invitations
+  SET status = 'revoked'
+  WHERE id = invitation.id
+  RETURNING * INTO invitation;
+
+  RETURN invitation;
+END;
+$$;
+
+-- Accepts an invitation for an account, creating the tenancy on its terms
+CREATE OR REPLACE FUNCTION accept_invitation_for_user(_invitation_id UUID, _user_id UUID)
+RETURNS tenancies
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation invitations;
+  unit RECORD;
+  new_tenancy tenancies;
+BEGIN
+  SELECT * INTO invitation
+  FROM invitations
+  WHERE id = _invitation_id
+  FOR UPDATE;
+
+  IF invitation.id IS NULL OR _user_id IS NULL OR NOT invitation_matches_user(invitation.id, _user_id) THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF invitation.status <> 'pending' THEN
+    RAISE EXCEPTION 'This invitation has already been %', invitation.status;
+  END IF;
+
+  IF invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invitation has expired. Ask your landlord to send a new one.';
+  END IF;
+
+  IF get_user_role(_user_id) IS DISTINCT FROM 'tenant' THEN
+    RAISE EXCEPTION 'Invitations can only be accepted from a tenant account';
+  END IF;
+
+  SELECT u.id, u.status
+  INTO unit
+  FROM units u
+  WHERE u.id = invitation.unit_id
+  FOR UPDATE;
+
+  IF unit.id IS NULL THEN
+    RAISE EXCEPTION 'Unit not found';
+  END IF;
+
+  IF unit.status = 'occupied' OR unit_is_occupied(unit.id) THEN
+    RAISE EXCEPTION 'This unit is already occupied';
+  END IF;
+
+  -- Becomes active once the lease is signed by both parties
+  INSERT INTO tenancies (
+    tenant_id, unit_id, rent_amount, deposit_amount, billing_cycle, billing_day,
+    start_date, end_date, status
+  )
+  VALUES (
+    _user_id, unit.id, invitation.rent_amount, invitation.deposit_amount,
+    invitation.billing_cycle, invitation.billing_day, invitation.start_date,
+    invitation.end_date, 'pending_signature'
+  )
+  RETURNING * INTO new_tenancy;
+
+  UPDATE invitations
+  SET status = 'accepted', accepted_by = _user_id, accepted_at = now(), tenancy_id = new_tenancy.id
+  WHERE id = invitation.id;
+
+  UPDATE units
+  SET status = 'occupied'
+  WHERE id = unit.id;
+
+  RETURN new_tenancy;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION accept_invitation_for_user(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION invitation_matches_user(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION accept_invitation(_token TEXT)
+RETURNS tenancies
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation_id UUID;
+BEGIN
+  SELECT id INTO invitation_id
+  FROM invitations
+  WHERE token = _token;
+
+  RETURN accept_invitation_for_user(invitation_id, auth.uid());
+END;
+$$;
+
+-- What an invitee is shown: the token is the only way in for someone without
+-- an account yet, so this is open to anonymous callers
+CREATE OR REPLACE FUNCTION get_invitation(_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  token TEXT,
+  email TEXT,
+  phone TEXT,
+  full_name TEXT,
+  status invitation_status,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  rent_amount NUMERIC,
+  deposit_amount NUMERIC,
+  billing_cycle billing_cycle,
+  start_date DATE,
+  unit_number TEXT,
+  property_name TEXT,
+  landlord_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.id, i.token, i.email, i.phone, i.full_name, i.status, i.expires_at,
+         i.rent_amount, i.deposit_amount, i.billing_cycle, i.start_date,
+         u.unit_number, p.name, l.full_name
+  FROM invitations i
+  JOIN units u ON u.id = i.unit_id
+  JOIN properties p ON p.id = u.property_id
+  LEFT JOIN profiles l ON l.user_id = i.landlord_id
+  WHERE i.token = _token;
+$$;
+
+-- Pending invitations sent to the caller's email or phone, shown as get_invitation() shows them
+CREATE OR REPLACE FUNCTION get_my_invitations()
+RETURNS TABLE (
+  id UUID,
+  token TEXT,
+  email TEXT,
+  phone TEXT,
+  full_name TEXT,
+  status invitation_status,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  rent_amount NUMERIC,
+  deposit_amount NUMERIC,
+  billing_cycle billing_cycle,
+  start_date DATE,
+  unit_number TEXT,
+  property_name TEXT,
+  landlord_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.id, i.token, i.email, i.phone, i.full_name, i.status, i.expires_at,
+         i.rent_amount, i.deposit_amount, i.billing_cycle, i.start_date,
+         u.unit_number, p.name, l.full_name
+  FROM invitations i
+  JOIN units u ON u.id = i.unit_id
+  JOIN properties p ON p.id = u.property_id
+  LEFT JOIN profiles l ON l.user_id = i.landlord_id
+  WHERE i.status = 'pending'
+    AND i.expires_at > now()
+    AND invitation_matches_user(i.id, auth.uid())
+  ORDER BY i.created_at DESC;
+$$;
+
+-- New accounts created from an invite link accept it straight away. A failed
+-- acceptance (the unit was let meanwhile, or the invitation was for another
+-- email) must not block the sign-up, so it is only logged.
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation_id UUID;
+BEGIN
+  INSERT INTO profiles (user_id, email, full_name, phone, role)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', ''),
+    COALESCE(NEW.raw_user_meta_data->>'phone', ''),
+    COALESCE((NEW.raw_user_meta_data->>'role')::user_role, 'tenant'::user_role)
+  );
+
+  IF NEW.raw_user_meta_data->>'invite_token' IS NOT NULL THEN
+    SELECT id INTO invitation_id
+    FROM invitations
+    WHERE token = NEW.raw_user_meta_data->>'invite_token';
+
+    BEGIN
+      PERFORM accept_invitation_for_user(invitation_id, NEW.id);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Could not accept invitation for new user %: %', NEW.id, SQLERRM;
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,446 @@
+-- Lease renewals and the end of a fixed term.
+--
+-- As a fixed-term tenancy nears its end_date the landlord offers a renewal
+-- with new terms (rent, new end date). The tenant accepts or declines:
+--   accepted  a successor tenancy is created for the day after the current
+--             one ends, linked through previous_tenancy_id. It starts as
+--             'pending_signature' like any new tenancy, so a renewed lease is
+--             generated and signed as usual. Signed before the current term
+--             ends, it waits as 'pending_start' so the unit is not billed or
+--             reminded twice. The deposit moves with the tenant.
+--   declined  the tenant moves out at the end of the term.
+--
+-- Tenancies no longer stay 'active' past their end date: a daily job bills
+-- them up to it, marks them 'expired', activates a waiting renewal and
+-- otherwise frees the unit. The deposit of an expired tenancy is then settled from the
+-- move-out dialog like any other.
+
+CREATE TYPE renewal_status AS ENUM ('offered', 'accepted', 'declined', 'withdrawn', 'lapsed');
+
+ALTER TABLE tenancies
+  ADD COLUMN previous_tenancy_id UUID REFERENCES tenancies(id) ON DELETE SET NULL;
+
+CREATE TABLE lease_renewals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenancy_id UUID NOT NULL REFERENCES tenancies(id) ON DELETE CASCADE,
+  rent_amount NUMERIC(12, 2) NOT NULL CHECK (rent_amount > 0),
+  start_date DATE NOT NULL,
+  -- Null renews without a fixed end
+  end_date DATE,
+  message TEXT,
+  status renewal_status NOT NULL DEFAULT 'offered',
+  offered_by UUID NOT NULL REFERENCES profiles(user_id),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  successor_tenancy_id UUID REFERENCES tenancies(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date > start_date)
+);
+
+CREATE INDEX idx_lease_renewals_tenancy_id ON lease_renewals(tenancy_id);
+
+-- One offer at a time, and a tenancy is renewed at most once
+CREATE UNIQUE INDEX idx_lease_renewals_one_open_offer
+  ON lease_renewals(tenancy_id) WHERE status IN ('offered', 'accepted');
+
+ALTER TABLE lease_renewals ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients; renewals are written by the functions below
+CREATE POLICY "tenancy_parties_can_view_lease_renewals" ON lease_renewals
+FOR SELECT USING (
+  tenancy_id IN (SELECT id FROM tenancies)
+);
+
+CREATE POLICY "admins_can_manage_lease_renewals" ON lease_renewals
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+CREATE OR REPLACE FUNCTION offer_renewal(
+  _tenancy_id UUID,
+  _rent_amount NUMERIC,
+  _end_date DATE DEFAULT NULL,
+  _message TEXT DEFAULT NULL
+)
+RETURNS lease_renewals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  tenancy RECORD;
+  renewal lease_renewals;
+BEGIN
+  SELECT t.id, t.status, t.end_date, p.landlord_id
+  INTO tenancy
+  FROM tenancies t
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE t.id = _tenancy_id
+  FOR UPDATE OF t;
+
+  IF tenancy.id IS NULL OR caller IS NULL OR tenancy.landlord_id IS DISTINCT FROM caller THEN
+    RAISE EXCEPTION 'Tenancy not found';
+  END IF;
+
+  IF tenancy.status <> 'active' THEN
+    RAISE EXCEPTION 'Only an active tenancy can be renewed';
+  END IF;
+
+  IF tenancy.end_date IS NULL THEN
+    RAISE EXCEPTION 'This tenancy has no end date to renew from';
+  END IF;
+
+  IF _rent_amount IS NULL OR _rent_amount <= 0 THEN
+    RAISE EXCEPTION 'Rent must be greater than zero';
+  END IF;
+
+  IF _end_date IS NOT NULL AND _end_date <= tenancy.end_date + 1 THEN
+    RAISE EXCEPTION 'The new end date must be after the current lease ends';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM lease_renewals
+    WHERE tenancy_id = tenancy.id AND status IN ('offered', 'accepted')
+  ) THEN
+    RAISE EXCEPTION 'This tenancy already has a renewal offer';
+  END IF;
+
+  INSERT INTO lease_renewals (tenancy_id, rent_amount, start_date, end_date, message, offered_by)
+  VALUES (
+    tenancy.id, round(_rent_amount, 2), tenancy.end_date + 1, _end_date,
+    NULLIF(btrim(_message), ''), caller
+  )
+  RETURNING * INTO renewal;
+
+  RETURN renewal;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION withdraw_renewal(_renewal_id UUID)
+RETURNS lease_renewals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  renewal RECORD;
+  result lease_renewals;
+BEGIN
+  SELECT r.id, r.status, p.landlord_id
+  INTO renewal
+  FROM lease_renewals r
+  JOIN tenancies t ON t.id = r.tenancy_id
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE r.id = _renewal_id
+  FOR UPDATE OF r;
+
+  IF renewal.id IS NULL OR caller IS NULL OR renewal.landlord_id IS DISTINCT FROM caller THEN
+    RAISE EXCEPTION 'Renewal offer not found';
+  END IF;
+
+  IF renewal.status <> 'offered' THEN
+    RAISE EXCEPTION 'This offer has already been %', renewal.status;
+  END IF;
+
+  UPDATE lease_renewals
+  SET status = 'withdrawn', responded_at = now()
+  WHERE id = renewal.id
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION respond_to_renewal(_renewal_id UUID, _accept BOOLEAN)
+RETURNS lease_renewals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  renewal lease_renewals;
+  tenancy tenancies;
+  successor tenancies;
+BEGIN
+  SELECT * INTO renewal
+  FROM lease_renewals
+  WHERE id = _renewal_id
+  FOR UPDATE;
+
+  SELECT * INTO tenancy
+  FROM tenancies
+  WHERE id = renewal.tenancy_id
+  FOR UPDATE;
+
+  IF renewal.id IS NULL OR caller IS NULL OR tenancy.tenant_id IS DISTINCT FROM caller THEN
+    RAISE EXCEPTION 'Renewal offer not found';
+  END IF;
+
+  IF renewal.status <> 'offered' THEN
+    RAISE EXCEPTION 'This offer has already been %', renewal.status;
+  END IF;
+
+  IF tenancy.status <> 'active' THEN
+    RAISE EXCEPTION 'This tenancy has already ended';
+  END IF;
+
+  IF NOT COALESCE(_accept, false) THEN
+    UPDATE lease_renewals
+    SET status = 'declined', responded_at = now()
+    WHERE id = renewal.id
+    RETURNING * INTO renewal;
+
+    RETURN renewal;
+  END IF;
+
+  -- Becomes active once the renewed lease is signed by both parties and the
+  -- current term has ended, and is billed from its start date
+  INSERT INTO tenancies (
+    tenant_id, unit_id, rent_amount, deposit_amount, billing_cycle, billing_day,
+    start_date, end_date, status, previous_tenancy_id
+  )
+  VALUES (
+    tenancy.tenant_id, tenancy.unit_id, renewal.rent_amount, tenancy.deposit_amount,
+    tenancy.billing_cycle, tenancy.billing_day, renewal.start_date, renewal.end_date,
+    'pending_signature', tenancy.id
+  )
+  RETURNING * INTO successor;
+
+  -- The deposit is held on for the renewed tenancy and settled when the
+  -- tenant finally moves out
+  UPDATE payments
+  SET tenancy_id = successor.id
+  WHERE tenancy_id = tenancy.id AND payment_type = 'deposit';
+
+  UPDATE lease_renewals
+  SET status = 'accepted', responded_at = now(), successor_tenancy_id = successor.id
+  WHERE id = renewal.id
+  RETURNING * INTO renewal;
+
+  RETURN renewal;
+END;
+$$;
+
+-- A renewal signed ahead of time waits until its start date, so the unit has
+-- one active tenancy to bill and remind about. Whoever activates it (the
+-- lease-documents function or an admin), it is held here.
+CREATE OR REPLACE FUNCTION hold_renewal_until_start()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'active'
+    AND OLD.status IS DISTINCT FROM 'active'
+    AND NEW.previous_tenancy_id IS NOT NULL
+    AND NEW.start_date > CURRENT_DATE
+  THEN
+    NEW.status := 'pending_start';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER hold_renewal_until_start_trigger
+  BEFORE UPDATE OF status ON tenancies
+  FOR EACH ROW
+  EXECUTE FUNCTION hold_renewal_until_start();
+
+-- Daily job: ends tenancies whose fixed term is over and starts their renewals
+CREATE OR REPLACE FUNCTION expire_ended_tenancies()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tenancy RECORD;
+  expired INTEGER := 0;
+BEGIN
+  FOR tenancy IN
+    SELECT id, unit_id, end_date
+    FROM tenancies
+    WHERE status = 'active' AND end_date < CURRENT_DATE
+    FOR UPDATE
+  LOOP
+    -- Bill the final period before billing stops
+    PERFORM generate_rent_charges(tenancy.id, tenancy.end_date);
+
+    UPDATE tenancies SET status = 'expired' WHERE id = tenancy.id;
+
+    UPDATE lease_renewals
+    SET status = 'lapsed'
+    WHERE tenancy_id = tenancy.id AND status = 'offered';
+
+    -- Starts the day after, so billing picks it up from here
+    UPDATE tenancies
+    SET status = 'active'
+    WHERE previous_tenancy_id = tenancy.id AND status = 'pending_start';
+
+    -- A renewal of the tenancy keeps the unit occupied
+    IF NOT unit_is_occupied(tenancy.unit_id) THEN
+      UPDATE units SET status = 'vacant' WHERE id = tenancy.unit_id;
+    END IF;
+
+    expired := expired + 1;
+  END LOOP;
+
+  RETURN expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_ended_tenancies() FROM PUBLIC, anon, authenticated;
+
+-- Runs before the rent charge job so an ended tenancy is not billed again
+SELECT cron.schedule('expire-tenancies', '5 0 * * *', 'SELECT expire_ended_tenancies()');
+
+-- Expired tenancies still have a deposit to settle, and a renewed tenancy's
+-- deposit now belongs to its successor
+CREATE OR REPLACE FUNCTION settle_deposit(
+  _tenancy_id UUID,
+  _move_out_date DATE,
+  _deductions JSONB DEFAULT '[]'::jsonb,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS deposit_settlements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  tenancy RECORD;
+  held NUMERIC;
+  unpaid_rent NUMERIC;
+  rent_deduction NUMERIC;
+  other_deductions NUMERIC;
+  deduction RECORD;
+  settlement deposit_settlements;
+BEGIN
+  SELECT t.id, t.status, t.start_date, t.end_date, t.unit_id, p.landlord_id
+  INTO tenancy
+  FROM tenancies t
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE t.id = _tenancy_id
+  FOR UPDATE OF t;
+
+  IF tenancy.id IS NULL OR caller IS NULL OR tenancy.landlord_id IS DISTINCT FROM caller THEN
+    RAISE EXCEPTION 'Tenancy not found';
+  END IF;
+
+  IF tenancy.status NOT IN ('active', 'pending_signature', 'pending_start', 'expired') THEN
+    RAISE EXCEPTION 'This tenancy has already ended';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM tenancies
+    WHERE previous_tenancy_id = tenancy.id AND status IN ('active', 'pending_signature', 'pending_start')
+  ) THEN
+    RAISE EXCEPTION 'This tenancy has been renewed. Move the tenant out of the renewed tenancy instead.';
+  END IF;
+
+  IF _move_out_date IS NULL OR _move_out_date < tenancy.start_date THEN
+    RAISE EXCEPTION 'The move-out date cannot be before the tenancy started';
+  END IF;
+
+  -- An expired tenancy has been billed to its end date already
+  IF tenancy.status = 'expired' AND _move_out_date > tenancy.end_date THEN
+    RAISE EXCEPTION 'This tenancy ended on %', tenancy.end_date;
+  END IF;
+
+  IF jsonb_typeof(COALESCE(_deductions, '[]'::jsonb)) <> 'array' THEN
+    RAISE EXCEPTION 'Deductions must be a list';
+  END IF;
+
+  FOR deduction IN
+    SELECT *
+    FROM jsonb_to_recordset(COALESCE(_deductions, '[]'::jsonb))
+      AS d(deduction_type deposit_deduction_type, description TEXT, amount NUMERIC)
+  LOOP
+    IF deduction.deduction_type IS NULL OR deduction.deduction_type = 'unpaid_rent' THEN
+      RAISE EXCEPTION 'Choose a deduction type other than unpaid rent';
+    END IF;
+    IF COALESCE(btrim(deduction.description), '') = '' THEN
+      RAISE EXCEPTION 'Describe each deduction';
+    END IF;
+    IF deduction.amount IS NULL OR deduction.amount <= 0 THEN
+      RAISE EXCEPTION 'Deduction amounts must be greater than zero';
+    END IF;
+  END LOOP;
+
+  -- Bill the tenancy up to the day the tenant leaves, pro-rating the last period
+  IF tenancy.status <> 'expired' THEN
+    UPDATE tenancies SET end_date = _move_out_date WHERE id = tenancy.id;
+    PERFORM generate_rent_charges(tenancy.id, _move_out_date);
+  END IF;
+
+  held := tenancy_deposit_held(tenancy.id);
+
+  SELECT COALESCE(SUM(balance), 0) INTO unpaid_rent
+  FROM rent_charge_balances
+  WHERE tenancy_id = tenancy.id AND due_date <= _move_out_date;
+
+  rent_deduction := LEAST(held, unpaid_rent);
+
+  SELECT COALESCE(SUM(round(amount, 2)), 0) INTO other_deductions
+  FROM jsonb_to_recordset(COALESCE(_deductions, '[]'::jsonb)) AS d(amount NUMERIC);
+
+  IF rent_deduction + other_deductions > held THEN
+    RAISE EXCEPTION 'Deductions of % exceed the % deposit held (% of it covers unpaid rent)',
+      rent_deduction + other_deductions, held, rent_deduction;
+  END IF;
+
+  INSERT INTO deposit_settlements (
+    tenancy_id, move_out_date, deposit_held, total_deductions, refund_amount, notes, settled_by
+  )
+  VALUES (
+    tenancy.id, _move_out_date, held, rent_deduction + other_deductions,
+    held - rent_deduction - other_deductions, NULLIF(btrim(_notes), ''), caller
+  )
+  RETURNING * INTO settlement;
+
+  IF rent_deduction > 0 THEN
+    INSERT INTO deposit_deductions (settlement_id, deduction_type, description, amount)
+    VALUES (settlement.id, 'unpaid_rent', 'Unpaid rent and fees', rent_deduction);
+
+    -- Allocated to the unpaid charges and posted to the ledger by the payment triggers
+    INSERT INTO payments (tenancy_id, amount, payment_date, status, method, payment_type, processed_at)
+    VALUES (tenancy.id, rent_deduction, _move_out_date, 'completed', 'Security deposit', 'rent', now());
+  END IF;
+
+  INSERT INTO deposit_deductions (settlement_id, deduction_type, description, amount)
+  SELECT settlement.id, d.deduction_type, btrim(d.description), round(d.amount, 2)
+  FROM jsonb_to_recordset(COALESCE(_deductions, '[]'::jsonb))
+    AS d(deduction_type deposit_deduction_type, description TEXT, amount NUMERIC);
+
+  IF other_deductions + settlement.refund_amount > 0 THEN
+    PERFORM post_ledger_entry(
+      'deposit_settlement',
+      settlement.id,
+      'Security deposit settlement',
+      _move_out_date::timestamptz,
+      jsonb_build_array(
+        jsonb_build_object('account_id', ledger_account_id('deposits_held', tenancy.landlord_id), 'debit', other_deductions + settlement.refund_amount),
+        jsonb_build_object('account_id', ledger_account_id('landlord_payable', tenancy.landlord_id), 'credit', other_deductions),
+        jsonb_build_object('account_id', ledger_account_id('platform_cash'), 'credit', settlement.refund_amount)
+      )
+    );
+  END IF;
+
+  UPDATE tenancies SET status = 'terminated' WHERE id = tenancy.id;
+
+  UPDATE lease_renewals
+  SET status = 'withdrawn', responded_at = now()
+  WHERE tenancy_id = tenancy.id AND status = 'offered';
+
+  IF NOT unit_is_occupied(tenancy.unit_id) THEN
+    UPDATE units SET status = 'vacant' WHERE id = tenancy.unit_id;
+  END IF;
+
+  RETURN settlement;
+END;
+$$;
@@ -0,0 +1,288 @@
+-- Rent schedules: what a tenancy's rent is, and from when.
+--
+-- Every tenancy gets a schedule entry for its starting rent. A rent increase
+-- adds an entry with the date it takes effect and the date notice was given;
+-- the landlord must give at least the property's rent_increase_notice_days.
+-- Charges are generated with the rent in effect on the first day of each
+-- billing period, so periods already billed keep their amount and an increase
+-- that starts mid-period applies from the next one.
+--
+-- tenancies.rent_amount remains the rent currently in effect: a daily job
+-- moves it forward as increases take effect, so nothing else needs to know
+-- about the schedule to show today's rent.
+
+ALTER TABLE properties
+  ADD COLUMN rent_increase_notice_days INTEGER NOT NULL DEFAULT 30
+    CHECK (rent_increase_notice_days BETWEEN 0 AND 365);
+
+CREATE TABLE rent_schedule_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenancy_id UUID NOT NULL REFERENCES tenancies(id) ON DELETE CASCADE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  effective_date DATE NOT NULL,
+  -- Null for the starting rent, which needs no notice
+  notice_issued_on DATE,
+  created_by UUID REFERENCES profiles(user_id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (notice_issued_on IS NULL OR notice_issued_on <= effective_date),
+  UNIQUE(tenancy_id, effective_date)
+);
+
+ALTER TABLE rent_schedule_entries ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients; entries are written by the functions below
+CREATE POLICY "tenancy_parties_can_view_rent_schedule_entries" ON rent_schedule_entries
+FOR SELECT USING (
+  tenancy_id IN (SELECT id FROM tenancies)
+);
+
+CREATE POLICY "admins_can_manage_rent_schedule_entries" ON rent_schedule_entries
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+-- Existing tenancies start with the rent they have today. Their earlier
+-- charges were billed already and are not touched.
+INSERT INTO rent_schedule_entries (tenancy_id, amount, effective_date)
+SELECT id, rent_amount, start_date FROM tenancies WHERE rent_amount > 0;
+
+CREATE OR REPLACE FUNCTION create_initial_rent_schedule_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.rent_amount > 0 THEN
+    INSERT INTO rent_schedule_entries (tenancy_id, amount, effective_date)
+    VALUES (NEW.id, NEW.rent_amount, NEW.start_date)
+    ON CONFLICT (tenancy_id, effective_date) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_initial_rent_schedule_entry_trigger
+  AFTER INSERT ON tenancies
+  FOR EACH ROW
+  EXECUTE FUNCTION create_initial_rent_schedule_entry();
+
+-- The rent in effect on _date: the latest schedule entry on or before it,
+-- falling back to the tenancy's rent for dates before its first entry
+CREATE OR REPLACE FUNCTION tenancy_rent_on(_tenancy_id UUID, _date DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT amount FROM rent_schedule_entries
+     WHERE tenancy_id = _tenancy_id AND effective_date <= _date
+     ORDER BY effective_date DESC
+     LIMIT 1),
+    (SELECT rent_amount FROM tenancies WHERE id = _tenancy_id)
+  );
+$$;
+
+-- Same as before, except each period is billed at the rent in effect on its
+-- first day instead of tenancies.rent_amount
+CREATE OR REPLACE FUNCTION generate_rent_charges(_tenancy_id UUID, _through DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tenancy RECORD;
+  step INTERVAL;
+  period_start DATE;
+  anchor DATE;
+  next_start DATE;
+  last_end DATE;
+  created INTEGER := 0;
+BEGIN
+  SELECT * INTO tenancy FROM tenancies WHERE id = _tenancy_id;
+  IF tenancy.id IS NULL OR tenancy.status <> 'active' OR tenancy.rent_amount <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  step := billing_cycle_interval(tenancy.billing_cycle);
+  period_start := COALESCE(tenancy.billing_start_date, tenancy.start_date);
+
+  SELECT MAX(period_end) INTO last_end FROM rent_charges
+  WHERE tenancy_id = tenancy.id AND charge_type = 'rent';
+  IF last_end IS NOT NULL THEN
+    period_start := GREATEST(period_start, last_end + 1);
+  END IF;
+
+  -- First regular period boundary on or after period_start
+  IF tenancy.billing_cycle = 'weekly' THEN
+    anchor := period_start;
+  ELSE
+    anchor := make_date(
+      EXTRACT(YEAR FROM period_start)::int,
+      EXTRACT(MONTH FROM period_start)::int,
+      tenancy.billing_day
+    );
+    IF anchor < period_start THEN
+      anchor := (anchor + INTERVAL '1 month')::date;
+    END IF;
+  END IF;
+
+  -- Partial period before the first boundary, pro-rated against a full period
+  IF anchor > period_start AND period_start <= _through
+     AND (tenancy.end_date IS NULL OR period_start <= tenancy.end_date) THEN
+    IF create_rent_charge(
+      tenancy.id,
+      period_start,
+      LEAST(anchor - 1, COALESCE(tenancy.end_date, anchor - 1)),
+      anchor - (anchor - step)::date,
+      tenancy_rent_on(tenancy.id, period_start)
+    ) THEN
+      created := created + 1;
+    END IF;
+  END IF;
+
+  period_start := anchor;
+  WHILE period_start <= _through
+        AND (tenancy.end_date IS NULL OR period_start <= tenancy.end_date) LOOP
+    next_start := (period_start + step)::date;
+
+    -- The last period is cut short (and pro-rated) when the tenancy ends inside it
+    IF create_rent_charge(
+      tenancy.id,
+      period_start,
+      LEAST(next_start - 1, COALESCE(tenancy.end_date, next_start - 1)),
+      next_start - period_start,
+      tenancy_rent_on(tenancy.id, period_start)
+    ) THEN
+      created := created + 1;
+    END IF;
+
+    period_start := next_start;
+  END LOOP;
+
+  IF created > 0 THEN
+    PERFORM apply_tenancy_credit(tenancy.id);
+  END IF;
+
+  RETURN created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_rent_increase(
+  _tenancy_id UUID,
+  _amount NUMERIC,
+  _effective_date DATE
+)
+RETURNS rent_schedule_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  tenancy RECORD;
+  entry rent_schedule_entries;
+BEGIN
+  SELECT t.id, t.status, t.end_date, p.landlord_id, p.rent_increase_notice_days
+  INTO tenancy
+  FROM tenancies t
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE t.id = _tenancy_id
+  FOR UPDATE OF t;
+
+  IF tenancy.id IS NULL OR caller IS NULL OR tenancy.landlord_id IS DISTINCT FROM caller THEN
+    RAISE EXCEPTION 'Tenancy not found';
+  END IF;
+
+  IF tenancy.status <> 'active' THEN
+    RAISE EXCEPTION 'Rent can only be increased on an active tenancy';
+  END IF;
+
+  IF _effective_date IS NULL OR _effective_date < CURRENT_DATE + tenancy.rent_increase_notice_days THEN
+    RAISE EXCEPTION 'This property requires % days notice: the increase can take effect on % at the earliest',
+      tenancy.rent_increase_notice_days, CURRENT_DATE + tenancy.rent_increase_notice_days;
+  END IF;
+
+  IF tenancy.end_date IS NOT NULL AND _effective_date > tenancy.end_date THEN
+    RAISE EXCEPTION 'The increase must take effect before the lease ends; offer a renewal instead';
+  END IF;
+
+  IF _amount IS NULL OR round(_amount, 2) <= tenancy_rent_on(tenancy.id, _effective_date) THEN
+    RAISE EXCEPTION 'The new rent must be higher than the rent in effect on that date';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM rent_schedule_entries
+    WHERE tenancy_id = tenancy.id AND effective_date > CURRENT_DATE
+  ) THEN
+    RAISE EXCEPTION 'This tenancy already has a rent increase scheduled';
+  END IF;
+
+  INSERT INTO rent_schedule_entries (tenancy_id, amount, effective_date, notice_issued_on, created_by)
+  VALUES (tenancy.id, round(_amount, 2), _effective_date, CURRENT_DATE, caller)
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
+
+-- Withdraws a notice that has not taken effect yet
+CREATE OR REPLACE FUNCTION cancel_rent_increase(_entry_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  entry RECORD;
+BEGIN
+  SELECT e.id, e.effective_date, e.notice_issued_on, p.landlord_id
+  INTO entry
+  FROM rent_schedule_entries e
+  JOIN tenancies t ON t.id = e.tenancy_id
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE e.id = _entry_id
+  FOR UPDATE OF e;
+
+  IF entry.id IS NULL OR caller IS NULL OR entry.landlord_id IS DISTINCT FROM caller
+     OR entry.notice_issued_on IS NULL THEN
+    RAISE EXCEPTION 'Rent increase not found';
+  END IF;
+
+  IF entry.effective_date <= CURRENT_DATE THEN
+    RAISE EXCEPTION 'This rent increase has already taken effect';
+  END IF;
+
+  DELETE FROM rent_schedule_entries WHERE id = entry.id;
+END;
+$$;
+
+-- Daily job: bring tenancies.rent_amount up to the rent in effect today.
+-- Runs before generate_due_rent_charges, though billing does not depend on it.
+CREATE OR REPLACE FUNCTION apply_rent_schedule()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated INTEGER;
+BEGIN
+  UPDATE tenancies t
+  SET rent_amount = tenancy_rent_on(t.id, CURRENT_DATE)
+  WHERE t.status IN ('active', 'pending_signature')
+    AND t.rent_amount IS DISTINCT FROM tenancy_rent_on(t.id, CURRENT_DATE);
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_initial_rent_schedule_entry() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION apply_rent_schedule() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('apply-rent-schedule', '10 0 * * *', 'SELECT apply_rent_schedule()');
@@ -0,0 +1,294 @@
+-- Structured maintenance requests.
+--
+-- Category and priority were serialized into the description ("Category: ...
+-- \nUrgency: ...") and status was free text. They become real columns, and
+-- status follows a fixed lifecycle:
+--   submitted -> acknowledged -> scheduled -> in_progress -> resolved -> closed
+-- The landlord moves a request forward (skipping steps is fine) and may reopen
+-- a resolved one. The tenant closes a resolved request once satisfied, or
+-- reopens it if the problem is still there.
+--
+-- Every change is recorded in maintenance_request_events, which is the
+-- timeline both sides see. Tenants still submit requests with a plain insert;
+-- all later changes go through update_maintenance_request().
+
+CREATE TYPE maintenance_category AS ENUM (
+  'plumbing', 'electrical', 'hvac', 'appliances', 'structural',
+  'pest_control', 'locks_security', 'cleaning', 'other'
+);
+CREATE TYPE maintenance_priority AS ENUM ('low', 'medium', 'high', 'emergency');
+CREATE TYPE maintenance_status AS ENUM (
+  'submitted', 'acknowledged', 'scheduled', 'in_progress', 'resolved', 'closed'
+);
+
+ALTER TABLE maintenance_requests
+  ADD COLUMN title TEXT,
+  ADD COLUMN category maintenance_category NOT NULL DEFAULT 'other',
+  ADD COLUMN priority maintenance_priority NOT NULL DEFAULT 'medium',
+  -- Who is handling it, e.g. the caretaker or a contractor
+  ADD COLUMN assignee TEXT,
+  ADD COLUMN scheduled_for TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN resolved_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+-- Pull category and urgency back out of descriptions written by the old form
+UPDATE maintenance_requests
+SET
+  category = CASE
+    WHEN lower(regexp_replace(substring(description FROM '^Category: ([^\n]*)'), '[^A-Za-z]+', '_', 'g'))
+         = ANY(enum_range(NULL::maintenance_category)::text[])
+    THEN lower(regexp_replace(substring(description FROM '^Category: ([^\n]*)'), '[^A-Za-z]+', '_', 'g'))::maintenance_category
+    ELSE 'other'
+  END,
+  priority = CASE
+    WHEN substring(description FROM '\nUrgency: ([^\n]*)') = ANY(enum_range(NULL::maintenance_priority)::text[])
+    THEN substring(description FROM '\nUrgency: ([^\n]*)')::maintenance_priority
+    ELSE 'medium'
+  END,
+  description = regexp_replace(description, '^Category: [^\n]*\nUrgency: [^\n]*\n\n', '')
+WHERE description ~ '^Category: [^\n]*\nUrgency: ';
+
+UPDATE maintenance_requests
+SET title = COALESCE(NULLIF(left(btrim(split_part(description, E'\n', 1)), 80), ''), 'Maintenance request')
+WHERE title IS NULL;
+
+ALTER TABLE maintenance_requests ALTER COLUMN title SET NOT NULL;
+
+ALTER TABLE maintenance_requests ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE maintenance_requests
+  ALTER COLUMN status TYPE maintenance_status USING (
+    CASE status
+      WHEN 'in_progress' THEN 'in_progress'
+      WHEN 'completed' THEN 'resolved'
+      WHEN 'cancelled' THEN 'closed'
+      ELSE 'submitted'
+    END
+  )::maintenance_status;
+ALTER TABLE maintenance_requests ALTER COLUMN status SET DEFAULT 'submitted';
+ALTER TABLE maintenance_requests ALTER COLUMN status SET NOT NULL;
+
+UPDATE maintenance_requests SET resolved_at = created_at WHERE status IN ('resolved', 'closed');
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_requests_unit_id ON maintenance_requests(unit_id);
+
+CREATE TABLE maintenance_request_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID NOT NULL REFERENCES maintenance_requests(id) ON DELETE CASCADE,
+  -- The status the request moved to; null for a note without a status change
+  status maintenance_status,
+  note TEXT,
+  actor_id UUID REFERENCES profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (status IS NOT NULL OR note IS NOT NULL)
+);
+
+CREATE INDEX idx_maintenance_request_events_request_id ON maintenance_request_events(request_id, created_at);
+
+-- Existing requests start their timeline at submission
+INSERT INTO maintenance_request_events (request_id, status, actor_id, created_at)
+SELECT id, 'submitted', tenant_id, created_at FROM maintenance_requests;
+
+INSERT INTO maintenance_request_events (request_id, status, created_at)
+SELECT id, status, now() FROM maintenance_requests WHERE status <> 'submitted';
+
+-- Requests used to be editable by either side; now tenants only submit them
+DROP POLICY IF EXISTS "Users can manage relevant maintenance requests" ON maintenance_requests;
+
+CREATE POLICY "maintenance_parties_can_view_requests" ON maintenance_requests
+FOR SELECT USING (
+  tenant_id = auth.uid() OR
+  EXISTS (
+    SELECT 1 FROM units u
+    JOIN properties p ON p.id = u.property_id
+    WHERE u.id = maintenance_requests.unit_id
+    AND p.landlord_id = auth.uid()
+  )
+);
+
+CREATE POLICY "tenants_can_submit_maintenance_requests" ON maintenance_requests
+FOR INSERT WITH CHECK (
+  tenant_id = auth.uid() AND
+  unit_id IN (
+    SELECT unit_id FROM tenancies
+    WHERE tenant_id = auth.uid() AND status IN ('active', 'pending_signature')
+  )
+);
+
+CREATE POLICY "admins_can_manage_maintenance_requests" ON maintenance_requests
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+ALTER TABLE maintenance_request_events ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients; events are written by the functions below
+CREATE POLICY "maintenance_parties_can_view_request_events" ON maintenance_request_events
+FOR SELECT USING (
+  request_id IN (SELECT id FROM maintenance_requests)
+);
+
+CREATE POLICY "admins_can_manage_maintenance_request_events" ON maintenance_request_events
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+-- A new request always starts as submitted and unassigned, whatever the client sent
+CREATE OR REPLACE FUNCTION prepare_maintenance_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.title := btrim(NEW.title);
+  IF NEW.title IS NULL OR NEW.title = '' THEN
+    RAISE EXCEPTION 'A maintenance request needs a title';
+  END IF;
+
+  NEW.status := 'submitted';
+  NEW.assignee := NULL;
+  NEW.scheduled_for := NULL;
+  NEW.resolved_at := NULL;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_maintenance_request_trigger
+  BEFORE INSERT ON maintenance_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_maintenance_request();
+
+CREATE OR REPLACE FUNCTION log_maintenance_request_submitted()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO maintenance_request_events (request_id, status, actor_id, created_at)
+  VALUES (NEW.id, 'submitted', NEW.tenant_id, NEW.created_at);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_maintenance_request_submitted_trigger
+  AFTER INSERT ON maintenance_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION log_maintenance_request_submitted();
+
+-- Updates a request and records what changed on its timeline. Null arguments
+-- leave a field unchanged; an empty _assignee clears the assignment.
+CREATE OR REPLACE FUNCTION update_maintenance_request(
+  _request_id UUID,
+  _status maintenance_status DEFAULT NULL,
+  _priority maintenance_priority DEFAULT NULL,
+  _assignee TEXT DEFAULT NULL,
+  _scheduled_for TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS maintenance_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  request RECORD;
+  is_landlord BOOLEAN;
+  new_status maintenance_status;
+  new_assignee TEXT;
+  new_scheduled_for TIMESTAMP WITH TIME ZONE;
+  changes TEXT[] := '{}';
+  clean_note TEXT := NULLIF(btrim(_note), '');
+  result maintenance_requests;
+BEGIN
+  SELECT r.*, p.landlord_id
+  INTO request
+  FROM maintenance_requests r
+  JOIN units u ON u.id = r.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE r.id = _request_id
+  FOR UPDATE OF r;
+
+  IF request.id IS NULL OR caller IS NULL
+     OR (caller IS DISTINCT FROM request.landlord_id AND caller IS DISTINCT FROM request.tenant_id) THEN
+    RAISE EXCEPTION 'Maintenance request not found';
+  END IF;
+
+  is_landlord := caller = request.landlord_id;
+  new_status := COALESCE(_status, request.status);
+  new_assignee := CASE WHEN _assignee IS NULL THEN request.assignee ELSE NULLIF(btrim(_assignee), '') END;
+  new_scheduled_for := COALESCE(_scheduled_for, request.scheduled_for);
+
+  IF request.status = 'closed' THEN
+    RAISE EXCEPTION 'This request is closed';
+  END IF;
+
+  IF is_landlord THEN
+    -- Forward through the lifecycle, or back to work on a resolved request
+    IF new_status < request.status
+       AND NOT (request.status = 'resolved' AND new_status = 'in_progress') THEN
+      RAISE EXCEPTION 'A % request cannot go back to %', request.status, new_status;
+    END IF;
+  ELSE
+    IF _priority IS NOT NULL OR _assignee IS NOT NULL OR _scheduled_for IS NOT NULL THEN
+      RAISE EXCEPTION 'Only the landlord can triage a request';
+    END IF;
+
+    -- Tenants confirm a fix or report that the problem is still there
+    IF new_status <> request.status
+       AND NOT (request.status = 'resolved' AND new_status IN ('closed', 'in_progress')) THEN
+      RAISE EXCEPTION 'Only the landlord can move this request to %', new_status;
+    END IF;
+  END IF;
+
+  IF new_status = 'scheduled' AND new_scheduled_for IS NULL THEN
+    RAISE EXCEPTION 'Set a date to schedule the work for';
+  END IF;
+
+  IF new_assignee IS DISTINCT FROM request.assignee THEN
+    changes := changes || COALESCE('Assigned to ' || new_assignee, 'Unassigned');
+  END IF;
+
+  IF new_scheduled_for IS DISTINCT FROM request.scheduled_for THEN
+    changes := changes || ('Scheduled for ' || to_char(new_scheduled_for, 'DD Mon YYYY HH24:MI'));
+  END IF;
+
+  IF _priority IS NOT NULL AND _priority <> request.priority THEN
+    changes := changes || ('Priority set to ' || _priority);
+  END IF;
+
+  IF clean_note IS NOT NULL THEN
+    changes := changes || clean_note;
+  END IF;
+
+  IF new_status = request.status AND cardinality(changes) = 0 THEN
+    RAISE EXCEPTION 'Nothing to update';
+  END IF;
+
+  UPDATE maintenance_requests
+  SET
+    status = new_status,
+    priority = COALESCE(_priority, priority),
+    assignee = new_assignee,
+    scheduled_for = new_scheduled_for,
+    resolved_at = CASE
+      WHEN new_status = 'resolved' AND request.status <> 'resolved' THEN now()
+      WHEN new_status IN ('resolved', 'closed') THEN resolved_at
+      ELSE NULL
+    END,
+    updated_at = now()
+  WHERE id = request.id
+  RETURNING * INTO result;
+
+  INSERT INTO maintenance_request_events (request_id, status, note, actor_id)
+  VALUES (
+    request.id,
+    CASE WHEN new_status <> request.status THEN new_status END,
+    NULLIF(array_to_string(changes, E'\n'), ''),
+    caller
+  );
+
+  RETURN result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION prepare_maintenance_request() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION log_maintenance_request_submitted() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,131 @@
+-- Photo and video attachments on maintenance requests.
+--
+-- Files live in the private maintenance-attachments bucket under
+-- <request_id>/<file>, so storage access follows who can see the request: its
+-- tenant, the landlord of its unit, and admins. Each file gets a
+-- maintenance_attachments row once uploaded. What the tenant attaches shows
+-- the problem ('report'); what the landlord attaches shows the fix
+-- ('resolution'), which is derived from the uploader rather than trusted from
+-- the client.
+--
+-- Images are compressed in the browser before upload; the bucket limits below
+-- are the backstop for size and type.
+
+CREATE TYPE maintenance_attachment_kind AS ENUM ('report', 'resolution');
+
+CREATE TABLE maintenance_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID NOT NULL REFERENCES maintenance_requests(id) ON DELETE CASCADE,
+  kind maintenance_attachment_kind NOT NULL DEFAULT 'report',
+  -- <request_id>/<uuid>.<ext> in the maintenance-attachments bucket
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  uploaded_by UUID NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_maintenance_attachments_request_id ON maintenance_attachments(request_id);
+
+ALTER TABLE maintenance_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "maintenance_parties_can_view_attachments" ON maintenance_attachments
+FOR SELECT USING (
+  request_id IN (SELECT id FROM maintenance_requests)
+);
+
+CREATE POLICY "maintenance_parties_can_add_attachments" ON maintenance_attachments
+FOR INSERT WITH CHECK (
+  uploaded_by = auth.uid()
+  AND request_id IN (SELECT id FROM maintenance_requests WHERE status <> 'closed')
+);
+
+CREATE POLICY "uploaders_can_remove_their_attachments" ON maintenance_attachments
+FOR DELETE USING (
+  uploaded_by = auth.uid()
+  AND request_id IN (SELECT id FROM maintenance_requests WHERE status <> 'closed')
+);
+
+CREATE POLICY "admins_can_manage_maintenance_attachments" ON maintenance_attachments
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+-- Sets the kind from who uploaded it and checks the file is really there
+CREATE OR REPLACE FUNCTION prepare_maintenance_attachment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request RECORD;
+BEGIN
+  SELECT id, tenant_id INTO request FROM maintenance_requests WHERE id = NEW.request_id;
+
+  IF split_part(NEW.storage_path, '/', 1) <> NEW.request_id::text THEN
+    RAISE EXCEPTION 'Attachments must be stored under their request';
+  END IF;
+
+  IF NEW.content_type NOT LIKE 'image/%' AND NEW.content_type NOT LIKE 'video/%' THEN
+    RAISE EXCEPTION 'Only photos and videos can be attached';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM storage.objects
+    WHERE bucket_id = 'maintenance-attachments' AND name = NEW.storage_path
+  ) THEN
+    RAISE EXCEPTION 'Upload the file before attaching it';
+  END IF;
+
+  IF (SELECT count(*) FROM maintenance_attachments WHERE request_id = NEW.request_id) >= 20 THEN
+    RAISE EXCEPTION 'A request can have at most 20 attachments';
+  END IF;
+
+  NEW.kind := CASE WHEN NEW.uploaded_by = request.tenant_id THEN 'report' ELSE 'resolution' END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_maintenance_attachment_trigger
+  BEFORE INSERT ON maintenance_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_maintenance_attachment();
+
+REVOKE EXECUTE ON FUNCTION prepare_maintenance_attachment() FROM PUBLIC, anon, authenticated;
+
+-- 50 MB covers a short phone video; compressed photos are far smaller
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'maintenance-attachments',
+  'maintenance-attachments',
+  false,
+  52428800,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'video/mp4', 'video/quicktime', 'video/webm']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Files are stored under the request id, so the request's own visibility applies
+CREATE POLICY "maintenance_parties_can_read_attachment_files" ON storage.objects
+FOR SELECT USING (
+  bucket_id = 'maintenance-attachments'
+  AND (storage.foldername(name))[1] IN (SELECT id::text FROM maintenance_requests)
+);
+
+CREATE POLICY "maintenance_parties_can_upload_attachment_files" ON storage.objects
+FOR INSERT WITH CHECK (
+  bucket_id = 'maintenance-attachments'
+  AND (storage.foldername(name))[1] IN (SELECT id::text FROM maintenance_requests WHERE status <> 'closed')
+);
+
+-- Lets an uploader remove their own file along with its attachment row
+CREATE POLICY "uploaders_can_delete_attachment_files" ON storage.objects
+FOR DELETE USING (
+  bucket_id = 'maintenance-attachments'
+  AND owner = auth.uid()
+);
+
+CREATE POLICY "admins_can_manage_attachment_files" ON storage.objects
+FOR ALL USING (
+  bucket_id = 'maintenance-attachments'
+  AND get_user_role(auth.uid()) = 'admin'
+);
@@ -0,0 +1,333 @@
+-- Vendors, work orders and vendor invoices.
+--
+-- Each landlord keeps a directory of vendors (plumbers, electricians, ...)
+-- with their contact details and rates. A work order dispatches a maintenance
+-- request to one of them: the request is assigned to the vendor, scheduled if
+-- a date is given, and the step lands on the request's timeline. A request has
+-- at most one open work order; a cancelled one can be replaced.
+--
+-- When the vendor bills for the job the landlord records the invoice against
+-- the work order. That completes the work order and posts the amount to
+-- expenses for the request's property, so it shows up in the landlord's books
+-- without being entered twice. The expense row points back at its invoice and
+-- is removed with it.
+--
+-- Vendors are the landlord's own to edit. Work orders and invoices are only
+-- read by the landlord; they are written by the functions below.
+
+CREATE TABLE vendors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  landlord_id UUID NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  -- Same categories as maintenance requests, so vendors can be matched to them
+  trade maintenance_category NOT NULL DEFAULT 'other',
+  contact_name TEXT,
+  phone TEXT,
+  email TEXT,
+  hourly_rate NUMERIC(10,2) CHECK (hourly_rate >= 0),
+  callout_fee NUMERIC(10,2) CHECK (callout_fee >= 0),
+  notes TEXT,
+  -- Archived vendors keep their work order history but cannot be dispatched
+  archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_vendors_landlord_id ON vendors(landlord_id);
+
+ALTER TABLE vendors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "landlords_can_manage_own_vendors" ON vendors
+FOR ALL USING (landlord_id = auth.uid()) WITH CHECK (landlord_id = auth.uid());
+
+CREATE POLICY "admins_can_manage_vendors" ON vendors
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+CREATE OR REPLACE FUNCTION update_vendors_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_vendors_updated_at_trigger
+  BEFORE UPDATE ON vendors
+  FOR EACH ROW
+  EXECUTE FUNCTION update_vendors_updated_at();
+
+CREATE TYPE work_order_status AS ENUM ('open', 'completed', 'cancelled');
+
+CREATE TABLE work_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID NOT NULL REFERENCES maintenance_requests(id) ON DELETE CASCADE,
+  -- Vendors with work orders are archived rather than deleted
+  vendor_id UUID NOT NULL REFERENCES vendors(id) ON DELETE RESTRICT,
+  status work_order_status NOT NULL DEFAULT 'open',
+  scheduled_for TIMESTAMP WITH TIME ZONE,
+  cost_estimate NUMERIC(10,2) CHECK (cost_estimate >= 0),
+  instructions TEXT,
+  created_by UUID REFERENCES profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_work_orders_request_id ON work_orders(request_id);
+CREATE INDEX idx_work_orders_vendor_id ON work_orders(vendor_id);
+
+CREATE UNIQUE INDEX work_orders_open_request_key
+  ON work_orders(request_id) WHERE status = 'open';
+
+CREATE TABLE vendor_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  work_order_id UUID NOT NULL REFERENCES work_orders(id) ON DELETE CASCADE,
+  invoice_number TEXT,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  invoice_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_by UUID REFERENCES profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_vendor_invoices_work_order_id ON vendor_invoices(work_order_id);
+
+-- The invoice an expense was posted from, if any
+ALTER TABLE expenses
+  ADD COLUMN vendor_invoice_id UUID UNIQUE REFERENCES vendor_invoices(id) ON DELETE CASCADE;
+
+ALTER TABLE work_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vendor_invoices ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients; work orders and invoices are written by the functions below
+CREATE POLICY "landlords_can_view_work_orders" ON work_orders
+FOR SELECT USING (
+  request_id IN (
+    SELECT r.id FROM maintenance_requests r
+    JOIN units u ON u.id = r.unit_id
+    JOIN properties p ON p.id = u.property_id
+    WHERE p.landlord_id = auth.uid()
+  )
+);
+
+CREATE POLICY "admins_can_manage_work_orders" ON work_orders
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "landlords_can_view_vendor_invoices" ON vendor_invoices
+FOR SELECT USING (
+  work_order_id IN (SELECT id FROM work_orders)
+);
+
+CREATE POLICY "admins_can_manage_vendor_invoices" ON vendor_invoices
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+-- Dispatches a request to one of the landlord's vendors
+CREATE OR REPLACE FUNCTION create_work_order(
+  _request_id UUID,
+  _vendor_id UUID,
+  _scheduled_for TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _cost_estimate NUMERIC DEFAULT NULL,
+  _instructions TEXT DEFAULT NULL
+)
+RETURNS work_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  request RECORD;
+  vendor vendors;
+  new_status maintenance_status;
+  changes TEXT[];
+  result work_orders;
+BEGIN
+  SELECT r.*, p.landlord_id
+  INTO request
+  FROM maintenance_requests r
+  JOIN units u ON u.id = r.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE r.id = _request_id
+  FOR UPDATE OF r;
+
+  IF request.id IS NULL OR caller IS NULL OR caller IS DISTINCT FROM request.landlord_id THEN
+    RAISE EXCEPTION 'Maintenance request not found';
+  END IF;
+
+  IF request.status IN ('resolved', 'closed') THEN
+    RAISE EXCEPTION 'This request is already %', request.status;
+  END IF;
+
+  SELECT * INTO vendor FROM vendors WHERE id = _vendor_id AND landlord_id = caller;
+
+  IF vendor.id IS NULL THEN
+    RAISE EXCEPTION 'Vendor not found';
+  END IF;
+
+  IF vendor.archived THEN
+    RAISE EXCEPTION '% is archived', vendor.name;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM work_orders WHERE request_id = _request_id AND status = 'open') THEN
+    RAISE EXCEPTION 'This request already has an open work order';
+  END IF;
+
+  IF _cost_estimate IS NOT NULL AND _cost_estimate < 0 THEN
+    RAISE EXCEPTION 'The cost estimate cannot be negative';
+  END IF;
+
+  INSERT INTO work_orders (request_id, vendor_id, scheduled_for, cost_estimate, instructions, created_by)
+  VALUES (_request_id, _vendor_id, _scheduled_for, _cost_estimate, NULLIF(btrim(_instructions), ''), caller)
+  RETURNING * INTO result;
+
+  -- Dispatching acknowledges the request, and schedules it when a date is set
+  new_status := CASE
+    WHEN _scheduled_for IS NOT NULL AND request.status < 'scheduled' THEN 'scheduled'
+    WHEN request.status = 'submitted' THEN 'acknowledged'
+    ELSE request.status
+  END;
+
+  changes := ARRAY['Work order sent to ' || vendor.name];
+  IF _scheduled_for IS NOT NULL THEN
+    changes := changes || ('Scheduled for ' || to_char(_scheduled_for, 'DD Mon YYYY HH24:MI'));
+  END IF;
+
+  UPDATE maintenance_requests
+  SET
+    status = new_status,
+    assignee = vendor.name,
+    scheduled_for = COALESCE(_scheduled_for, scheduled_for),
+    updated_at = now()
+  WHERE id = _request_id;
+
+  INSERT INTO maintenance_request_events (request_id, status, note, actor_id)
+  VALUES (
+    _request_id,
+    CASE WHEN new_status <> request.status THEN new_status END,
+    array_to_string(changes, E'\n'),
+    caller
+  );
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_work_order(_work_order_id UUID)
+RETURNS work_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  work_order RECORD;
+  result work_orders;
+BEGIN
+  SELECT w.*, v.name AS vendor_name, p.landlord_id
+  INTO work_order
+  FROM work_orders w
+  JOIN vendors v ON v.id = w.vendor_id
+  JOIN maintenance_requests r ON r.id = w.request_id
+  JOIN units u ON u.id = r.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE w.id = _work_order_id
+  FOR UPDATE OF w;
+
+  IF work_order.id IS NULL OR caller IS NULL OR caller IS DISTINCT FROM work_order.landlord_id THEN
+    RAISE EXCEPTION 'Work order not found';
+  END IF;
+
+  IF work_order.status <> 'open' THEN
+    RAISE EXCEPTION 'Only open work orders can be cancelled';
+  END IF;
+
+  UPDATE work_orders
+  SET status = 'cancelled', cancelled_at = now()
+  WHERE id = _work_order_id
+  RETURNING * INTO result;
+
+  -- Unassign the vendor unless the landlord has since assigned someone else
+  UPDATE maintenance_requests
+  SET
+    assignee = CASE WHEN assignee = work_order.vendor_name THEN NULL ELSE assignee END,
+    updated_at = now()
+  WHERE id = work_order.request_id;
+
+  INSERT INTO maintenance_request_events (request_id, note, actor_id)
+  VALUES (work_order.request_id, 'Work order with ' || work_order.vendor_name || ' cancelled', caller);
+
+  RETURN result;
+END;
+$$;
+
+-- Records what the vendor billed, completes the work order and posts the
+-- amount to the property's expenses
+CREATE OR REPLACE FUNCTION record_vendor_invoice(
+  _work_order_id UUID,
+  _amount NUMERIC,
+  _invoice_number TEXT DEFAULT NULL,
+  _invoice_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS vendor_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  work_order RECORD;
+  clean_number TEXT := NULLIF(btrim(_invoice_number), '');
+  result vendor_invoices;
+BEGIN
+  SELECT w.*, v.name AS vendor_name, r.title AS request_title, u.property_id, p.landlord_id
+  INTO work_order
+  FROM work_orders w
+  JOIN vendors v ON v.id = w.vendor_id
+  JOIN maintenance_requests r ON r.id = w.request_id
+  JOIN units u ON u.id = r.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE w.id = _work_order_id
+  FOR UPDATE OF w;
+
+  IF work_order.id IS NULL OR caller IS NULL OR caller IS DISTINCT FROM work_order.landlord_id THEN
+    RAISE EXCEPTION 'Work order not found';
+  END IF;
+
+  IF work_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This work order was cancelled';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'The invoice amount must be positive';
+  END IF;
+
+  IF _invoice_date IS NULL OR _invoice_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'The invoice date cannot be in the future';
+  END IF;
+
+  INSERT INTO vendor_invoices (work_order_id, invoice_number, amount, invoice_date, created_by)
+  VALUES (_work_order_id, clean_number, _amount, _invoice_date, caller)
+  RETURNING * INTO result;
+
+  INSERT INTO expenses (property_id, amount, expense_date, description, vendor_invoice_id)
+  VALUES (
+    work_order.property_id,
+    _amount,
+    _invoice_date,
+    work_order.vendor_name || COALESCE(' invoice ' || clean_number, ' invoice') || ': ' || work_order.request_title,
+    result.id
+  );
+
+  -- Further invoices (e.g. for parts) can follow on a completed work order
+  IF work_order.status = 'open' THEN
+    UPDATE work_orders
+    SET status = 'completed', completed_at = now()
+    WHERE id = _work_order_id;
+  END IF;
+
+  RETURN result;
+END;
+$$;
@@ -0,0 +1,267 @@
+-- Expense management.
+--
+-- Expenses get a category and an optional receipt. Receipts live in the
+-- private expense-receipts bucket under <property_id>/<file>, so only the
+-- property's landlord (and admins) can reach them.
+--
+-- Recurring expenses (security, utilities, ...) are templates that post an
+-- expense on each due date. generate_recurring_expenses() runs daily, posts
+-- everything that has fallen due (catching up on missed days) and moves
+-- next_due_date on by the template's billing cycle, counting cycles from
+-- start_date so month-end dates do not drift. An expense remembers the
+-- template and date it was posted for, so a date is never posted twice.
+--
+-- Expenses posted from a vendor invoice follow the invoice: their amount,
+-- date and property cannot be edited, and they are deleted with the invoice
+-- rather than on their own.
+
+CREATE TYPE expense_category AS ENUM (
+  'repairs_maintenance', 'utilities', 'security', 'cleaning', 'insurance',
+  'taxes', 'management', 'supplies', 'other'
+);
+
+CREATE TABLE recurring_expenses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  category expense_category NOT NULL DEFAULT 'other',
+  description TEXT NOT NULL CHECK (btrim(description) <> ''),
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  billing_cycle billing_cycle NOT NULL DEFAULT 'monthly',
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- Last date an expense may be posted for; open-ended when null
+  end_date DATE,
+  -- The next date to post an expense for; set from start_date by the trigger below
+  next_due_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- How many cycles after start_date next_due_date falls
+  next_occurrence INTEGER NOT NULL DEFAULT 0 CHECK (next_occurrence >= 0),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX idx_recurring_expenses_property_id ON recurring_expenses(property_id);
+
+ALTER TABLE expenses
+  ADD COLUMN category expense_category NOT NULL DEFAULT 'other',
+  -- <property_id>/<uuid>.<ext> in the expense-receipts bucket
+  ADD COLUMN receipt_path TEXT,
+  ADD COLUMN receipt_name TEXT,
+  ADD COLUMN recurring_expense_id UUID REFERENCES recurring_expenses(id) ON DELETE SET NULL,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  ADD CONSTRAINT expenses_recurring_date_key UNIQUE (recurring_expense_id, expense_date);
+
+CREATE INDEX idx_expenses_property_date ON expenses(property_id, expense_date);
+
+UPDATE expenses SET category = 'repairs_maintenance' WHERE vendor_invoice_id IS NOT NULL;
+
+ALTER TABLE recurring_expenses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "landlords_can_manage_own_recurring_expenses" ON recurring_expenses
+FOR ALL USING (
+  property_id IN (SELECT id FROM properties WHERE landlord_id = auth.uid())
+) WITH CHECK (
+  property_id IN (SELECT id FROM properties WHERE landlord_id = auth.uid())
+);
+
+CREATE POLICY "admins_can_manage_recurring_expenses" ON recurring_expenses
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+-- The old policy let owners delete invoice expenses; split it so they cannot.
+-- Deletes cascading from vendor_invoices are not subject to RLS.
+DROP POLICY IF EXISTS "Property owners can manage expenses" ON expenses;
+
+CREATE POLICY "landlords_can_view_own_expenses" ON expenses
+FOR SELECT USING (
+  property_id IN (SELECT id FROM properties WHERE landlord_id = auth.uid())
+);
+
+CREATE POLICY "landlords_can_add_own_expenses" ON expenses
+FOR INSERT WITH CHECK (
+  property_id IN (SELECT id FROM properties WHERE landlord_id = auth.uid())
+  AND vendor_invoice_id IS NULL
+);
+
+CREATE POLICY "landlords_can_edit_own_expenses" ON expenses
+FOR UPDATE USING (
+  property_id IN (SELECT id FROM properties WHERE landlord_id = auth.uid())
+) WITH CHECK (
+  property_id IN (SELECT id FROM properties WHERE landlord_id = auth.uid())
+);
+
+CREATE POLICY "landlords_can_delete_own_expenses" ON expenses
+FOR DELETE USING (
+  property_id IN (SELECT id FROM properties WHERE landlord_id = auth.uid())
+  AND vendor_invoice_id IS NULL
+);
+
+CREATE POLICY "admins_can_manage_expenses" ON expenses
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+-- Files an invoice expense under repairs, keeps it in step with its invoice
+-- and stamps updated_at
+CREATE OR REPLACE FUNCTION prepare_expense()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.vendor_invoice_id IS NOT NULL AND NEW.category = 'other' THEN
+      NEW.category := 'repairs_maintenance';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.vendor_invoice_id IS NOT NULL AND (
+    NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.expense_date IS DISTINCT FROM OLD.expense_date
+    OR NEW.property_id IS DISTINCT FROM OLD.property_id
+    OR NEW.vendor_invoice_id IS DISTINCT FROM OLD.vendor_invoice_id
+  ) THEN
+    RAISE EXCEPTION 'Expenses posted from a vendor invoice follow the invoice';
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_expense_trigger
+  BEFORE INSERT OR UPDATE ON expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_expense();
+
+REVOKE EXECUTE ON FUNCTION prepare_expense() FROM PUBLIC, anon, authenticated;
+
+-- The date of a template's nth occurrence. Counting from the start date rather
+-- than adding a cycle to the previous date keeps month-end dates in place:
+-- 31 Jan, 28 Feb, 31 Mar instead of 31 Jan, 28 Feb, 28 Mar.
+CREATE OR REPLACE FUNCTION recurring_expense_due_date(_start_date DATE, _cycle billing_cycle, _occurrence INTEGER)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (_start_date + billing_cycle_interval(_cycle) * _occurrence)::date;
+$$;
+
+-- New templates start on their start date; resumed ones skip what fell due
+-- while they were paused
+CREATE OR REPLACE FUNCTION prepare_recurring_expense()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.start_date IS DISTINCT FROM OLD.start_date
+     OR NEW.billing_cycle IS DISTINCT FROM OLD.billing_cycle THEN
+    -- Moving the start or cycle restarts the schedule, but never repeats a
+    -- date that was already posted
+    NEW.next_occurrence := 0;
+    NEW.next_due_date := NEW.start_date;
+    IF TG_OP = 'UPDATE' THEN
+      WHILE EXISTS (
+        SELECT 1 FROM expenses
+        WHERE recurring_expense_id = NEW.id AND expense_date >= NEW.next_due_date
+      ) LOOP
+        NEW.next_occurrence := NEW.next_occurrence + 1;
+        NEW.next_due_date := recurring_expense_due_date(NEW.start_date, NEW.billing_cycle, NEW.next_occurrence);
+      END LOOP;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.active AND NOT OLD.active THEN
+    WHILE NEW.next_due_date < CURRENT_DATE LOOP
+      NEW.next_occurrence := NEW.next_occurrence + 1;
+      NEW.next_due_date := recurring_expense_due_date(NEW.start_date, NEW.billing_cycle, NEW.next_occurrence);
+    END LOOP;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_recurring_expense_trigger
+  BEFORE INSERT OR UPDATE ON recurring_expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_recurring_expense();
+
+REVOKE EXECUTE ON FUNCTION prepare_recurring_expense() FROM PUBLIC, anon, authenticated;
+
+-- Posts every recurring expense that has fallen due. Returns how many
+-- expenses were posted.
+CREATE OR REPLACE FUNCTION generate_recurring_expenses()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  template recurring_expenses;
+  due DATE;
+  occurrence INTEGER;
+  posted INTEGER := 0;
+  inserted INTEGER;
+BEGIN
+  FOR template IN
+    SELECT * FROM recurring_expenses
+    WHERE active AND next_due_date <= CURRENT_DATE
+    FOR UPDATE
+  LOOP
+    due := template.next_due_date;
+    occurrence := template.next_occurrence;
+
+    WHILE due <= CURRENT_DATE AND (template.end_date IS NULL OR due <= template.end_date) LOOP
+      INSERT INTO expenses (property_id, amount, expense_date, description, category, recurring_expense_id)
+      VALUES (template.property_id, template.amount, due, template.description, template.category, template.id)
+      ON CONFLICT (recurring_expense_id, expense_date) DO NOTHING;
+
+      GET DIAGNOSTICS inserted = ROW_COUNT;
+      posted := posted + inserted;
+      occurrence := occurrence + 1;
+      due := recurring_expense_due_date(template.start_date, template.billing_cycle, occurrence);
+    END LOOP;
+
+    UPDATE recurring_expenses
+    SET
+      next_due_date = due,
+      next_occurrence = occurrence,
+      active = template.end_date IS NULL OR due <= template.end_date
+    WHERE id = template.id;
+  END LOOP;
+
+  RETURN posted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION generate_recurring_expenses() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('generate-recurring-expenses', '20 0 * * *', 'SELECT generate_recurring_expenses()');
+
+-- Photos and PDFs of receipts
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'expense-receipts',
+  'expense-receipts',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Files are stored under the property id, so only its landlord can reach them
+CREATE POLICY "landlords_can_manage_own_receipt_files" ON storage.objects
+FOR ALL USING (
+  bucket_id = 'expense-receipts'
+  AND (storage.foldername(name))[1] IN (SELECT id::text FROM properties WHERE landlord_id = auth.uid())
+) WITH CHECK (
+  bucket_id = 'expense-receipts'
+  AND (storage.foldername(name))[1] IN (SELECT id::text FROM properties WHERE landlord_id = auth.uid())
+);
+
+CREATE POLICY "admins_can_manage_receipt_files" ON storage.objects
+FOR ALL USING (
+  bucket_id = 'expense-receipts'
+  AND get_user_role(auth.uid()) = 'admin'
+);
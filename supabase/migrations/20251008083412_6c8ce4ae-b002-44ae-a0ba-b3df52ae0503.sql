@@ -0,0 +1,503 @@
+-- Rent reminders over SMS and email.
+--
+-- Messages are written from templates, one per event and channel. The
+-- platform ships a default for each; a landlord can override any of them with
+-- their own wording. Templates use {{placeholders}} that are filled in when the
+-- message is queued (see render_notification_template()).
+--
+-- Every message is queued as a row in notification_deliveries, which doubles as
+-- the delivery log: tenants see what was sent to them, landlords what was sent
+-- to their tenants. The send-notifications edge function claims queued rows
+-- and hands them to the gateway for their channel (Africa's Talking for SMS,
+-- SMTP for email, or the capture gateway, which only records the message in
+-- captured_messages, for local testing).
+--
+-- Reminders go out automatically for landlords who switch them on in
+-- reminder_settings: days_before the next rent is due, and days_after a rent
+-- charge fell due while it is still unpaid. Landlords can also send a reminder
+-- by hand from rent collection.
+
+CREATE TYPE notification_channel AS ENUM ('sms', 'email');
+CREATE TYPE notification_event AS ENUM ('rent_due_soon', 'rent_overdue', 'rent_reminder');
+CREATE TYPE notification_status AS ENUM ('pending', 'sending', 'sent', 'failed');
+
+CREATE TABLE notification_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Null for the platform default
+  landlord_id UUID REFERENCES profiles(user_id) ON DELETE CASCADE,
+  event notification_event NOT NULL,
+  channel notification_channel NOT NULL,
+  -- Email only
+  subject TEXT,
+  body TEXT NOT NULL CHECK (btrim(body) <> ''),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (landlord_id, event, channel),
+  CHECK (channel = 'sms' OR btrim(COALESCE(subject, '')) <> '')
+);
+
+ALTER TABLE notification_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "users_can_view_default_notification_templates" ON notification_templates
+FOR SELECT USING (landlord_id IS NULL);
+
+CREATE POLICY "landlords_can_manage_own_notification_templates" ON notification_templates
+FOR ALL USING (landlord_id = auth.uid()) WITH CHECK (landlord_id = auth.uid());
+
+CREATE POLICY "admins_can_manage_notification_templates" ON notification_templates
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+CREATE OR REPLACE FUNCTION update_notification_templates_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_notification_templates_updated_at_trigger
+  BEFORE UPDATE ON notification_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_notification_templates_updated_at();
+
+INSERT INTO notification_templates (event, channel, subject, body) VALUES
+  ('rent_due_soon', 'sms', NULL,
+   'Hi {{tenant_name}}, your rent of {{amount}} for {{property}} unit {{unit}} is due on {{due_date}}.'),
+  ('rent_due_soon', 'email', 'Rent due on {{due_date}}',
+   E'Hi {{tenant_name}},\n\nThis is a reminder that your rent of {{amount}} for {{property}} unit {{unit}} is due on {{due_date}}.\n\nYou can pay from your tenant dashboard.'),
+  ('rent_overdue', 'sms', NULL,
+   'Hi {{tenant_name}}, your rent of {{amount}} for {{property}} unit {{unit}} was due on {{due_date}} and is {{days_overdue}} days overdue. Please pay as soon as you can.'),
+  ('rent_overdue', 'email', 'Rent overdue since {{due_date}}',
+   E'Hi {{tenant_name}},\n\nYour rent of {{amount}} for {{property}} unit {{unit}} was due on {{due_date}} and is now {{days_overdue}} days overdue.\n\nPlease pay as soon as you can from your tenant dashboard, or contact your landlord if you need to talk about it.'),
+  ('rent_reminder', 'sms', NULL,
+   'Hi {{tenant_name}}, a reminder from your landlord that {{amount}} is outstanding on {{property}} unit {{unit}}.'),
+  ('rent_reminder', 'email', 'Rent outstanding on {{property}} unit {{unit}}',
+   E'Hi {{tenant_name}},\n\nA reminder from your landlord that {{amount}} is outstanding on {{property}} unit {{unit}}.\n\nYou can pay from your tenant dashboard.');
+
+CREATE TABLE reminder_settings (
+  landlord_id UUID PRIMARY KEY REFERENCES profiles(user_id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Days before the due date to remind; 0 is the due date itself
+  days_before INTEGER[] NOT NULL DEFAULT '{3}' CHECK (0 <= ALL (days_before) AND 30 >= ALL (days_before)),
+  -- Days after the due date to remind while the charge is unpaid
+  days_after INTEGER[] NOT NULL DEFAULT '{1,7}' CHECK (1 <= ALL (days_after) AND 60 >= ALL (days_after)),
+  channels notification_channel[] NOT NULL DEFAULT '{sms,email}' CHECK (cardinality(channels) > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE reminder_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "landlords_can_manage_own_reminder_settings" ON reminder_settings
+FOR ALL USING (landlord_id = auth.uid()) WITH CHECK (landlord_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION update_reminder_settings_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_reminder_settings_updated_at_trigger
+  BEFORE UPDATE ON reminder_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_reminder_settings_updated_at();
+
+CREATE TABLE notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipient_id UUID NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  -- The landlord the message was sent on behalf of
+  landlord_id UUID REFERENCES profiles(user_id) ON DELETE SET NULL,
+  tenancy_id UUID REFERENCES tenancies(id) ON DELETE SET NULL,
+  rent_charge_id UUID REFERENCES rent_charges(id) ON DELETE SET NULL,
+  event notification_event NOT NULL,
+  channel notification_channel NOT NULL,
+  -- Phone number or email address, as it was when the message was queued
+  recipient TEXT,
+  subject TEXT,
+  body TEXT NOT NULL,
+  status notification_status NOT NULL DEFAULT 'pending',
+  provider TEXT,
+  provider_message_id TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  error TEXT,
+  -- Stops the same reminder from being queued twice
+  dedupe_key TEXT UNIQUE,
+  -- Null when queued by the scheduler
+  created_by UUID REFERENCES profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  sent_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_notification_deliveries_recipient_id ON notification_deliveries(recipient_id, created_at DESC);
+CREATE INDEX idx_notification_deliveries_landlord_id ON notification_deliveries(landlord_id, created_at DESC);
+CREATE INDEX idx_notification_deliveries_next_attempt_at ON notification_deliveries(next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients; deliveries are written by the functions below and the worker
+CREATE POLICY "tenants_can_view_own_notification_deliveries" ON notification_deliveries
+FOR SELECT USING (recipient_id = auth.uid());
+
+CREATE POLICY "landlords_can_view_notification_deliveries" ON notification_deliveries
+FOR SELECT USING (landlord_id = auth.uid());
+
+CREATE POLICY "admins_can_manage_notification_deliveries" ON notification_deliveries
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+-- Messages taken by the capture gateway instead of being sent
+CREATE TABLE captured_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id UUID REFERENCES notification_deliveries(id) ON DELETE CASCADE,
+  channel notification_channel NOT NULL,
+  recipient TEXT NOT NULL,
+  subject TEXT,
+  body TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE captured_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "admins_can_view_captured_messages" ON captured_messages
+FOR SELECT USING (get_user_role(auth.uid()) = 'admin');
+
+-- Replaces each {{key}} in _template with its value from _values. Unknown
+-- placeholders are left as they are. Mirrors renderTemplate() in
+-- src/lib/notifications.ts.
+CREATE OR REPLACE FUNCTION render_notification_template(_template TEXT, _values JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  rendered TEXT := _template;
+  item RECORD;
+BEGIN
+  FOR item IN SELECT key, value FROM jsonb_each_text(_values) LOOP
+    rendered := replace(rendered, '{{' || item.key || '}}', COALESCE(item.value, ''));
+  END LOOP;
+
+  RETURN rendered;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION format_notification_amount(_amount NUMERIC)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '$' || to_char(_amount, 'FM999,999,999,990.00');
+$$;
+
+-- Renders the landlord's template for the event and channel (or the default)
+-- and queues it for the recipient. A recipient with no phone number or email
+-- address on file gets a failed delivery, so the gap shows up in the log.
+-- Returns null when a delivery with the same _dedupe_key already exists.
+CREATE OR REPLACE FUNCTION queue_notification(
+  _event notification_event,
+  _channel notification_channel,
+  _recipient_id UUID,
+  _landlord_id UUID,
+  _values JSONB,
+  _dedupe_key TEXT,
+  _tenancy_id UUID DEFAULT NULL,
+  _rent_charge_id UUID DEFAULT NULL,
+  _created_by UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  chosen RECORD;
+  address TEXT;
+  new_delivery UUID;
+BEGIN
+  SELECT subject, body INTO chosen
+  FROM notification_templates
+  WHERE event = _event
+    AND channel = _channel
+    AND (landlord_id = _landlord_id OR landlord_id IS NULL)
+  ORDER BY landlord_id NULLS LAST
+  LIMIT 1;
+
+  IF chosen.body IS NULL THEN
+    RAISE EXCEPTION 'No % template for %', _channel, _event;
+  END IF;
+
+  SELECT CASE WHEN _channel = 'sms' THEN normalize_phone(phone) ELSE NULLIF(btrim(email), '') END
+  INTO address
+  FROM profiles
+  WHERE user_id = _recipient_id;
+
+  INSERT INTO notification_deliveries (
+    recipient_id, landlord_id, tenancy_id, rent_charge_id, event, channel, recipient,
+    subject, body, status, error, dedupe_key, created_by
+  )
+  VALUES (
+    _recipient_id,
+    _landlord_id,
+    _tenancy_id,
+    _rent_charge_id,
+    _event,
+    _channel,
+    address,
+    CASE WHEN chosen.subject IS NOT NULL THEN render_notification_template(chosen.subject, _values) END,
+    render_notification_template(chosen.body, _values),
+    CASE WHEN address IS NULL THEN 'failed' ELSE 'pending' END::notification_status,
+    CASE WHEN address IS NULL THEN
+      CASE WHEN _channel = 'sms' THEN 'No phone number on file' ELSE 'No email address on file' END
+    END,
+    _dedupe_key,
+    _created_by
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING
+  RETURNING id INTO new_delivery;
+
+  RETURN new_delivery;
+END;
+$$;
+
+-- Daily job: queues the reminders that fall on _as_of for every landlord with
+-- reminders switched on. Rent charges are only created on their due date, so
+-- "due soon" reminders look ahead to the day after the tenancy's last billed
+-- period. Each reminder has a dedupe key, so running the job twice a day sends
+-- nothing extra. Returns the number of messages queued.
+CREATE OR REPLACE FUNCTION queue_rent_reminders(_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reminder RECORD;
+  channel notification_channel;
+  queued INTEGER := 0;
+BEGIN
+  FOR reminder IN
+    -- Next rent due on each active tenancy
+    SELECT
+      'rent_due_soon'::notification_event AS event,
+      t.id AS tenancy_id,
+      NULL::uuid AS charge_id,
+      t.tenant_id,
+      p.landlord_id,
+      s.channels,
+      n.due_date,
+      n.due_date - _as_of AS days,
+      tenancy_rent_on(t.id, n.due_date) AS amount,
+      pr.full_name,
+      p.name AS property_name,
+      u.unit_number
+    FROM tenancies t
+    JOIN units u ON u.id = t.unit_id
+    JOIN properties p ON p.id = u.property_id
+    JOIN reminder_settings s ON s.landlord_id = p.landlord_id
+    LEFT JOIN profiles pr ON pr.user_id = t.tenant_id
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(MAX(c.period_end) + 1, COALESCE(t.billing_start_date, t.start_date)) AS due_date
+      FROM rent_charges c
+      WHERE c.tenancy_id = t.id AND c.charge_type = 'rent'
+    ) n
+    WHERE t.status = 'active'
+      AND t.tenant_id IS NOT NULL
+      AND s.enabled
+      AND (t.end_date IS NULL OR n.due_date <= t.end_date)
+      AND n.due_date - _as_of = ANY (s.days_before)
+
+    UNION ALL
+
+    -- Rent charges still unpaid after their due date
+    SELECT
+      'rent_overdue'::notification_event,
+      t.id,
+      c.id,
+      t.tenant_id,
+      p.landlord_id,
+      s.channels,
+      c.due_date,
+      _as_of - c.due_date,
+      c.balance,
+      pr.full_name,
+      p.name,
+      u.unit_number
+    FROM rent_charge_balances c
+    JOIN tenancies t ON t.id = c.tenancy_id
+    JOIN units u ON u.id = t.unit_id
+    JOIN properties p ON p.id = u.property_id
+    JOIN reminder_settings s ON s.landlord_id = p.landlord_id
+    LEFT JOIN profiles pr ON pr.user_id = t.tenant_id
+    WHERE c.charge_type = 'rent'
+      AND c.balance > 0
+      AND t.status = 'active'
+      AND t.tenant_id IS NOT NULL
+      AND s.enabled
+      AND _as_of - c.due_date = ANY (s.days_after)
+  LOOP
+    FOREACH channel IN ARRAY reminder.channels LOOP
+      IF queue_notification(
+        reminder.event,
+        channel,
+        reminder.tenant_id,
+        reminder.landlord_id,
+        jsonb_build_object(
+          'tenant_name', COALESCE(reminder.full_name, 'there'),
+          'amount', format_notification_amount(reminder.amount),
+          'due_date', to_char(reminder.due_date, 'DD Mon YYYY'),
+          'days_overdue', CASE WHEN reminder.event = 'rent_overdue' THEN reminder.days END,
+          'property', reminder.property_name,
+          'unit', reminder.unit_number
+        ),
+        concat_ws(':', reminder.event, reminder.tenancy_id, reminder.due_date, reminder.days, channel),
+        reminder.tenancy_id,
+        reminder.charge_id
+      ) IS NOT NULL THEN
+        queued := queued + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN queued;
+END;
+$$;
+
+-- Sent by the landlord from rent collection, for everything the tenant owes.
+-- Goes out on the landlord's reminder channels (both when they have no
+-- settings), at most once a day per tenancy. Returns the queued deliveries for
+-- the caller to hand to send-notifications.
+CREATE OR REPLACE FUNCTION send_rent_reminder(_tenancy_id UUID)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  tenancy RECORD;
+  outstanding NUMERIC;
+  channels notification_channel[];
+  channel notification_channel;
+  delivery UUID;
+  deliveries UUID[] := '{}';
+BEGIN
+  SELECT t.id, t.tenant_id, p.landlord_id, p.name AS property_name, u.unit_number, pr.full_name
+  INTO tenancy
+  FROM tenancies t
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  LEFT JOIN profiles pr ON pr.user_id = t.tenant_id
+  WHERE t.id = _tenancy_id;
+
+  IF tenancy.id IS NULL OR tenancy.landlord_id IS DISTINCT FROM caller THEN
+    RAISE EXCEPTION 'Tenancy not found';
+  END IF;
+
+  IF tenancy.tenant_id IS NULL THEN
+    RAISE EXCEPTION 'This tenancy has no tenant to remind';
+  END IF;
+
+  SELECT COALESCE(SUM(balance), 0) INTO outstanding
+  FROM rent_charge_balances
+  WHERE tenancy_id = _tenancy_id AND balance > 0;
+
+  IF outstanding <= 0 THEN
+    RAISE EXCEPTION 'Nothing is owed on this tenancy';
+  END IF;
+
+  SELECT s.channels INTO channels FROM reminder_settings s WHERE s.landlord_id = caller;
+
+  FOREACH channel IN ARRAY COALESCE(channels, '{sms,email}'::notification_channel[]) LOOP
+    delivery := queue_notification(
+      'rent_reminder',
+      channel,
+      tenancy.tenant_id,
+      caller,
+      jsonb_build_object(
+        'tenant_name', COALESCE(tenancy.full_name, 'there'),
+        'amount', format_notification_amount(outstanding),
+        'property', tenancy.property_name,
+        'unit', tenancy.unit_number
+      ),
+      concat_ws(':', 'rent_reminder', _tenancy_id, CURRENT_DATE, channel),
+      _tenancy_id,
+      NULL,
+      caller
+    );
+
+    IF delivery IS NOT NULL THEN
+      deliveries := deliveries || delivery;
+    END IF;
+  END LOOP;
+
+  IF cardinality(deliveries) = 0 THEN
+    RAISE EXCEPTION 'A reminder was already sent to this tenant today';
+  END IF;
+
+  RETURN deliveries;
+END;
+$$;
+
+-- Hands a batch of due deliveries to one worker run, leased like
+-- claim_due_payouts() so overlapping runs never send the same message. With
+-- _ids only those deliveries are claimed, for sending a reminder right away.
+-- A worker that dies after the gateway accepted a message but before recording
+-- it may cause it to be sent again once the lease runs out.
+CREATE OR REPLACE FUNCTION claim_due_notifications(
+  _provider TEXT,
+  _limit INTEGER DEFAULT 50,
+  _lease_seconds INTEGER DEFAULT 300,
+  _ids UUID[] DEFAULT NULL
+)
+RETURNS SETOF notification_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE notification_deliveries
+  SET status = 'sending',
+      provider = _provider,
+      next_attempt_at = now() + make_interval(secs => _lease_seconds)
+  WHERE id IN (
+    SELECT id FROM notification_deliveries
+    WHERE status IN ('pending', 'sending')
+      AND next_attempt_at <= now()
+      AND (_ids IS NULL OR id = ANY (_ids))
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_notification(
+  notification_event, notification_channel, UUID, UUID, JSONB, TEXT, UUID, UUID, UUID
+) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION queue_rent_reminders(DATE) FROM PUBLIC, anon, authenticated;
+
+-- Only the worker (service role) may claim deliveries
+REVOKE EXECUTE ON FUNCTION claim_due_notifications(TEXT, INTEGER, INTEGER, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_due_notifications(TEXT, INTEGER, INTEGER, UUID[]) TO service_role;
+
+-- 09:00 in East Africa, well after the day's rent charges and late fees are in
+SELECT cron.schedule('queue-rent-reminders', '0 6 * * *', 'SELECT queue_rent_reminders()');
+
+-- Let landlords watch reminders go out
+ALTER PUBLICATION supabase_realtime ADD TABLE notification_deliveries;
+
+-- Sends whatever is queued, including the reminders above, every minute
+SELECT cron.schedule('send-notifications', '* * * * *', $$SELECT invoke_edge_function('send-notifications')$$);
@@ -0,0 +1,327 @@
+-- In-app notification center.
+--
+-- Triggers on the tables below write a notification for the person an event
+-- concerns, which the header bell shows as it arrives:
+--
+--   join request submitted          the landlord of the property
+--   join request approved/rejected  the tenant who asked
+--   payment completed/failed        the tenant, and the landlord when completed
+--   maintenance status changed      the tenant, or the landlord when the
+--                                   tenant made the change
+--   payout completed/failed         the landlord
+--
+-- Everything is on by default; a row in notification_preferences with
+-- in_app = false turns one kind off for that user.
+--
+-- Notifications are written by the functions below; users can only read,
+-- mark as read and delete their own.
+
+CREATE TYPE notification_kind AS ENUM (
+  'join_request_submitted',
+  'join_request_approved',
+  'join_request_rejected',
+  'payment_completed',
+  'payment_failed',
+  'maintenance_status_changed',
+  'payout_completed',
+  'payout_failed'
+);
+
+CREATE TABLE notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  kind notification_kind NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  -- The row the notification is about (join request, payment, ...)
+  entity_id UUID,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_id ON notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "users_can_view_own_notifications" ON notifications
+FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "users_can_delete_own_notifications" ON notifications
+FOR DELETE USING (user_id = auth.uid());
+
+CREATE TABLE notification_preferences (
+  user_id UUID NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  kind notification_kind NOT NULL,
+  in_app BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  PRIMARY KEY (user_id, kind)
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "users_can_manage_own_notification_preferences" ON notification_preferences
+FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+-- Writes a notification unless the user has turned that kind off
+CREATE OR REPLACE FUNCTION notify_user(
+  _user_id UUID,
+  _kind notification_kind,
+  _title TEXT,
+  _body TEXT DEFAULT NULL,
+  _entity_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_notification UUID;
+BEGIN
+  IF _user_id IS NULL OR EXISTS (
+    SELECT 1 FROM notification_preferences
+    WHERE user_id = _user_id AND kind = _kind AND NOT in_app
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notifications (user_id, kind, title, body, entity_id)
+  VALUES (_user_id, _kind, _title, _body, _entity_id)
+  RETURNING id INTO new_notification;
+
+  RETURN new_notification;
+END;
+$$;
+
+-- Marks the caller's notifications as read: the ones given, or all of them
+CREATE OR REPLACE FUNCTION mark_notifications_read(_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  marked INTEGER;
+BEGIN
+  UPDATE notifications
+  SET read_at = now()
+  WHERE user_id = auth.uid()
+    AND read_at IS NULL
+    AND (_ids IS NULL OR id = ANY (_ids));
+
+  GET DIAGNOSTICS marked = ROW_COUNT;
+  RETURN marked;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_join_request_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request RECORD;
+BEGIN
+  SELECT p.name AS property_name, p.landlord_id, u.unit_number, pr.full_name AS tenant_name
+  INTO request
+  FROM properties p
+  LEFT JOIN units u ON u.id = NEW.unit_id
+  LEFT JOIN profiles pr ON pr.user_id = NEW.tenant_id
+  WHERE p.id = NEW.property_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM notify_user(
+      request.landlord_id,
+      'join_request_submitted',
+      'New join request',
+      COALESCE(request.tenant_name, 'A tenant') || ' asked to join ' || request.property_name
+        || COALESCE(' unit ' || request.unit_number, ''),
+      NEW.id
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status = 'approved' THEN
+    PERFORM notify_user(
+      NEW.tenant_id,
+      'join_request_approved',
+      'Join request approved',
+      'Your request to join ' || request.property_name || COALESCE(' unit ' || request.unit_number, '')
+        || ' was approved',
+      NEW.id
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status = 'rejected' THEN
+    PERFORM notify_user(
+      NEW.tenant_id,
+      'join_request_rejected',
+      'Join request declined',
+      'Your request to join ' || request.property_name || COALESCE(' unit ' || request.unit_number, '')
+        || ' was declined' || COALESCE(': ' || NULLIF(btrim(NEW.rejection_reason), ''), ''),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_join_request_change_trigger
+  AFTER INSERT OR UPDATE OF status ON join_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_join_request_change();
+
+CREATE OR REPLACE FUNCTION notify_payment_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tenancy RECORD;
+  what TEXT;
+BEGIN
+  IF NEW.status NOT IN ('completed', 'failed')
+     OR (TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT t.tenant_id, p.landlord_id, p.name AS property_name, u.unit_number, pr.full_name AS tenant_name
+  INTO tenancy
+  FROM tenancies t
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  LEFT JOIN profiles pr ON pr.user_id = t.tenant_id
+  WHERE t.id = NEW.tenancy_id;
+
+  what := CASE WHEN NEW.payment_type = 'deposit' THEN 'deposit' ELSE 'rent' END;
+
+  IF NEW.status = 'completed' THEN
+    PERFORM notify_user(
+      tenancy.tenant_id,
+      'payment_completed',
+      'Payment received',
+      'Your ' || what || ' payment of ' || format_notification_amount(NEW.amount) || ' was received',
+      NEW.id
+    );
+    PERFORM notify_user(
+      tenancy.landlord_id,
+      'payment_completed',
+      'Payment received',
+      COALESCE(tenancy.tenant_name, 'A tenant') || ' paid ' || format_notification_amount(NEW.amount) || ' '
+        || what || ' for ' || tenancy.property_name || ' unit ' || tenancy.unit_number,
+      NEW.id
+    );
+  ELSE
+    PERFORM notify_user(
+      tenancy.tenant_id,
+      'payment_failed',
+      'Payment failed',
+      'Your ' || what || ' payment of ' || format_notification_amount(NEW.amount) || ' did not go through'
+        || COALESCE(': ' || NEW.failure_reason, ''),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_payment_status_change_trigger
+  AFTER INSERT OR UPDATE OF status ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_payment_status_change();
+
+-- Whoever made the change already knows about it, so the other side is told
+CREATE OR REPLACE FUNCTION notify_maintenance_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  landlord UUID;
+  status_label TEXT := initcap(replace(NEW.status::text, '_', ' '));
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() = NEW.tenant_id THEN
+    SELECT p.landlord_id INTO landlord
+    FROM units u
+    JOIN properties p ON p.id = u.property_id
+    WHERE u.id = NEW.unit_id;
+
+    PERFORM notify_user(
+      landlord,
+      'maintenance_status_changed',
+      'Maintenance request ' || lower(status_label),
+      'The tenant marked "' || NEW.title || '" as ' || lower(status_label),
+      NEW.id
+    );
+  ELSE
+    PERFORM notify_user(
+      NEW.tenant_id,
+      'maintenance_status_changed',
+      'Maintenance request ' || lower(status_label),
+      '"' || NEW.title || '" is now ' || lower(status_label)
+        || CASE WHEN NEW.status = 'scheduled' AND NEW.scheduled_for IS NOT NULL
+             THEN ' for ' || to_char(NEW.scheduled_for, 'DD Mon YYYY') ELSE '' END,
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_maintenance_status_change_trigger
+  AFTER UPDATE OF status ON maintenance_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_maintenance_status_change();
+
+CREATE OR REPLACE FUNCTION notify_payout_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'completed' THEN
+    PERFORM notify_user(
+      NEW.landlord_id,
+      'payout_completed',
+      'Payout sent',
+      format_notification_amount(NEW.amount) || ' was sent to ' || NEW.phone_number,
+      NEW.id
+    );
+  ELSIF NEW.status = 'failed' THEN
+    PERFORM notify_user(
+      NEW.landlord_id,
+      'payout_failed',
+      'Payout failed',
+      'Your payout of ' || format_notification_amount(NEW.amount) || ' could not be sent'
+        || COALESCE(': ' || NEW.failure_reason, ''),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_payout_status_change_trigger
+  AFTER UPDATE OF status ON payouts
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_payout_status_change();
+
+REVOKE EXECUTE ON FUNCTION notify_user(UUID, notification_kind, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION notify_join_request_change() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION notify_payment_status_change() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION notify_maintenance_status_change() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION notify_payout_status_change() FROM PUBLIC, anon, authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
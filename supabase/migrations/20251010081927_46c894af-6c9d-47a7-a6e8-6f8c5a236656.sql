@@ -0,0 +1,387 @@
+-- Messaging between landlords and tenants.
+--
+-- A conversation is between a landlord and one of their tenants: one general
+-- conversation per pair, plus one per maintenance request so the talk about a
+-- repair stays with it. Each side's last_read_at on the conversation is the
+-- read receipt; a message has been read by the other side once their
+-- last_read_at has reached it.
+--
+-- Messages can carry photos and PDFs from the private message-attachments
+-- bucket, stored under <conversation_id>/<file> so storage access follows who
+-- can see the conversation. A new message also lands in the recipient's
+-- notification bell.
+--
+-- Read-only for clients; conversations, messages and their attachments are
+-- written by the functions below.
+
+ALTER TYPE notification_kind ADD VALUE IF NOT EXISTS 'message_received';
+
+CREATE TABLE conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  landlord_id UUID NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  maintenance_request_id UUID REFERENCES maintenance_requests(id) ON DELETE CASCADE,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  landlord_last_read_at TIMESTAMP WITH TIME ZONE,
+  tenant_last_read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (landlord_id, tenant_id, maintenance_request_id)
+);
+
+CREATE INDEX idx_conversations_landlord_id ON conversations(landlord_id, last_message_at DESC);
+CREATE INDEX idx_conversations_tenant_id ON conversations(tenant_id, last_message_at DESC);
+
+CREATE TABLE messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  body TEXT NOT NULL DEFAULT '' CHECK (char_length(body) <= 4000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_messages_conversation_id ON messages(conversation_id, created_at DESC);
+
+CREATE TABLE message_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  -- <conversation_id>/<uuid>.<ext> in the message-attachments bucket
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_message_attachments_message_id ON message_attachments(message_id);
+
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "participants_can_view_conversations" ON conversations
+FOR SELECT USING (auth.uid() IN (landlord_id, tenant_id));
+
+CREATE POLICY "participants_can_view_messages" ON messages
+FOR SELECT USING (
+  conversation_id IN (SELECT id FROM conversations)
+);
+
+CREATE POLICY "participants_can_view_message_attachments" ON message_attachments
+FOR SELECT USING (
+  message_id IN (SELECT id FROM messages)
+);
+
+CREATE POLICY "admins_can_manage_conversations" ON conversations
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "admins_can_manage_messages" ON messages
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "admins_can_manage_message_attachments" ON message_attachments
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+-- Finds or starts the caller's conversation about a maintenance request, or
+-- with a counterpart. A tenant who names no one gets their landlord on the
+-- most recent active tenancy. Landlords can only reach their own tenants,
+-- past or present, and tenants only their landlords.
+CREATE OR REPLACE FUNCTION open_conversation(
+  _counterpart_id UUID DEFAULT NULL,
+  _maintenance_request_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  conversation_landlord UUID;
+  conversation_tenant UUID;
+  conversation UUID;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _maintenance_request_id IS NOT NULL THEN
+    SELECT p.landlord_id, mr.tenant_id
+    INTO conversation_landlord, conversation_tenant
+    FROM maintenance_requests mr
+    JOIN units u ON u.id = mr.unit_id
+    JOIN properties p ON p.id = u.property_id
+    WHERE mr.id = _maintenance_request_id;
+
+    IF conversation_landlord IS NULL OR caller NOT IN (conversation_landlord, conversation_tenant) THEN
+      RAISE EXCEPTION 'Maintenance request not found';
+    END IF;
+  ELSIF get_user_role(caller) = 'landlord' THEN
+    IF NOT EXISTS (
+      SELECT 1
+      FROM tenancies t
+      JOIN units u ON u.id = t.unit_id
+      JOIN properties p ON p.id = u.property_id
+      WHERE t.tenant_id = _counterpart_id AND p.landlord_id = caller
+    ) THEN
+      RAISE EXCEPTION 'You can only message your own tenants';
+    END IF;
+
+    conversation_landlord := caller;
+    conversation_tenant := _counterpart_id;
+  ELSE
+    SELECT p.landlord_id
+    INTO conversation_landlord
+    FROM tenancies t
+    JOIN units u ON u.id = t.unit_id
+    JOIN properties p ON p.id = u.property_id
+    WHERE t.tenant_id = caller
+      AND (_counterpart_id IS NULL OR p.landlord_id = _counterpart_id)
+      AND (_counterpart_id IS NOT NULL OR t.status = 'active')
+    ORDER BY t.start_date DESC
+    LIMIT 1;
+
+    IF conversation_landlord IS NULL THEN
+      RAISE EXCEPTION 'You can only message your landlord';
+    END IF;
+
+    conversation_tenant := caller;
+  END IF;
+
+  INSERT INTO conversations (landlord_id, tenant_id, maintenance_request_id)
+  VALUES (conversation_landlord, conversation_tenant, _maintenance_request_id)
+  ON CONFLICT (landlord_id, tenant_id, maintenance_request_id) DO NOTHING
+  RETURNING id INTO conversation;
+
+  IF conversation IS NULL THEN
+    SELECT id INTO conversation
+    FROM conversations
+    WHERE landlord_id = conversation_landlord
+      AND tenant_id = conversation_tenant
+      AND maintenance_request_id IS NOT DISTINCT FROM _maintenance_request_id;
+  END IF;
+
+  RETURN conversation;
+END;
+$$;
+
+-- Sends a message with the files already uploaded under the conversation.
+-- _attachments is a JSON array of {storage_path, file_name, content_type,
+-- size_bytes}. Sending counts as reading everything before it.
+CREATE OR REPLACE FUNCTION send_message(
+  _conversation_id UUID,
+  _body TEXT,
+  _attachments JSONB DEFAULT '[]'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  conversation RECORD;
+  message_body TEXT := btrim(COALESCE(_body, ''));
+  attachment JSONB;
+  new_message UUID;
+  recipient UUID;
+  sender_name TEXT;
+BEGIN
+  SELECT * INTO conversation FROM conversations WHERE id = _conversation_id;
+
+  IF conversation.id IS NULL OR caller IS NULL OR caller NOT IN (conversation.landlord_id, conversation.tenant_id) THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  IF jsonb_typeof(COALESCE(_attachments, '[]'::jsonb)) <> 'array' THEN
+    RAISE EXCEPTION 'Attachments must be a list';
+  END IF;
+
+  IF message_body = '' AND jsonb_array_length(COALESCE(_attachments, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Write a message or attach a file';
+  END IF;
+
+  IF char_length(message_body) > 4000 THEN
+    RAISE EXCEPTION 'Messages can be at most 4000 characters';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(_attachments, '[]'::jsonb)) > 5 THEN
+    RAISE EXCEPTION 'A message can have at most 5 attachments';
+  END IF;
+
+  INSERT INTO messages (conversation_id, sender_id, body)
+  VALUES (_conversation_id, caller, message_body)
+  RETURNING id INTO new_message;
+
+  FOR attachment IN SELECT * FROM jsonb_array_elements(COALESCE(_attachments, '[]'::jsonb)) LOOP
+    IF split_part(attachment->>'storage_path', '/', 1) <> _conversation_id::text THEN
+      RAISE EXCEPTION 'Attachments must be stored under their conversation';
+    END IF;
+
+    IF attachment->>'content_type' NOT LIKE 'image/%' AND attachment->>'content_type' <> 'application/pdf' THEN
+      RAISE EXCEPTION 'Only photos and PDFs can be attached';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM storage.objects
+      WHERE bucket_id = 'message-attachments' AND name = attachment->>'storage_path'
+    ) THEN
+      RAISE EXCEPTION 'Upload the file before attaching it';
+    END IF;
+
+    INSERT INTO message_attachments (message_id, storage_path, file_name, content_type, size_bytes)
+    VALUES (
+      new_message,
+      attachment->>'storage_path',
+      COALESCE(NULLIF(btrim(attachment->>'file_name'), ''), 'attachment'),
+      attachment->>'content_type',
+      (attachment->>'size_bytes')::integer
+    );
+  END LOOP;
+
+  IF caller = conversation.landlord_id THEN
+    UPDATE conversations SET last_message_at = now(), landlord_last_read_at = now() WHERE id = _conversation_id;
+    recipient := conversation.tenant_id;
+  ELSE
+    UPDATE conversations SET last_message_at = now(), tenant_last_read_at = now() WHERE id = _conversation_id;
+    recipient := conversation.landlord_id;
+  END IF;
+
+  -- One unread notification per conversation is enough to bring them back
+  IF NOT EXISTS (
+    SELECT 1 FROM notifications
+    WHERE user_id = recipient AND kind = 'message_received'
+      AND entity_id = _conversation_id AND read_at IS NULL
+  ) THEN
+    SELECT full_name INTO sender_name FROM profiles WHERE user_id = caller;
+
+    PERFORM notify_user(
+      recipient,
+      'message_received',
+      'New message from ' || COALESCE(NULLIF(sender_name, ''), CASE WHEN caller = conversation.landlord_id THEN 'your landlord' ELSE 'a tenant' END),
+      CASE WHEN message_body = '' THEN 'Sent an attachment' ELSE left(message_body, 140) END,
+      _conversation_id
+    );
+  END IF;
+
+  RETURN new_message;
+END;
+$$;
+
+-- Moves the caller's read receipt up to now
+CREATE OR REPLACE FUNCTION mark_conversation_read(_conversation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+BEGIN
+  UPDATE conversations
+  SET landlord_last_read_at = CASE WHEN landlord_id = caller THEN now() ELSE landlord_last_read_at END,
+      tenant_last_read_at = CASE WHEN tenant_id = caller THEN now() ELSE tenant_last_read_at END
+  WHERE id = _conversation_id AND caller IN (landlord_id, tenant_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  UPDATE notifications
+  SET read_at = now()
+  WHERE user_id = caller AND kind = 'message_received'
+    AND entity_id = _conversation_id AND read_at IS NULL;
+END;
+$$;
+
+-- The caller's conversations, newest first, with who is on the other side,
+-- the latest message and how many are unread. Names come from here because
+-- profiles are only visible to their owner.
+CREATE OR REPLACE FUNCTION get_my_conversations()
+RETURNS TABLE (
+  id UUID,
+  maintenance_request_id UUID,
+  maintenance_title TEXT,
+  counterpart_id UUID,
+  counterpart_name TEXT,
+  counterpart_last_read_at TIMESTAMP WITH TIME ZONE,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  last_message_body TEXT,
+  last_message_sender_id UUID,
+  unread_count INTEGER
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.maintenance_request_id,
+    mr.title,
+    other.user_id,
+    other.full_name,
+    CASE WHEN c.landlord_id = auth.uid() THEN c.tenant_last_read_at ELSE c.landlord_last_read_at END,
+    c.last_message_at,
+    last_message.body,
+    last_message.sender_id,
+    (
+      SELECT count(*)::integer FROM messages m
+      WHERE m.conversation_id = c.id
+        AND m.sender_id <> auth.uid()
+        AND m.created_at > COALESCE(
+          CASE WHEN c.landlord_id = auth.uid() THEN c.landlord_last_read_at ELSE c.tenant_last_read_at END,
+          '-infinity'
+        )
+    )
+  FROM conversations c
+  JOIN profiles other ON other.user_id = CASE WHEN c.landlord_id = auth.uid() THEN c.tenant_id ELSE c.landlord_id END
+  LEFT JOIN maintenance_requests mr ON mr.id = c.maintenance_request_id
+  LEFT JOIN LATERAL (
+    SELECT m.body, m.sender_id FROM messages m
+    WHERE m.conversation_id = c.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) last_message ON true
+  WHERE auth.uid() IN (c.landlord_id, c.tenant_id)
+  ORDER BY COALESCE(c.last_message_at, c.created_at) DESC;
+$$;
+
+-- 10 MB is plenty for a compressed photo or a scanned document
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'message-attachments',
+  'message-attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Files are stored under the conversation id, so the conversation's own visibility applies
+CREATE POLICY "participants_can_read_message_files" ON storage.objects
+FOR SELECT USING (
+  bucket_id = 'message-attachments'
+  AND (storage.foldername(name))[1] IN (SELECT id::text FROM conversations)
+);
+
+CREATE POLICY "participants_can_upload_message_files" ON storage.objects
+FOR INSERT WITH CHECK (
+  bucket_id = 'message-attachments'
+  AND (storage.foldername(name))[1] IN (SELECT id::text FROM conversations)
+);
+
+-- Lets a sender clean up files from a message that failed to send
+CREATE POLICY "uploaders_can_delete_message_files" ON storage.objects
+FOR DELETE USING (
+  bucket_id = 'message-attachments'
+  AND owner = auth.uid()
+  AND name NOT IN (SELECT storage_path FROM message_attachments)
+);
+
+CREATE POLICY "admins_can_manage_message_files" ON storage.objects
+FOR ALL USING (
+  bucket_id = 'message-attachments'
+  AND get_user_role(auth.uid()) = 'admin'
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE conversations;
+ALTER PUBLICATION supabase_realtime ADD TABLE messages;
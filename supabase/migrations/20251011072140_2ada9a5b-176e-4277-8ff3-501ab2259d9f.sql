@@ -0,0 +1,6 @@
+-- Enum values for property announcements. Added on their own because a new
+-- enum value cannot be used in the transaction that adds it, and the next
+-- migration seeds templates with it.
+
+ALTER TYPE notification_event ADD VALUE IF NOT EXISTS 'announcement';
+ALTER TYPE notification_kind ADD VALUE IF NOT EXISTS 'announcement_published';
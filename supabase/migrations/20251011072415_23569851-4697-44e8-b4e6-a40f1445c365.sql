@@ -0,0 +1,329 @@
+-- Property announcements.
+--
+-- A landlord writes an announcement for one property, such as a water outage
+-- or an inspection, addressed to every tenant there or only to some units. It
+-- is published at publish_at: straight away when that has passed, otherwise by
+-- the publish-announcements job. Publishing takes a snapshot of who the
+-- announcement reached in announcement_recipients, where each tenant's
+-- acknowledgement is recorded, tells them in the notification bell and, on the
+-- channels the landlord picked, queues SMS or email through
+-- notification_deliveries like any other message.
+--
+-- Landlords can change or cancel an announcement until it is published and
+-- take it down at any time. Tenants read theirs through
+-- get_my_announcements().
+
+CREATE TABLE announcements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  landlord_id UUID NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (btrim(title) <> '' AND char_length(title) <= 120),
+  body TEXT NOT NULL CHECK (btrim(body) <> '' AND char_length(body) <= 2000),
+  -- Null for every unit of the property
+  unit_ids UUID[] CHECK (unit_ids IS NULL OR cardinality(unit_ids) > 0),
+  -- SMS and email sent on top of the in-app announcement
+  channels notification_channel[] NOT NULL DEFAULT '{}',
+  publish_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  published_at TIMESTAMP WITH TIME ZONE,
+  -- No longer pinned for tenants after this
+  expires_at TIMESTAMP WITH TIME ZONE CHECK (expires_at IS NULL OR expires_at > publish_at),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_announcements_landlord_id ON announcements(landlord_id, publish_at DESC);
+CREATE INDEX idx_announcements_due ON announcements(publish_at) WHERE published_at IS NULL;
+
+CREATE TABLE announcement_recipients (
+  announcement_id UUID NOT NULL REFERENCES announcements(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  -- The unit the tenant rented when the announcement went out
+  unit_number TEXT,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  PRIMARY KEY (announcement_id, tenant_id)
+);
+
+CREATE INDEX idx_announcement_recipients_tenant_id ON announcement_recipients(tenant_id);
+
+ALTER TABLE notification_deliveries
+ADD COLUMN announcement_id UUID REFERENCES announcements(id) ON DELETE SET NULL;
+
+ALTER TABLE announcements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE announcement_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "landlords_can_view_own_announcements" ON announcements
+FOR SELECT USING (landlord_id = auth.uid());
+
+-- published_at is only ever set by publish_announcement()
+CREATE POLICY "landlords_can_create_announcements" ON announcements
+FOR INSERT WITH CHECK (
+  landlord_id = auth.uid()
+  AND published_at IS NULL
+  AND property_id IN (SELECT id FROM properties WHERE landlord_id = auth.uid())
+);
+
+CREATE POLICY "landlords_can_update_scheduled_announcements" ON announcements
+FOR UPDATE USING (landlord_id = auth.uid() AND published_at IS NULL)
+WITH CHECK (
+  landlord_id = auth.uid()
+  AND published_at IS NULL
+  AND property_id IN (SELECT id FROM properties WHERE landlord_id = auth.uid())
+);
+
+CREATE POLICY "landlords_can_delete_own_announcements" ON announcements
+FOR DELETE USING (landlord_id = auth.uid());
+
+CREATE POLICY "admins_can_manage_announcements" ON announcements
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+-- Read-only for clients; recipients are written by the functions below
+CREATE POLICY "tenants_can_view_own_announcement_receipts" ON announcement_recipients
+FOR SELECT USING (tenant_id = auth.uid());
+
+CREATE POLICY "landlords_can_view_announcement_recipients" ON announcement_recipients
+FOR SELECT USING (
+  announcement_id IN (SELECT id FROM announcements WHERE landlord_id = auth.uid())
+);
+
+CREATE POLICY "admins_can_manage_announcement_recipients" ON announcement_recipients
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+CREATE OR REPLACE FUNCTION update_announcements_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_announcements_updated_at_trigger
+  BEFORE UPDATE ON announcements
+  FOR EACH ROW
+  EXECUTE FUNCTION update_announcements_updated_at();
+
+-- Targeted units must belong to the announcement's property
+CREATE OR REPLACE FUNCTION validate_announcement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.unit_ids IS NOT NULL AND EXISTS (
+    SELECT 1 FROM unnest(NEW.unit_ids) AS target(unit_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM units WHERE id = target.unit_id AND property_id = NEW.property_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Announcements can only target units of their property';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_announcement_trigger
+  BEFORE INSERT OR UPDATE OF property_id, unit_ids ON announcements
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_announcement();
+
+INSERT INTO notification_templates (event, channel, subject, body) VALUES
+  ('announcement', 'sms', NULL,
+   '{{property}}: {{title}}. {{body}}'),
+  ('announcement', 'email', '{{property}}: {{title}}',
+   E'Hi {{tenant_name}},\n\n{{body}}\n\nThis announcement is also pinned on your tenant dashboard.');
+
+-- Publishes an announcement that is not yet published: records who it reached
+-- (the active tenants of the targeted units), notifies them in the app and
+-- queues SMS and email on the announcement's channels. Returns the number of
+-- tenants reached.
+CREATE OR REPLACE FUNCTION publish_announcement(_announcement_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  announcement RECORD;
+  recipient RECORD;
+  channel notification_channel;
+  delivery UUID;
+  reached INTEGER := 0;
+BEGIN
+  SELECT a.*, p.name AS property_name
+  INTO announcement
+  FROM announcements a
+  JOIN properties p ON p.id = a.property_id
+  WHERE a.id = _announcement_id AND a.published_at IS NULL
+  FOR UPDATE OF a;
+
+  IF announcement.id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE announcements SET published_at = now() WHERE id = _announcement_id;
+
+  FOR recipient IN
+    SELECT DISTINCT ON (t.tenant_id) t.tenant_id, u.unit_number, pr.full_name
+    FROM tenancies t
+    JOIN units u ON u.id = t.unit_id
+    LEFT JOIN profiles pr ON pr.user_id = t.tenant_id
+    WHERE u.property_id = announcement.property_id
+      AND t.status = 'active'
+      AND t.tenant_id IS NOT NULL
+      AND (announcement.unit_ids IS NULL OR t.unit_id = ANY (announcement.unit_ids))
+    ORDER BY t.tenant_id, t.start_date DESC
+  LOOP
+    INSERT INTO announcement_recipients (announcement_id, tenant_id, unit_number)
+    VALUES (_announcement_id, recipient.tenant_id, recipient.unit_number);
+
+    PERFORM notify_user(
+      recipient.tenant_id,
+      'announcement_published',
+      announcement.title,
+      left(announcement.body, 140),
+      _announcement_id
+    );
+
+    FOREACH channel IN ARRAY announcement.channels LOOP
+      delivery := queue_notification(
+        'announcement',
+        channel,
+        recipient.tenant_id,
+        announcement.landlord_id,
+        jsonb_build_object(
+          'tenant_name', COALESCE(recipient.full_name, 'there'),
+          'title', announcement.title,
+          'body', announcement.body,
+          'property', announcement.property_name,
+          'unit', recipient.unit_number
+        ),
+        concat_ws(':', 'announcement', _announcement_id, recipient.tenant_id, channel),
+        NULL,
+        NULL,
+        announcement.landlord_id
+      );
+
+      UPDATE notification_deliveries SET announcement_id = _announcement_id WHERE id = delivery;
+    END LOOP;
+
+    reached := reached + 1;
+  END LOOP;
+
+  RETURN reached;
+END;
+$$;
+
+-- Announcements saved with a publish time that has passed go out at once
+CREATE OR REPLACE FUNCTION publish_announcement_when_due()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.published_at IS NULL AND NEW.publish_at <= now() THEN
+    PERFORM publish_announcement(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER publish_announcement_when_due_trigger
+  AFTER INSERT OR UPDATE OF publish_at ON announcements
+  FOR EACH ROW
+  EXECUTE FUNCTION publish_announcement_when_due();
+
+-- Job: publishes the scheduled announcements that have come due. Returns the
+-- number published.
+CREATE OR REPLACE FUNCTION publish_due_announcements()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  due RECORD;
+  published INTEGER := 0;
+BEGIN
+  FOR due IN
+    SELECT id FROM announcements
+    WHERE published_at IS NULL AND publish_at <= now()
+    ORDER BY publish_at
+  LOOP
+    PERFORM publish_announcement(due.id);
+    published := published + 1;
+  END LOOP;
+
+  -- Send the SMS and email copies now rather than on the worker's next run
+  IF published > 0 THEN
+    PERFORM invoke_edge_function('send-notifications');
+  END IF;
+
+  RETURN published;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION acknowledge_announcement(_announcement_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE announcement_recipients
+  SET acknowledged_at = COALESCE(acknowledged_at, now())
+  WHERE announcement_id = _announcement_id AND tenant_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Announcement not found';
+  END IF;
+END;
+$$;
+
+-- The caller's pinned announcements, newest first: those not yet expired, or
+-- without an expiry, those from the last 14 days and any still unacknowledged
+CREATE OR REPLACE FUNCTION get_my_announcements()
+RETURNS TABLE (
+  id UUID,
+  property_name TEXT,
+  title TEXT,
+  body TEXT,
+  published_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT a.id, p.name, a.title, a.body, a.published_at, a.expires_at, r.acknowledged_at
+  FROM announcement_recipients r
+  JOIN announcements a ON a.id = r.announcement_id
+  JOIN properties p ON p.id = a.property_id
+  WHERE r.tenant_id = auth.uid()
+    AND a.published_at IS NOT NULL
+    AND (
+      a.expires_at > now()
+      OR (a.expires_at IS NULL AND (r.acknowledged_at IS NULL OR a.published_at > now() - interval '14 days'))
+    )
+  ORDER BY a.published_at DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION validate_announcement() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION publish_announcement(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION publish_announcement_when_due() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION publish_due_announcements() FROM PUBLIC, anon, authenticated;
+
+-- Scheduled announcements go out within five minutes of their publish time
+SELECT cron.schedule('publish-announcements', '*/5 * * * *', 'SELECT publish_due_announcements()');
+
+-- Let tenants see announcements as they are published
+ALTER PUBLICATION supabase_realtime ADD TABLE announcement_recipients;
@@ -0,0 +1,466 @@
+-- Unified activity stream.
+--
+-- activity_events holds one row per thing that happened, for everyone it
+-- concerns, so a user's feed is a single indexed read. Triggers on the tables
+-- below keep it up to date:
+--
+--   payments                    the tenant, and the landlord once completed
+--   maintenance_request_events  the tenant and the landlord
+--   join_requests               the tenant and the landlord, when submitted
+--                               and again when decided
+--   lease_documents (sent)      the tenant and the landlord
+--   lease_signatures            the tenant and the landlord
+--   messages                    the sender and the recipient
+--
+-- Each source row is recorded under a key, so recording it again (a payment
+-- completing, or the backfill at the end) updates the existing event rather
+-- than adding another. Events are written by the functions below; users can
+-- only read their own, newest first, a page at a time through
+-- get_my_activity().
+
+CREATE TYPE activity_type AS ENUM ('payment', 'maintenance', 'join_request', 'document', 'message');
+
+CREATE TABLE activity_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  type activity_type NOT NULL,
+  -- The source row and what happened to it, e.g. join_request:<id>:approved
+  dedupe_key TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  -- completed, pending or failed, for events with an outcome
+  status TEXT,
+  amount NUMERIC,
+  -- The row the event is about (payment, maintenance request, conversation, ...)
+  entity_id UUID,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, dedupe_key)
+);
+
+CREATE INDEX idx_activity_events_user_id ON activity_events(user_id, occurred_at DESC, id DESC);
+CREATE INDEX idx_activity_events_user_type ON activity_events(user_id, type, occurred_at DESC, id DESC);
+
+ALTER TABLE activity_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "users_can_view_own_activity" ON activity_events
+FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "admins_can_manage_activity" ON activity_events
+FOR ALL USING (get_user_role(auth.uid()) = 'admin');
+
+-- Writes an event, or updates the one already recorded under the same key.
+-- The time an event happened never changes.
+CREATE OR REPLACE FUNCTION record_activity(
+  _user_id UUID,
+  _type activity_type,
+  _dedupe_key TEXT,
+  _title TEXT,
+  _description TEXT,
+  _entity_id UUID,
+  _occurred_at TIMESTAMP WITH TIME ZONE,
+  _status TEXT DEFAULT NULL,
+  _amount NUMERIC DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO activity_events (
+    user_id, type, dedupe_key, title, description, status, amount, entity_id, occurred_at
+  )
+  VALUES (
+    _user_id, _type, _dedupe_key, _title, _description, _status, _amount, _entity_id,
+    COALESCE(_occurred_at, now())
+  )
+  ON CONFLICT (user_id, dedupe_key) DO UPDATE
+  SET title = EXCLUDED.title,
+      description = EXCLUDED.description,
+      status = EXCLUDED.status,
+      amount = EXCLUDED.amount;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_payment_activity(_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment RECORD;
+  what TEXT;
+  outcome TEXT;
+BEGIN
+  SELECT pay.*, t.tenant_id, p.landlord_id, p.name AS property_name, u.unit_number,
+         pr.full_name AS tenant_name
+  INTO payment
+  FROM payments pay
+  JOIN tenancies t ON t.id = pay.tenancy_id
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  LEFT JOIN profiles pr ON pr.user_id = t.tenant_id
+  WHERE pay.id = _payment_id;
+
+  IF payment.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  what := CASE WHEN payment.payment_type = 'deposit' THEN 'Security deposit' ELSE 'Rent payment' END;
+  outcome := CASE WHEN payment.status IN ('completed', 'failed') THEN payment.status ELSE 'pending' END;
+
+  PERFORM record_activity(
+    payment.tenant_id,
+    'payment',
+    'payment:' || payment.id,
+    what,
+    format_notification_amount(payment.amount) || ' via ' || payment.method
+      || CASE WHEN outcome = 'failed' THEN COALESCE(': ' || payment.failure_reason, '') ELSE '' END,
+    payment.id,
+    COALESCE(payment.created_at, payment.payment_date::timestamptz),
+    outcome,
+    payment.amount
+  );
+
+  IF outcome = 'completed' THEN
+    PERFORM record_activity(
+      payment.landlord_id,
+      'payment',
+      'payment:' || payment.id,
+      what || ' received',
+      COALESCE(payment.tenant_name, 'A tenant') || ' paid for ' || payment.property_name
+        || ' unit ' || payment.unit_number,
+      payment.id,
+      COALESCE(payment.created_at, payment.payment_date::timestamptz),
+      outcome,
+      payment.amount
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_maintenance_activity(_event_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  event RECORD;
+  title TEXT;
+  detail TEXT;
+BEGIN
+  SELECT e.*, r.title AS request_title, r.tenant_id, p.landlord_id, p.name AS property_name,
+         u.unit_number
+  INTO event
+  FROM maintenance_request_events e
+  JOIN maintenance_requests r ON r.id = e.request_id
+  LEFT JOIN units u ON u.id = r.unit_id
+  LEFT JOIN properties p ON p.id = u.property_id
+  WHERE e.id = _event_id;
+
+  IF event.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  title := CASE
+    WHEN event.status IS NULL THEN 'Maintenance update'
+    ELSE 'Maintenance request ' || lower(replace(event.status::text, '_', ' '))
+  END;
+  detail := '"' || event.request_title || '"' || COALESCE(': ' || NULLIF(btrim(event.note), ''), '');
+
+  PERFORM record_activity(
+    event.tenant_id, 'maintenance', 'maintenance_event:' || event.id,
+    title, detail, event.request_id, event.created_at
+  );
+  PERFORM record_activity(
+    event.landlord_id, 'maintenance', 'maintenance_event:' || event.id,
+    title, detail || ' · ' || event.property_name || COALESCE(' unit ' || event.unit_number, ''),
+    event.request_id, event.created_at
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_join_request_activity(_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request RECORD;
+  place TEXT;
+BEGIN
+  SELECT jr.*, p.name AS property_name, p.landlord_id, u.unit_number, pr.full_name AS tenant_name
+  INTO request
+  FROM join_requests jr
+  JOIN properties p ON p.id = jr.property_id
+  LEFT JOIN units u ON u.id = jr.unit_id
+  LEFT JOIN profiles pr ON pr.user_id = jr.tenant_id
+  WHERE jr.id = _request_id;
+
+  IF request.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  place := request.property_name || COALESCE(' unit ' || request.unit_number, '');
+
+  PERFORM record_activity(
+    request.tenant_id, 'join_request', 'join_request:' || request.id || ':submitted',
+    'Join request sent', 'You asked to join ' || place,
+    request.id, request.created_at, 'pending'
+  );
+  PERFORM record_activity(
+    request.landlord_id, 'join_request', 'join_request:' || request.id || ':submitted',
+    'New join request', COALESCE(request.tenant_name, 'A tenant') || ' asked to join ' || place,
+    request.id, request.created_at, 'pending'
+  );
+
+  IF request.status IN ('approved', 'rejected') THEN
+    PERFORM record_activity(
+      request.tenant_id, 'join_request', 'join_request:' || request.id || ':' || request.status,
+      CASE WHEN request.status = 'approved' THEN 'Join request approved' ELSE 'Join request declined' END,
+      'Your request to join ' || place || ' was '
+        || CASE WHEN request.status = 'approved' THEN 'approved' ELSE 'declined' END
+        || CASE WHEN request.status = 'rejected'
+             THEN COALESCE(': ' || NULLIF(btrim(request.rejection_reason), ''), '') ELSE '' END,
+      request.id, COALESCE(request.updated_at, now()),
+      CASE WHEN request.status = 'approved' THEN 'completed' ELSE 'failed' END
+    );
+    PERFORM record_activity(
+      request.landlord_id, 'join_request', 'join_request:' || request.id || ':' || request.status,
+      CASE WHEN request.status = 'approved' THEN 'Join request approved' ELSE 'Join request declined' END,
+      COALESCE(request.tenant_name, 'A tenant') || ' for ' || place,
+      request.id, COALESCE(request.updated_at, now()),
+      CASE WHEN request.status = 'approved' THEN 'completed' ELSE 'failed' END
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_lease_document_activity(_document_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  document RECORD;
+BEGIN
+  SELECT d.id, d.version, d.sent_at, t.tenant_id, p.landlord_id, p.name AS property_name,
+         u.unit_number, pr.full_name AS tenant_name
+  INTO document
+  FROM lease_documents d
+  JOIN tenancies t ON t.id = d.tenancy_id
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  LEFT JOIN profiles pr ON pr.user_id = t.tenant_id
+  WHERE d.id = _document_id;
+
+  IF document.id IS NULL OR document.sent_at IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM record_activity(
+    document.tenant_id, 'document', 'lease_document:' || document.id || ':sent',
+    'Lease ready to sign',
+    'Version ' || document.version || ' of your lease for ' || document.property_name
+      || ' unit ' || document.unit_number,
+    document.id, document.sent_at, 'pending'
+  );
+  PERFORM record_activity(
+    document.landlord_id, 'document', 'lease_document:' || document.id || ':sent',
+    'Lease sent',
+    'Version ' || document.version || ' sent to ' || COALESCE(document.tenant_name, 'the tenant')
+      || ' for ' || document.property_name || ' unit ' || document.unit_number,
+    document.id, document.sent_at, 'pending'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_lease_signature_activity(_signature_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  signature RECORD;
+  title TEXT;
+  detail TEXT;
+BEGIN
+  SELECT s.id, s.lease_document_id, s.signer_role, s.signer_name, s.signed_at, t.tenant_id,
+         p.landlord_id, p.name AS property_name, u.unit_number
+  INTO signature
+  FROM lease_signatures s
+  JOIN lease_documents d ON d.id = s.lease_document_id
+  JOIN tenancies t ON t.id = d.tenancy_id
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE s.id = _signature_id;
+
+  IF signature.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  title := CASE WHEN signature.signer_role = 'tenant' THEN 'Lease signed' ELSE 'Lease countersigned' END;
+  detail := signature.signer_name || ' signed the lease for ' || signature.property_name
+    || ' unit ' || signature.unit_number;
+
+  PERFORM record_activity(
+    signature.tenant_id, 'document', 'lease_signature:' || signature.id,
+    title, detail, signature.lease_document_id, signature.signed_at, 'completed'
+  );
+  PERFORM record_activity(
+    signature.landlord_id, 'document', 'lease_signature:' || signature.id,
+    title, detail, signature.lease_document_id, signature.signed_at, 'completed'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_message_activity(_message_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  message RECORD;
+  recipient UUID;
+  detail TEXT;
+BEGIN
+  SELECT m.id, m.body, m.sender_id, m.created_at, c.id AS conversation_id, c.landlord_id,
+         c.tenant_id, r.title AS maintenance_title, sender.full_name AS sender_name,
+         receiver.full_name AS recipient_name
+  INTO message
+  FROM messages m
+  JOIN conversations c ON c.id = m.conversation_id
+  LEFT JOIN maintenance_requests r ON r.id = c.maintenance_request_id
+  LEFT JOIN profiles sender ON sender.user_id = m.sender_id
+  LEFT JOIN profiles receiver ON receiver.user_id =
+    CASE WHEN m.sender_id = c.landlord_id THEN c.tenant_id ELSE c.landlord_id END
+  WHERE m.id = _message_id;
+
+  IF message.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  recipient := CASE WHEN message.sender_id = message.landlord_id THEN message.tenant_id ELSE message.landlord_id END;
+  detail := COALESCE('"' || message.maintenance_title || '": ', '')
+    || COALESCE(left(NULLIF(btrim(message.body), ''), 140), 'Sent an attachment');
+
+  PERFORM record_activity(
+    message.sender_id, 'message', 'message:' || message.id,
+    'You messaged ' || COALESCE(message.recipient_name, 'them'), detail,
+    message.conversation_id, message.created_at
+  );
+  PERFORM record_activity(
+    recipient, 'message', 'message:' || message.id,
+    'Message from ' || COALESCE(message.sender_name, 'your contact'), detail,
+    message.conversation_id, message.created_at
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_activity_from_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'payments' THEN PERFORM record_payment_activity(NEW.id);
+    WHEN 'maintenance_request_events' THEN PERFORM record_maintenance_activity(NEW.id);
+    WHEN 'join_requests' THEN PERFORM record_join_request_activity(NEW.id);
+    WHEN 'lease_documents' THEN PERFORM record_lease_document_activity(NEW.id);
+    WHEN 'lease_signatures' THEN PERFORM record_lease_signature_activity(NEW.id);
+    WHEN 'messages' THEN PERFORM record_message_activity(NEW.id);
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_payment_activity_trigger
+  AFTER INSERT OR UPDATE OF status ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION record_activity_from_trigger();
+
+CREATE TRIGGER record_maintenance_activity_trigger
+  AFTER INSERT ON maintenance_request_events
+  FOR EACH ROW
+  EXECUTE FUNCTION record_activity_from_trigger();
+
+CREATE TRIGGER record_join_request_activity_trigger
+  AFTER INSERT OR UPDATE OF status ON join_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION record_activity_from_trigger();
+
+CREATE TRIGGER record_lease_document_activity_trigger
+  AFTER INSERT OR UPDATE OF sent_at ON lease_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION record_activity_from_trigger();
+
+CREATE TRIGGER record_lease_signature_activity_trigger
+  AFTER INSERT ON lease_signatures
+  FOR EACH ROW
+  EXECUTE FUNCTION record_activity_from_trigger();
+
+CREATE TRIGGER record_message_activity_trigger
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION record_activity_from_trigger();
+
+-- One page of the caller's activity, newest first. Pass the occurred_at and id
+-- of the last event of the previous page to get the next one.
+CREATE OR REPLACE FUNCTION get_my_activity(
+  _types activity_type[] DEFAULT NULL,
+  _before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _before_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 20
+)
+RETURNS SETOF activity_events
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT *
+  FROM activity_events
+  WHERE user_id = auth.uid()
+    AND (_types IS NULL OR type = ANY (_types))
+    AND (_before IS NULL OR (occurred_at, id) < (_before, _before_id))
+  ORDER BY occurred_at DESC, id DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_activity(
+  UUID, activity_type, TEXT, TEXT, TEXT, UUID, TIMESTAMP WITH TIME ZONE, TEXT, NUMERIC
+) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_payment_activity(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_maintenance_activity(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_join_request_activity(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_lease_document_activity(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_lease_signature_activity(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_message_activity(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_activity_from_trigger() FROM PUBLIC, anon, authenticated;
+
+-- Existing history, so feeds do not start empty
+SELECT record_payment_activity(id) FROM payments;
+SELECT record_maintenance_activity(id) FROM maintenance_request_events;
+SELECT record_join_request_activity(id) FROM join_requests;
+SELECT record_lease_document_activity(id) FROM lease_documents WHERE sent_at IS NOT NULL;
+SELECT record_lease_signature_activity(id) FROM lease_signatures;
+SELECT record_message_activity(id) FROM messages;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE activity_events;
@@ -0,0 +1,145 @@
+-- Landlords can no longer write payments directly.
+--
+-- landlord_payments_access let a landlord insert a completed payment on any of
+-- their tenancies, which was posted to their payable balance and could then be
+-- withdrawn as a payout. Landlords now only read payments. Rent a tenant paid
+-- them in person is recorded through record_cash_payment(), and it is posted so
+-- that it settles what the tenant owes without adding to the landlord's
+-- withdrawable balance: the platform never held that money.
+
+DROP POLICY IF EXISTS "landlord_payments_access" ON payments;
+
+CREATE POLICY "landlord_payments_select" ON payments FOR SELECT
+USING (
+  tenancy_id IN (
+    SELECT t.id FROM tenancies t
+    JOIN units u ON u.id = t.unit_id
+    JOIN properties p ON p.id = u.property_id
+    WHERE p.landlord_id = auth.uid()
+  )
+);
+
+-- As before, plus cash payments, which clear the tenant's receivable against
+-- the landlord's accrued rent and never touch platform_cash or landlord_payable
+CREATE OR REPLACE FUNCTION post_payment_to_ledger(_payment_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment RECORD;
+  fee NUMERIC;
+  source_account UUID;
+BEGIN
+  SELECT pay.id, pay.amount, pay.method, pay.provider, pay.payment_type, pay.payment_date,
+         pay.processed_at, t.tenant_id, p.landlord_id
+  INTO payment
+  FROM payments pay
+  JOIN tenancies t ON t.id = pay.tenancy_id
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE pay.id = _payment_id;
+
+  -- A payment with no tenancy, unit or property behind it has nobody to post to
+  IF payment.id IS NULL THEN
+    PERFORM record_unposted_payment(_payment_id, 'Not linked to a tenancy');
+    RETURN NULL;
+  END IF;
+
+  IF payment.provider = 'cash' THEN
+    RETURN post_ledger_entry(
+      'payment',
+      payment.id,
+      'Rent payment in cash',
+      COALESCE(payment.processed_at, payment.payment_date::timestamptz),
+      jsonb_build_array(
+        jsonb_build_object('account_id', ledger_account_id('landlord_accrued', payment.landlord_id), 'debit', payment.amount),
+        jsonb_build_object('account_id', ledger_account_id('tenant_receivable', payment.tenant_id), 'credit', payment.amount)
+      )
+    );
+  END IF;
+
+  IF payment.payment_type = 'deposit' THEN
+    RETURN post_ledger_entry(
+      'payment',
+      payment.id,
+      'Security deposit via ' || payment.method,
+      COALESCE(payment.processed_at, payment.payment_date::timestamptz),
+      jsonb_build_array(
+        jsonb_build_object('account_id', ledger_account_id('platform_cash'), 'debit', payment.amount),
+        jsonb_build_object('account_id', ledger_account_id('deposits_held', payment.landlord_id), 'credit', payment.amount)
+      )
+    );
+  END IF;
+
+  SELECT round(payment.amount * payment_fee_percent / 100, 2) INTO fee
+  FROM platform_settings;
+
+  source_account := CASE
+    WHEN payment.method = 'Security deposit' THEN ledger_account_id('deposits_held', payment.landlord_id)
+    ELSE ledger_account_id('platform_cash')
+  END;
+
+  RETURN post_ledger_entry(
+    'payment',
+    payment.id,
+    'Rent payment via ' || payment.method,
+    COALESCE(payment.processed_at, payment.payment_date::timestamptz),
+    jsonb_build_array(
+      jsonb_build_object('account_id', source_account, 'debit', payment.amount),
+      jsonb_build_object('account_id', ledger_account_id('tenant_receivable', payment.tenant_id), 'credit', payment.amount),
+      jsonb_build_object('account_id', ledger_account_id('landlord_accrued', payment.landlord_id), 'debit', payment.amount),
+      jsonb_build_object('account_id', ledger_account_id('landlord_payable', payment.landlord_id), 'credit', payment.amount - COALESCE(fee, 0)),
+      jsonb_build_object('account_id', ledger_account_id('platform_revenue'), 'credit', COALESCE(fee, 0))
+    )
+  );
+END;
+$$;
+
+-- Records rent the tenant paid the landlord in person. It is applied to the
+-- tenancy's charges like any other payment. Deposits are always paid through
+-- the platform, which holds them until move-out.
+CREATE OR REPLACE FUNCTION record_cash_payment(
+  _tenancy_id UUID,
+  _amount NUMERIC,
+  _payment_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  landlord UUID;
+  new_payment UUID;
+BEGIN
+  SELECT p.landlord_id INTO landlord
+  FROM tenancies t
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE t.id = _tenancy_id;
+
+  IF landlord IS NULL OR caller IS NULL OR landlord IS DISTINCT FROM caller THEN
+    RAISE EXCEPTION 'Tenancy not found';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  IF _payment_date IS NULL OR _payment_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'The payment date cannot be in the future';
+  END IF;
+
+  -- Allocated to the charges and posted to the ledger by the payment triggers
+  INSERT INTO payments (tenancy_id, amount, payment_date, status, method, provider, payment_type, processed_at)
+  VALUES (_tenancy_id, round(_amount, 2), _payment_date, 'completed', 'Cash', 'cash', 'rent', now())
+  RETURNING id INTO new_payment;
+
+  RETURN new_payment;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION post_payment_to_ledger(UUID) FROM PUBLIC, anon, authenticated;
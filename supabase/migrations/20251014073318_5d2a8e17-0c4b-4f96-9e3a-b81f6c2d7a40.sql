@@ -0,0 +1,193 @@
+-- Invitations are matched against contacts Supabase Auth has verified.
+--
+-- invitation_matches_user compared phone-only invitations with profiles.phone,
+-- which the user can set to anything, and get_my_invitations returned the
+-- token of every invitation that matched. Anyone could claim an invitation by
+-- copying the invited number into their profile. An account now matches only
+-- through an email or phone it has confirmed with Supabase Auth, and accepting
+-- still takes the token from the invite link, which get_my_invitations no
+-- longer returns.
+--
+-- Sign-up is by email and password, so phone numbers are never confirmed with
+-- Auth. A phone-only invitation is accepted on its token alone: the link was
+-- sent to that phone, and the token is what proves the invitee received it.
+
+CREATE OR REPLACE FUNCTION invitation_matches_user(_invitation_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM invitations i
+    JOIN auth.users au ON au.id = _user_id
+    WHERE i.id = _invitation_id
+      AND (
+        (i.email IS NOT NULL AND au.email_confirmed_at IS NOT NULL AND lower(i.email) = lower(au.email))
+        OR (i.phone IS NOT NULL AND au.phone_confirmed_at IS NOT NULL
+            AND normalize_phone(i.phone) = normalize_phone(au.phone))
+      )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION invitation_matches_user(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- The return type changes, so it has to be dropped first
+DROP FUNCTION IF EXISTS get_my_invitations();
+
+-- Pending invitations sent to the caller's verified email or phone. These are
+-- accepted through the invite link, so the token is left out.
+CREATE OR REPLACE FUNCTION get_my_invitations()
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  phone TEXT,
+  full_name TEXT,
+  status invitation_status,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  rent_amount NUMERIC,
+  deposit_amount NUMERIC,
+  billing_cycle billing_cycle,
+  start_date DATE,
+  unit_number TEXT,
+  property_name TEXT,
+  landlord_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.id, i.email, i.phone, i.full_name, i.status, i.expires_at,
+         i.rent_amount, i.deposit_amount, i.billing_cycle, i.start_date,
+         u.unit_number, p.name, l.full_name
+  FROM invitations i
+  JOIN units u ON u.id = i.unit_id
+  JOIN properties p ON p.id = u.property_id
+  LEFT JOIN profiles l ON l.user_id = i.landlord_id
+  WHERE i.status = 'pending'
+    AND i.expires_at > now()
+    AND invitation_matches_user(i.id, auth.uid())
+  ORDER BY i.created_at DESC;
+$$;
+
+-- With email confirmation on, an account signed up through an invite link is
+-- not verified yet when handle_new_user() runs, so the invitation is accepted
+-- once the email or phone is confirmed. As at sign-up, a failure is only logged.
+CREATE OR REPLACE FUNCTION handle_user_confirmed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation_id UUID;
+BEGIN
+  SELECT id INTO invitation_id
+  FROM invitations
+  WHERE token = NEW.raw_user_meta_data->>'invite_token'
+    AND status = 'pending';
+
+  IF invitation_id IS NOT NULL THEN
+    BEGIN
+      PERFORM accept_invitation_for_user(invitation_id, NEW.id);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Could not accept invitation for user %: %', NEW.id, SQLERRM;
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_confirmed ON auth.users;
+CREATE TRIGGER on_auth_user_confirmed
+  AFTER UPDATE OF email_confirmed_at, phone_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (
+    NEW.raw_user_meta_data->>'invite_token' IS NOT NULL
+    AND (
+      (OLD.email_confirmed_at IS NULL AND NEW.email_confirmed_at IS NOT NULL)
+      OR (OLD.phone_confirmed_at IS NULL AND NEW.phone_confirmed_at IS NOT NULL)
+    )
+  )
+  EXECUTE FUNCTION handle_user_confirmed();
+
+-- Every caller reaches this through an invitation's token (accept_invitation()
+-- or the invite_token in the sign-up metadata), which is all a phone-only
+-- invitation is matched on
+CREATE OR REPLACE FUNCTION accept_invitation_for_user(_invitation_id UUID, _user_id UUID)
+RETURNS tenancies
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation invitations;
+  unit RECORD;
+  new_tenancy tenancies;
+BEGIN
+  SELECT * INTO invitation
+  FROM invitations
+  WHERE id = _invitation_id
+  FOR UPDATE;
+
+  IF invitation.id IS NULL OR _user_id IS NULL
+    OR (invitation.email IS NOT NULL AND NOT invitation_matches_user(invitation.id, _user_id))
+  THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF invitation.status <> 'pending' THEN
+    RAISE EXCEPTION 'This invitation has already been %', invitation.status;
+  END IF;
+
+  IF invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invitation has expired. Ask your landlord to send a new one.';
+  END IF;
+
+  IF get_user_role(_user_id) IS DISTINCT FROM 'tenant' THEN
+    RAISE EXCEPTION 'Invitations can only be accepted from a tenant account';
+  END IF;
+
+  SELECT u.id, u.status
+  INTO unit
+  FROM units u
+  WHERE u.id = invitation.unit_id
+  FOR UPDATE;
+
+  IF unit.id IS NULL THEN
+    RAISE EXCEPTION 'Unit not found';
+  END IF;
+
+  IF unit.status = 'occupied' OR unit_is_occupied(unit.id) THEN
+    RAISE EXCEPTION 'This unit is already occupied';
+  END IF;
+
+  -- Becomes active once the lease is signed by both parties
+  INSERT INTO tenancies (
+    tenant_id, unit_id, rent_amount, deposit_amount, billing_cycle, billing_day,
+    start_date, end_date, status
+  )
+  VALUES (
+    _user_id, unit.id, invitation.rent_amount, invitation.deposit_amount,
+    invitation.billing_cycle, invitation.billing_day, invitation.start_date,
+    invitation.end_date, 'pending_signature'
+  )
+  RETURNING * INTO new_tenancy;
+
+  UPDATE invitations
+  SET status = 'accepted', accepted_by = _user_id, accepted_at = now(), tenancy_id = new_tenancy.id
+  WHERE id = invitation.id;
+
+  UPDATE units
+  SET status = 'occupied'
+  WHERE id = unit.id;
+
+  RETURN new_tenancy;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION accept_invitation_for_user(UUID, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,365 @@
+-- Deposit refunds are paid out rather than only booked.
+--
+-- settle_deposit() credited the refund to platform_cash straight away, but no
+-- money was sent to the tenant. The refund is now a payout of kind
+-- 'deposit_refund' to the tenant's MTN MoMo number, sent by the momo-disburse
+-- worker like any landlord payout. Until it completes the refund stays in the
+-- landlord's deposits_held account, since the platform still holds that money;
+-- completing it moves it out of platform_cash. A failed refund can be sent
+-- again, to a corrected number, with retry_deposit_refund().
+
+CREATE TYPE payout_kind AS ENUM ('landlord_payout', 'deposit_refund');
+
+ALTER TYPE ledger_entry_type ADD VALUE IF NOT EXISTS 'deposit_refund';
+
+ALTER TABLE payouts
+  ADD COLUMN kind payout_kind NOT NULL DEFAULT 'landlord_payout',
+  ADD COLUMN tenant_id UUID REFERENCES profiles(user_id) ON DELETE SET NULL,
+  ADD COLUMN deposit_settlement_id UUID UNIQUE REFERENCES deposit_settlements(id) ON DELETE RESTRICT,
+  ADD CONSTRAINT payouts_deposit_refund_check
+    CHECK ((kind = 'deposit_refund') = (deposit_settlement_id IS NOT NULL));
+
+CREATE INDEX idx_payouts_tenant_id ON payouts(tenant_id);
+
+-- Tenants follow their refund; landlords already see every payout on their account
+CREATE POLICY "tenants_can_view_own_deposit_refunds" ON payouts
+FOR SELECT USING (kind = 'deposit_refund' AND tenant_id = auth.uid());
+
+-- Refunds are drawn from deposits_held, not from what the landlord is owed
+CREATE OR REPLACE FUNCTION get_landlord_available_balance(_landlord_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payable NUMERIC;
+  reserved NUMERIC;
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND auth.uid() <> _landlord_id
+     AND get_user_role(auth.uid()) <> 'admin' THEN
+    RAISE EXCEPTION 'Not allowed to view this balance';
+  END IF;
+
+  SELECT COALESCE(SUM(ledger_account_balance(id)), 0) INTO payable
+  FROM ledger_accounts
+  WHERE kind = 'landlord_payable' AND owner_id = _landlord_id;
+
+  SELECT COALESCE(SUM(amount), 0) INTO reserved
+  FROM payouts
+  WHERE landlord_id = _landlord_id
+    AND kind = 'landlord_payout'
+    AND status IN ('pending', 'processing');
+
+  RETURN payable - reserved;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION post_payout_to_ledger(_payout_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payout RECORD;
+BEGIN
+  SELECT id, kind, landlord_id, amount, phone_number, processed_at INTO payout
+  FROM payouts
+  WHERE id = _payout_id;
+
+  IF payout.kind = 'deposit_refund' THEN
+    RETURN post_ledger_entry(
+      'deposit_refund',
+      payout.id,
+      'Deposit refund to MTN MoMo ' || payout.phone_number,
+      COALESCE(payout.processed_at, now()),
+      jsonb_build_array(
+        jsonb_build_object('account_id', ledger_account_id('deposits_held', payout.landlord_id), 'debit', payout.amount),
+        jsonb_build_object('account_id', ledger_account_id('platform_cash'), 'credit', payout.amount)
+      )
+    );
+  END IF;
+
+  RETURN post_ledger_entry(
+    'payout',
+    payout.id,
+    'Payout to MTN MoMo ' || payout.phone_number,
+    COALESCE(payout.processed_at, now()),
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_account_id('landlord_payable', payout.landlord_id), 'debit', payout.amount),
+      jsonb_build_object('account_id', ledger_account_id('platform_cash'), 'credit', payout.amount)
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION post_payout_to_ledger(UUID) FROM PUBLIC, anon, authenticated;
+
+-- As before, except that the refund is queued as a payout to the tenant
+CREATE OR REPLACE FUNCTION settle_deposit(
+  _tenancy_id UUID,
+  _move_out_date DATE,
+  _deductions JSONB DEFAULT '[]'::jsonb,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS deposit_settlements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  tenancy RECORD;
+  held NUMERIC;
+  unpaid_rent NUMERIC;
+  rent_deduction NUMERIC;
+  other_deductions NUMERIC;
+  deduction RECORD;
+  refund_phone TEXT;
+  settlement deposit_settlements;
+BEGIN
+  SELECT t.id, t.status, t.start_date, t.end_date, t.unit_id, t.tenant_id, p.landlord_id
+  INTO tenancy
+  FROM tenancies t
+  JOIN units u ON u.id = t.unit_id
+  JOIN properties p ON p.id = u.property_id
+  WHERE t.id = _tenancy_id
+  FOR UPDATE OF t;
+
+  IF tenancy.id IS NULL OR caller IS NULL OR tenancy.landlord_id IS DISTINCT FROM caller THEN
+    RAISE EXCEPTION 'Tenancy not found';
+  END IF;
+
+  IF tenancy.status NOT IN ('active', 'pending_signature', 'pending_start', 'expired') THEN
+    RAISE EXCEPTION 'This tenancy has already ended';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM tenancies
+    WHERE previous_tenancy_id = tenancy.id AND status IN ('active', 'pending_signature', 'pending_start')
+  ) THEN
+    RAISE EXCEPTION 'This tenancy has been renewed. Move the tenant out of the renewed tenancy instead.';
+  END IF;
+
+  IF _move_out_date IS NULL OR _move_out_date < tenancy.start_date THEN
+    RAISE EXCEPTION 'The move-out date cannot be before the tenancy started';
+  END IF;
+
+  -- An expired tenancy has been billed to its end date already
+  IF tenancy.status = 'expired' AND _move_out_date > tenancy.end_date THEN
+    RAISE EXCEPTION 'This tenancy ended on %', tenancy.end_date;
+  END IF;
+
+  IF jsonb_typeof(COALESCE(_deductions, '[]'::jsonb)) <> 'array' THEN
+    RAISE EXCEPTION 'Deductions must be a list';
+  END IF;
+
+  FOR deduction IN
+    SELECT *
+    FROM jsonb_to_recordset(COALESCE(_deductions, '[]'::jsonb))
+      AS d(deduction_type deposit_deduction_type, description TEXT, amount NUMERIC)
+  LOOP
+    IF deduction.deduction_type IS NULL OR deduction.deduction_type = 'unpaid_rent' THEN
+      RAISE EXCEPTION 'Choose a deduction type other than unpaid rent';
+    END IF;
+    IF COALESCE(btrim(deduction.description), '') = '' THEN
+      RAISE EXCEPTION 'Describe each deduction';
+    END IF;
+    IF deduction.amount IS NULL OR deduction.amount <= 0 THEN
+      RAISE EXCEPTION 'Deduction amounts must be greater than zero';
+    END IF;
+  END LOOP;
+
+  -- Bill the tenancy up to the day the tenant leaves, pro-rating the last period
+  IF tenancy.status <> 'expired' THEN
+    UPDATE tenancies SET end_date = _move_out_date WHERE id = tenancy.id;
+    PERFORM generate_rent_charges(tenancy.id, _move_out_date);
+  END IF;
+
+  held := tenancy_deposit_held(tenancy.id);
+
+  SELECT COALESCE(SUM(balance), 0) INTO unpaid_rent
+  FROM rent_charge_balances
+  WHERE tenancy_id = tenancy.id AND due_date <= _move_out_date;
+
+  rent_deduction := LEAST(held, unpaid_rent);
+
+  SELECT COALESCE(SUM(round(amount, 2)), 0) INTO other_deductions
+  FROM jsonb_to_recordset(COALESCE(_deductions, '[]'::jsonb)) AS d(amount NUMERIC);
+
+  IF rent_deduction + other_deductions > held THEN
+    RAISE EXCEPTION 'Deductions of % exceed the % deposit held (% of it covers unpaid rent)',
+      rent_deduction + other_deductions, held, rent_deduction;
+  END IF;
+
+  -- The number the deposit was paid from, else the one on the tenant's profile
+  SELECT COALESCE(
+    (SELECT NULLIF(btrim(phone_number), '') FROM payments
+     WHERE tenancy_id = tenancy.id AND payment_type = 'deposit' AND status = 'completed'
+     ORDER BY COALESCE(processed_at, payment_date::timestamptz) DESC
+     LIMIT 1),
+    (SELECT NULLIF(btrim(phone), '') FROM profiles WHERE user_id = tenancy.tenant_id)
+  ) INTO refund_phone;
+
+  IF held - rent_deduction - other_deductions > 0 AND refund_phone IS NULL THEN
+    RAISE EXCEPTION 'The tenant has no phone number to refund their deposit to';
+  END IF;
+
+  INSERT INTO deposit_settlements (
+    tenancy_id, move_out_date, deposit_held, total_deductions, refund_amount, notes, settled_by
+  )
+  VALUES (
+    tenancy.id, _move_out_date, held, rent_deduction + other_deductions,
+    held - rent_deduction - other_deductions, NULLIF(btrim(_notes), ''), caller
+  )
+  RETURNING * INTO settlement;
+
+  IF rent_deduction > 0 THEN
+    INSERT INTO deposit_deductions (settlement_id, deduction_type, description, amount)
+    VALUES (settlement.id, 'unpaid_rent', 'Unpaid rent and fees', rent_deduction);
+
+    -- Allocated to the unpaid charges and posted to the ledger by the payment triggers
+    INSERT INTO payments (tenancy_id, amount, payment_date, status, method, payment_type, processed_at)
+    VALUES (tenancy.id, rent_deduction, _move_out_date, 'completed', 'Security deposit', 'rent', now());
+  END IF;
+
+  INSERT INTO deposit_deductions (settlement_id, deduction_type, description, amount)
+  SELECT settlement.id, d.deduction_type, btrim(d.description), round(d.amount, 2)
+  FROM jsonb_to_recordset(COALESCE(_deductions, '[]'::jsonb))
+    AS d(deduction_type deposit_deduction_type, description TEXT, amount NUMERIC);
+
+  IF other_deductions > 0 THEN
+    PERFORM post_ledger_entry(
+      'deposit_settlement',
+      settlement.id,
+      'Security deposit settlement',
+      _move_out_date::timestamptz,
+      jsonb_build_array(
+        jsonb_build_object('account_id', ledger_account_id('deposits_held', tenancy.landlord_id), 'debit', other_deductions),
+        jsonb_build_object('account_id', ledger_account_id('landlord_payable', tenancy.landlord_id), 'credit', other_deductions)
+      )
+    );
+  END IF;
+
+  -- Posted from deposits_held to platform_cash once the worker has sent it
+  IF settlement.refund_amount > 0 THEN
+    INSERT INTO payouts (landlord_id, amount, phone_number, kind, tenant_id, deposit_settlement_id)
+    VALUES (tenancy.landlord_id, settlement.refund_amount, refund_phone, 'deposit_refund', tenancy.tenant_id, settlement.id);
+  END IF;
+
+  UPDATE tenancies SET status = 'terminated' WHERE id = tenancy.id;
+
+  UPDATE lease_renewals
+  SET status = 'withdrawn', responded_at = now()
+  WHERE tenancy_id = tenancy.id AND status = 'offered';
+
+  IF NOT unit_is_occupied(tenancy.unit_id) THEN
+    UPDATE units SET status = 'vacant' WHERE id = tenancy.unit_id;
+  END IF;
+
+  RETURN settlement;
+END;
+$$;
+
+-- Sends a failed deposit refund again, optionally to another number. MTN has
+-- already declined the old reference, so the retry gets a new one.
+CREATE OR REPLACE FUNCTION retry_deposit_refund(_payout_id UUID, _phone_number TEXT DEFAULT NULL)
+RETURNS payouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  refund payouts;
+BEGIN
+  SELECT * INTO refund
+  FROM payouts
+  WHERE id = _payout_id AND kind = 'deposit_refund'
+  FOR UPDATE;
+
+  IF refund.id IS NULL OR caller IS NULL
+     OR (caller IS DISTINCT FROM refund.tenant_id AND get_user_role(caller) <> 'admin') THEN
+    RAISE EXCEPTION 'Refund not found';
+  END IF;
+
+  IF refund.status <> 'failed' THEN
+    RAISE EXCEPTION 'Only a failed refund can be sent again';
+  END IF;
+
+  UPDATE payouts
+  SET status = 'pending',
+      phone_number = COALESCE(NULLIF(btrim(_phone_number), ''), phone_number),
+      provider_reference = NULL,
+      submitted_at = NULL,
+      attempts = 0,
+      failure_reason = NULL,
+      processed_at = NULL,
+      next_attempt_at = now()
+  WHERE id = refund.id
+  RETURNING * INTO refund;
+
+  RETURN refund;
+END;
+$$;
+
+-- The payee of a refund is the tenant
+CREATE OR REPLACE FUNCTION notify_payout_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.kind = 'deposit_refund' THEN
+    IF NEW.status = 'completed' THEN
+      PERFORM notify_user(
+        NEW.tenant_id,
+        'payout_completed',
+        'Deposit refunded',
+        format_notification_amount(NEW.amount) || ' of your deposit was sent to ' || NEW.phone_number,
+        NEW.id
+      );
+    ELSIF NEW.status = 'failed' THEN
+      PERFORM notify_user(
+        NEW.tenant_id,
+        'payout_failed',
+        'Deposit refund failed',
+        'Your deposit refund of ' || format_notification_amount(NEW.amount) || ' could not be sent'
+          || COALESCE(': ' || NEW.failure_reason, ''),
+        NEW.id
+      );
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'completed' THEN
+    PERFORM notify_user(
+      NEW.landlord_id,
+      'payout_completed',
+      'Payout sent',
+      format_notification_amount(NEW.amount) || ' was sent to ' || NEW.phone_number,
+      NEW.id
+    );
+  ELSIF NEW.status = 'failed' THEN
+    PERFORM notify_user(
+      NEW.landlord_id,
+      'payout_failed',
+      'Payout failed',
+      'Your payout of ' || format_notification_amount(NEW.amount) || ' could not be sent'
+        || COALESCE(': ' || NEW.failure_reason, ''),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
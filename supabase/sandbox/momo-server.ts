@@ -0,0 +1,194 @@
+// Local stand-in for the MTN MoMo Open API, for testing payments offline.
+//
+//   deno run --allow-net --allow-env supabase/sandbox/momo-server.ts
+//
+// Then serve the edge functions with MOMO_PROVIDER=sandbox (and MOMO_SANDBOX_URL
+// if this server is not on http://localhost:8787). It implements the subset of the
+// API the app uses: token, request-to-pay and status for collections, and
+// token, transfer and status for disbursements. Transactions are kept in memory
+// and reset when the server restarts.
+//
+// The outcome of a request is chosen by the last digit of the phone number:
+//
+//   ...0  FAILED (payer declined / payee not found)
+//   ...1  stays PENDING forever (use it to test timeouts)
+//   ...2  the first create for a reference answers 500, retries are accepted
+//   other SUCCESSFUL
+//
+// MOMO_SANDBOX_OUTCOME=success|failure|timeout|error overrides this for every
+// request ('error' answers every create with 500). MOMO_SANDBOX_DELAY_MS (default
+// 3000) sets how long a request stays PENDING before it resolves, and
+// MOMO_SANDBOX_RESPONSE_DELAY_MS (default 0) holds every HTTP response, to push
+// callers past MOMO_HTTP_TIMEOUT_MS. When the request carried an X-Callback-Url,
+// the resolved transaction is POSTed there, as MTN does.
+
+type Status = 'PENDING' | 'SUCCESSFUL' | 'FAILED';
+type Product = 'collection' | 'disbursement';
+
+interface SandboxTransaction {
+  referenceId: string;
+  product: Product;
+  amount: string;
+  currency: string;
+  externalId: string;
+  partyId: string;
+  status: Status;
+  reason?: string;
+  financialTransactionId?: string;
+}
+
+const port = Number(Deno.env.get('MOMO_SANDBOX_PORT') ?? 8787);
+const delayMs = Number(Deno.env.get('MOMO_SANDBOX_DELAY_MS') ?? 3000);
+const responseDelayMs = Number(Deno.env.get('MOMO_SANDBOX_RESPONSE_DELAY_MS') ?? 0);
+const forcedOutcome = Deno.env.get('MOMO_SANDBOX_OUTCOME');
+
+const transactions = new Map<string, SandboxTransaction>();
+// References that already got their one simulated server error
+const flakyReferences = new Set<string>();
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const decideOutcome = (partyId: string): Status => {
+  if (forcedOutcome === 'success') return 'SUCCESSFUL';
+  if (forcedOutcome === 'failure') return 'FAILED';
+  if (forcedOutcome === 'timeout') return 'PENDING';
+
+  switch (partyId.slice(-1)) {
+    case '0':
+      return 'FAILED';
+    case '1':
+      return 'PENDING';
+    default:
+      return 'SUCCESSFUL';
+  }
+};
+
+const shouldFailCreate = (referenceId: string, partyId: string) => {
+  if (forcedOutcome === 'error') return true;
+  if (forcedOutcome || !partyId.endsWith('2') || flakyReferences.has(referenceId)) return false;
+
+  flakyReferences.add(referenceId);
+  return true;
+};
+
+const toApiBody = (transaction: SandboxTransaction) => ({
+  referenceId: transaction.referenceId,
+  amount: transaction.amount,
+  currency: transaction.currency,
+  externalId: transaction.externalId,
+  [transaction.product === 'collection' ? 'payer' : 'payee']: {
+    partyIdType: 'MSISDN',
+    partyId: transaction.partyId,
+  },
+  status: transaction.status,
+  financialTransactionId: transaction.financialTransactionId,
+  reason: transaction.reason,
+});
+
+const resolveLater = (transaction: SandboxTransaction, callbackUrl: string | null) => {
+  const outcome = decideOutcome(transaction.partyId);
+  if (outcome === 'PENDING') return;
+
+  setTimeout(async () => {
+    transaction.status = outcome;
+    if (outcome === 'SUCCESSFUL') {
+      transaction.financialTransactionId = String(Math.floor(Math.random() * 1e9));
+    } else {
+      transaction.reason = transaction.product === 'collection' ? 'APPROVAL_REJECTED' : 'PAYEE_NOT_FOUND';
+    }
+    console.log(`[momo-sandbox] ${transaction.product} ${transaction.referenceId} -> ${outcome}`);
+
+    if (callbackUrl) {
+      try {
+        await fetch(callbackUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(toApiBody(transaction)),
+        });
+      } catch (error) {
+        console.error(`[momo-sandbox] callback to ${callbackUrl} failed:`, error);
+      }
+    }
+  }, delayMs);
+};
+
+const handleCreate = async (req: Request, product: Product) => {
+  const referenceId = req.headers.get('X-Reference-Id');
+  if (!referenceId) return json({ code: 'RESOURCE_NOT_FOUND', message: 'Missing X-Reference-Id' }, 400);
+  if (transactions.has(referenceId)) {
+    return json({ code: 'RESOURCE_ALREADY_EXIST', message: 'Duplicated reference id' }, 409);
+  }
+
+  const body = await req.json();
+  const party = product === 'collection' ? body.payer : body.payee;
+  if (!party?.partyId || !body.amount) {
+    return json({ code: 'INVALID_REQUEST', message: 'amount and party are required' }, 400);
+  }
+
+  if (shouldFailCreate(referenceId, String(party.partyId))) {
+    console.log(`[momo-sandbox] ${product} ${referenceId} simulated server error`);
+    return json({ code: 'INTERNAL_PROCESSING_ERROR', message: 'Simulated server error' }, 500);
+  }
+
+  const transaction: SandboxTransaction = {
+    referenceId,
+    product,
+    amount: String(body.amount),
+    currency: body.currency,
+    externalId: body.externalId,
+    partyId: String(party.partyId),
+    status: 'PENDING',
+  };
+  transactions.set(referenceId, transaction);
+  resolveLater(transaction, req.headers.get('X-Callback-Url'));
+
+  console.log(`[momo-sandbox] ${product} ${referenceId} created for ${transaction.partyId}`);
+  return new Response(null, { status: 202 });
+};
+
+const handleStatus = (referenceId: string, product: Product) => {
+  const transaction = transactions.get(referenceId);
+  if (!transaction || transaction.product !== product) {
+    return json({ code: 'RESOURCE_NOT_FOUND', message: 'Requested resource was not found' }, 404);
+  }
+  return json(toApiBody(transaction));
+};
+
+// Resource path under /{product}/v1_0/ for each product's transactions
+const resources: Record<Product, string> = {
+  collection: 'requesttopay',
+  disbursement: 'transfer',
+};
+
+const route = (req: Request, pathname: string) => {
+  const tokenMatch = pathname.match(/^\/(collection|disbursement)\/token\/?$/);
+  if (tokenMatch && req.method === 'POST') {
+    return json({ access_token: crypto.randomUUID(), token_type: 'access_token', expires_in: 3600 });
+  }
+
+  for (const product of Object.keys(resources) as Product[]) {
+    const base = `/${product}/v1_0/${resources[product]}`;
+
+    if (req.method === 'POST' && pathname === base) {
+      return handleCreate(req, product);
+    }
+
+    if (req.method === 'GET' && pathname.startsWith(`${base}/`)) {
+      const referenceId = pathname.slice(base.length + 1);
+      if (/^[\w-]+$/.test(referenceId)) return handleStatus(referenceId, product);
+    }
+  }
+
+  return json({ code: 'NOT_FOUND', message: `No sandbox route for ${req.method} ${pathname}` }, 404);
+};
+
+Deno.serve({ port }, async (req) => {
+  const { pathname } = new URL(req.url);
+  if (responseDelayMs > 0) {
+    await new Promise((resolve) => setTimeout(resolve, responseDelayMs));
+  }
+  return route(req, pathname);
+});
+
+console.log(`[momo-sandbox] listening on http://localhost:${port}`);
@@ -0,0 +1,43 @@
+-- Run with `npm run test:db` (supabase test db)
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+-- A payment the provider confirms but that is not linked to a tenancy, as a
+-- MoMo callback would see it
+INSERT INTO payments (id, amount, method, provider, status)
+VALUES ('6f1d2c3b-0000-4000-8000-000000000001', 150, 'MTN MoMo', 'mtn', 'pending');
+
+SELECT lives_ok(
+  $$UPDATE payments SET status = 'completed', processed_at = now()
+    WHERE id = '6f1d2c3b-0000-4000-8000-000000000001'$$,
+  'completing an unlinked payment does not fail'
+);
+
+SELECT is(
+  (SELECT status::text FROM payments WHERE id = '6f1d2c3b-0000-4000-8000-000000000001'),
+  'completed',
+  'the status change is kept'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM ledger_entries WHERE source_id = '6f1d2c3b-0000-4000-8000-000000000001'),
+  0,
+  'nothing is posted for it'
+);
+
+SELECT is(
+  (SELECT reason FROM unposted_payments WHERE payment_id = '6f1d2c3b-0000-4000-8000-000000000001'),
+  'Not linked to a tenancy',
+  'it is listed for reconciliation'
+);
+
+SELECT is(
+  post_payment_to_ledger('6f1d2c3b-0000-4000-8000-000000000001'),
+  NULL,
+  'posting it directly is skipped'
+);
+
+SELECT * FROM finish();
+ROLLBACK;